@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { beforeAll, describe, expect, it } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { applyGuess, createSession, encodeSession } from '@/lib/game-session'
+import { RATE_LIMITS, middleware } from '@/middleware'
+import { POST as generateWord } from '../claude/generate-word/route'
+import { POST as guess } from '../game/guess/route'
+import { POST as getHint } from '../claude/get-hint/route'
+import { POST as coaching } from '../claude/coaching/route'
+import { POST as gameOver } from '../claude/game-over/route'
+
+// Every route runs against the deterministic mock provider, so no API key or network is needed
+
+beforeAll(() => {
+  process.env.LLM_PROVIDER = 'mock'
+  process.env.ENABLE_INTERACTIVE_COACHING = 'true'
+})
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  })
+}
+
+const playingToken = () => encodeSession(createSession('CRANE', 'original'))
+const finishedToken = () => encodeSession(applyGuess(createSession('CRANE', 'original'), 'CRANE').session)
+
+describe('/api/claude/generate-word', () => {
+  it('starts a game without revealing the word', async () => {
+    const response = await generateWord(post('/api/claude/generate-word', { theme: 'space', wordLength: 5 }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(typeof data.sessionToken).toBe('string')
+    expect(data.wordLength).toBe(5)
+    expect(data).not.toHaveProperty('targetWord')
+  })
+
+  it('rejects an unknown theme', async () => {
+    const response = await generateWord(post('/api/claude/generate-word', { theme: 'nonsense' }))
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/game/guess', () => {
+  it('scores a guess and hands back the next token', async () => {
+    const response = await guess(post('/api/game/guess', { sessionToken: playingToken(), guess: 'crate' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.result.word).toBe('CRATE')
+    expect(data.gameState).toBe('playing')
+    expect(typeof data.sessionToken).toBe('string')
+  })
+
+  it('rejects a word that is not in the list', async () => {
+    const response = await guess(post('/api/game/guess', { sessionToken: playingToken(), guess: 'XQZVW' }))
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/claude/get-hint', () => {
+  it('serves the first rung of the hint ladder', async () => {
+    const response = await getHint(post('/api/claude/get-hint', { sessionToken: playingToken(), personality: 'lasso' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.hintType).toBe('gentle')
+    expect(data.hint).toEqual(expect.any(String))
+  })
+
+  it('rejects an invalid session', async () => {
+    const response = await getHint(post('/api/claude/get-hint', { sessionToken: 'not-a-token' }))
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/claude/coaching', () => {
+  it('coaches a full-length guess', async () => {
+    const response = await coaching(post('/api/claude/coaching', { sessionToken: playingToken(), currentGuess: 'SLATE' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.coaching).toEqual(expect.any(String))
+  })
+
+  it('rejects a guess that is not a word of the game\'s length', async () => {
+    const response = await coaching(post('/api/claude/coaching', { sessionToken: playingToken(), currentGuess: 'SL"ATE' }))
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/claude/game-over', () => {
+  it('signs off a finished game', async () => {
+    const response = await gameOver(post('/api/claude/game-over', { sessionToken: finishedToken() }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.feedback).toEqual(expect.any(String))
+  })
+
+  it('rejects an unknown mode', async () => {
+    const response = await gameOver(post('/api/claude/game-over', { sessionToken: finishedToken(), mode: 'roast' }))
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('middleware rate limits', () => {
+  it.each(Object.keys(RATE_LIMITS))('answers %s with 429 once its bucket is empty', async path => {
+    // A fresh client per route, so the buckets don't share tokens
+    const headers = { 'x-forwarded-for': `10.0.0.${Object.keys(RATE_LIMITS).indexOf(path) + 1}` }
+
+    for (let i = 0; i < RATE_LIMITS[path].maxRequests; i++) {
+      expect((await middleware(post(path, {}, headers))).status).toBe(200)
+    }
+
+    const limited = await middleware(post(path, {}, headers))
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect((await limited.json()).error).toBe('Rate limit exceeded')
+  })
+})
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { claudeClient, checkApiKey } from '@/lib/claude-client'
-import { THEMES, ThemeKey, Personality } from '@/lib/game-types'
+import { completeText, LLMRequest } from '@/lib/llm-provider'
+import { wantsEventStream, createTextEventStream } from '@/lib/sse'
+import { resolveSession, getSessionResults, getSessionTheme } from '@/lib/game-session'
+import { summarizeClues } from '@/lib/utils'
+import { getPersonality, getPersonalityPrompt } from '@/lib/personality-registry'
+import { describeThemeForPrompt } from '@/lib/custom-themes'
 
 export async function POST(request: NextRequest) {
+  let coach = getPersonality(null)
+
   try {
     // Feature flag check - disabled by default for cost control
     const enableInteractiveCoaching = process.env.ENABLE_INTERACTIVE_COACHING === 'true'
@@ -14,50 +20,54 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    checkApiKey()
-
     const {
-      targetWord,
-      guesses,
+      sessionToken,
+      daily,
       currentGuess,
-      theme = 'original',
-      personality = 'lasso'
+      personality
     } = await request.json()
+    coach = getPersonality(personality)
 
     // Validate inputs
-    if (!targetWord || !Array.isArray(guesses) || !currentGuess) {
+    if (!currentGuess) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       )
     }
 
-    const themeData = THEMES[theme as ThemeKey]
+    // The target word comes from the session (or the daily puzzle), never from the client
+    const session = resolveSession({ sessionToken, daily })
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired game session' },
+        { status: 400 }
+      )
+    }
+
+    const { guesses, theme, wordLength, maxGuesses } = session
+
+    // The guess goes into the prompt, so only a plain word of the game's length gets through
+    const guess = typeof currentGuess === 'string' ? currentGuess.toUpperCase() : ''
+    if (!new RegExp(`^[A-Z]{${wordLength}}$`).test(guess)) {
+      return NextResponse.json(
+        { error: `The guess must be ${wordLength} letters` },
+        { status: 400 }
+      )
+    }
+    const themeData = getSessionTheme(session)
     const guessCount = guesses.length
 
-    // Analyze game state for sophisticated coaching
-    const wrongLetters = new Set<string>()
-    const correctLetters: Array<{ letter: string; position: number }> = []
-    const wrongPositions: Array<{ letter: string; position: number }> = []
-
-    // Analyze all previous guesses
-    guesses.forEach((guess: string) => {
-      for (let i = 0; i < 5; i++) {
-        const letter = guess[i]
-        if (targetWord[i] === letter) {
-          correctLetters.push({ letter, position: i + 1 })
-        } else if (targetWord.includes(letter)) {
-          wrongPositions.push({ letter, position: i + 1 })
-        } else {
-          wrongLetters.add(letter)
-        }
-      }
-    })
+    // Analyze all previous guesses with the same scorer as the board (handles duplicate letters)
+    const clues = summarizeClues(getSessionResults(session))
+    const wrongLetters = new Set(clues.absentLetters)
+    const correctLetters = clues.correctLetters
+    const wrongPositions = clues.presentLetters
 
     // Analyze the current guess without revealing if it's correct
     const guessAnalysis: string[] = []
-    for (let i = 0; i < 5; i++) {
-      const letter = currentGuess[i]
+    for (let i = 0; i < wordLength; i++) {
+      const letter = guess[i]
       if (wrongLetters.has(letter)) {
         guessAnalysis.push(`${letter} (position ${i + 1}): Already ruled out`)
       } else if (correctLetters.some(c => c.letter === letter && c.position === i + 1)) {
@@ -67,13 +77,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const personalityPrompt = personality === 'lasso'
-      ? "You are Coach Ted Lasso - positive, encouraging, folksy, and optimistic. Be supportive but educational."
-      : "You are Roy Kent - gruff, direct, occasionally profane (but keep it mild), and brutally honest but helpful."
+    const coachingPrompt = `${getPersonalityPrompt(coach)}
 
-    const coachingPrompt = `${personalityPrompt}
-
-The player is playing ClaudLE (theme: "${themeData?.description || 'Classic Words'}") and is considering the guess "${currentGuess}" for their ${guessCount + 1}th attempt.
+The player is playing ClaudLE (theme: ${describeThemeForPrompt(themeData)}) and is considering the guess "${guess}" for attempt ${guessCount + 1} of ${maxGuesses} at a ${wordLength}-letter word.
 
 Game state:
 - Previous guesses: ${guesses.join(', ') || 'None yet'}
@@ -81,7 +87,7 @@ Game state:
 - Confirmed correct positions: ${correctLetters.map(c => `${c.letter} in position ${c.position}`).join(', ') || 'None yet'}
 - Letters in word but wrong position: ${wrongPositions.map(w => `${w.letter} (was tried in position ${w.position})`).join(', ') || 'None yet'}
 
-Analysis of their potential guess "${currentGuess}":
+Analysis of their potential guess "${guess}":
 ${guessAnalysis.join('\n') || 'No obvious issues detected'}
 
 WITHOUT revealing the target word, provide strategic coaching about this guess:
@@ -93,40 +99,38 @@ WITHOUT revealing the target word, provide strategic coaching about this guess:
 
 Keep it under 100 words and stay in character. Be encouraging but educational.`
 
-    const message = await claudeClient.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 150,
-      messages: [{
-        role: 'user',
-        content: coachingPrompt
-      }]
-    })
+    const llmRequest: LLMRequest = {
+      route: 'coaching',
+      prompt: coachingPrompt,
+      context: { personality: coach.id, theme }
+    }
+    const meta = {
+      personality: coach.id,
+      guessCount: guessCount + 1,
+      theme: themeData.name,
+      enabled: true
+    }
+
+    // Streamed variant for the live coaching panel
+    if (wantsEventStream(request)) {
+      return createTextEventStream(request, llmRequest, {
+        meta,
+        fallback: coach.fallbacks.coaching[0]
+      })
+    }
 
-    const coaching = message.content[0].type === 'text'
-      ? message.content[0].text.trim()
-      : ''
+    const coaching = await completeText(llmRequest)
 
     return NextResponse.json({
       coaching,
-      personality,
-      guessCount: guessCount + 1,
-      theme: themeData?.name || 'Classic Words',
-      enabled: true
+      ...meta
     })
   } catch (error) {
     console.error('Error getting coaching:', error)
 
-    // Fallback coaching by personality
-    const fallbackCoaching = {
-      lasso: "Hmm, having trouble analyzing that one. But you know what? Trust your instincts! You've got this, and every guess is teaching us something new.",
-      kent: "Right, can't analyze that properly right now. But listen - stick to what you know and don't overthink it. You've got the tools, use them."
-    }
-
-    const { personality = 'lasso' } = await request.json().catch(() => ({ personality: 'lasso' }))
-
     return NextResponse.json({
-      coaching: fallbackCoaching[personality as Personality] || fallbackCoaching.lasso,
-      personality,
+      coaching: coach.fallbacks.coaching[0],
+      personality: coach.id,
       enabled: true,
       fallback: true
     })
@@ -1,90 +1,134 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { claudeClient, checkApiKey } from '@/lib/claude-client'
-import { THEMES, ThemeKey, Personality } from '@/lib/game-types'
+import { completeText } from '@/lib/llm-provider'
+import { resolveSession, getSessionState, getSessionResults, getSessionTheme } from '@/lib/game-session'
+import { analyzeGame, describeBiggestMistake, formatBits } from '@/lib/game-analysis'
+import { getPersonality, getPersonalityPrompt } from '@/lib/personality-registry'
+import { describeThemeForPrompt } from '@/lib/custom-themes'
 
 export async function POST(request: NextRequest) {
+  // Set for 'analysis' requests so a failed model call still explains the biggest mistake
+  let analysisFallback: string | null = null
+  let coach = getPersonality(null)
+  // Known once the session is resolved, so the fallback can match the outcome
+  let won: boolean | null = null
+
   try {
-    checkApiKey()
     const {
-      targetWord,
-      guesses,
-      won,
-      theme = 'original',
-      personality = 'lasso'
+      sessionToken,
+      daily,
+      personality,
+      // 'quip' for the usual end-of-game line, 'analysis' to narrate the replay's biggest mistake
+      mode = 'quip'
     } = await request.json()
+    coach = getPersonality(personality)
+
+    if (mode !== 'quip' && mode !== 'analysis') {
+      return NextResponse.json(
+        { error: 'Invalid mode specified' },
+        { status: 400 }
+      )
+    }
 
-    // Validate inputs
-    if (!targetWord || !Array.isArray(guesses) || typeof won !== 'boolean') {
+    const session = resolveSession({ sessionToken, daily })
+    if (!session) {
       return NextResponse.json(
-        { error: 'Missing required parameters' },
+        { error: 'Invalid or expired game session' },
         { status: 400 }
       )
     }
 
-    const themeData = THEMES[theme as ThemeKey]
+    // Outcome is derived from the session so the answer is only revealed after the game ends
+    const gameState = getSessionState(session)
+    if (gameState === 'playing') {
+      return NextResponse.json(
+        { error: 'Game is still in progress' },
+        { status: 409 }
+      )
+    }
+
+    const { targetWord, guesses, theme, maxGuesses, wordLength } = session
+    won = gameState === 'won'
+    const themeData = getSessionTheme(session)
     const guessCount = guesses.length
 
-    // Personality-driven prompt
-    const personalityPrompt = personality === 'lasso'
-      ? "You are Coach Ted Lasso - positive, encouraging, folksy, and optimistic. Use his speaking style and catchphrases."
-      : "You are Roy Kent - gruff, direct, occasionally profane (but keep it mild), and brutally honest but caring underneath."
+    const personalityPrompt = getPersonalityPrompt(coach)
+
+    if (mode === 'analysis') {
+      const analysis = analyzeGame(getSessionResults(session), { targetWord, wordLength, theme })
+      analysisFallback = describeBiggestMistake(analysis)
+
+      const replay = analysis.steps.map((step, i) =>
+        `${i + 1}. ${step.guess}: ${step.candidatesBefore} words possible before, ${step.candidatesAfter} after; ` +
+        `expected ${formatBits(step.expectedBits)} bits, best bot guess ${step.botGuess} expected ${formatBits(step.botBits)} bits`
+      ).join('\n')
+
+      const analysisPrompt = `${personalityPrompt}
+
+The player just ${won ? 'won' : 'lost'} a ClaudLE game. The word was "${targetWord}". Here is a replay of their guesses, scored by expected information (higher is better):
+${replay}
+
+Analysis: ${analysisFallback}
+
+Talk them through their biggest mistake in character - what the better guess would have done for them. Use the numbers above accurately. Keep it to three sentences!`
+
+      const feedback = await completeText({
+        route: 'game-over',
+        prompt: analysisPrompt,
+        context: { personality: coach.id, theme, won }
+      })
+
+      return NextResponse.json({
+        feedback,
+        mode,
+        biggestMistake: analysis.biggestMistake,
+        personality: coach.id,
+        targetWord
+      })
+    }
 
     const messagePrompt = `${personalityPrompt}
 
-The player just ${won ? 'won' : 'lost'} a ClaudLE game. The word was "${targetWord}" and they took ${guessCount} guesses.
-Theme: ${themeData?.description || 'Classic Words'}
+The player just ${won ? 'won' : 'lost'} a ClaudLE game. The word was "${targetWord}" and they took ${guessCount} of ${maxGuesses} guesses.
+Theme: ${describeThemeForPrompt(themeData)}
 
 ${won
   ? 'Give them a congratulatory message in character.'
-  : 'Give them an encouraging "better luck next time" message. If you\'re Ted Lasso, you might say "Remember...be a goldfish..." If you\'re Roy Kent, you might say "Oy, that\'s gotta sting..."'
+  : 'Give them an encouraging "better luck next time" message in character.'
 }
 
 Keep it short and stay in character!`
 
-    const message = await claudeClient.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 150,
-      messages: [{
-        role: 'user',
-        content: messagePrompt
-      }]
+    const feedback = await completeText({
+      route: 'game-over',
+      prompt: messagePrompt,
+      context: { personality: coach.id, theme, won }
     })
 
-    const feedback = message.content[0].type === 'text'
-      ? message.content[0].text.trim()
-      : ''
-
     return NextResponse.json({
       feedback,
       won,
       guessCount,
-      personality,
-      theme: themeData?.name || 'Classic Words',
+      personality: coach.id,
+      theme: themeData.name,
       targetWord
     })
   } catch (error) {
     console.error('Error getting game over feedback:', error)
 
-    // Fallback messages by personality and outcome
-    const fallbackMessages = {
-      lasso: {
-        won: "Well, would you look at that! You did it! That's what I call some top-notch word-guessing right there. Keep that positive energy flowing!",
-        lost: "Hey now, don't you worry about it. Remember, be a goldfish - short memory for the tough times. You'll get 'em next time, I believe in you!"
-      },
-      kent: {
-        won: "Not bad. You actually did it. Proper job there. Don't let it go to your head though.",
-        lost: "Oy, that's gotta sting a bit. But you know what? You gave it a proper go. Dust yourself off and try again."
-      }
+    if (analysisFallback) {
+      return NextResponse.json({
+        feedback: analysisFallback,
+        mode: 'analysis',
+        personality: coach.id,
+        fallback: true
+      })
     }
 
-    const personalityKey: Personality = 'lasso'
-    const outcomeKey = 'lost'
-
     return NextResponse.json({
-      feedback: fallbackMessages[personalityKey][outcomeKey],
-      won: false,
+      feedback: won ? coach.fallbacks.won[0] : coach.fallbacks.lost[0],
+      won: !!won,
       guessCount: 0,
-      personality: personalityKey,
+      personality: coach.id,
       fallback: true
     })
   }
@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { claudeClient, checkApiKey } from '@/lib/claude-client'
-import { THEMES, ThemeKey } from '@/lib/game-types'
+import { THEMES, ThemeKey, CustomThemeInfo, Difficulty, GameConfig, DEFAULT_GAME_CONFIG, parseGameConfig } from '@/lib/game-types'
+import { createSession, encodeSession } from '@/lib/game-session'
+import { pickWord, WORD_BANK_VERSION } from '@/lib/word-bank'
+import { parseCustomTheme } from '@/lib/custom-themes'
+import { WordGenerationMetrics, generateWord, parseUsedWords } from '@/lib/word-generation'
+import { getWordPoolStore } from '@/lib/word-pool-store'
+import { drawFromPool } from '@/lib/word-pool'
+
+// Lets the service worker tell when its cached word bank is out of date without re-fetching it
+const WORD_BANK_HEADERS = { 'X-Word-Bank-Version': WORD_BANK_VERSION.toString() }
 
 export async function POST(request: NextRequest) {
+  // Remembered so the fallback session keeps the requested theme and mode
+  let requestedTheme: ThemeKey = 'original'
+  let requestedCustomTheme: CustomThemeInfo | undefined
+  let requestedDifficulty: Difficulty = 'medium'
+  let requestedConfig: GameConfig = DEFAULT_GAME_CONFIG
+  let excludedWords: string[] = []
+
   try {
-    checkApiKey()
-    const { theme = 'original', usedWords = [] } = await request.json()
+    const { theme = 'original', customTheme: rawCustomTheme, usedWords: rawUsedWords, difficulty = 'medium', wordLength, maxGuesses } = await request.json()
 
     // Validate theme
     if (!THEMES[theme as ThemeKey]) {
@@ -15,76 +29,93 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const themeData = THEMES[theme as ThemeKey]
+    if (!['easy', 'medium', 'hard'].includes(difficulty)) {
+      return NextResponse.json(
+        { error: 'Invalid difficulty specified' },
+        { status: 400 }
+      )
+    }
 
-    // Build exclusion text for used words
-    const excludeText = usedWords.length > 0
-      ? `Do NOT use any of these words that have already been used: ${usedWords.join(', ')}.`
-      : ''
+    const config = parseGameConfig({ wordLength, maxGuesses })
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Invalid word length or guess count' },
+        { status: 400 }
+      )
+    }
 
-    const prompt = `Generate exactly one 5-letter word for a Wordle game with the theme: "${themeData.description}".
+    // A player-made theme is played on the classic dictionary, described by the player's own text
+    let customTheme: CustomThemeInfo | undefined
+    if (rawCustomTheme) {
+      const parsed = parseCustomTheme(rawCustomTheme)
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        )
+      }
+      customTheme = parsed.theme
+    }
 
-Requirements:
-- Exactly 5 letters
-- Uses only standard English alphabet (A-Z)
-- Must be a real, common word that players would know
-- Appropriate for the theme: ${themeData.description}
-${excludeText}
+    // Used words are quoted in the model's prompt, so only well-formed ones of this length get through
+    const usedWords = parseUsedWords(rawUsedWords, config.wordLength)
 
-Respond with ONLY the word in uppercase letters, nothing else.`
+    const themeKey: ThemeKey = customTheme ? 'original' : theme as ThemeKey
+    requestedTheme = themeKey
+    requestedCustomTheme = customTheme
+    requestedDifficulty = difficulty as Difficulty
+    requestedConfig = config
+    excludedWords = usedWords
+    const themeData = customTheme || THEMES[themeKey]
 
-    const message = await claudeClient.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 50,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    })
+    const newSession = (word: string, metrics?: WordGenerationMetrics) => NextResponse.json({
+      sessionToken: encodeSession(createSession(word, themeKey, requestedDifficulty, config, customTheme)),
+      theme: themeData.name,
+      difficulty: themeData.difficulty,
+      hardMode: requestedDifficulty === 'hard',
+      ...config,
+      ...(metrics && { metrics, fallback: metrics.fallback })
+    }, { headers: WORD_BANK_HEADERS })
 
-    const word = message.content[0].type === 'text'
-      ? message.content[0].text.trim().toUpperCase()
-      : ''
+    // With a seed list, the answer comes straight from the player's own words
+    const seeds = customTheme?.seedWords.filter(word => word.length === config.wordLength) || []
+    if (seeds.length > 0) {
+      const unused = seeds.filter(word => !usedWords.includes(word))
+      const pool = unused.length > 0 ? unused : seeds
+      return newSession(pool[Math.floor(Math.random() * pool.length)])
+    }
 
-    // Validate word format
-    if (word.length !== 5 || !/^[A-Z]+$/.test(word)) {
-      throw new Error('Invalid word generated')
+    // Built-in themes start instantly from the pre-generated pool, which refills in the background
+    if (!customTheme) {
+      const pooled = await drawFromPool(getWordPoolStore(), themeKey, config.wordLength, usedWords).catch(error => {
+        console.error('Word pool unavailable:', error)
+        return null
+      })
+      if (pooled) return newSession(pooled)
     }
 
-    // Check if word was already used
-    if (usedWords.includes(word)) {
-      // Retry with stronger exclusion prompt
-      return POST(request)
+    // Bounded retries over batches of candidates, falling back to the word bank
+    const { word, metrics } = await generateWord({ theme: themeKey, themeData, wordLength: config.wordLength, usedWords })
+    if (metrics.attempts > 1 || metrics.fallback) {
+      console.warn('Word generation retried or fell back:', metrics)
     }
 
-    return NextResponse.json({
-      word,
-      theme: themeData.name,
-      difficulty: themeData.difficulty
-    })
+    // The word never leaves the server - the client only gets the encrypted session
+    return newSession(word, metrics)
   } catch (error) {
     console.error('Error generating word:', error)
 
-    // Fallback words by theme
-    const fallbackWords: Record<string, string> = {
-      original: 'AUDIO',
-      theater: 'STAGE',
-      'harry-potter': 'MAGIC',
-      disney: 'MOUSE',
-      'marine-biology': 'WHALE',
-      'billy-joel': 'PIANO',
-      cooking: 'SPICE',
-      space: 'ORBIT',
-      sports: 'FIELD',
-      nature: 'FLORA'
-    }
+    // A word from the theme's curated bank the player hasn't had yet
+    const fallbackWord = pickWord(requestedTheme, excludedWords, requestedConfig.wordLength)
+    const themeData = requestedCustomTheme || THEMES[requestedTheme]
 
-    const fallbackTheme = 'original'
     return NextResponse.json({
-      word: fallbackWords[fallbackTheme] || 'AUDIO',
-      theme: THEMES[fallbackTheme].name,
-      difficulty: THEMES[fallbackTheme].difficulty,
+      sessionToken: encodeSession(createSession(fallbackWord, requestedTheme, requestedDifficulty, requestedConfig, requestedCustomTheme)),
+      theme: themeData.name,
+      difficulty: themeData.difficulty,
+      hardMode: requestedDifficulty === 'hard',
+      ...requestedConfig,
       fallback: true
-    })
+    }, { headers: WORD_BANK_HEADERS })
   }
 }
\ No newline at end of file
@@ -1,94 +1,144 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { claudeClient, checkApiKey } from '@/lib/claude-client'
-import { THEMES, ThemeKey, Personality } from '@/lib/game-types'
+import { completeText, LLMRequest } from '@/lib/llm-provider'
+import { wantsEventStream, createTextEventStream } from '@/lib/sse'
+import { HintType } from '@/lib/game-types'
+import { resolveSession, getSessionResults, getSessionState, getSessionTheme, recordSessionHint } from '@/lib/game-session'
+import { summarizeClues } from '@/lib/utils'
+import { analyzeGuesses, describeAnalysis } from '@/lib/solver'
+import { HINT_LADDER, HINT_TIERS, getFallbackHint, pickUnfoundLetter, pickUnsolvedPosition, HintTarget } from '@/lib/hint-ladder'
+import { getPersonality, getPersonalityPrompt } from '@/lib/personality-registry'
+import { describeThemeForPrompt } from '@/lib/custom-themes'
+
+// What each rung of the hint ladder asks the coach to give away
+function getTierInstructions(hintType: HintType, target: HintTarget): string {
+  if (hintType === 'gentle') {
+    return 'Give a gentle, thematic nudge about the meaning or category of the word. Do NOT mention any specific letters or positions.'
+  }
+
+  if (hintType === 'strategic') {
+    const letter = pickUnfoundLetter(target)
+    return letter
+      ? `Tell them the word contains the letter ${letter} (without saying where). Do not reveal any other letters.`
+      : 'They have found every letter. Give a strategic tip about the order of the letters without revealing any position.'
+  }
+
+  const reveal = pickUnsolvedPosition(target)
+  return reveal
+    ? `Tell them directly that letter ${reveal.position} is ${reveal.letter}. Do not reveal any other letters or the whole word.`
+    : 'Every position is solved - encourage them to submit it.'
+}
 
 export async function POST(request: NextRequest) {
+  // Remembered so a failed model call still answers on the requested rung
+  let tierFallback: string | null = null
+  let coach = getPersonality(null)
+
   try {
-    checkApiKey()
     const {
-      targetWord,
-      guesses,
-      theme = 'original',
-      personality = 'lasso'
+      sessionToken,
+      daily,
+      personality
     } = await request.json()
+    coach = getPersonality(personality)
 
-    // Validate inputs
-    if (!targetWord || !Array.isArray(guesses)) {
+    // The target word comes from the session (or the daily puzzle), never from the client
+    const session = resolveSession({ sessionToken, daily })
+    if (!session) {
       return NextResponse.json(
-        { error: 'Missing required parameters' },
+        { error: 'Invalid or expired game session' },
         { status: 400 }
       )
     }
 
-    const themeData = THEMES[theme as ThemeKey]
+    if (getSessionState(session) !== 'playing') {
+      return NextResponse.json(
+        { error: 'Game is already over' },
+        { status: 409 }
+      )
+    }
+
+    // Hints climb the ladder in order and the server picks the rung: AI games count every hint
+    // served here, so none can be skipped or repeated. Daily answers follow from the date alone,
+    // so the daily ref's own count is trusted
+    const hintNumber = sessionToken
+      ? await recordSessionHint(session)
+      : (typeof daily?.hintsUsed === 'number' ? daily.hintsUsed : 0) + 1
+    const hintType = HINT_LADDER[hintNumber - 1]
+    if (!hintType) {
+      return NextResponse.json(
+        { error: 'No hints left for this game' },
+        { status: 409 }
+      )
+    }
+
+    const { targetWord, guesses, theme, wordLength, maxGuesses } = session
+    const themeData = getSessionTheme(session)
     const guessCount = guesses.length
 
-    // Analyze game state for context
-    const wrongLetters: string[] = []
-    const correctLetters: Array<{ letter: string; position: number }> = []
-    const wrongPositions: Array<{ letter: string; position: number }> = []
-
-    guesses.forEach((guess: string) => {
-      for (let i = 0; i < 5; i++) {
-        const letter = guess[i]
-        if (targetWord[i] === letter) {
-          correctLetters.push({ letter, position: i + 1 })
-        } else if (targetWord.includes(letter)) {
-          wrongPositions.push({ letter, position: i + 1 })
-        } else {
-          wrongLetters.push(letter)
-        }
-      }
-    })
+    // Analyze game state for context with the same scorer as the board (handles duplicate letters)
+    const results = getSessionResults(session)
+    const {
+      absentLetters: wrongLetters,
+      correctLetters,
+      presentLetters: wrongPositions
+    } = summarizeClues(results)
+
+    const target: HintTarget = { targetWord, theme, customTheme: session.customTheme, results }
 
-    // Personality-driven prompt
-    const personalityPrompt = personality === 'lasso'
-      ? "You are Coach Ted Lasso - positive, encouraging, folksy, and optimistic. Use his speaking style and catchphrases."
-      : "You are Roy Kent - gruff, direct, occasionally profane (but keep it mild), and brutally honest but caring underneath."
+    // Ground both the prompt and the fallback in what the local solver can actually prove
+    const analysis = analyzeGuesses(results, { wordLength, theme, extraWords: [targetWord, ...(session.customTheme?.seedWords || [])] })
+    const solverFacts = describeAnalysis(analysis)
+    // Gentle hints stay letter-free, so they only get the candidate count
+    const fallbackFacts = hintType === 'gentle' ? solverFacts.slice(0, 1) : solverFacts
+    tierFallback = [getFallbackHint(hintType, target), ...fallbackFacts].join(' ')
 
-    const hintPrompt = `${personalityPrompt}
+    const hintPrompt = `${getPersonalityPrompt(coach)}
 
-The player is playing ClaudLE with the theme "${themeData?.description || 'Classic Words'}". They're on guess ${guessCount} of 6.
+The player is playing ClaudLE with the theme ${describeThemeForPrompt(themeData)}. The answer has ${wordLength} letters and they're on guess ${guessCount} of ${maxGuesses}.
 
 Target word: ${targetWord}
 Their guesses so far: ${guesses.join(', ') || 'None yet'}
-Letters not in the word: ${[...new Set(wrongLetters)].join(', ') || 'None identified yet'}
+Letters not in the word: ${wrongLetters.join(', ') || 'None identified yet'}
 Correct letters in correct positions: ${correctLetters.map(c => `${c.letter} in position ${c.position}`).join(', ') || 'None yet'}
 Correct letters in wrong positions: ${wrongPositions.map(w => `${w.letter} (tried in position ${w.position})`).join(', ') || 'None yet'}
+Solver analysis (accurate - use these numbers rather than guessing): ${solverFacts.join(' ') || 'No analysis available'}
 
-Give them a helpful hint without revealing the answer. Make the hint more specific as they get closer to guess 6. Stay in character!`
+They asked for a "${HINT_TIERS[hintType].label}" hint. ${getTierInstructions(hintType, target)}
+Never reveal the whole answer. Keep it to two or three sentences and stay in character!`
 
-    const message = await claudeClient.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 200,
-      messages: [{
-        role: 'user',
-        content: hintPrompt
-      }]
-    })
+    const llmRequest: LLMRequest = {
+      route: 'get-hint',
+      prompt: hintPrompt,
+      context: { personality: coach.id, theme }
+    }
+    const meta = {
+      personality: coach.id,
+      hintType,
+      guessCount,
+      candidatesLeft: analysis.candidateCount,
+      theme: themeData.name
+    }
+
+    // Streamed variant for callers that render the hint as it is written
+    if (wantsEventStream(request)) {
+      return createTextEventStream(request, llmRequest, {
+        meta,
+        fallback: tierFallback
+      })
+    }
 
-    const hint = message.content[0].type === 'text'
-      ? message.content[0].text.trim()
-      : ''
+    const hint = await completeText(llmRequest)
 
     return NextResponse.json({
       hint,
-      personality,
-      guessCount,
-      theme: themeData?.name || 'Classic Words'
+      ...meta
     })
   } catch (error) {
     console.error('Error getting hint:', error)
 
-    // Fallback hints by personality
-    const fallbackHints = {
-      lasso: "Well, I believe in you! Sometimes the best strategy is to trust your gut and remember that every guess teaches us something new. You're doing great out there!",
-      kent: "Right, you're overthinking this. Focus on what you know and stop second-guessing yourself. You've got the letters, now use them properly."
-    }
-
     return NextResponse.json({
-      hint: fallbackHints.lasso,
-      personality: 'lasso',
+      hint: tierFallback || coach.fallbacks.hint[0],
+      personality: coach.id,
       fallback: true
     })
   }
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { decodeSession, encodeSession, getSessionState, getSessionResults, applyGuess, claimSession, getSessionHints } from '@/lib/game-session'
+import { validateGuess } from '@/lib/guess-validation'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionToken, guess } = await request.json()
+
+    const session = decodeSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid or expired game session' },
+        { status: 400 }
+      )
+    }
+
+    if (getSessionState(session) !== 'playing') {
+      return NextResponse.json(
+        { error: 'Game is already over' },
+        { status: 409 }
+      )
+    }
+
+    // Same rules as the client, enforced here so they can't be bypassed
+    const normalizedGuess = typeof guess === 'string' ? guess.toUpperCase() : ''
+    const rejection = validateGuess(normalizedGuess, {
+      theme: session.theme,
+      difficulty: session.difficulty,
+      previousGuesses: getSessionResults(session),
+      wordLength: session.wordLength,
+      extraWords: session.customTheme?.seedWords
+    })
+
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection },
+        { status: 400 }
+      )
+    }
+
+    const { session: updated, result, gameState } = applyGuess(session, normalizedGuess)
+
+    // Claimed only after validation, so a rejected word leaves the token usable for the next try
+    const response = await claimSession(session, normalizedGuess, {
+      result,
+      gameState,
+      guessCount: updated.guesses.length,
+      difficulty: updated.difficulty,
+      sessionToken: encodeSession(updated),
+      // The server's hint count is the one the score is settled with
+      hintsUsed: await getSessionHints(updated),
+      // Only reveal the answer once the game is finished
+      ...(gameState !== 'playing' && { targetWord: updated.targetWord })
+    })
+
+    // spent lets the client drop the game (and its save) instead of offering it again
+    if (!response) {
+      return NextResponse.json(
+        { error: 'This game was continued from somewhere else and can\'t go on here - start a new game', spent: true },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error scoring guess:', error)
+    return NextResponse.json(
+      { error: 'Failed to score guess' },
+      { status: 500 }
+    )
+  }
+}
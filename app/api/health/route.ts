@@ -7,7 +7,9 @@ export async function GET() {
     version: process.env.npm_package_version || '1.0.0',
     environment: process.env.NODE_ENV || 'development',
     features: {
-      interactiveCoaching: process.env.ENABLE_INTERACTIVE_COACHING === 'true'
-    }
+      interactiveCoaching: process.env.ENABLE_INTERACTIVE_COACHING === 'true',
+      profileSync: !!process.env.PROFILE_STORE
+    },
+    llmProvider: process.env.LLM_PROVIDER || 'anthropic'
   })
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomBytes, randomInt, scryptSync, timingSafeEqual } from 'crypto'
+import { getProfileStore, StoredProfile } from '@/lib/profile-store'
+import { normalizeHandle, mergeSync, SyncPayload, SyncedProfile } from '@/lib/profile-sync'
+import { isStats, isHistoryEntry } from '@/lib/player-archive'
+import { parseSettings } from '@/lib/settings'
+import { createEmptyStats } from '@/lib/game-engine'
+
+// Optional profile sync: POST creates a profile for a handle and returns its recovery code
+// (shown once), PUT merges a device's data into the profile and returns the result.
+
+// A sync that loses a race with another device's sync re-reads the profile and merges again
+const MAX_SYNC_ATTEMPTS = 3
+
+// No 0/O or 1/I, so codes survive being read aloud or written down
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+function generateRecoveryCode(): string {
+  const chars = Array.from({ length: 16 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)])
+  return chars.join('').match(/.{4}/g)!.join('-')
+}
+
+// Dashes, spaces and case don't matter when typing the code back in
+function hashRecoveryCode(code: string, salt: string): string {
+  return scryptSync(code.replace(/[^a-z0-9]/gi, '').toUpperCase(), salt, 32).toString('hex')
+}
+
+function checkRecoveryCode(profile: StoredProfile, code: unknown): boolean {
+  if (typeof code !== 'string') return false
+  const expected = Buffer.from(profile.recoveryHash, 'hex')
+  const actual = Buffer.from(hashRecoveryCode(code, profile.salt), 'hex')
+  return timingSafeEqual(expected, actual)
+}
+
+function toSynced({ stats, history, settings, settingsUpdatedAt, updatedAt }: StoredProfile): SyncedProfile {
+  return { stats, history, settings, settingsUpdatedAt, updatedAt }
+}
+
+function parsePayload(body: unknown): SyncPayload | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { stats, baseStats, history, settings, settingsUpdatedAt } = body as Record<string, unknown>
+  if (!isStats(stats) || !Array.isArray(history) || !history.every(isHistoryEntry)) return null
+  if (baseStats !== null && !isStats(baseStats)) return null
+  if (settingsUpdatedAt !== null && typeof settingsUpdatedAt !== 'string') return null
+
+  return {
+    stats,
+    baseStats,
+    history,
+    settings: settings ? parseSettings(settings) : null,
+    settingsUpdatedAt
+  }
+}
+
+const disabledResponse = () => NextResponse.json(
+  { error: 'Profile sync is not enabled on this server' },
+  { status: 503 }
+)
+
+const unauthorizedResponse = () => NextResponse.json(
+  { error: 'Unknown handle or wrong recovery code' },
+  { status: 401 }
+)
+
+export async function POST(request: NextRequest) {
+  try {
+    const store = getProfileStore()
+    if (!store) return disabledResponse()
+
+    const { handle: rawHandle } = await request.json()
+    const handle = normalizeHandle(rawHandle)
+    if (!handle) {
+      return NextResponse.json(
+        { error: 'Handles are 3-24 letters, numbers, dashes or underscores' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCode = generateRecoveryCode()
+    const salt = randomBytes(16).toString('hex')
+    const now = new Date().toISOString()
+    const profile: StoredProfile = {
+      handle,
+      recoveryHash: hashRecoveryCode(recoveryCode, salt),
+      salt,
+      stats: createEmptyStats(),
+      history: [],
+      settings: null,
+      settingsUpdatedAt: now,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    if (!await store.create(profile)) {
+      return NextResponse.json(
+        { error: 'That handle is taken' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { handle, recoveryCode, ...toSynced(profile) },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const store = getProfileStore()
+    if (!store) return disabledResponse()
+
+    const body = await request.json()
+    const handle = normalizeHandle(body?.handle)
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      const profile = handle ? await store.get(handle) : null
+      if (!profile || !checkRecoveryCode(profile, body.recoveryCode)) {
+        return unauthorizedResponse()
+      }
+
+      const payload = parsePayload(body)
+      if (!payload) {
+        return NextResponse.json(
+          { error: 'Invalid sync data' },
+          { status: 400 }
+        )
+      }
+
+      // Only lands if no other sync wrote in between; otherwise merge into the newer profile
+      const merged = mergeSync(toSynced(profile), payload)
+      if (await store.update({ ...profile, ...merged }, profile.version || 0)) {
+        return NextResponse.json({ handle: profile.handle, ...merged })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Your profile is being synced from another device - try again in a moment' },
+      { status: 409 }
+    )
+  } catch (error) {
+    console.error('Error syncing profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync profile' },
+      { status: 500 }
+    )
+  }
+}
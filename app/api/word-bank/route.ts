@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { THEMES, ThemeKey } from '@/lib/game-types'
+import { WORD_BANK_VERSION, getAnswerPool } from '@/lib/word-bank'
+
+// The curated word bank for the service worker, which caches it for offline games - as answer
+// pools, so an offline game can't be handed the opening guess either
+export async function GET() {
+  const words = {} as Record<ThemeKey, string[]>
+  for (const theme of Object.keys(THEMES) as ThemeKey[]) {
+    words[theme] = getAnswerPool(theme)
+  }
+
+  return NextResponse.json({
+    version: WORD_BANK_VERSION,
+    words
+  })
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { THEMES, ThemeKey, parseGameConfig } from '@/lib/game-types'
+import { getWordPoolStore } from '@/lib/word-pool-store'
+import { prefillPools } from '@/lib/word-pool'
+
+// Fill the word pools ahead of time, e.g. after a deploy or from a scheduled job, so the first
+// games after a cold start don't wait on the model. Needs WORD_POOL_SECRET as a bearer token.
+// Body (optional): { theme, wordLength } to fill one theme's pool instead of all of them.
+export async function POST(request: NextRequest) {
+  const secret = process.env.WORD_POOL_SECRET
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Word pool prefill is not enabled on this server' },
+      { status: 503 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { theme, wordLength } = await request.json().catch(() => ({}))
+
+    if (theme !== undefined && !THEMES[theme as ThemeKey]) {
+      return NextResponse.json(
+        { error: 'Invalid theme specified' },
+        { status: 400 }
+      )
+    }
+
+    const config = parseGameConfig({ wordLength })
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Invalid word length' },
+        { status: 400 }
+      )
+    }
+
+    const added = await prefillPools(getWordPoolStore(), config.wordLength, theme ? [theme as ThemeKey] : undefined)
+    return NextResponse.json({ wordLength: config.wordLength, added })
+  } catch (error) {
+    console.error('Error prefilling word pools:', error)
+    return NextResponse.json(
+      { error: 'Failed to prefill word pools' },
+      { status: 500 }
+    )
+  }
+}
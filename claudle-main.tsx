@@ -1,11 +1,16 @@
-import React, { useState, useEffect } from 'react';
+// The original ClaudLE artifact, kept for reference. It is no longer a standalone single file:
+// its board runs on the shared engine in lib/game-engine.ts, so it needs this repo around it
+// (the self-contained version is in this file's git history). tsconfig.json leaves it out of
+// the type-check because the rest of it is still the artifact's untyped code.
+import React, { useState, useEffect, useReducer } from 'react';
 import { RotateCcw, HelpCircle, Loader2, X, Trophy, Lightbulb, Settings, Zap, BarChart3, Brain } from 'lucide-react';
+import { createGame, createEmptyStats, gameReducer, recordGameResult } from '@/lib/game-engine';
 
 const ClaudLE = () => {
-  const [currentGuess, setCurrentGuess] = useState('');
-  const [guesses, setGuesses] = useState([]);
-  const [gameState, setGameState] = useState('playing');
-  const [targetWord, setTargetWord] = useState('');
+  // Board state runs on the same headless engine as the main app
+  const [game, dispatch] = useReducer(gameReducer, undefined, () => createGame());
+  const { currentGuess, guesses, gameState, targetWord } = game;
+  const guessWords = guesses.map(g => g.word);
   const [theme, setTheme] = useState('original');
   const [personality, setPersonality] = useState('lasso');
   const [gameStarted, setGameStarted] = useState(false);
@@ -37,13 +42,7 @@ const ClaudLE = () => {
   const [flipRow, setFlipRow] = useState(null);
 
   // Game statistics
-  const [stats, setStats] = useState({
-    gamesPlayed: 0,
-    gamesWon: 0,
-    currentStreak: 0,
-    maxStreak: 0,
-    guessDistribution: [0, 0, 0, 0, 0, 0]
-  });
+  const [stats, setStats] = useState(createEmptyStats);
 
   // Available themes
   const themes = {
@@ -157,27 +156,17 @@ const ClaudLE = () => {
   }, []);
 
   // Update stats
-  const updateStats = (won, guessCount) => {
+  const updateStats = (finishedGame) => {
     setStats(prev => {
-      const newStats = {
-        gamesPlayed: prev.gamesPlayed + 1,
-        gamesWon: won ? prev.gamesWon + 1 : prev.gamesWon,
-        currentStreak: won ? prev.currentStreak + 1 : 0,
-        maxStreak: won ? Math.max(prev.maxStreak, prev.currentStreak + 1) : prev.maxStreak,
-        guessDistribution: [...prev.guessDistribution]
-      };
-      
-      if (won && guessCount <= 6) {
-        newStats.guessDistribution[guessCount - 1]++;
-      }
-      
+      const newStats = recordGameResult(prev, finishedGame);
       localStorage.setItem('claudle-stats', JSON.stringify(newStats));
       return newStats;
     });
   };
 
-  // Get word from Claude
-  const getNewWord = async () => {
+  // Get word from Claude, asking again (a bounded number of times) if it repeats a used word
+  const MAX_WORD_ATTEMPTS = 3;
+  const getNewWord = async (attempt = 1) => {
     setIsLoadingWord(true);
     setWordGenerationError('');
     
@@ -222,7 +211,10 @@ Respond with ONLY the word in uppercase letters, nothing else.`;
       }
 
       if (usedWords.has(word)) {
-        return getNewWord();
+        if (attempt >= MAX_WORD_ATTEMPTS) {
+          throw new Error(`Only used words generated after ${attempt} attempts`);
+        }
+        return getNewWord(attempt + 1);
       }
 
       return word;
@@ -249,7 +241,7 @@ Respond with ONLY the word in uppercase letters, nothing else.`;
       const wrongPositions = [];
 
       // Analyze all previous guesses
-      guesses.forEach(prevGuess => {
+      guessWords.forEach(prevGuess => {
         for (let i = 0; i < 5; i++) {
           const letter = prevGuess[i];
           if (targetWord[i] === letter) {
@@ -284,7 +276,7 @@ Respond with ONLY the word in uppercase letters, nothing else.`;
 The player is playing ClaudLE (theme: "${themes[theme].description}") and is considering the guess "${guess}" for their ${guessCount + 1}th attempt.
 
 Game state:
-- Previous guesses: ${guesses.join(', ') || 'None yet'}
+- Previous guesses: ${guessWords.join(', ') || 'None yet'}
 - Letters definitely not in word: ${Array.from(wrongLetters).join(', ') || 'None identified'}
 - Confirmed correct positions: ${correctLetters.map(c => `${c.letter} in position ${c.position}`).join(', ') || 'None yet'}
 - Letters in word but wrong position: ${wrongPositions.map(w => `${w.letter} (was tried in position ${w.position})`).join(', ') || 'None yet'}
@@ -340,11 +332,12 @@ Keep it under 100 words and stay in character. Be encouraging but educational.`;
   const startNewGame = async () => {
     setGameStarted(true);
     const newWord = await getNewWord();
-    setTargetWord(newWord);
     setUsedWords(prev => new Set(prev).add(newWord));
-    setGuesses(useAudioStart ? ['AUDIO'] : []);
-    setCurrentGuess('');
-    setGameState('playing');
+    dispatch({ type: 'start', theme, targetWord: newWord });
+    if (useAudioStart) {
+      'AUDIO'.split('').forEach(letter => dispatch({ type: 'type', letter }));
+      dispatch({ type: 'guess' });
+    }
     setShowGameOverModal(false);
     setShowHintModal(false);
     setShowCoaching(false);
@@ -365,7 +358,7 @@ Keep it under 100 words and stay in character. Be encouraging but educational.`;
       const correctLetters = [];
       const wrongPositions = [];
 
-      guesses.forEach(guess => {
+      guessWords.forEach(guess => {
         for (let i = 0; i < 5; i++) {
           const letter = guess[i];
           if (targetWord[i] === letter) {
@@ -387,7 +380,7 @@ Keep it under 100 words and stay in character. Be encouraging but educational.`;
 The player is playing ClaudLE with the theme "${themes[theme].description}". They're on guess ${guessCount} of 6.
 
 Target word: ${targetWord}
-Their guesses so far: ${guesses.join(', ')}
+Their guesses so far: ${guessWords.join(', ')}
 Letters not in the word: ${wrongLetters.join(', ') || 'None identified yet'}
 Correct letters in correct positions: ${correctLetters.map(c => `${c.letter} in position ${c.position}`).join(', ') || 'None yet'}
 Correct letters in wrong positions: ${wrongPositions.map(w => `${w.letter} (tried in position ${w.position})`).join(', ') || 'None yet'}
@@ -462,56 +455,37 @@ Keep it short and stay in character!`;
 
   // Handle guess submission
   const submitGuess = () => {
-    if (currentGuess.length !== 5 || gameState !== 'playing') {
+    // The engine leaves the game untouched when a guess is rejected
+    const next = gameReducer(game, { type: 'guess' });
+    if (next === game) {
       setShakeRow(guesses.length);
       setTimeout(() => setShakeRow(null), 500);
       return;
     }
 
-    const newGuesses = [...guesses, currentGuess.toUpperCase()];
-    setGuesses(newGuesses);
+    dispatch({ type: 'guess' });
     setFlipRow(guesses.length);
     setShowCoaching(false);
 
-    if (currentGuess.toUpperCase() === targetWord) {
-      setGameState('won');
-      updateStats(true, newGuesses.length);
+    if (next.gameState !== 'playing') {
+      const won = next.gameState === 'won';
+      updateStats(next);
       setTimeout(() => {
-        getGameOverMessage(true);
-        setShowGameOverModal(true);
-      }, 1500);
-    } else if (newGuesses.length >= 6) {
-      setGameState('lost');
-      updateStats(false, newGuesses.length);
-      setTimeout(() => {
-        getGameOverMessage(false);
+        getGameOverMessage(won);
         setShowGameOverModal(true);
       }, 1500);
     }
 
-    setCurrentGuess('');
     setTimeout(() => setFlipRow(null), 1500);
   };
 
-  // Get letter status for coloring
-  const getLetterStatus = (guess, letterIndex) => {
-    const letter = guess[letterIndex];
-    const targetLetter = targetWord[letterIndex];
-
-    if (letter === targetLetter) {
-      return 'correct';
-    } else if (targetWord.includes(letter)) {
-      return 'present';
-    } else {
-      return 'absent';
-    }
-  };
-
   // Handle input change
   const handleInputChange = (e) => {
     const value = e.target.value.toUpperCase();
     if (value.length <= 5 && /^[A-Z]*$/.test(value)) {
-      setCurrentGuess(value);
+      // Replay the edit as engine keystrokes so its rules stay authoritative
+      currentGuess.split('').forEach(() => dispatch({ type: 'delete' }));
+      value.split('').forEach(letter => dispatch({ type: 'type', letter }));
     }
   };
 
@@ -742,12 +716,12 @@ Keep it short and stay in character!`;
               const guess = guesses[rowIndex];
               const isCurrentRow = rowIndex === guesses.length && gameState === 'playing';
               const letter = isCurrentRow && currentGuess[colIndex] ? currentGuess[colIndex] : 
-                            guess ? guess[colIndex] : '';
+                            guess ? guess.word[colIndex] : '';
               
               let bgColor = 'bg-gray-100 border-2 border-gray-300';
               
               if (guess) {
-                const status = getLetterStatus(guess, colIndex);
+                const status = guess.tiles[colIndex].state;
                 if (status === 'correct') bgColor = 'bg-green-500 text-white border-green-500 shadow-md';
                 else if (status === 'present') bgColor = 'bg-yellow-500 text-white border-yellow-500 shadow-md';
                 else bgColor = 'bg-gray-400 text-white border-gray-400';
@@ -1054,13 +1028,7 @@ Keep it short and stay in character!`;
             <button
               onClick={() => {
                 if (window.confirm('This will reset all your ClaudLE statistics. Are you sure?')) {
-                  setStats({
-                    gamesPlayed: 0,
-                    gamesWon: 0,
-                    currentStreak: 0,
-                    maxStreak: 0,
-                    guessDistribution: [0, 0, 0, 0, 0, 0]
-                  });
+                  setStats(createEmptyStats());
                   localStorage.removeItem('claudle-stats');
                 }
               }}
@@ -1,96 +1,97 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
-import { RotateCcw, HelpCircle, Loader2, X, Trophy, Lightbulb, Settings, Zap, BarChart3, Brain } from 'lucide-react'
-import { THEMES, ThemeKey, Personality } from '@/lib/game-types'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { RotateCcw, HelpCircle, Loader2, X, Trophy, Lightbulb, Settings, Zap, BarChart3, Brain, CalendarDays, Share2, Download, Upload } from 'lucide-react'
+import { THEMES, ThemeKey, Personality, HintType, GameConfig, DEFAULT_GAME_CONFIG, WORD_LENGTH, OPENING_GUESS, MIN_WORD_LENGTH, MAX_WORD_LENGTH, MIN_GUESS_LIMIT, MAX_GUESS_LIMIT } from '@/lib/game-types'
+import { getShareText, shareText } from '@/lib/utils'
+import { DailyRecord, getDailyPuzzle, getDateKey, loadDailyRecord } from '@/lib/daily-puzzle'
 import { getDeviceInfo, updateDeviceAnalytics } from '@/lib/device-analytics'
 import { useInstallPrompt } from '@/hooks/useInstallPrompt'
+import { useGame, GameRef } from '@/hooks/useGame'
+import { useStreamingText } from '@/hooks/useStreamingText'
+import { useProfileSync } from '@/hooks/useProfileSync'
+import { HINT_TIERS, MAX_HINTS, getNextHintType } from '@/lib/hint-ladder'
+import { getFinalScore } from '@/lib/game-engine'
+import { getSolverHint } from '@/lib/solver'
+import { GameAnalysis, analyzeGame, describeBiggestMistake } from '@/lib/game-analysis'
+import { PlayerSettings, loadSettings, saveSettings } from '@/lib/settings'
+import { createArchive, importArchive, parseArchive } from '@/lib/player-archive'
+import { DEFAULT_PERSONALITY, getPersonality } from '@/lib/personality-registry'
+import { CustomTheme, loadCustomThemes, saveCustomThemes } from '@/lib/custom-themes'
 import InstallPrompt from './InstallPrompt'
+import Keyboard from './Keyboard'
+import ReplayAnalysis from './ReplayAnalysis'
+import HistoryStats from './HistoryStats'
+import QuotaStatus from './QuotaStatus'
+import CoachPicker from './CoachPicker'
+import ThemeEditor from './ThemeEditor'
+import Modal from './Modal'
 
 const ClaudLE = () => {
-  const [currentGuess, setCurrentGuess] = useState('')
-  const [guesses, setGuesses] = useState<string[]>([])
-  const [gameState, setGameState] = useState('playing')
-  const [targetWord, setTargetWord] = useState('')
+  const [personality, setPersonality] = useState<Personality>(DEFAULT_PERSONALITY)
+
+  // Game rules and state live in the headless engine; this component only renders it
+  const [gameHookState, gameActions] = useGame(personality)
+  const coach = getPersonality(personality)
+  const { game, stats, history, mode: gameMode, dailyPuzzle, gameRef, usedWords, isLoadingWord, isSubmitting: isSubmittingGuess, wordGenerationError, quota, savedGame } = gameHookState
+  const { guesses, currentGuess, gameState, targetWord, difficulty: gameDifficulty, hintsUsed, wordLength, maxGuesses } = game
+  const gameTheme = game.customTheme || THEMES[game.theme]
+
+  const [todaysDailyRecord, setTodaysDailyRecord] = useState<DailyRecord | null>(null)
   const [theme, setTheme] = useState<ThemeKey>('original')
-  const [personality, setPersonality] = useState<Personality>('lasso')
+  // Player-made themes; when one is picked, theme stays 'original' underneath
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([])
+  const [customThemeId, setCustomThemeId] = useState<string | null>(null)
+  const selectedCustomTheme = customThemes.find(t => t.id === customThemeId) || null
   const [gameStarted, setGameStarted] = useState(false)
-  const [usedWords, setUsedWords] = useState(new Set<string>())
   const [useAudioStart, setUseAudioStart] = useState(true)
   const [interactiveCoach, setInteractiveCoach] = useState(false)
+  const [hardMode, setHardMode] = useState(false)
+  // Word length and guess count for the next AI game (daily puzzles are always classic)
+  const [gameConfig, setGameConfig] = useState<GameConfig>(DEFAULT_GAME_CONFIG)
+  const [highContrastShare, setHighContrastShare] = useState(false)
 
   // Modal states
   const [showHintModal, setShowHintModal] = useState(false)
   const [showGameOverModal, setShowGameOverModal] = useState(false)
   const [showSettingsModal, setShowSettingsModal] = useState(false)
   const [showStatsModal, setShowStatsModal] = useState(false)
-  const [hintText, setHintText] = useState('')
+  const [showReplayModal, setShowReplayModal] = useState(false)
   const [gameOverMessage, setGameOverMessage] = useState('')
 
   // Interactive coaching states
-  const [coachingText, setCoachingText] = useState('')
-  const [isLoadingCoaching, setIsLoadingCoaching] = useState(false)
   const [showCoaching, setShowCoaching] = useState(false)
+  // Rung of the hint ladder shown in the hint modal
+  const [shownHintType, setShownHintType] = useState<HintType>('gentle')
+
+  // Hint and coaching text streams in as Claude writes it
+  const [hintStream, hintStreamActions] = useStreamingText()
+  const [coachingStream, coachingStreamActions] = useStreamingText()
+
+  // Post-game replay, computed locally when opened
+  const [replayAnalysis, setReplayAnalysis] = useState<GameAnalysis | null>(null)
+  const [replayNarration, setReplayNarration] = useState('')
 
   // Loading states
-  const [isLoadingWord, setIsLoadingWord] = useState(false)
-  const [isLoadingHint, setIsLoadingHint] = useState(false)
   const [isLoadingGameOver, setIsLoadingGameOver] = useState(false)
-  const [wordGenerationError, setWordGenerationError] = useState('')
+  const [isLoadingReplayNarration, setIsLoadingReplayNarration] = useState(false)
 
   // Animation states
   const [shakeRow, setShakeRow] = useState<number | null>(null)
   const [flipRow, setFlipRow] = useState<number | null>(null)
+  const [guessMessage, setGuessMessage] = useState('')
+  const [shareStatus, setShareStatus] = useState('')
+  const [archiveStatus, setArchiveStatus] = useState('')
+  const [profileHandle, setProfileHandle] = useState('')
+  const [profileCode, setProfileCode] = useState('')
+  const archiveInputRef = useRef<HTMLInputElement>(null)
+
+  // Settings are restored once on load, then saved whenever they change
+  const [settingsLoaded, setSettingsLoaded] = useState(false)
 
   // Install prompt
   const [installPromptState, installPromptActions] = useInstallPrompt()
 
-  // Game statistics
-  const [stats, setStats] = useState({
-    gamesPlayed: 0,
-    gamesWon: 0,
-    currentStreak: 0,
-    maxStreak: 0,
-    guessDistribution: [0, 0, 0, 0, 0, 0]
-  })
-
-  // Modal Component
-  const Modal = ({ isOpen, onClose, title, children, size = "md" }: {
-    isOpen: boolean
-    onClose: () => void
-    title: string
-    children: React.ReactNode
-    size?: "sm" | "md" | "lg" | "xl"
-  }) => {
-    if (!isOpen) return null
-
-    const sizeClasses = {
-      sm: "max-w-sm",
-      md: "max-w-md",
-      lg: "max-w-lg",
-      xl: "max-w-xl"
-    }
-
-    return (
-      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-        <div className={`bg-white rounded-xl shadow-2xl ${sizeClasses[size]} w-full max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-100`}>
-          <div className="flex justify-between items-center p-4 border-b bg-gradient-to-r from-blue-50 to-purple-50 rounded-t-xl">
-            <h3 className="text-lg font-bold text-gray-800">{title}</h3>
-            <button
-              onClick={onClose}
-              className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-white rounded-full"
-            >
-              <X className="h-5 w-5" />
-            </button>
-          </div>
-          <div className="p-4">
-            {children}
-          </div>
-        </div>
-      </div>
-    )
-  }
-
   // Loading Spinner Component
   const LoadingSpinner = ({ text, icon: Icon = Loader2 }: { text: string; icon?: React.ComponentType<any> }) => (
     <div className="flex items-center justify-center space-x-3 py-6">
@@ -99,125 +100,118 @@ const ClaudLE = () => {
     </div>
   )
 
-  // Load stats from localStorage and initialize device tracking
+  // Initialize device tracking
   useEffect(() => {
-    const savedStats = localStorage.getItem('claudle-stats')
-    if (savedStats) {
-      setStats(JSON.parse(savedStats))
-    }
-
     // Initialize device analytics (creates device ID if needed)
     getDeviceInfo()
   }, [])
 
-  // Update stats
-  const updateStats = (won: boolean, guessCount: number) => {
-    // Update device analytics
-    updateDeviceAnalytics({
-      gameWon: won,
-      guessCount,
-      theme,
-      personality
-    })
+  const applySettings = useCallback((settings: PlayerSettings) => {
+    setTheme(settings.theme)
+    setCustomThemeId(settings.customThemeId)
+    setPersonality(settings.personality)
+    setHardMode(settings.hardMode)
+    setInteractiveCoach(settings.interactiveCoach)
+    setUseAudioStart(settings.useAudioStart)
+    setHighContrastShare(settings.highContrastShare)
+    setGameConfig({ wordLength: settings.wordLength, maxGuesses: settings.maxGuesses })
+  }, [])
 
-    setStats(prev => {
-      const newStats = {
-        gamesPlayed: prev.gamesPlayed + 1,
-        gamesWon: won ? prev.gamesWon + 1 : prev.gamesWon,
-        currentStreak: won ? prev.currentStreak + 1 : 0,
-        maxStreak: won ? Math.max(prev.maxStreak, prev.currentStreak + 1) : prev.maxStreak,
-        guessDistribution: [...prev.guessDistribution]
-      }
+  useEffect(() => {
+    setCustomThemes(loadCustomThemes())
+    const saved = loadSettings()
+    if (saved) applySettings(saved)
+    setSettingsLoaded(true)
+  }, [applySettings])
+
+  // Optional cross-device sync; pick up whatever the server merged in
+  const [profileSync, profileSyncActions] = useProfileSync(() => {
+    gameActions.reloadStats()
+    const settings = loadSettings()
+    if (settings) applySettings(settings)
+  })
 
-      if (won && guessCount <= 6) {
-        newStats.guessDistribution[guessCount - 1]++
-      }
+  useEffect(() => {
+    if (!settingsLoaded) return
+    saveSettings({ theme, customThemeId, personality, hardMode, interactiveCoach, useAudioStart, highContrastShare, ...gameConfig })
+  }, [settingsLoaded, theme, customThemeId, personality, hardMode, interactiveCoach, useAudioStart, highContrastShare, gameConfig])
 
-      localStorage.setItem('claudle-stats', JSON.stringify(newStats))
-      return newStats
-    })
+  const updateCustomThemes = (themes: CustomTheme[]) => {
+    setCustomThemes(themes)
+    saveCustomThemes(themes)
   }
 
-  // Get word from Claude
-  const getNewWord = async () => {
-    setIsLoadingWord(true)
-    setWordGenerationError('')
-
-    try {
-      const usedWordsArray = Array.from(usedWords)
-
-      const response = await fetch("/api/claude/generate-word", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          theme,
-          usedWords: usedWordsArray
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`)
-      }
-
-      const data = await response.json()
-      const word = data.word
+  // Built-in theme keys and custom theme ids share the pickers
+  const selectTheme = (key: string) => {
+    const custom = customThemes.find(t => t.id === key)
+    setCustomThemeId(custom ? custom.id : null)
+    setTheme(custom ? 'original' : key as ThemeKey)
+  }
 
-      if (word.length !== 5 || !/^[A-Z]+$/.test(word)) {
-        throw new Error('Invalid word generated')
-      }
+  const themeOptions = [
+    ...Object.entries(THEMES).map(([key, themeData]) => ({ key, themeData })),
+    ...customThemes.map(themeData => ({ key: themeData.id, themeData }))
+  ]
+  const selectedThemeKey = selectedCustomTheme ? selectedCustomTheme.id : theme
+  const savedTheme = savedGame && ((savedGame.mode === 'ai' && savedGame.customTheme) || THEMES[savedGame.theme])
+
+  // Download stats, history, settings and device info as a backup file
+  const exportPlayerData = () => {
+    const blob = new Blob([JSON.stringify(createArchive(), null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `claudle-backup-${getDateKey()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+    setArchiveStatus('Backup downloaded.')
+  }
 
-      if (usedWords.has(word)) {
-        return getNewWord()
-      }
+  // Merge a backup from another device into this one
+  const importPlayerData = async (file: File) => {
+    const parsed = parseArchive(await file.text())
+    if ('error' in parsed) {
+      setArchiveStatus(parsed.error)
+      return
+    }
 
-      return word
-    } catch (error) {
-      console.error('Error generating word:', error)
-      setWordGenerationError('Failed to generate word. Please try again.')
-      return 'AUDIO'
-    } finally {
-      setIsLoadingWord(false)
+    const error = importArchive(parsed.archive)
+    if (error) {
+      setArchiveStatus(error)
+      return
     }
+
+    gameActions.reloadStats()
+    const settings = loadSettings()
+    if (settings) applySettings(settings)
+    setArchiveStatus(`Imported ${parsed.archive.data.history.length} games from a backup made ${new Date(parsed.archive.exportedAt).toLocaleDateString()}.`)
   }
 
   // Get interactive coaching analysis
   const analyzeCurrentGuess = useCallback(async (guess: string) => {
-    if (!interactiveCoach || guess.length !== 5 || gameState !== 'playing') return
+    if (!interactiveCoach || guess.length !== wordLength || gameState !== 'playing') return
 
-    setIsLoadingCoaching(true)
     setShowCoaching(true)
 
-    try {
-      const response = await fetch("/api/claude/coaching", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          targetWord,
-          guesses,
-          currentGuess: guess,
-          theme,
-          personality
-        })
-      })
-
-      const data = await response.json()
-      setCoachingText(data.coaching)
-    } catch (error) {
-      console.error('Error getting coaching:', error)
-      setCoachingText('Hmm, having trouble analyzing that one. But you got this!')
-    } finally {
-      setIsLoadingCoaching(false)
-    }
-  }, [interactiveCoach, gameState, guesses, targetWord, theme, personality])
+    await coachingStreamActions.start({
+      url: "/api/claude/coaching",
+      body: {
+        ...gameRef,
+        currentGuess: guess,
+        personality
+      },
+      jsonField: 'coaching',
+      fallbackText: 'Hmm, having trouble analyzing that one. But you got this!'
+    })
+  }, [interactiveCoach, gameState, wordLength, gameRef, personality, coachingStreamActions])
 
   // Debounced coaching effect
   useEffect(() => {
+    // Typing makes any in-flight analysis of the previous guess stale
+    coachingStreamActions.cancel()
+
     const timer = setTimeout(() => {
-      if (currentGuess.length === 5 && interactiveCoach && gameState === 'playing') {
+      if (currentGuess.length === wordLength && interactiveCoach && gameState === 'playing') {
         analyzeCurrentGuess(currentGuess)
       } else {
         setShowCoaching(false)
@@ -225,59 +219,135 @@ const ClaudLE = () => {
     }, 1000) // 1 second delay to avoid too many API calls
 
     return () => clearTimeout(timer)
-  }, [currentGuess, interactiveCoach, gameState, guesses, targetWord, analyzeCurrentGuess])
+  }, [currentGuess, wordLength, interactiveCoach, gameState, analyzeCurrentGuess, coachingStreamActions])
 
-  // Initialize game
-  const startNewGame = async () => {
-    setGameStarted(true)
-    const newWord = await getNewWord()
-    setTargetWord(newWord)
-    setUsedWords(prev => new Set(prev).add(newWord))
-    setGuesses(useAudioStart ? ['AUDIO'] : [])
-    setCurrentGuess('')
-    setGameState('playing')
+  // Clear per-game UI for a fresh (or restored) board
+  const resetBoardUi = () => {
+    setShareStatus('')
     setShowGameOverModal(false)
     setShowHintModal(false)
+    setShowReplayModal(false)
     setShowCoaching(false)
-    setCoachingText('')
+    coachingStreamActions.cancel()
+    hintStreamActions.cancel()
     setShakeRow(null)
     setFlipRow(null)
   }
 
+  // Initialize game
+  const getNewGameOptions = () => ({
+    difficulty: hardMode ? 'hard' as const : 'medium' as const,
+    config: gameConfig,
+    customTheme: selectedCustomTheme || undefined,
+    // AUDIO only fits the classic word length
+    openingGuess: useAudioStart && gameConfig.wordLength === WORD_LENGTH ? OPENING_GUESS : undefined
+  })
+
+  const startNewGame = async () => {
+    setGameStarted(true)
+    resetBoardUi()
+
+    const started = await gameActions.startAiGame(theme, getNewGameOptions())
+
+    if (!started) {
+      setGameStarted(false)
+    }
+  }
+
+  // Same settings, but a word from the bundled bank - for when the AI games have run out
+  const startOfflineGame = () => {
+    gameActions.startOfflineGame(theme, getNewGameOptions())
+    resetBoardUi()
+    setGameStarted(true)
+  }
+
+  // Start (or resume) today's Daily ClaudLE for the selected theme
+  const startDailyGame = () => {
+    if (gameActions.startDailyGame(theme, hardMode ? 'hard' : 'medium')) {
+      resetBoardUi()
+      setGameStarted(true)
+    }
+  }
+
+  // Pick up the game left unfinished on the last visit, with its theme and coach
+  const resumeSavedGame = () => {
+    if (!savedGame) return
+
+    // The save holds the custom theme itself; point the picker back at it if it still exists
+    const savedCustomTheme = savedGame.mode === 'ai' ? savedGame.customTheme : undefined
+    const custom = savedCustomTheme && customThemes.find(t => t.name === savedCustomTheme.name && t.description === savedCustomTheme.description)
+    setCustomThemeId(custom ? custom.id : null)
+    setTheme(savedGame.theme)
+    setPersonality(savedGame.personality)
+    setHardMode(savedGame.difficulty === 'hard')
+
+    if (gameActions.resumeGame()) {
+      resetBoardUi()
+      setGameStarted(true)
+    }
+  }
+
   // Get hint from Claude
   const getHint = async () => {
-    setIsLoadingHint(true)
+    // The server picks the rung from its own count; this one labels the modal
+    const hintType = getNextHintType(hintsUsed)
+    if (!hintType) return
+
+    gameActions.registerHint()
+    setShownHintType(hintType)
     setShowHintModal(true)
-    setHintText('')
+
+    await hintStreamActions.start({
+      url: "/api/claude/get-hint",
+      body: {
+        ...gameRef,
+        personality
+      },
+      jsonField: 'hint',
+      // Offline or unreachable: the local solver still has something concrete to say
+      fallbackText: getSolverHint(guesses, { wordLength, theme: game.theme }) || 'Sorry, I can\'t provide a hint right now. Keep trying!'
+    })
+  }
+
+  const closeHintModal = () => {
+    hintStreamActions.cancel()
+    setShowHintModal(false)
+  }
+
+  // Get game over message
+  const getGameOverMessage = async (finishedGameRef: GameRef, won: boolean) => {
+    setIsLoadingGameOver(true)
 
     try {
-      const response = await fetch("/api/claude/get-hint", {
+      const response = await fetch("/api/claude/game-over", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          targetWord,
-          guesses,
-          theme,
+          ...finishedGameRef,
           personality
         })
       })
 
       const data = await response.json()
-      setHintText(data.hint)
+      setGameOverMessage(data.feedback)
     } catch (error) {
-      console.error('Error getting hint:', error)
-      setHintText('Sorry, I can\'t provide a hint right now. Keep trying!')
+      setGameOverMessage(won ? coach.fallbacks.won[0] : coach.fallbacks.lost[0])
     } finally {
-      setIsLoadingHint(false)
+      setIsLoadingGameOver(false)
     }
   }
 
-  // Get game over message
-  const getGameOverMessage = async (won: boolean) => {
-    setIsLoadingGameOver(true)
+  // Replay the finished game against the solver; the coach narrates the biggest mistake when online
+  const openReplay = async () => {
+    const analysis = analyzeGame(guesses, { targetWord, wordLength, theme: game.theme })
+    setReplayAnalysis(analysis)
+    setReplayNarration(describeBiggestMistake(analysis))
+    setShowGameOverModal(false)
+    setShowReplayModal(true)
 
+    setIsLoadingReplayNarration(true)
     try {
       const response = await fetch("/api/claude/game-over", {
         method: "POST",
@@ -285,95 +355,122 @@ const ClaudLE = () => {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          targetWord,
-          guesses,
-          won,
-          theme,
-          personality
+          ...gameRef,
+          personality,
+          mode: 'analysis'
         })
       })
 
       const data = await response.json()
-      setGameOverMessage(data.feedback)
+      if (data.feedback) setReplayNarration(data.feedback)
     } catch (error) {
-      const fallbackMessage = won
-        ? (personality === 'lasso' ? "Congratulations! You did it!" : "Not bad. You got there.")
-        : (personality === 'lasso' ? "Remember...be a goldfish!" : "Oy, that's gotta sting...")
-      setGameOverMessage(fallbackMessage)
+      // Offline - the local summary already says what went wrong
     } finally {
-      setIsLoadingGameOver(false)
+      setIsLoadingReplayNarration(false)
     }
   }
 
-  // Handle guess submission
-  const submitGuess = () => {
-    if (currentGuess.length !== 5 || gameState !== 'playing') {
-      setShakeRow(guesses.length)
-      setTimeout(() => setShakeRow(null), 500)
-      return
+  // Animate each newly scored row
+  const previousGuessCount = useRef(0)
+  useEffect(() => {
+    const count = guesses.length
+    // Restored boards jump several rows at once and shouldn't animate
+    if (count === previousGuessCount.current + 1) {
+      setFlipRow(count - 1)
+      setShowCoaching(false)
+      const timer = setTimeout(() => setFlipRow(null), 1500)
+      previousGuessCount.current = count
+      return () => clearTimeout(timer)
     }
+    previousGuessCount.current = count
+  }, [guesses.length])
 
-    const newGuesses = [...guesses, currentGuess.toUpperCase()]
-    setGuesses(newGuesses)
-    setFlipRow(guesses.length)
-    setShowCoaching(false)
+  // What to do when a game finishes, refreshed every render so the effect below sees the
+  // latest game while only re-running on the transition out of 'playing'
+  const onGameOver = useRef<(won: boolean) => () => void>(() => () => {})
+  onGameOver.current = won => {
+    updateDeviceAnalytics({
+      gameWon: won,
+      guessCount: guesses.length,
+      theme: game.theme,
+      personality
+    })
 
-    if (currentGuess.toUpperCase() === targetWord) {
-      setGameState('won')
-      updateStats(true, newGuesses.length)
-      setTimeout(() => {
-        getGameOverMessage(true)
-        setShowGameOverModal(true)
-        checkInstallPrompt()
-      }, 1500)
-    } else if (newGuesses.length >= 6) {
-      setGameState('lost')
-      updateStats(false, newGuesses.length)
-      setTimeout(() => {
-        getGameOverMessage(false)
-        setShowGameOverModal(true)
-        checkInstallPrompt()
-      }, 1500)
-    }
+    // Capture the ref now - by the time the timer fires a new game may have started
+    const finishedGameRef = gameRef
+    const timer = setTimeout(() => {
+      getGameOverMessage(finishedGameRef, won)
+      setShowGameOverModal(true)
+      checkInstallPrompt()
+    }, 1500)
 
-    setCurrentGuess('')
-    setTimeout(() => setFlipRow(null), 1500)
+    return () => clearTimeout(timer)
   }
 
-  // Get letter status for coloring
-  const getLetterStatus = (guess: string, letterIndex: number) => {
-    const letter = guess[letterIndex]
-    const targetLetter = targetWord[letterIndex]
-
-    if (letter === targetLetter) {
-      return 'correct'
-    } else if (targetWord.includes(letter)) {
-      return 'present'
-    } else {
-      return 'absent'
-    }
+  // React to the engine finishing a game
+  useEffect(() => {
+    if (gameState === 'playing') return
+    return onGameOver.current(gameState === 'won')
+  }, [gameState])
+
+  // Shake the current row and optionally flash a message explaining why
+  const rejectGuess = (message = '') => {
+    setShakeRow(guesses.length)
+    setGuessMessage(message)
+    setTimeout(() => setShakeRow(null), 500)
+    setTimeout(() => setGuessMessage(''), 1500)
   }
 
-  // Handle input change
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.toUpperCase()
-    if (value.length <= 5 && /^[A-Z]*$/.test(value)) {
-      setCurrentGuess(value)
+  // Handle guess submission
+  const submitGuess = async () => {
+    if (isSubmittingGuess) return
+
+    const rejection = await gameActions.submitGuess()
+    if (rejection) {
+      rejectGuess(rejection)
     }
   }
 
-  // Handle Enter key
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      e.preventDefault()
+  // Handle on-screen and physical keyboard input
+  const handleKey = (key: string) => {
+    if (gameState !== 'playing') return
+
+    if (key === 'ENTER') {
       submitGuess()
+    } else if (key === 'BACKSPACE') {
+      gameActions.deleteLetter()
+    } else {
+      gameActions.typeLetter(key)
     }
   }
 
-  // Reset used words when theme changes
+  // Track whether today's daily puzzle for this theme is already played
   useEffect(() => {
-    setUsedWords(new Set())
-  }, [theme])
+    setTodaysDailyRecord(loadDailyRecord(getDateKey(), theme))
+  }, [theme, gameStarted, gameState])
+
+  // Share a spoiler-free emoji grid of the finished game
+  const shareResult = async () => {
+    const text = getShareText(guesses, gameState === 'won', gameDifficulty === 'hard' ? 'Hard Mode' : gameTheme.difficulty, {
+      puzzleNumber: gameMode === 'daily' ? dailyPuzzle?.puzzleNumber : undefined,
+      themeIcon: gameTheme.icon,
+      hintsUsed,
+      score: finalScore,
+      maxGuesses,
+      wordLength,
+      highContrast: highContrastShare
+    })
+
+    const outcome = await shareText(text)
+    if (outcome === 'copied') setShareStatus('Copied to clipboard!')
+    else if (outcome === 'failed') setShareStatus('Couldn\'t share - try again')
+  }
+
+  const nextHintType = getNextHintType(hintsUsed)
+  const finalScore = getFinalScore(game)
+
+  const todaysPuzzleNumber = getDailyPuzzle(theme).puzzleNumber
+  const isDailyLocked = !!todaysDailyRecord && todaysDailyRecord.gameState !== 'playing'
 
   // Calculate win rate
   const winRate = stats.gamesPlayed > 0 ? Math.round((stats.gamesWon / stats.gamesPlayed) * 100) : 0
@@ -405,12 +502,12 @@ const ClaudLE = () => {
               Choose Your Theme:
             </label>
             <div className="grid grid-cols-2 gap-3 max-h-64 overflow-y-auto">
-              {Object.entries(THEMES).map(([key, themeData]) => (
+              {themeOptions.map(({ key, themeData }) => (
                 <button
                   key={key}
-                  onClick={() => setTheme(key as ThemeKey)}
+                  onClick={() => selectTheme(key)}
                   className={`p-3 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
-                    theme === key
+                    selectedThemeKey === key
                       ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 dark:border-blue-400 shadow-md'
                       : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
                   }`}
@@ -418,8 +515,8 @@ const ClaudLE = () => {
                   <div className="flex items-center space-x-3">
                     <span className="text-xl">{themeData.icon}</span>
                     <div>
-                      <div className={`font-medium text-sm ${theme === key ? 'text-gray-900 dark:text-white' : ''}`}>{themeData.name}</div>
-                      <div className={`text-xs ${theme === key ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}`}>{themeData.difficulty}</div>
+                      <div className={`font-medium text-sm ${selectedThemeKey === key ? 'text-gray-900 dark:text-white' : ''}`}>{themeData.name}</div>
+                      <div className={`text-xs ${selectedThemeKey === key ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}`}>{themeData.difficulty}</div>
                     </div>
                   </div>
                 </button>
@@ -431,30 +528,34 @@ const ClaudLE = () => {
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
               Choose Your Coach:
             </label>
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={() => setPersonality('lasso')}
-                className={`p-4 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
-                  personality === 'lasso'
-                    ? 'border-green-500 bg-green-50 dark:bg-green-900/30 dark:border-green-400 shadow-md'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
-                }`}
+            <CoachPicker personality={personality} onChange={setPersonality} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Word Length:
+              <select
+                value={gameConfig.wordLength}
+                onChange={e => setGameConfig(prev => ({ ...prev, wordLength: Number(e.target.value) }))}
+                className="mt-2 w-full p-2 rounded-lg border-2 border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <div className={`font-medium ${personality === 'lasso' ? 'text-gray-900 dark:text-white' : ''}`}>Ted Lasso 😊</div>
-                <div className={`text-xs ${personality === 'lasso' ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}`}>Positive & Encouraging</div>
-              </button>
-              <button
-                onClick={() => setPersonality('kent')}
-                className={`p-4 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
-                  personality === 'kent'
-                    ? 'border-red-500 bg-red-50 dark:bg-red-900/30 dark:border-red-400 shadow-md'
-                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
-                }`}
+                {Array.from({ length: MAX_WORD_LENGTH - MIN_WORD_LENGTH + 1 }, (_, i) => MIN_WORD_LENGTH + i).map(length => (
+                  <option key={length} value={length}>{length} letters</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Guesses:
+              <select
+                value={gameConfig.maxGuesses}
+                onChange={e => setGameConfig(prev => ({ ...prev, maxGuesses: Number(e.target.value) }))}
+                className="mt-2 w-full p-2 rounded-lg border-2 border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <div className={`font-medium ${personality === 'kent' ? 'text-gray-900 dark:text-white' : ''}`}>Roy Kent 😤</div>
-                <div className={`text-xs ${personality === 'kent' ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}`}>Gruff but Caring</div>
-              </button>
-            </div>
+                {Array.from({ length: MAX_GUESS_LIMIT - MIN_GUESS_LIMIT + 1 }, (_, i) => MIN_GUESS_LIMIT + i).map(count => (
+                  <option key={count} value={count}>{count} tries</option>
+                ))}
+              </select>
+            </label>
           </div>
 
           <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
@@ -491,6 +592,33 @@ const ClaudLE = () => {
             </button>
           </div>
 
+          <div className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+            <div>
+              <span className="font-medium text-gray-700 dark:text-gray-300">Hard Mode</span>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Revealed hints must be used in later guesses</div>
+            </div>
+            <button
+              onClick={() => setHardMode(!hardMode)}
+              className={`w-14 h-7 rounded-full transition-colors relative ${
+                hardMode ? 'bg-red-500' : 'bg-gray-300'
+              }`}
+            >
+              <div className={`w-6 h-6 bg-white rounded-full transition-transform absolute top-0.5 ${
+                hardMode ? 'translate-x-7' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+
+          {savedGame && (
+            <button
+              onClick={resumeSavedGame}
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-bold py-4 px-6 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center shadow-lg"
+            >
+              <RotateCcw className="mr-2 h-5 w-5" />
+              Resume game: {savedTheme?.icon} {savedTheme?.name} • {savedGame.guesses.length}/{savedGame.maxGuesses} guesses
+            </button>
+          )}
+
           <button
             onClick={startNewGame}
             disabled={isLoadingWord}
@@ -506,6 +634,23 @@ const ClaudLE = () => {
             )}
           </button>
 
+          {quota && (
+            <QuotaStatus quota={quota} onPlayDaily={isDailyLocked ? undefined : startDailyGame} onPlayOffline={startOfflineGame} />
+          )}
+
+          <button
+            onClick={startDailyGame}
+            disabled={isDailyLocked}
+            className="w-full bg-white dark:bg-gray-700 border-2 border-blue-500 text-blue-600 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-gray-600 disabled:border-gray-300 disabled:text-gray-400 font-bold py-3 px-6 rounded-lg transition-all transform hover:scale-105 disabled:hover:scale-100 flex items-center justify-center"
+          >
+            <CalendarDays className="mr-2 h-5 w-5" />
+            {isDailyLocked
+              ? `Daily #${todaysPuzzleNumber} done - back tomorrow!`
+              : todaysDailyRecord
+                ? `Resume Daily ClaudLE #${todaysPuzzleNumber}`
+                : `Daily ClaudLE #${todaysPuzzleNumber}`}
+          </button>
+
           {wordGenerationError && (
             <div className="text-red-600 text-sm text-center p-3 bg-red-50 rounded-lg border border-red-200">
               {wordGenerationError}
@@ -516,12 +661,13 @@ const ClaudLE = () => {
         <div className="mt-6 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
           <p className="font-medium mb-2">How to play ClaudLE:</p>
           <ul className="space-y-1">
-            <li>🎯 You have 6 tries to guess the 5-letter word</li>
+            <li>🎯 You have {gameConfig.maxGuesses} tries to guess the {gameConfig.wordLength}-letter word</li>
             <li>🟩 Green = correct letter, correct position</li>
             <li>🟨 Yellow = correct letter, wrong position</li>
             <li>⬜ Gray = letter not in word</li>
-            <li>💡 Ask your AI coach for hints when stuck!</li>
+            <li>💡 Stuck? Climb the hint ladder: a gentle nudge, a letter, then a revealed position - each costs points</li>
             <li>🤖 Interactive Coach gives real-time strategy tips!</li>
+            <li>📅 Daily ClaudLE: one shared puzzle per theme, once a day</li>
           </ul>
         </div>
       </div>
@@ -534,12 +680,18 @@ const ClaudLE = () => {
       <div className="flex justify-between items-center mb-6">
         <div>
           <h1 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent flex items-center">
-            <span className="mr-2">{THEMES[theme].icon}</span>
+            <span className="mr-2">{gameTheme.icon}</span>
             ClaudLE
           </h1>
           <div className="text-sm text-gray-500 dark:text-gray-400">
-            {THEMES[theme].name} • {personality === 'lasso' ? 'Ted Lasso 😊' : 'Roy Kent 😤'}
+            {gameTheme.name} • {coach.name} {coach.emoji}
             {interactiveCoach && <span className="ml-2 text-purple-600 font-medium">• Interactive</span>}
+            {gameDifficulty === 'hard' && <span className="ml-2 text-red-600 font-medium">• Hard</span>}
+            {(wordLength !== WORD_LENGTH || maxGuesses !== DEFAULT_GAME_CONFIG.maxGuesses) && (
+              <span className="ml-2 text-green-600 font-medium">• {wordLength}×{maxGuesses}</span>
+            )}
+            {gameMode === 'daily' && dailyPuzzle && <span className="ml-2 text-blue-600 font-medium">• Daily #{dailyPuzzle.puzzleNumber}</span>}
+            {gameMode === 'offline' && <span className="ml-2 text-gray-600 dark:text-gray-300 font-medium">• Offline</span>}
           </div>
         </div>
         <div className="flex space-x-2">
@@ -571,38 +723,49 @@ const ClaudLE = () => {
       {/* Progress Bar */}
       <div className="mb-6">
         <div className="flex justify-between text-sm text-gray-600 mb-2">
-          <span className="text-gray-700 dark:text-gray-300">Progress: {guesses.length}/6</span>
+          <span className="text-gray-700 dark:text-gray-300">Progress: {guesses.length}/{maxGuesses}</span>
+          <span className="text-gray-700 dark:text-gray-300">💡 Hints: {hintsUsed}/{MAX_HINTS}</span>
           <span className="text-gray-700 dark:text-gray-300">Words played: {usedWords.size}</span>
         </div>
         <div className="w-full bg-gray-200 rounded-full h-2.5">
           <div
             className="bg-gradient-to-r from-blue-500 to-green-500 h-2.5 rounded-full transition-all duration-500"
-            style={{ width: `${(guesses.length / 6) * 100}%` }}
+            style={{ width: `${(guesses.length / maxGuesses) * 100}%` }}
           />
         </div>
       </div>
 
+      {/* Guess rejection message */}
+      {guessMessage && (
+        <div className="mb-3 text-center">
+          <span className="inline-block bg-gray-900 text-white text-sm font-bold px-3 py-1.5 rounded-lg shadow-md">
+            {guessMessage}
+          </span>
+        </div>
+      )}
+
       {/* Game Board */}
       <div className="grid gap-2 mb-6">
-        {Array.from({ length: 6 }, (_, rowIndex) => (
+        {Array.from({ length: maxGuesses }, (_, rowIndex) => (
           <div
             key={rowIndex}
-            className={`grid grid-cols-5 gap-2 ${
-              shakeRow === rowIndex ? 'animate-pulse' : ''
+            style={{ gridTemplateColumns: `repeat(${wordLength}, minmax(0, 3rem))` }}
+            className={`grid justify-center gap-2 ${
+              shakeRow === rowIndex ? 'animate-shake' : ''
             } ${
               flipRow === rowIndex ? 'animate-bounce' : ''
             }`}
           >
-            {Array.from({ length: 5 }, (_, colIndex) => {
+            {Array.from({ length: wordLength }, (_, colIndex) => {
               const guess = guesses[rowIndex]
               const isCurrentRow = rowIndex === guesses.length && gameState === 'playing'
               const letter = isCurrentRow && currentGuess[colIndex] ? currentGuess[colIndex] :
-                            guess ? guess[colIndex] : ''
+                            guess ? guess.tiles[colIndex].letter : ''
 
               let bgColor = 'bg-gray-100 dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600'
 
               if (guess) {
-                const status = getLetterStatus(guess, colIndex)
+                const status = guess.tiles[colIndex].state
                 if (status === 'correct') bgColor = 'bg-green-500 text-white border-green-500 shadow-md'
                 else if (status === 'present') bgColor = 'bg-yellow-500 text-white border-yellow-500 shadow-md'
                 else bgColor = 'bg-gray-400 text-white border-gray-400'
@@ -613,7 +776,7 @@ const ClaudLE = () => {
               return (
                 <div
                   key={colIndex}
-                  className={`w-12 h-12 flex items-center justify-center text-lg font-bold uppercase transition-all duration-300 rounded ${bgColor} ${!guess && !letter ? 'text-gray-900 dark:text-white' : ''}`}
+                  className={`w-full aspect-square flex items-center justify-center text-lg font-bold uppercase transition-all duration-300 rounded ${bgColor} ${!guess && !letter ? 'text-gray-900 dark:text-white' : ''}`}
                 >
                   {letter}
                 </div>
@@ -628,26 +791,32 @@ const ClaudLE = () => {
         <div className="mb-4 p-4 bg-gradient-to-r from-purple-50 to-blue-50 border-l-4 border-purple-500 rounded-lg shadow-sm">
           <div className="flex items-start space-x-3">
             <div className="flex-shrink-0 text-2xl">
-              {personality === 'lasso' ? '😊' : '😤'}
+              {coach.emoji}
             </div>
             <div className="flex-1">
               <div className="flex items-center mb-2">
                 <Lightbulb className="h-4 w-4 text-purple-600 mr-2" />
                 <span className="text-sm font-medium text-purple-800">
-                  {personality === 'lasso' ? 'Coach Lasso' : 'Roy Kent'} says:
+                  {coach.title} says:
                 </span>
               </div>
-              {isLoadingCoaching ? (
+              {coachingStream.isStreaming && !coachingStream.text ? (
                 <div className="flex items-center space-x-2">
                   <Loader2 className="animate-spin h-4 w-4 text-purple-600" />
                   <span className="text-sm text-purple-700">Analyzing your strategy...</span>
                 </div>
               ) : (
-                <p className="text-sm text-purple-800 leading-relaxed">{coachingText}</p>
+                <p className="text-sm text-purple-800 leading-relaxed">
+                  {coachingStream.text}
+                  {coachingStream.isStreaming && <span className="animate-pulse">▍</span>}
+                </p>
               )}
             </div>
             <button
-              onClick={() => setShowCoaching(false)}
+              onClick={() => {
+                coachingStreamActions.cancel()
+                setShowCoaching(false)
+              }}
               className="flex-shrink-0 text-purple-400 hover:text-purple-600 transition-colors"
             >
               <X className="h-4 w-4" />
@@ -659,52 +828,43 @@ const ClaudLE = () => {
       {/* Input Section */}
       {gameState === 'playing' && (
         <div className="mb-4">
-          <input
-            type="text"
-            value={currentGuess}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyDown}
-            className="w-full p-3 border-2 border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg text-center text-lg font-bold uppercase focus:border-blue-500 focus:outline-none transition-colors shadow-sm"
-            placeholder="Enter your guess"
-            maxLength={5}
-            autoComplete="off"
-            spellCheck={false}
-            autoFocus
+          <Keyboard
+            guesses={guesses}
+            onKey={handleKey}
+            disabled={isSubmittingGuess || showHintModal || showSettingsModal || showStatsModal || showGameOverModal}
           />
-          <div className="flex space-x-2 mt-3">
-            <button
-              onClick={submitGuess}
-              disabled={currentGuess.length !== 5}
-              className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 disabled:hover:scale-100 shadow-md"
-            >
-              Submit Guess
-            </button>
-            <button
-              onClick={getHint}
-              className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 shadow-md"
-              title="Get Hint"
-            >
-              <HelpCircle className="h-5 w-5" />
-            </button>
-          </div>
+          <button
+            onClick={getHint}
+            disabled={!nextHintType}
+            className="w-full mt-3 bg-purple-500 hover:bg-purple-600 disabled:bg-gray-400 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 disabled:hover:scale-100 shadow-md flex items-center justify-center"
+            title={nextHintType ? HINT_TIERS[nextHintType].description : 'No hints left'}
+          >
+            <HelpCircle className="mr-2 h-5 w-5" />
+            {nextHintType
+              ? `Ask for a ${HINT_TIERS[nextHintType].label} (-${HINT_TIERS[nextHintType].penalty} pts)`
+              : 'No hints left - you\'ve got this!'}
+          </button>
         </div>
       )}
 
       {/* Modals */}
       <Modal
         isOpen={showHintModal}
-        onClose={() => setShowHintModal(false)}
-        title={`💡 Hint from ${personality === 'lasso' ? 'Coach Lasso' : 'Roy Kent'}`}
+        onClose={closeHintModal}
+        title={`💡 ${HINT_TIERS[shownHintType].label} from ${coach.title}`}
       >
-        {isLoadingHint ? (
+        {hintStream.isStreaming && !hintStream.text ? (
           <LoadingSpinner text="Getting hint..." icon={Lightbulb} />
         ) : (
           <div className="space-y-4">
             <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg">
-              <p className="text-purple-800 leading-relaxed">{hintText}</p>
+              <p className="text-purple-800 leading-relaxed">
+                {hintStream.text}
+                {hintStream.isStreaming && <span className="animate-pulse">▍</span>}
+              </p>
             </div>
             <button
-              onClick={() => setShowHintModal(false)}
+              onClick={closeHintModal}
               className="w-full bg-purple-500 hover:bg-purple-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105"
             >
               Got it! Thanks Coach!
@@ -727,13 +887,39 @@ const ClaudLE = () => {
                 The word was: <span className="font-bold text-blue-600 text-2xl">{targetWord}</span>
               </div>
               <div className="text-sm text-gray-600 mb-4">
-                Solved in {guesses.length}/6 guesses
+                Solved in {guesses.length}/{maxGuesses} guesses
+                {gameMode === 'daily' && ' • Next Daily ClaudLE unlocks at midnight'}
               </div>
+              {gameState === 'won' && (
+                <div className="text-lg font-bold text-purple-600 mb-4">
+                  🏅 Score: {finalScore}
+                  {hintsUsed > 0 && <span className="ml-2 text-sm font-normal text-gray-500">({hintsUsed} hint{hintsUsed === 1 ? '' : 's'} used)</span>}
+                </div>
+              )}
               <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
                 <p className="text-gray-800 leading-relaxed">{gameOverMessage}</p>
               </div>
             </div>
 
+            <button
+              onClick={openReplay}
+              className="w-full bg-purple-500 hover:bg-purple-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+            >
+              <Brain className="mr-2 h-5 w-5" />
+              Replay & Analyse
+            </button>
+
+            <button
+              onClick={shareResult}
+              className="w-full bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+            >
+              <Share2 className="mr-2 h-5 w-5" />
+              Share Result
+            </button>
+            {shareStatus && (
+              <div className="text-center text-sm text-gray-600">{shareStatus}</div>
+            )}
+
             <div className="flex space-x-2">
               <button
                 onClick={() => {
@@ -756,6 +942,33 @@ const ClaudLE = () => {
         )}
       </Modal>
 
+      <Modal
+        isOpen={showReplayModal && replayAnalysis !== null}
+        onClose={() => setShowReplayModal(false)}
+        title="🔍 Replay & Analyse"
+        maxWidth="lg"
+      >
+        {replayAnalysis && (
+          <div className="space-y-4">
+            <ReplayAnalysis
+              analysis={replayAnalysis}
+              narration={replayNarration}
+              isNarrating={isLoadingReplayNarration}
+              personality={personality}
+            />
+            <button
+              onClick={() => {
+                setShowReplayModal(false)
+                setShowGameOverModal(true)
+              }}
+              className="w-full bg-gray-500 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105"
+            >
+              Back to Results
+            </button>
+          </div>
+        )}
+      </Modal>
+
       <Modal
         isOpen={showStatsModal}
         onClose={() => setShowStatsModal(false)}
@@ -781,6 +994,22 @@ const ClaudLE = () => {
             </div>
           </div>
 
+          {stats.gamesPlayed > 0 && (
+            <div className="flex justify-between items-center p-3 bg-purple-50 rounded-lg text-sm text-purple-700">
+              <span className="font-medium">🏅 Best {stats.bestScore || 0} • Avg {Math.round((stats.totalScore || 0) / stats.gamesPlayed)}</span>
+              <span>💡 {stats.hintsUsed || 0} hints used</span>
+            </div>
+          )}
+
+          {(stats.hardModeGamesPlayed || 0) > 0 && (
+            <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg text-sm">
+              <span className="font-medium text-red-700">Hard Mode</span>
+              <span className="text-red-700">
+                {stats.hardModeGamesWon || 0} won / {stats.hardModeGamesPlayed} played
+              </span>
+            </div>
+          )}
+
           <div>
             <h4 className="font-medium mb-3">Guess Distribution</h4>
             {stats.guessDistribution.map((count, index) => {
@@ -788,7 +1017,7 @@ const ClaudLE = () => {
               const width = (count / maxCount) * 100
               return (
                 <div key={index} className="flex items-center space-x-3 mb-2">
-                  <span className="w-4 text-sm font-medium">{index + 1}</span>
+                  <span className="w-5 text-sm font-medium">{index + 1}</span>
                   <div className="flex-1 bg-gray-200 rounded-full h-6 relative">
                     <div
                       className="bg-gradient-to-r from-green-400 to-blue-500 h-6 rounded-full transition-all duration-700 flex items-center justify-end pr-2"
@@ -802,6 +1031,8 @@ const ClaudLE = () => {
             })}
           </div>
 
+          <HistoryStats history={history} />
+
           <button
             onClick={() => setShowStatsModal(false)}
             className="w-full bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105"
@@ -815,18 +1046,18 @@ const ClaudLE = () => {
         isOpen={showSettingsModal}
         onClose={() => setShowSettingsModal(false)}
         title="⚙️ ClaudLE Settings"
-        size="lg"
+        maxWidth="lg"
       >
         <div className="space-y-6">
           <div>
             <h4 className="font-medium mb-3">Theme Selection</h4>
             <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
-              {Object.entries(THEMES).map(([key, themeData]) => (
+              {themeOptions.map(({ key, themeData }) => (
                 <button
                   key={key}
-                  onClick={() => setTheme(key as ThemeKey)}
+                  onClick={() => selectTheme(key)}
                   className={`p-3 rounded-lg border-2 text-left text-sm transition-all transform hover:scale-105 ${
-                    theme === key
+                    selectedThemeKey === key
                       ? 'border-blue-500 bg-blue-50 shadow-md'
                       : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
                   }`}
@@ -843,32 +1074,17 @@ const ClaudLE = () => {
             </div>
           </div>
 
+          <div>
+            <h4 className="font-medium mb-1">Custom Themes</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              Make a theme from your own topic. With seed words, answers come from your list; otherwise Claude picks words that fit the description.
+            </p>
+            <ThemeEditor themes={customThemes} onChange={updateCustomThemes} />
+          </div>
+
           <div>
             <h4 className="font-medium mb-3">Coach Personality</h4>
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={() => setPersonality('lasso')}
-                className={`p-4 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
-                  personality === 'lasso'
-                    ? 'border-green-500 bg-green-50 shadow-md'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                }`}
-              >
-                <div className="font-medium">Ted Lasso 😊</div>
-                <div className="text-xs text-gray-500 dark:text-gray-400">Positive & Encouraging</div>
-              </button>
-              <button
-                onClick={() => setPersonality('kent')}
-                className={`p-4 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
-                  personality === 'kent'
-                    ? 'border-red-500 bg-red-50 shadow-md'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                }`}
-              >
-                <div className="font-medium">Roy Kent 😤</div>
-                <div className="text-xs text-gray-500 dark:text-gray-400">Gruff but Caring</div>
-              </button>
-            </div>
+            <CoachPicker personality={personality} onChange={setPersonality} />
           </div>
 
           <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
@@ -905,18 +1121,150 @@ const ClaudLE = () => {
             </button>
           </div>
 
+          <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg">
+            <div>
+              <div className="font-medium">Hard Mode</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Revealed hints must be used in later guesses (applies from your next game)</div>
+            </div>
+            <button
+              onClick={() => setHardMode(!hardMode)}
+              className={`w-14 h-7 rounded-full transition-colors relative ${
+                hardMode ? 'bg-red-500' : 'bg-gray-300'
+              }`}
+            >
+              <div className={`w-6 h-6 bg-white rounded-full transition-transform absolute top-0.5 ${
+                hardMode ? 'translate-x-7' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between p-4 bg-orange-50 rounded-lg">
+            <div>
+              <div className="font-medium">High Contrast Sharing</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Use 🟧🟦 instead of 🟩🟨 in shared results</div>
+            </div>
+            <button
+              onClick={() => setHighContrastShare(!highContrastShare)}
+              className={`w-14 h-7 rounded-full transition-colors relative ${
+                highContrastShare ? 'bg-orange-500' : 'bg-gray-300'
+              }`}
+            >
+              <div className={`w-6 h-6 bg-white rounded-full transition-transform absolute top-0.5 ${
+                highContrastShare ? 'translate-x-7' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+
+          <div className="pt-4 border-t">
+            <h4 className="font-medium mb-1">Backup & Restore</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              Move your stats, history and settings to another device. Importing adds the backup&apos;s games to yours and keeps the best streaks.
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={exportPlayerData}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+              >
+                <Download className="mr-2 h-5 w-5" />
+                Export
+              </button>
+              <button
+                onClick={() => archiveInputRef.current?.click()}
+                className="flex-1 bg-gray-500 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+              >
+                <Upload className="mr-2 h-5 w-5" />
+                Import
+              </button>
+              <input
+                ref={archiveInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  if (file) importPlayerData(file)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            {archiveStatus && (
+              <div className="text-center text-sm text-gray-600 mt-2">{archiveStatus}</div>
+            )}
+          </div>
+
+          <div className="pt-4 border-t">
+            <h4 className="font-medium mb-1">Profile Sync</h4>
+            {profileSync.handle ? (
+              <>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                  Synced as <span className="font-mono font-bold">{profileSync.handle}</span>
+                  {profileSync.lastSyncedAt && ` · last synced ${new Date(profileSync.lastSyncedAt).toLocaleString()}`}
+                </p>
+                {profileSync.newRecoveryCode && (
+                  <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 rounded-lg p-3 mb-3 text-sm">
+                    <p className="mb-1">Your recovery code - write it down, it won&apos;t be shown again:</p>
+                    <p className="font-mono font-bold text-center text-lg select-all">{profileSync.newRecoveryCode}</p>
+                    <button onClick={profileSyncActions.dismissRecoveryCode} className="text-blue-500 hover:underline mt-1">
+                      I&apos;ve saved it
+                    </button>
+                  </div>
+                )}
+                <div className="flex space-x-2">
+                  <button
+                    onClick={profileSyncActions.sync}
+                    disabled={profileSync.isSyncing}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+                  >
+                    {profileSync.isSyncing ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <RotateCcw className="mr-2 h-5 w-5" />}
+                    Sync now
+                  </button>
+                  <button
+                    onClick={profileSyncActions.unlink}
+                    className="flex-1 bg-gray-500 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105"
+                  >
+                    Unlink
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                  Pick a handle to keep stats, history and settings in sync across devices. Already have one? Enter its recovery code too.
+                </p>
+                <input
+                  value={profileHandle}
+                  onChange={e => setProfileHandle(e.target.value)}
+                  placeholder="Handle"
+                  className="w-full px-3 py-2 mb-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                />
+                <input
+                  value={profileCode}
+                  onChange={e => setProfileCode(e.target.value)}
+                  placeholder="Recovery code (to link an existing profile)"
+                  className="w-full px-3 py-2 mb-2 border rounded-lg font-mono dark:bg-gray-700 dark:border-gray-600"
+                />
+                <button
+                  onClick={() => profileCode.trim()
+                    ? profileSyncActions.linkProfile(profileHandle, profileCode)
+                    : profileSyncActions.createProfile(profileHandle)}
+                  disabled={profileSync.isSyncing || !profileHandle.trim()}
+                  className="w-full bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105 flex items-center justify-center"
+                >
+                  {profileSync.isSyncing && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+                  {profileCode.trim() ? 'Link profile' : 'Create profile'}
+                </button>
+              </>
+            )}
+            {profileSync.status && (
+              <div className="text-center text-sm text-gray-600 mt-2">{profileSync.status}</div>
+            )}
+          </div>
+
           <div className="pt-4 border-t">
             <button
               onClick={() => {
                 if (window.confirm('This will reset all your ClaudLE statistics. Are you sure?')) {
-                  setStats({
-                    gamesPlayed: 0,
-                    gamesWon: 0,
-                    currentStreak: 0,
-                    maxStreak: 0,
-                    guessDistribution: [0, 0, 0, 0, 0, 0]
-                  })
-                  localStorage.removeItem('claudle-stats')
+                  gameActions.resetStats()
                 }
               }}
               className="w-full bg-red-500 hover:bg-red-600 text-white font-bold py-3 px-4 rounded-lg transition-all transform hover:scale-105"
@@ -0,0 +1,31 @@
+import { Personality } from '@/lib/game-types'
+import { COACHES } from '@/lib/personality-registry'
+
+interface CoachPickerProps {
+  personality: Personality
+  onChange: (personality: Personality) => void
+}
+
+export default function CoachPicker({ personality, onChange }: CoachPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {COACHES.map(coach => {
+        const selected = coach.id === personality
+        return (
+          <button
+            key={coach.id}
+            onClick={() => onChange(coach.id)}
+            className={`p-4 rounded-lg border-2 text-left transition-all transform hover:scale-105 ${
+              selected
+                ? `${coach.accent} shadow-md`
+                : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            <div className={`font-medium ${selected ? 'text-gray-900 dark:text-white' : ''}`}>{coach.name} {coach.emoji}</div>
+            <div className={`text-xs ${selected ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}`}>{coach.tagline}</div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { THEMES, ThemeKey } from '@/lib/game-types'
+import { GameHistoryEntry } from '@/lib/game-history'
+import { GroupStats, HistoryThemeKey, summarizeHistory } from '@/lib/stats-aggregation'
+import { getPersonality, isPersonality } from '@/lib/personality-registry'
+
+interface HistoryStatsProps {
+  history: GameHistoryEntry[]
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function BreakdownTable<K extends string>({ title, rows, label }: {
+  title: string
+  rows: GroupStats<K>[]
+  label: (key: K) => string
+}) {
+  return (
+    <div>
+      <h4 className="font-medium mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b">
+            <th className="py-1"></th>
+            <th className="py-1">Played</th>
+            <th className="py-1">Win %</th>
+            <th className="py-1">Avg Guesses</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b last:border-0">
+              <td className="py-1 font-medium">{label(row.key)}</td>
+              <td className="py-1">{row.played}</td>
+              <td className="py-1">{row.winRate}%</td>
+              <td className="py-1">{row.averageGuesses === null ? '-' : row.averageGuesses.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function themeLabel(key: HistoryThemeKey, history: GameHistoryEntry[]): string {
+  if (key.startsWith('custom:')) {
+    const name = key.slice('custom:'.length)
+    const icon = history.find(entry => entry.customTheme?.name === name)?.customTheme?.icon || ''
+    return `${icon} ${name}`
+  }
+  const theme = THEMES[key as ThemeKey]
+  return `${theme?.icon || ''} ${theme?.name || key}`
+}
+
+// Breakdowns from the game-history log: per theme, per coach, over time and a streak calendar
+export default function HistoryStats({ history }: HistoryStatsProps) {
+  const [calendarTheme, setCalendarTheme] = useState<ThemeKey | ''>('')
+
+  if (history.length === 0) return null
+
+  const summary = summarizeHistory(history, { theme: calendarTheme || undefined })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium mb-3">Win Rate by Week</h4>
+        <div className="flex items-end space-x-1 h-24">
+          {summary.winRateOverTime.map(point => (
+            <div
+              key={point.start}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={point.played > 0 ? `Week of ${point.start}: ${point.won}/${point.played} won` : `Week of ${point.start}: no games`}
+            >
+              <div
+                className={`rounded-t ${point.winRate === null ? 'bg-gray-200' : 'bg-gradient-to-t from-green-400 to-blue-500'}`}
+                style={{ height: `${Math.max(point.winRate || 0, 4)}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>8 weeks ago</span>
+          <span>This week</span>
+        </div>
+      </div>
+
+      <BreakdownTable
+        title="By Theme"
+        rows={summary.byTheme}
+        label={key => themeLabel(key, history)}
+      />
+
+      <BreakdownTable
+        title="By Coach"
+        rows={summary.byPersonality}
+        label={key => isPersonality(key) ? `${getPersonality(key).emoji} ${getPersonality(key).title}` : key}
+      />
+
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="font-medium">Streak Calendar</h4>
+          <select
+            value={calendarTheme}
+            onChange={e => setCalendarTheme(e.target.value as ThemeKey | '')}
+            className="text-sm border rounded-lg p-1 bg-white"
+          >
+            <option value="">All themes</option>
+            {Object.entries(THEMES).map(([key, themeData]) => (
+              <option key={key} value={key}>{themeData.icon} {themeData.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {summary.calendar.map(day => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${day.won}/${day.played} won`}
+              className={`aspect-square rounded ${
+                day.won > 0 ? 'bg-green-500' : day.played > 0 ? 'bg-red-300' : 'bg-gray-100'
+              }`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-2">
+          <span>🔥 {summary.dailyStreak} day{summary.dailyStreak === 1 ? '' : 's'} with a win in a row</span>
+          {summary.averageDurationMs !== null && <span>⏱️ Avg game {formatDuration(summary.averageDurationMs)}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect } from 'react'
+import { Delete } from 'lucide-react'
+import { KEYBOARD_LAYOUT, GuessResult } from '@/lib/game-types'
+import { getKeyboardState } from '@/lib/utils'
+
+interface KeyboardProps {
+  guesses: GuessResult[]
+  onKey: (key: string) => void
+  disabled?: boolean
+}
+
+export default function Keyboard({ guesses, onKey, disabled = false }: KeyboardProps) {
+  const letterStates = getKeyboardState(guesses)
+
+  // Physical keyboard support, so no text input is needed
+  useEffect(() => {
+    if (disabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+
+      // Leave typing in real form fields alone (e.g. settings inputs)
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+      if (e.key === 'Enter') {
+        e.preventDefault()
+        onKey('ENTER')
+      } else if (e.key === 'Backspace') {
+        e.preventDefault()
+        onKey('BACKSPACE')
+      } else if (/^[a-zA-Z]$/.test(e.key)) {
+        onKey(e.key.toUpperCase())
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onKey, disabled])
+
+  const keyColors = {
+    correct: 'bg-green-500 text-white',
+    present: 'bg-yellow-500 text-white',
+    absent: 'bg-gray-400 text-white dark:bg-gray-600',
+    empty: 'bg-gray-200 text-gray-900 dark:bg-gray-500 dark:text-white'
+  }
+
+  return (
+    <div className="space-y-1.5 select-none">
+      {KEYBOARD_LAYOUT.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex justify-center gap-1.5">
+          {row.map(key => {
+            const isWide = key === 'ENTER' || key === 'BACKSPACE'
+            const state = letterStates[key] || 'empty'
+
+            return (
+              <button
+                key={key}
+                onClick={() => onKey(key)}
+                disabled={disabled}
+                aria-label={key === 'BACKSPACE' ? 'Backspace' : key}
+                className={`${isWide ? 'flex-[1.5] max-w-[4.5rem] px-2 text-xs' : 'flex-1 max-w-[3rem]'} h-12 rounded font-bold uppercase flex items-center justify-center transition-colors active:scale-95 disabled:opacity-60 ${
+                  isWide ? keyColors.empty : keyColors[state]
+                }`}
+              >
+                {key === 'BACKSPACE' ? <Delete className="h-5 w-5" /> : key}
+              </button>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
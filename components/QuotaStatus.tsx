@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react'
+import { CalendarDays, Clock, WifiOff } from 'lucide-react'
+import { Quota, formatCountdown, getQuotaStatus } from '@/lib/rate-limit-quota'
+
+interface QuotaStatusProps {
+  quota: Quota
+  // Offered instead of an AI game once none are left; omitted when today's daily is done
+  onPlayDaily?: () => void
+  // Also offered then: a game from the offline word bank, which costs no AI games
+  onPlayOffline?: () => void
+}
+
+// Ticks on its own so the countdown doesn't re-render the whole game every second
+export default function QuotaStatus({ quota, onPlayDaily, onPlayOffline }: QuotaStatusProps) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const { remaining, nextAt, resetAt } = getQuotaStatus(quota, now)
+  const period = quota.windowMs >= 24 * 60 * 60 * 1000 ? 'today' : 'right now'
+
+  if (nextAt === null) {
+    return (
+      <div className="text-sm text-center text-gray-600 dark:text-gray-400 flex items-center justify-center">
+        <Clock className="mr-1 h-4 w-4" />
+        {remaining} AI game{remaining === 1 ? '' : 's'} left {period}
+        {remaining < quota.limit && ` • full again in ${formatCountdown(resetAt - now)}`}
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-sm text-center p-3 bg-yellow-50 dark:bg-yellow-900/30 rounded-lg border border-yellow-200">
+      <p className="text-gray-700 dark:text-gray-300 mb-2">
+        No AI games left {period} - next one in <span className="font-bold">{formatCountdown(nextAt - now)}</span>.
+      </p>
+      {onPlayDaily ? (
+        <button
+          onClick={onPlayDaily}
+          className="text-blue-600 dark:text-blue-300 font-medium hover:underline inline-flex items-center"
+        >
+          <CalendarDays className="mr-1 h-4 w-4" />
+          Play today&apos;s Daily instead - it works offline
+        </button>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">Today&apos;s Daily is done too{onPlayOffline ? '.' : ' - see you soon!'}</p>
+      )}
+      {onPlayOffline && (
+        <button
+          onClick={onPlayOffline}
+          className="mt-1 text-blue-600 dark:text-blue-300 font-medium hover:underline flex items-center mx-auto"
+        >
+          <WifiOff className="mr-1 h-4 w-4" />
+          Switch to offline mode - words from the built-in bank
+        </button>
+      )}
+    </div>
+  )
+}
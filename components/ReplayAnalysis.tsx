@@ -0,0 +1,67 @@
+import { Loader2 } from 'lucide-react'
+import { Personality } from '@/lib/game-types'
+import { GameAnalysis, formatBits } from '@/lib/game-analysis'
+import { getPersonality } from '@/lib/personality-registry'
+
+interface ReplayAnalysisProps {
+  analysis: GameAnalysis
+  // The coach's take on the biggest mistake (the local summary until the coach answers)
+  narration: string
+  isNarrating: boolean
+  personality: Personality
+}
+
+export default function ReplayAnalysis({ analysis, narration, isNarrating, personality }: ReplayAnalysisProps) {
+  const { steps, biggestMistake } = analysis
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg">
+        <div className="text-sm font-bold text-purple-700 mb-1">
+          {getPersonality(personality).title} on your biggest mistake:
+        </div>
+        <p className="text-gray-800 leading-relaxed text-sm">
+          {narration}
+          {isNarrating && <Loader2 className="inline ml-2 h-4 w-4 animate-spin text-purple-500" />}
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b">
+            <th className="py-2">Guess</th>
+            <th className="py-2">Words left</th>
+            <th className="py-2">Info</th>
+            <th className="py-2">Bot</th>
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map((step, i) => (
+            <tr
+              key={i}
+              className={`border-b last:border-0 ${i === biggestMistake ? 'bg-red-50' : ''}`}
+            >
+              <td className="py-2 font-mono font-bold">
+                {i + 1}. {step.guess}
+              </td>
+              <td className="py-2 text-gray-700">
+                {step.candidatesBefore} → {step.candidatesAfter}
+              </td>
+              <td className="py-2 text-gray-700">
+                {formatBits(step.expectedBits)} bits
+              </td>
+              <td className="py-2 text-gray-500">
+                <span className="font-mono">{step.botGuess}</span> ({formatBits(step.botBits)})
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-500">
+        Info is the expected information of each guess in bits - each bit halves the words that could still be the answer.
+        The bot plays the guess with the most expected information.
+      </p>
+    </div>
+  )
+}
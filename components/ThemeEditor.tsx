@@ -0,0 +1,175 @@
+import { useState, useRef } from 'react'
+import { Download, Upload, Trash2, Plus } from 'lucide-react'
+import { getDateKey } from '@/lib/daily-puzzle'
+import {
+  CustomTheme,
+  MAX_CUSTOM_THEMES,
+  THEME_DIFFICULTIES,
+  createCustomTheme,
+  createThemesExport,
+  importThemes,
+  parseCustomTheme
+} from '@/lib/custom-themes'
+
+interface ThemeEditorProps {
+  themes: CustomTheme[]
+  onChange: (themes: CustomTheme[]) => void
+}
+
+const EMPTY_DRAFT = { name: '', description: '', icon: '', difficulty: 'Medium', seedWords: '' }
+
+const inputClass = 'w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600'
+
+// Create, delete, export and import player-made themes
+export default function ThemeEditor({ themes, onChange }: ThemeEditorProps) {
+  const [draft, setDraft] = useState(EMPTY_DRAFT)
+  const [status, setStatus] = useState('')
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const updateDraft = (field: keyof typeof EMPTY_DRAFT, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+  }
+
+  const addTheme = () => {
+    if (themes.length >= MAX_CUSTOM_THEMES) {
+      setStatus(`You can keep at most ${MAX_CUSTOM_THEMES} custom themes.`)
+      return
+    }
+
+    const parsed = parseCustomTheme(draft)
+    if ('error' in parsed) {
+      setStatus(parsed.error)
+      return
+    }
+
+    onChange([...themes, createCustomTheme(parsed.theme)])
+    setDraft(EMPTY_DRAFT)
+    setStatus(`Added ${parsed.theme.icon} ${parsed.theme.name}.`)
+  }
+
+  const exportThemes = () => {
+    const blob = new Blob([createThemesExport(themes)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `claudle-themes-${getDateKey()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+    setStatus('Themes downloaded.')
+  }
+
+  const importFile = async (file: File) => {
+    const result = importThemes(await file.text(), themes)
+    if ('error' in result) {
+      setStatus(result.error)
+      return
+    }
+
+    onChange(result.themes)
+    setStatus('Themes imported.')
+  }
+
+  return (
+    <div>
+      {themes.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {themes.map(theme => (
+            <li key={theme.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+              <span>
+                {theme.icon} <span className="font-medium">{theme.name}</span>
+                <span className="text-gray-500 dark:text-gray-400"> • {theme.difficulty}{theme.seedWords.length > 0 && ` • ${theme.seedWords.length} seed words`}</span>
+              </span>
+              <button
+                onClick={() => onChange(themes.filter(t => t.id !== theme.id))}
+                className="text-gray-400 hover:text-red-600 p-1"
+                title={`Delete ${theme.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex space-x-2">
+          <input
+            value={draft.icon}
+            onChange={e => updateDraft('icon', e.target.value)}
+            placeholder="✨"
+            className={`${inputClass} w-16 text-center`}
+          />
+          <input
+            value={draft.name}
+            onChange={e => updateDraft('name', e.target.value)}
+            placeholder="Theme name"
+            className={inputClass}
+          />
+          <select
+            value={draft.difficulty}
+            onChange={e => updateDraft('difficulty', e.target.value)}
+            className={`${inputClass} w-32`}
+          >
+            {THEME_DIFFICULTIES.map(difficulty => (
+              <option key={difficulty} value={difficulty}>{difficulty}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          value={draft.description}
+          onChange={e => updateDraft('description', e.target.value)}
+          placeholder="What are the words about? e.g. Terms from our observability platform"
+          className={inputClass}
+        />
+        <textarea
+          value={draft.seedWords}
+          onChange={e => updateDraft('seedWords', e.target.value)}
+          placeholder="Optional seed words, separated by spaces or commas - answers are picked from these"
+          rows={2}
+          className={`${inputClass} font-mono text-sm`}
+        />
+        <button
+          onClick={addTheme}
+          disabled={!draft.name.trim() || !draft.description.trim()}
+          className="w-full bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-lg transition-all flex items-center justify-center"
+        >
+          <Plus className="mr-2 h-5 w-5" />
+          Add Theme
+        </button>
+      </div>
+
+      <div className="flex space-x-2 mt-3">
+        <button
+          onClick={exportThemes}
+          disabled={themes.length === 0}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 font-medium py-2 px-4 rounded-lg flex items-center justify-center"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg flex items-center justify-center"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {status && (
+        <div className="text-center text-sm text-gray-600 mt-2">{status}</div>
+      )}
+    </div>
+  )
+}
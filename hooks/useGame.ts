@@ -0,0 +1,437 @@
+import { useState, useEffect, useMemo, useReducer, useRef } from 'react'
+import { CustomThemeInfo, Difficulty, GameConfig, GameData, GameStats, GuessResult, Personality, ThemeKey } from '@/lib/game-types'
+import { createGame, createEmptyStats, gameReducer, getFinalScore, getGuessRejection, recordGameResult, GameAction } from '@/lib/game-engine'
+import { loadGameStats, saveGameStats } from '@/lib/utils'
+import { DailyPuzzle, getDailyPuzzle, getDailyWord, getDateKey, loadDailyRecord, saveDailyRecord } from '@/lib/daily-puzzle'
+import { SavedGame, loadSavedGame, saveGame, clearSavedGame } from '@/lib/saved-game'
+import { GameHistoryEntry, loadGameHistory, recordGameHistory, clearGameHistory } from '@/lib/game-history'
+import { Quota, loadQuota, parseQuota, saveQuota } from '@/lib/rate-limit-quota'
+import { pickWord } from '@/lib/word-bank'
+
+// 'offline' games are AI games started without a network: a word from the bank, scored locally
+export type GameMode = 'ai' | 'daily' | 'offline'
+
+// Identifies the game to the Claude routes: a server session, or a daily puzzle with its local guesses
+export interface DailyGameRef {
+  date: string
+  theme: ThemeKey
+  guesses: string[]
+  difficulty: Difficulty
+  hintsUsed: number
+}
+
+export type GameRef = { sessionToken: string } | { daily: DailyGameRef }
+
+export interface GameHookState {
+  game: GameData
+  stats: GameStats
+  // Every finished game, oldest first
+  history: GameHistoryEntry[]
+  mode: GameMode
+  dailyPuzzle: DailyPuzzle | null
+  gameRef: GameRef
+  usedWords: Set<string>
+  isLoadingWord: boolean
+  isSubmitting: boolean
+  wordGenerationError: string
+  // AI game allowance from the last generate-word response, null until the server has reported one
+  quota: Quota | null
+  // A game left unfinished by a previous visit, until it is resumed or replaced
+  savedGame: SavedGame | null
+}
+
+interface GameHookActions {
+  // customTheme plays a player-made theme (theme should then be 'original')
+  startAiGame: (theme: ThemeKey, options: { difficulty: Difficulty; config: GameConfig; openingGuess?: string; customTheme?: CustomThemeInfo }) => Promise<boolean>
+  // The same kind of game from the bundled word bank, scored locally - no network or AI games needed
+  startOfflineGame: (theme: ThemeKey, options: Parameters<GameHookActions['startAiGame']>[1]) => void
+  startDailyGame: (theme: ThemeKey, difficulty: Difficulty) => boolean
+  // Pick up savedGame where it was left; false if it can no longer be played
+  resumeGame: () => boolean
+  typeLetter: (letter: string) => void
+  deleteLetter: () => void
+  // Resolves to a player-facing rejection message, or null when the guess was accepted
+  submitGuess: () => Promise<string | null>
+  registerHint: () => void
+  resetStats: () => void
+  // Re-read stats and history after localStorage changed underneath (e.g. a backup import)
+  reloadStats: () => void
+}
+
+interface GuessResponse {
+  result: GuessResult
+  sessionToken: string
+  targetWord?: string
+  hintsUsed?: number
+}
+
+// The session token was already spent on another guess, so this game can't go on
+class SpentSessionError extends Error {}
+
+// Score a guess on the server against the session
+async function postGuess(sessionToken: string, guess: string): Promise<GuessResponse> {
+  const response = await fetch("/api/game/guess", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      sessionToken,
+      guess
+    })
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    const message = data.error || `API request failed: ${response.status}`
+    throw data.spent ? new SpentSessionError(message) : new Error(message)
+  }
+
+  return data
+}
+
+// personality is saved alongside the game so a resumed game keeps its coach
+export function useGame(personality: Personality): [GameHookState, GameHookActions] {
+  const [game, dispatch] = useReducer(gameReducer, undefined, () => createGame())
+  const [stats, setStats] = useState<GameStats>(createEmptyStats)
+  const [history, setHistory] = useState<GameHistoryEntry[]>([])
+  const [mode, setMode] = useState<GameMode>('ai')
+  // Opaque server session; the target word is only revealed once the game ends
+  const [sessionToken, setSessionToken] = useState('')
+  const [dailyPuzzle, setDailyPuzzle] = useState<DailyPuzzle | null>(null)
+  const [usedWords, setUsedWords] = useState(new Set<string>())
+  const [isLoadingWord, setIsLoadingWord] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [wordGenerationError, setWordGenerationError] = useState('')
+  const [quota, setQuota] = useState<Quota | null>(null)
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null)
+  // When the current game began; a ref so a game finished by the opening guess still sees it
+  const startedAt = useRef(new Date().toISOString())
+
+  const reloadStats = () => {
+    setStats({ ...createEmptyStats(), ...loadGameStats() })
+    setHistory(loadGameHistory())
+  }
+
+  // Load stats and any unfinished game from localStorage
+  useEffect(() => {
+    reloadStats()
+    setSavedGame(loadSavedGame())
+    setQuota(loadQuota())
+  }, [])
+
+  // Save the game in progress after every guess or hint; finished games have nothing to resume
+  useEffect(() => {
+    // An offline game's answer is in memory; saving it would spell the word out in localStorage
+    if (mode === 'offline') return
+
+    const started = mode === 'daily' ? dailyPuzzle !== null : sessionToken !== ''
+    if (!started) return
+
+    if (game.gameState !== 'playing') {
+      clearSavedGame()
+      return
+    }
+
+    const progress = {
+      theme: game.theme,
+      personality,
+      difficulty: game.difficulty,
+      wordLength: game.wordLength,
+      maxGuesses: game.maxGuesses,
+      guesses: game.guesses,
+      hintsUsed: game.hintsUsed,
+      startedAt: startedAt.current
+    }
+
+    saveGame(mode === 'daily' && dailyPuzzle
+      ? { ...progress, mode: 'daily', date: dailyPuzzle.date }
+      : { ...progress, mode: 'ai', sessionToken, usedWords: Array.from(usedWords), customTheme: game.customTheme })
+  }, [game.theme, game.customTheme, game.difficulty, game.wordLength, game.maxGuesses, game.guesses, game.hintsUsed, game.gameState, mode, dailyPuzzle, sessionToken, usedWords, personality])
+
+  // Memoized so callers can list it as an effect or callback dependency
+  const gameRef: GameRef = useMemo(() => mode === 'daily' && dailyPuzzle
+    ? { daily: { date: dailyPuzzle.date, theme: dailyPuzzle.theme, guesses: game.guesses.map(g => g.word), difficulty: game.difficulty, hintsUsed: game.hintsUsed } }
+    : { sessionToken }, [mode, dailyPuzzle, game.guesses, game.difficulty, game.hintsUsed, sessionToken])
+
+  // Dispatch an action and return the resulting state so side effects can act on it
+  const apply = (current: GameData, action: GameAction): GameData => {
+    dispatch(action)
+    return gameReducer(current, action)
+  }
+
+  const finishGame = (finished: GameData, currentMode: GameMode) => {
+    setStats(prev => {
+      const newStats = recordGameResult(prev, finished)
+      saveGameStats(newStats)
+      return newStats
+    })
+
+    const finishedAt = new Date()
+    setHistory(recordGameHistory({
+      startedAt: startedAt.current,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - new Date(startedAt.current).getTime(),
+      mode: currentMode,
+      theme: finished.theme,
+      ...(finished.customTheme && { customTheme: { name: finished.customTheme.name, icon: finished.customTheme.icon } }),
+      personality,
+      difficulty: finished.difficulty,
+      word: finished.targetWord,
+      guesses: finished.guesses.map(g => g.word),
+      wordLength: finished.wordLength,
+      maxGuesses: finished.maxGuesses,
+      hintsUsed: finished.hintsUsed,
+      score: getFinalScore(finished),
+      won: finished.gameState === 'won'
+    }))
+
+    if (currentMode !== 'daily' && finished.targetWord) {
+      setUsedWords(prev => new Set(prev).add(finished.targetWord))
+    }
+  }
+
+  // Used words only matter within a theme (and word length)
+  const getExcludedWords = (theme: ThemeKey, customTheme: CustomThemeInfo | undefined, wordLength: number): Set<string> => {
+    const sameWords = theme === game.theme && customTheme?.name === game.customTheme?.name && wordLength === game.wordLength
+    const excludedWords = sameWords ? usedWords : new Set<string>()
+    if (!sameWords) setUsedWords(excludedWords)
+    return excludedWords
+  }
+
+  const startAiGame: GameHookActions['startAiGame'] = async (theme, { difficulty, config, openingGuess, customTheme }) => {
+    setIsLoadingWord(true)
+    setWordGenerationError('')
+
+    const excludedWords = getExcludedWords(theme, customTheme, config.wordLength)
+
+    try {
+      const response = await fetch("/api/claude/generate-word", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          theme,
+          usedWords: Array.from(excludedWords),
+          customTheme,
+          difficulty,
+          ...config
+        })
+      }).catch(() => null)
+
+      // No network (and no service worker to answer): play a word from the bundled bank
+      if (!response) {
+        playOfflineWord(theme, { difficulty, config, openingGuess, customTheme }, pickWord(theme, Array.from(excludedWords), config.wordLength))
+        return true
+      }
+
+      const responseQuota = parseQuota(response.headers)
+      if (responseQuota) {
+        saveQuota(responseQuota)
+        setQuota(responseQuota)
+      }
+
+      if (response.status === 429) {
+        setWordGenerationError('You\'ve used all your AI games for now.')
+        return false
+      }
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status}`)
+      }
+
+      const data = await response.json()
+
+      // The service worker's offline answer, with a word from its cached bank when it has one
+      if (data.offline) {
+        playOfflineWord(theme, { difficulty, config, openingGuess, customTheme }, data.word || pickWord(theme, Array.from(excludedWords), config.wordLength))
+        return true
+      }
+
+      if (!data.sessionToken) {
+        throw new Error('No game session returned')
+      }
+
+      setMode('ai')
+      setDailyPuzzle(null)
+      setSessionToken(data.sessionToken)
+      setSavedGame(null)
+      startedAt.current = new Date().toISOString()
+      let current = apply(game, { type: 'start', theme, customTheme, difficulty, ...config })
+
+      if (openingGuess) {
+        try {
+          const opening = await postGuess(data.sessionToken, openingGuess)
+          setSessionToken(opening.sessionToken)
+          current = apply(current, { type: 'scored', result: opening.result, targetWord: opening.targetWord, hintsUsed: opening.hintsUsed })
+          if (current.gameState !== 'playing') finishGame(current, 'ai')
+        } catch (error) {
+          console.error('Error submitting opening guess:', error)
+        }
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error generating word:', error)
+      setWordGenerationError('Failed to generate word. Please try again.')
+      return false
+    } finally {
+      setIsLoadingWord(false)
+    }
+  }
+
+  const playOfflineWord = (theme: ThemeKey, { difficulty, config, openingGuess, customTheme }: Parameters<GameHookActions['startAiGame']>[1], targetWord: string) => {
+    setMode('offline')
+    setWordGenerationError('')
+    setDailyPuzzle(null)
+    setSessionToken('')
+    // Offline games are never saved, so the save effect won't replace the old one - drop it here
+    setSavedGame(null)
+    clearSavedGame()
+    startedAt.current = new Date().toISOString()
+    let current = apply(game, { type: 'start', theme, customTheme, targetWord, difficulty, ...config })
+
+    if (openingGuess) {
+      current = openingGuess.split('').reduce((state, letter) => apply(state, { type: 'type', letter }), current)
+      current = apply(current, { type: 'guess' })
+      if (current.gameState !== 'playing') finishGame(current, 'offline')
+    }
+  }
+
+  const startOfflineGame: GameHookActions['startOfflineGame'] = (theme, options) => {
+    const excludedWords = getExcludedWords(theme, options.customTheme, options.config.wordLength)
+    playOfflineWord(theme, options, pickWord(theme, Array.from(excludedWords), options.config.wordLength))
+  }
+
+  // Start (or resume) today's Daily ClaudLE - scored locally, no API key or network needed
+  const startDailyGame: GameHookActions['startDailyGame'] = (theme, difficulty) => {
+    const puzzle = getDailyPuzzle(theme)
+    const record = loadDailyRecord(puzzle.date, theme)
+
+    // One attempt per day - finished puzzles stay locked until tomorrow
+    if (record && record.gameState !== 'playing') return false
+
+    const targetWord = getDailyWord(puzzle.date, theme)
+    const started = gameReducer(createGame(theme), { type: 'start', theme, targetWord, difficulty: record?.difficulty || difficulty })
+
+    // Replay saved guesses through the engine so a reload resumes the same board
+    let restored = started
+    for (const guess of record?.guesses || []) {
+      restored = guess.split('').reduce((state, letter) => gameReducer(state, { type: 'type', letter }), restored)
+      restored = gameReducer(restored, { type: 'guess' })
+    }
+
+    if (!record) {
+      saveDailyRecord(puzzle.date, theme, { guesses: [], gameState: 'playing', difficulty })
+    }
+
+    setMode('daily')
+    setDailyPuzzle(puzzle)
+    setSessionToken('')
+    setSavedGame(null)
+    startedAt.current = new Date().toISOString()
+    dispatch({ type: 'start', theme, targetWord, difficulty: restored.difficulty, guesses: restored.guesses, hintsUsed: record?.hintsUsed })
+    return true
+  }
+
+  const resumeGame = () => {
+    if (!savedGame) return false
+    setSavedGame(null)
+
+    if (savedGame.mode === 'daily') {
+      // Yesterday's puzzle is gone; its record already counts as played
+      if (savedGame.date !== getDateKey()) {
+        clearSavedGame()
+        return false
+      }
+      if (!startDailyGame(savedGame.theme, savedGame.difficulty)) return false
+      startedAt.current = savedGame.startedAt
+      return true
+    }
+
+    const { theme, difficulty, wordLength, maxGuesses, guesses, hintsUsed } = savedGame
+    setMode('ai')
+    setDailyPuzzle(null)
+    setSessionToken(savedGame.sessionToken)
+    setUsedWords(new Set(savedGame.usedWords))
+    startedAt.current = savedGame.startedAt
+    dispatch({ type: 'start', theme, customTheme: savedGame.customTheme, difficulty, wordLength, maxGuesses, guesses, hintsUsed })
+    return true
+  }
+
+  // Record daily progress so the puzzle can't be replayed (or its hints forgotten) by reloading
+  const saveDailyProgress = (current: GameData) => {
+    if (!dailyPuzzle) return
+    saveDailyRecord(dailyPuzzle.date, dailyPuzzle.theme, {
+      guesses: current.guesses.map(g => g.word),
+      gameState: current.gameState,
+      difficulty: current.difficulty,
+      hintsUsed: current.hintsUsed
+    })
+  }
+
+  const registerHint = () => {
+    const next = apply(game, { type: 'hint' })
+    if (mode === 'daily') saveDailyProgress(next)
+  }
+
+  const submitGuess: GameHookActions['submitGuess'] = async () => {
+    if (isSubmitting) return 'Please wait'
+
+    const rejection = getGuessRejection(game)
+    if (rejection) return rejection
+
+    // Daily and offline games know their answer and are scored locally
+    if ((mode === 'daily' && dailyPuzzle) || mode === 'offline') {
+      const next = apply(game, { type: 'guess' })
+      if (mode === 'daily') saveDailyProgress(next)
+      if (next.gameState !== 'playing') finishGame(next, mode)
+      return null
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const data = await postGuess(sessionToken, game.currentGuess)
+      setSessionToken(data.sessionToken)
+      const next = apply(game, { type: 'scored', result: data.result, targetWord: data.targetWord, hintsUsed: data.hintsUsed })
+      if (next.gameState !== 'playing') finishGame(next, 'ai')
+      return null
+    } catch (error) {
+      console.error('Error submitting guess:', error)
+      // Without a token the game stops saving, so a reload won't offer the dead game again
+      if (error instanceof SpentSessionError) {
+        setSessionToken('')
+        clearSavedGame()
+      }
+      return error instanceof Error ? error.message : 'Failed to submit guess'
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const resetStats = () => {
+    setStats(createEmptyStats())
+    setHistory([])
+    localStorage.removeItem('claudle-stats')
+    clearGameHistory()
+  }
+
+  return [
+    { game, stats, history, mode, dailyPuzzle, gameRef, usedWords, isLoadingWord, isSubmitting, wordGenerationError, quota, savedGame },
+    {
+      startAiGame,
+      startOfflineGame,
+      startDailyGame,
+      resumeGame,
+      typeLetter: letter => dispatch({ type: 'type', letter }),
+      deleteLetter: () => dispatch({ type: 'delete' }),
+      submitGuess,
+      registerHint,
+      resetStats,
+      reloadStats
+    }
+  ]
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react'
+import { GameStats } from '@/lib/game-types'
+import { saveGameStats } from '@/lib/utils'
+import { saveGameHistory } from '@/lib/game-history'
+import { PlayerSettings, saveSettings } from '@/lib/settings'
+import { loadPlayerData } from '@/lib/player-archive'
+import { normalizeHandle, SyncPayload, SyncedProfile } from '@/lib/profile-sync'
+
+const STORAGE_KEY = 'claudle-sync'
+
+// This device's link to a server profile
+interface ProfileLink {
+  handle: string
+  recoveryCode: string
+  // What the last sync returned, so the next one only sends what changed since
+  baseStats: GameStats | null
+  baseSettings: PlayerSettings | null
+  lastSyncedAt: string | null
+}
+
+export interface ProfileSyncState {
+  handle: string | null
+  lastSyncedAt: string | null
+  isSyncing: boolean
+  status: string
+  // Shown once after creating a profile - the server only keeps a hash
+  newRecoveryCode: string | null
+}
+
+interface ProfileSyncActions {
+  createProfile: (handle: string) => Promise<void>
+  linkProfile: (handle: string, recoveryCode: string) => Promise<void>
+  sync: () => Promise<void>
+  unlink: () => void
+  dismissRecoveryCode: () => void
+}
+
+function loadLink(): ProfileLink | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : null
+  } catch (error) {
+    console.error('Failed to load profile link:', error)
+    return null
+  }
+}
+
+function saveLink(link: ProfileLink | null) {
+  if (link) localStorage.setItem(STORAGE_KEY, JSON.stringify(link))
+  else localStorage.removeItem(STORAGE_KEY)
+}
+
+async function requestProfile(method: 'POST' | 'PUT', body: Record<string, unknown>) {
+  const response = await fetch("/api/profile", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body)
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || `API request failed: ${response.status}`)
+  }
+
+  return data
+}
+
+// Optional sync of stats, history and settings with a server profile (handle + recovery code).
+// onSynced runs after synced data has been written to localStorage.
+export function useProfileSync(onSynced: () => void): [ProfileSyncState, ProfileSyncActions] {
+  const [link, setLink] = useState<ProfileLink | null>(null)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [status, setStatus] = useState('')
+  const [newRecoveryCode, setNewRecoveryCode] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLink(loadLink())
+  }, [])
+
+  const syncWith = async (current: ProfileLink) => {
+    setIsSyncing(true)
+    setStatus('')
+
+    try {
+      const local = loadPlayerData()
+      // Settings changed here since the last sync win over the profile's; a new device adopts the profile's
+      const settingsChanged = current.lastSyncedAt !== null && JSON.stringify(local.settings) !== JSON.stringify(current.baseSettings)
+      const payload: SyncPayload = {
+        stats: local.stats,
+        baseStats: current.baseStats,
+        history: local.history,
+        settings: local.settings,
+        settingsUpdatedAt: settingsChanged ? new Date().toISOString() : null
+      }
+
+      const synced: SyncedProfile = await requestProfile('PUT', {
+        handle: current.handle,
+        recoveryCode: current.recoveryCode,
+        ...payload
+      })
+
+      saveGameStats(synced.stats)
+      saveGameHistory(synced.history)
+      if (synced.settings) saveSettings(synced.settings)
+
+      const next = { ...current, baseStats: synced.stats, baseSettings: synced.settings, lastSyncedAt: synced.updatedAt }
+      saveLink(next)
+      setLink(next)
+      setStatus('Synced!')
+      onSynced()
+    } catch (error) {
+      console.error('Error syncing profile:', error)
+      setStatus(error instanceof Error ? error.message : 'Sync failed')
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const linkProfile: ProfileSyncActions['linkProfile'] = async (rawHandle, recoveryCode) => {
+    const handle = normalizeHandle(rawHandle)
+    if (!handle) {
+      setStatus('Handles are 3-24 letters, numbers, dashes or underscores')
+      return
+    }
+
+    await syncWith({ handle, recoveryCode: recoveryCode.trim(), baseStats: null, baseSettings: null, lastSyncedAt: null })
+  }
+
+  const createProfile: ProfileSyncActions['createProfile'] = async rawHandle => {
+    const handle = normalizeHandle(rawHandle)
+    if (!handle) {
+      setStatus('Handles are 3-24 letters, numbers, dashes or underscores')
+      return
+    }
+
+    setIsSyncing(true)
+    setStatus('')
+
+    let recoveryCode: string
+    try {
+      recoveryCode = (await requestProfile('POST', { handle })).recoveryCode
+    } catch (error) {
+      console.error('Error creating profile:', error)
+      setStatus(error instanceof Error ? error.message : 'Failed to create profile')
+      setIsSyncing(false)
+      return
+    }
+
+    setNewRecoveryCode(recoveryCode)
+    // Upload everything on this device to the new profile
+    await syncWith({ handle, recoveryCode, baseStats: null, baseSettings: null, lastSyncedAt: null })
+  }
+
+  return [
+    { handle: link?.handle || null, lastSyncedAt: link?.lastSyncedAt || null, isSyncing, status, newRecoveryCode },
+    {
+      createProfile,
+      linkProfile,
+      sync: async () => {
+        if (link) await syncWith(link)
+      },
+      unlink: () => {
+        saveLink(null)
+        setLink(null)
+        setStatus('')
+        setNewRecoveryCode(null)
+      },
+      dismissRecoveryCode: () => setNewRecoveryCode(null)
+    }
+  ]
+}
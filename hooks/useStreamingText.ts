@@ -0,0 +1,125 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
+
+export interface StreamingTextState {
+  text: string
+  isStreaming: boolean
+  // Fields from the final `done` event (or the JSON body), e.g. { personality, fallback }
+  meta: Record<string, unknown> | null
+}
+
+interface StreamRequest {
+  url: string
+  body: Record<string, unknown>
+  // Field holding the text when the route answers with plain JSON (e.g. feature disabled)
+  jsonField: string
+  // Shown if the request fails outright
+  fallbackText: string
+}
+
+interface StreamingTextActions {
+  start: (request: StreamRequest) => Promise<void>
+  cancel: () => void
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Split an SSE buffer into complete events, returning whatever is left over
+function parseEvents(buffer: string): { events: Array<{ event: string; data: unknown }>; rest: string } {
+  const blocks = buffer.split('\n\n')
+  const rest = blocks.pop() || ''
+  const events = blocks.map(block => {
+    let event = 'message'
+    let data = ''
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data += line.slice(5).trim()
+    }
+    return { event, data: data ? JSON.parse(data) : null }
+  })
+
+  return { events, rest }
+}
+
+// Renders a Claude response progressively from a route's Server-Sent Events stream.
+// Starting a new request (or calling cancel) aborts the one in flight.
+export function useStreamingText(): [StreamingTextState, StreamingTextActions] {
+  const [state, setState] = useState<StreamingTextState>({ text: '', isStreaming: false, meta: null })
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setState(prev => (prev.isStreaming ? { ...prev, isStreaming: false } : prev))
+  }, [])
+
+  // Don't leave a stream running after unmount
+  useEffect(() => cancel, [cancel])
+
+  const start = useCallback(async ({ url, body, jsonField, fallbackText }: StreamRequest) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setState({ text: '', isStreaming: true, meta: null })
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Accept": "text/event-stream",
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      })
+
+      // Non-streaming answers (feature disabled, validation or rate-limit errors) come back as JSON
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data: unknown = await response.json()
+        const meta = isRecord(data) ? data : null
+        const text = [meta?.[jsonField], meta?.message].find((value): value is string => typeof value === 'string' && value !== '')
+        setState({ text: text || fallbackText, isStreaming: false, meta })
+        return
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const { events, rest } = parseEvents(buffer)
+        buffer = rest
+
+        for (const { event, data } of events) {
+          if (event === 'text' && isRecord(data) && typeof data.text === 'string') {
+            const chunk = data.text
+            setState(prev => ({ ...prev, text: prev.text + chunk }))
+          } else if (event === 'done') {
+            setState(prev => ({ ...prev, meta: isRecord(data) ? data : null }))
+          }
+        }
+      }
+
+      setState(prev => ({ ...prev, text: prev.text.trim(), isStreaming: false }))
+    } catch (error) {
+      // Cancelled on purpose - a newer request owns the state now
+      if (controller.signal.aborted) return
+
+      console.error(`Error streaming ${url}:`, error)
+      setState({ text: fallbackText, isStreaming: false, meta: null })
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+    }
+  }, [])
+
+  // Stable identity so callers can list the actions as effect dependencies
+  const actions = useMemo(() => ({ start, cancel }), [start, cancel])
+
+  return [state, actions]
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from '@jest/globals'
+import { analyzeGame, describeBiggestMistake, findBotGuess, getExpectedInformation } from '../game-analysis'
+import { getCandidates } from '../solver'
+import { isBlockedWord } from '../word-blocklist'
+import { checkGuess } from '../utils'
+
+const scored = (target: string, ...guesses: string[]) => guesses.map(guess => checkGuess(guess, target))
+
+describe('game analysis', () => {
+  it('gives no information against a single candidate and more for a guess that splits them', () => {
+    expect(getExpectedInformation('CRANE', ['CRANE'])).toBe(0)
+    expect(getExpectedInformation('CRANE', ['CRANE', 'SLATE'])).toBeCloseTo(1)
+    expect(getExpectedInformation('ZZZZZ', ['CRANE', 'SLATE'])).toBe(0)
+  })
+
+  it('never replays a blocklisted word as the bot guess', () => {
+    for (const [target, guesses] of [['RETAIL', ['RETARD']], ['CUNNING', ['CUTTING']]] as const) {
+      const results = scored(target, ...guesses)
+      const candidates = getCandidates(results, { wordLength: target.length, extraWords: [target] })
+      const bot = findBotGuess(candidates, results, target.length)
+      expect(isBlockedWord(bot.guess)).toBe(false)
+    }
+  })
+
+  it('replays every guess and never blames the winning one', () => {
+    const analysis = analyzeGame(scored('CRANE', 'QUICK', 'SLATE', 'CRANE'), { targetWord: 'CRANE', wordLength: 5 })
+    expect(analysis.steps.map(step => step.guess)).toEqual(['QUICK', 'SLATE', 'CRANE'])
+    expect(analysis.steps[2].bitsLost).toBe(0)
+    expect(analysis.steps[2].candidatesAfter).toBe(1)
+    for (const step of analysis.steps) {
+      expect(step.candidatesAfter).toBeLessThanOrEqual(step.candidatesBefore)
+      expect(isBlockedWord(step.botGuess)).toBe(false)
+    }
+    expect(describeBiggestMistake(analysis)).toMatch(analysis.biggestMistake === null ? /pulled its weight/ : /was the costliest/)
+  })
+})
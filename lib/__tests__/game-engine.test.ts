@@ -0,0 +1,255 @@
+import { describe, expect, it } from '@jest/globals'
+import { createEmptyStats, createGame, gameReducer, getFinalScore, getGuessRejection, recordGameResult, GameAction } from '../game-engine'
+import { GameData, MAX_GUESSES } from '../game-types'
+import { MAX_HINTS } from '../hint-ladder'
+import { checkGuess } from '../utils'
+
+function play(game: GameData, ...actions: GameAction[]): GameData {
+  return actions.reduce(gameReducer, game)
+}
+
+function typeWord(game: GameData, word: string): GameData {
+  return play(game, ...word.split('').map(letter => ({ type: 'type', letter } as GameAction)))
+}
+
+function guess(game: GameData, word: string): GameData {
+  return gameReducer(typeWord(game, word), { type: 'guess' })
+}
+
+const started = (options: Partial<Extract<GameAction, { type: 'start' }>> = {}) =>
+  gameReducer(createGame(), { type: 'start', theme: 'original', targetWord: 'CRANE', ...options })
+
+describe('gameReducer', () => {
+  describe('start', () => {
+    it('starts a classic game by default', () => {
+      const game = started()
+      expect(game).toMatchObject({
+        targetWord: 'CRANE',
+        theme: 'original',
+        difficulty: 'medium',
+        wordLength: 5,
+        maxGuesses: MAX_GUESSES,
+        guesses: [],
+        currentGuess: '',
+        gameState: 'playing',
+        hintsUsed: 0
+      })
+    })
+
+    it('restores saved guesses and derives the outcome from them', () => {
+      const won = started({ guesses: [checkGuess('CRANE', 'CRANE')] })
+      expect(won.gameState).toBe('won')
+
+      const resumed = started({ guesses: [checkGuess('SLATE', 'CRANE')], hintsUsed: 1 })
+      expect(resumed.gameState).toBe('playing')
+      expect(resumed.hintsUsed).toBe(1)
+    })
+
+    it('keeps a custom theme and board size', () => {
+      const customTheme = { name: 'Ops', description: 'Observability terms', icon: '✨', difficulty: 'Medium', seedWords: ['KAFKA'] }
+      const game = started({ customTheme, wordLength: 6, maxGuesses: 8, targetWord: 'PLANET' })
+      expect(game.customTheme).toEqual(customTheme)
+      expect(game.wordLength).toBe(6)
+      expect(game.maxGuesses).toBe(8)
+    })
+  })
+
+  describe('type and delete', () => {
+    it('accepts uppercase letters up to the word length', () => {
+      const game = typeWord(started(), 'CRANES')
+      expect(game.currentGuess).toBe('CRANE')
+    })
+
+    it('ignores anything that is not a single letter', () => {
+      const game = play(started(), { type: 'type', letter: 'a' }, { type: 'type', letter: '1' }, { type: 'type', letter: 'AB' })
+      expect(game.currentGuess).toBe('')
+    })
+
+    it('deletes the last letter', () => {
+      const game = gameReducer(typeWord(started(), 'CRA'), { type: 'delete' })
+      expect(game.currentGuess).toBe('CR')
+    })
+
+    it('does nothing once the game is over', () => {
+      const over = guess(started(), 'CRANE')
+      expect(typeWord(over, 'S')).toBe(over)
+      expect(gameReducer(over, { type: 'delete' })).toBe(over)
+    })
+  })
+
+  describe('guess', () => {
+    it('scores the current guess against the target word', () => {
+      const game = guess(started(), 'SLATE')
+      expect(game.guesses).toEqual([checkGuess('SLATE', 'CRANE')])
+      expect(game.currentGuess).toBe('')
+      expect(game.gameState).toBe('playing')
+    })
+
+    it('wins on the target word', () => {
+      expect(guess(started(), 'CRANE').gameState).toBe('won')
+    })
+
+    it('loses after the last guess', () => {
+      const words = ['SLATE', 'HOUSE', 'PLANT', 'BRAVE', 'CLOUD', 'DREAM']
+      const game = words.reduce(guess, started())
+      expect(game.guesses).toHaveLength(MAX_GUESSES)
+      expect(game.gameState).toBe('lost')
+    })
+
+    it('leaves the game unchanged for a rejected guess', () => {
+      const short = typeWord(started(), 'CRA')
+      expect(gameReducer(short, { type: 'guess' })).toBe(short)
+
+      const unknown = typeWord(started(), 'ZZZZZ')
+      expect(gameReducer(unknown, { type: 'guess' })).toBe(unknown)
+    })
+
+    it('needs a known target word', () => {
+      const game = typeWord(gameReducer(createGame(), { type: 'start', theme: 'original' }), 'CRANE')
+      expect(gameReducer(game, { type: 'guess' })).toBe(game)
+    })
+  })
+
+  describe('scored', () => {
+    it('applies a server-scored guess without knowing the answer', () => {
+      const game = gameReducer(createGame(), { type: 'start', theme: 'original' })
+      const next = gameReducer(typeWord(game, 'SLATE'), { type: 'scored', result: checkGuess('SLATE', 'CRANE') })
+      expect(next.guesses).toHaveLength(1)
+      expect(next.currentGuess).toBe('')
+      expect(next.targetWord).toBe('')
+    })
+
+    it('reveals the answer when the server ends the game', () => {
+      const game = gameReducer(createGame(), { type: 'start', theme: 'original' })
+      const next = gameReducer(game, { type: 'scored', result: checkGuess('CRANE', 'CRANE'), targetWord: 'CRANE' })
+      expect(next.gameState).toBe('won')
+      expect(next.targetWord).toBe('CRANE')
+    })
+
+    it('ignores results after the game is over', () => {
+      const over = guess(started(), 'CRANE')
+      expect(gameReducer(over, { type: 'scored', result: checkGuess('SLATE', 'CRANE') })).toBe(over)
+    })
+
+    it('takes the server hint count over the local one', () => {
+      const game = gameReducer(gameReducer(createGame(), { type: 'start', theme: 'original' }), { type: 'hint' })
+      expect(gameReducer(game, { type: 'scored', result: checkGuess('SLATE', 'CRANE'), hintsUsed: 3 }).hintsUsed).toBe(3)
+      expect(gameReducer(game, { type: 'scored', result: checkGuess('SLATE', 'CRANE') }).hintsUsed).toBe(1)
+    })
+  })
+
+  describe('hint', () => {
+    it('counts hints up to the ladder length', () => {
+      const hints = Array.from({ length: MAX_HINTS + 1 }, (): GameAction => ({ type: 'hint' }))
+      expect(play(started(), ...hints).hintsUsed).toBe(MAX_HINTS)
+    })
+
+    it('does nothing once the game is over', () => {
+      const over = guess(started(), 'CRANE')
+      expect(gameReducer(over, { type: 'hint' })).toBe(over)
+    })
+  })
+
+  describe('reset', () => {
+    it('clears the board but keeps the kind of game', () => {
+      const customTheme = { name: 'Ops', description: 'Observability terms', icon: '✨', difficulty: 'Hard', seedWords: [] }
+      const played = play(guess(started({ difficulty: 'hard', customTheme, wordLength: 5, maxGuesses: 8 }), 'SLATE'), { type: 'hint' })
+      const game = gameReducer(played, { type: 'reset' })
+
+      expect(game).toMatchObject({
+        targetWord: '',
+        theme: 'original',
+        customTheme,
+        difficulty: 'hard',
+        maxGuesses: 8,
+        guesses: [],
+        hintsUsed: 0,
+        gameState: 'playing'
+      })
+    })
+  })
+})
+
+describe('getGuessRejection', () => {
+  it('rejects incomplete and unknown words', () => {
+    expect(getGuessRejection(typeWord(started(), 'CRA'))).toBe('Not enough letters')
+    expect(getGuessRejection(typeWord(started(), 'ZZZZZ'))).toBe('Not in word list')
+  })
+
+  it('accepts a custom theme\'s seed words', () => {
+    const customTheme = { name: 'Ops', description: 'Observability terms', icon: '✨', difficulty: 'Medium', seedWords: ['KAFKA'] }
+    expect(getGuessRejection(typeWord(started({ customTheme }), 'KAFKA'))).toBeNull()
+  })
+
+  describe('hard mode', () => {
+    it('requires green letters to stay in place', () => {
+      const game = guess(started({ difficulty: 'hard' }), 'CLOUD')
+      expect(getGuessRejection(typeWord(game, 'SLATE'))).toBe('1st letter must be C')
+    })
+
+    it('requires yellow letters to be reused', () => {
+      const game = guess(started({ difficulty: 'hard' }), 'EARTH')
+      expect(getGuessRejection(typeWord(game, 'CLOUD'))).toMatch(/^Guess must contain [EAR]$/)
+    })
+
+    it('allows guesses that follow the clues', () => {
+      const game = guess(started({ difficulty: 'hard' }), 'CLOUD')
+      expect(getGuessRejection(typeWord(game, 'CRANE'))).toBeNull()
+    })
+
+    it('is not enforced in normal mode', () => {
+      const game = guess(started(), 'CLOUD')
+      expect(getGuessRejection(typeWord(game, 'SLATE'))).toBeNull()
+    })
+
+    it('stops a hard-mode guess from being scored', () => {
+      const game = typeWord(guess(started({ difficulty: 'hard' }), 'CLOUD'), 'SLATE')
+      expect(gameReducer(game, { type: 'guess' })).toBe(game)
+    })
+  })
+})
+
+describe('recordGameResult', () => {
+  it('counts a win, its guess count and the streak', () => {
+    const game = guess(guess(started(), 'SLATE'), 'CRANE')
+    const stats = recordGameResult(createEmptyStats(), game)
+
+    expect(stats.gamesPlayed).toBe(1)
+    expect(stats.gamesWon).toBe(1)
+    expect(stats.currentStreak).toBe(1)
+    expect(stats.maxStreak).toBe(1)
+    expect(stats.guessDistribution).toEqual([0, 1, 0, 0, 0, 0])
+    expect(stats.totalScore).toBe(getFinalScore(game))
+    expect(stats.bestScore).toBe(getFinalScore(game))
+  })
+
+  it('resets the current streak on a loss but keeps the best', () => {
+    const won = guess(started(), 'CRANE')
+    const lost = ['SLATE', 'HOUSE', 'PLANT', 'BRAVE', 'CLOUD', 'DREAM'].reduce(guess, started())
+    const stats = [won, won, lost].reduce(recordGameResult, createEmptyStats())
+
+    expect(stats.gamesPlayed).toBe(3)
+    expect(stats.gamesWon).toBe(2)
+    expect(stats.currentStreak).toBe(0)
+    expect(stats.maxStreak).toBe(2)
+    expect(stats.guessDistribution[0]).toBe(2)
+  })
+
+  it('tracks hard-mode games and hints', () => {
+    const game = guess(started({ difficulty: 'hard' }), 'CRANE')
+    const hinted = play(started({ difficulty: 'hard' }), { type: 'hint' }, { type: 'hint' })
+    const stats = [game, guess(hinted, 'CRANE')].reduce(recordGameResult, createEmptyStats())
+
+    expect(stats.hardModeGamesPlayed).toBe(2)
+    expect(stats.hardModeGamesWon).toBe(2)
+    expect(stats.hintsUsed).toBe(2)
+  })
+
+  it('extends the distribution for longer guess limits', () => {
+    const game = ['SLATE', 'HOUSE', 'PLANT', 'BRAVE', 'CLOUD', 'DREAM', 'CRANE'].reduce(guess, started({ maxGuesses: 8 }))
+    const stats = recordGameResult(createEmptyStats(), game)
+
+    expect(game.gameState).toBe('won')
+    expect(stats.guessDistribution).toEqual([0, 0, 0, 0, 0, 0, 1, 0])
+  })
+})
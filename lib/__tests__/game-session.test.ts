@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { applyGuess, claimSession, createSession, decodeSession, encodeSession, getSessionState } from '../game-session'
+
+describe('game sessions', () => {
+  it('round-trips through an opaque token with a fresh nonce each time', () => {
+    const session = createSession('CRANE', 'original')
+    const first = encodeSession(session)
+    const second = encodeSession(session)
+
+    expect(first).not.toContain('CRANE')
+    expect(decodeSession(first)?.targetWord).toBe('CRANE')
+    expect(decodeSession(first)?.nonce).not.toBe(decodeSession(second)?.nonce)
+  })
+
+  it('rejects tampered and expired tokens', () => {
+    const token = encodeSession(createSession('CRANE', 'original'))
+    expect(decodeSession(token.slice(0, -2) + (token.endsWith('AA') ? 'BB' : 'AA'))).toBeNull()
+    expect(decodeSession(encodeSession({ ...createSession('CRANE', 'original'), createdAt: 0 }))).toBeNull()
+    expect(decodeSession('')).toBeNull()
+  })
+
+  it('plays guesses on the session until the game ends', () => {
+    const { session, gameState } = applyGuess(createSession('CRANE', 'original'), 'SLATE')
+    expect(gameState).toBe('playing')
+    expect(getSessionState(applyGuess(session, 'CRANE').session)).toBe('won')
+  })
+
+  describe('claimSession', () => {
+    it('answers a retry of the same guess with the first response and refuses any other guess', async () => {
+      const session = decodeSession(encodeSession(createSession('CRANE', 'original')))!
+
+      expect(await claimSession(session, 'SLATE', { token: 'first' })).toEqual({ token: 'first' })
+      expect(await claimSession(session, 'SLATE', { token: 'second' })).toEqual({ token: 'first' })
+      expect(await claimSession(session, 'HOUSE', { token: 'third' })).toBeNull()
+    })
+
+    it('refuses sessions without a nonce', async () => {
+      expect(await claimSession(createSession('CRANE', 'original'), 'SLATE', {})).toBeNull()
+    })
+  })
+
+  describe('secret', () => {
+    const env = { ...process.env }
+    afterEach(() => {
+      process.env = { ...env }
+    })
+
+    it('refuses to issue sessions in production without GAME_SESSION_SECRET', () => {
+      process.env = { ...env, NODE_ENV: 'production', GAME_SESSION_SECRET: '' }
+      jest.isolateModules(() => {
+        const isolated = require('../game-session') as typeof import('../game-session')
+        expect(() => isolated.encodeSession(isolated.createSession('CRANE', 'original'))).toThrow('GAME_SESSION_SECRET')
+      })
+    })
+
+    it('does not accept tokens made with another secret', () => {
+      const token = encodeSession(createSession('CRANE', 'original'))
+      process.env = { ...env, GAME_SESSION_SECRET: 'another-secret' }
+      jest.isolateModules(() => {
+        const isolated = require('../game-session') as typeof import('../game-session')
+        expect(isolated.decodeSession(token)).toBeNull()
+      })
+    })
+  })
+})
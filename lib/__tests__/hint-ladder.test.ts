@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals'
+import { HINT_TIERS, MAX_HINTS, getFallbackHint, getGameScore, getHintPenalty, getNextHintType, pickUnfoundLetter, pickUnsolvedPosition, HintTarget } from '../hint-ladder'
+import { checkGuess } from '../utils'
+
+const target = (...guesses: string[]): HintTarget => ({
+  targetWord: 'CRANE',
+  theme: 'original',
+  results: guesses.map(guess => checkGuess(guess, 'CRANE'))
+})
+
+describe('hint ladder', () => {
+  it('climbs gentle, strategic, direct and then runs out', () => {
+    expect([0, 1, 2, 3].map(getNextHintType)).toEqual(['gentle', 'strategic', 'direct', null])
+    expect(MAX_HINTS).toBe(3)
+  })
+
+  it('charges each rung on top of the ones before it', () => {
+    expect(getHintPenalty(0)).toBe(0)
+    expect(getHintPenalty(2)).toBe(HINT_TIERS.gentle.penalty + HINT_TIERS.strategic.penalty)
+    expect(getHintPenalty(MAX_HINTS)).toBe(85)
+  })
+
+  it('scores sooner solves higher, never below zero, and losses at zero', () => {
+    expect(getGameScore({ won: true, guessCount: 1, maxGuesses: 6, hintsUsed: 0 })).toBe(600)
+    expect(getGameScore({ won: true, guessCount: 3, maxGuesses: 6, hintsUsed: 1 })).toBe(390)
+    expect(getGameScore({ won: true, guessCount: 6, maxGuesses: 6, hintsUsed: 3 })).toBe(15)
+    expect(getGameScore({ won: true, guessCount: 10, maxGuesses: 10, hintsUsed: 3 })).toBe(15)
+    expect(getGameScore({ won: false, guessCount: 6, maxGuesses: 6, hintsUsed: 0 })).toBe(0)
+  })
+
+  it('picks a letter the player has not found and the first unsolved position', () => {
+    // SLATE finds A and E in place; CRANE's C, R and N are still unfound
+    expect(pickUnfoundLetter(target('SLATE'))).toBe('C')
+    expect(pickUnsolvedPosition(target('SLATE'))).toEqual({ letter: 'C', position: 1 })
+    expect(pickUnsolvedPosition(target('CRATE'))).toEqual({ letter: 'N', position: 4 })
+    expect(pickUnsolvedPosition(target('CRANE'))).toBeNull()
+  })
+
+  it('falls back to a hint that matches the rung', () => {
+    expect(getFallbackHint('gentle', target())).not.toMatch(/letter [A-Z]/)
+    expect(getFallbackHint('strategic', target('SLATE'))).toBe('The word contains the letter C.')
+    expect(getFallbackHint('direct', target('CRATE'))).toBe('Letter 4 is N.')
+    expect(getFallbackHint('strategic', target('NACRE'))).toMatch(/found every letter/)
+  })
+})
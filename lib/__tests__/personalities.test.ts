@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals'
+import { readFileSync } from 'fs'
+import { COACHES } from '../personality-registry'
+
+const { INDEX_FILE, listCoachFiles, renderIndex } = require('../../scripts/generate-coach-index') as {
+  INDEX_FILE: string
+  listCoachFiles: () => string[]
+  renderIndex: (files: string[], previous?: string) => string
+}
+
+describe('coach index', () => {
+  it('lists every coach file in lib/personalities - run `npm run generate:coaches` if this fails', () => {
+    const index = readFileSync(INDEX_FILE, 'utf8')
+    expect(index).toBe(renderIndex(listCoachFiles(), index))
+    expect(COACHES).toHaveLength(listCoachFiles().length)
+  })
+
+  it('keeps the existing picker order and appends new coaches', () => {
+    const previous = renderIndex(['socratic', 'lasso'])
+    const next = renderIndex(['lasso', 'pirate-captain', 'socratic'], previous)
+
+    expect(next).toContain('export const COACH_FILES = [socratic, lasso, pirateCaptain]')
+    expect(next).toContain('import pirateCaptain from \'./pirate-captain\'')
+    expect(renderIndex(['lasso'], next)).toContain('export const COACH_FILES = [lasso]')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals'
+import { GameHistoryEntry } from '../game-history'
+import { GameStats } from '../game-types'
+import { createEmptyStats } from '../game-engine'
+import { createArchive, isHistoryEntry, mergeHistory, mergePlayerData, parseArchive, PlayerData } from '../player-archive'
+
+function entry(finishedAt: string, overrides: Partial<GameHistoryEntry> = {}): GameHistoryEntry {
+  return {
+    startedAt: finishedAt,
+    finishedAt,
+    durationMs: 60000,
+    mode: 'ai',
+    theme: 'original',
+    personality: 'lasso',
+    difficulty: 'medium',
+    word: 'CRANE',
+    guesses: ['SLATE', 'CRANE'],
+    wordLength: 5,
+    maxGuesses: 6,
+    hintsUsed: 1,
+    score: 490,
+    won: true,
+    ...overrides
+  }
+}
+
+// Stats exactly as recordGameResult would have counted the given games
+function statsFor(history: GameHistoryEntry[], extra: Partial<GameStats> = {}): GameStats {
+  const stats = createEmptyStats()
+  for (const game of history) {
+    stats.gamesPlayed++
+    if (game.won) {
+      stats.gamesWon++
+      stats.guessDistribution[game.guesses.length - 1]++
+    }
+    if (game.difficulty === 'hard') {
+      stats.hardModeGamesPlayed = (stats.hardModeGamesPlayed || 0) + 1
+      if (game.won) stats.hardModeGamesWon = (stats.hardModeGamesWon || 0) + 1
+    }
+    stats.hintsUsed = (stats.hintsUsed || 0) + game.hintsUsed
+    stats.totalScore = (stats.totalScore || 0) + game.score
+    stats.bestScore = Math.max(stats.bestScore || 0, game.score)
+  }
+  return { ...stats, ...extra }
+}
+
+const data = (history: GameHistoryEntry[], extra: Partial<GameStats> = {}): PlayerData => ({
+  stats: statsFor(history, extra),
+  history,
+  settings: null,
+  devices: []
+})
+
+describe('player archive', () => {
+  const shared = entry('2026-01-01T10:00:00.000Z')
+  const localOnly = entry('2026-01-02T10:00:00.000Z', { won: false, score: 0, hintsUsed: 0, guesses: ['SLATE'] })
+  const incomingOnly = entry('2026-01-03T10:00:00.000Z', { difficulty: 'hard', guesses: ['CRANE'], score: 600 })
+
+  it('keeps a game both sides logged once, oldest first', () => {
+    expect(mergeHistory([localOnly, shared], [incomingOnly, shared])).toEqual([shared, localOnly, incomingOnly])
+  })
+
+  it('counts a game both sides logged once', () => {
+    const merged = mergePlayerData(data([shared, localOnly]), data([shared, incomingOnly]))
+
+    expect(merged.stats).toMatchObject({
+      gamesPlayed: 3,
+      gamesWon: 2,
+      hardModeGamesPlayed: 1,
+      hardModeGamesWon: 1,
+      hintsUsed: 2,
+      totalScore: 1090,
+      bestScore: 600
+    })
+    expect(merged.stats.guessDistribution.slice(0, 2)).toEqual([1, 1])
+  })
+
+  it('carries over games that only live in the counters and keeps the best streaks', () => {
+    // 10 games played before history was kept on this device
+    const local = data([shared], { gamesPlayed: 11, gamesWon: 10, currentStreak: 4, maxStreak: 7 })
+    const merged = mergePlayerData(local, data([shared, incomingOnly], { currentStreak: 2, maxStreak: 2 }))
+
+    expect(merged.stats).toMatchObject({ gamesPlayed: 12, gamesWon: 11, currentStreak: 4, maxStreak: 7 })
+  })
+
+  it('round-trips an archive and rejects damaged ones', () => {
+    const archive = createArchive(data([shared]))
+    const text = JSON.stringify(archive)
+
+    expect(parseArchive(text)).toEqual({ archive })
+    expect(parseArchive('not json')).toEqual({ error: 'That file is not a ClaudLE backup.' })
+    expect(parseArchive(JSON.stringify({ ...archive, version: archive.version + 1 }))).toHaveProperty('error')
+    expect(parseArchive(text.replace('"gamesPlayed":1', '"gamesPlayed":2'))).toEqual({ error: 'This backup failed its checksum - it may have been edited or cut short.' })
+  })
+
+  it('validates every field of a history entry', () => {
+    expect(isHistoryEntry(shared)).toBe(true)
+    for (const broken of [
+      { word: 'CRAN' },
+      { guesses: ['slate'] },
+      { guesses: ['SLATE', 'CRANE', 'TRADE', 'GRAPE', 'FLAME', 'BRAKE', 'PLANT'] },
+      { personality: 'nobody' },
+      { theme: 'nowhere' },
+      { mode: 'cheat' },
+      { score: -1 },
+      { wordLength: 12 },
+      { customTheme: { name: 'Birds' } }
+    ]) {
+      expect(isHistoryEntry({ ...shared, ...broken })).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createFileProfileStore, createMemoryProfileStore, ProfileStore, StoredProfile } from '../profile-store'
+import { createEmptyStats } from '../game-engine'
+
+function makeProfile(handle: string): StoredProfile {
+  const now = new Date().toISOString()
+  return {
+    handle,
+    recoveryHash: '00',
+    salt: '00',
+    stats: createEmptyStats(),
+    history: [],
+    settings: null,
+    settingsUpdatedAt: now,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+const stores: [string, () => ProfileStore][] = [
+  ['memory', createMemoryProfileStore],
+  ['file', () => createFileProfileStore(mkdtempSync(path.join(tmpdir(), 'claudle-profiles-')))]
+]
+
+describe.each(stores)('%s profile store', (_name, createStore) => {
+  it('lets only one of two racing creates claim a handle', async () => {
+    const store = createStore()
+    const results = await Promise.all([store.create(makeProfile('racer')), store.create(makeProfile('racer'))])
+
+    expect(results.sort()).toEqual([false, true])
+    expect((await store.get('racer'))?.version).toBe(0)
+  })
+
+  it('rejects an update based on a stale version', async () => {
+    const store = createStore()
+    await store.create(makeProfile('player'))
+    const profile = (await store.get('player'))!
+
+    const first = { ...profile, stats: { ...profile.stats, gamesPlayed: 1 } }
+    const second = { ...profile, stats: { ...profile.stats, gamesPlayed: 2 } }
+    const results = await Promise.all([store.update(first, 0), store.update(second, 0)])
+
+    expect(results.sort()).toEqual([false, true])
+    const stored = (await store.get('player'))!
+    expect(stored.version).toBe(1)
+    expect(await store.update({ ...stored, stats: { ...stored.stats, gamesPlayed: 3 } }, 1)).toBe(true)
+    expect((await store.get('player'))?.stats.gamesPlayed).toBe(3)
+  })
+})
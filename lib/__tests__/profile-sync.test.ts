@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals'
+import { GameHistoryEntry } from '../game-history'
+import { GameStats } from '../game-types'
+import { createEmptyStats } from '../game-engine'
+import { DEFAULT_SETTINGS } from '../settings'
+import { mergeSync, normalizeHandle, SyncedProfile, SyncPayload } from '../profile-sync'
+
+const NOW = new Date('2026-02-01T12:00:00.000Z')
+
+function entry(finishedAt: string): GameHistoryEntry {
+  return {
+    startedAt: finishedAt,
+    finishedAt,
+    durationMs: 60000,
+    mode: 'ai',
+    theme: 'original',
+    personality: 'lasso',
+    difficulty: 'medium',
+    word: 'CRANE',
+    guesses: ['CRANE'],
+    wordLength: 5,
+    maxGuesses: 6,
+    hintsUsed: 0,
+    score: 600,
+    won: true
+  }
+}
+
+const stats = (gamesPlayed: number, overrides: Partial<GameStats> = {}): GameStats => ({
+  ...createEmptyStats(),
+  gamesPlayed,
+  gamesWon: gamesPlayed,
+  ...overrides
+})
+
+const profile: SyncedProfile = {
+  stats: stats(10, { currentStreak: 5, maxStreak: 8 }),
+  history: [entry('2026-01-01T00:00:00.000Z')],
+  settings: DEFAULT_SETTINGS,
+  settingsUpdatedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+}
+
+const payload = (overrides: Partial<SyncPayload>): SyncPayload => ({
+  stats: stats(0),
+  baseStats: null,
+  history: [],
+  settings: null,
+  settingsUpdatedAt: null,
+  ...overrides
+})
+
+describe('profile sync', () => {
+  it('normalizes handles and rejects bad ones', () => {
+    expect(normalizeHandle('  Word_Nerd ')).toBe('word_nerd')
+    expect(normalizeHandle('no')).toBeNull()
+    expect(normalizeHandle('has space')).toBeNull()
+    expect(normalizeHandle(42)).toBeNull()
+  })
+
+  it('adds only what changed since the device last synced, so repeat syncs never double-count', () => {
+    const first = mergeSync(profile, payload({ stats: stats(13, { currentStreak: 2 }), baseStats: stats(10) }), NOW)
+    expect(first.stats.gamesPlayed).toBe(13)
+    expect(first.stats.currentStreak).toBe(2)
+
+    const again = mergeSync(first, payload({ stats: stats(13, { currentStreak: 2 }), baseStats: stats(13) }), NOW)
+    expect(again.stats.gamesPlayed).toBe(13)
+    // No new games on this device, so the profile's streak stands
+    expect(again.stats.currentStreak).toBe(2)
+    expect(again.stats.maxStreak).toBe(8)
+  })
+
+  it('unions history, keeping a game seen on both sides once', () => {
+    const newer = entry('2026-01-05T00:00:00.000Z')
+    const merged = mergeSync(profile, payload({ history: [...profile.history, newer] }), NOW)
+
+    expect(merged.history).toEqual([...profile.history, newer])
+    expect(merged.updatedAt).toBe(NOW.toISOString())
+  })
+
+  it('takes the newer settings and ignores unchanged ones', () => {
+    const changed = { ...DEFAULT_SETTINGS, hardMode: true }
+
+    expect(mergeSync(profile, payload({ settings: changed, settingsUpdatedAt: '2026-01-10T00:00:00.000Z' }), NOW).settings).toEqual(changed)
+    expect(mergeSync(profile, payload({ settings: changed, settingsUpdatedAt: '2025-12-01T00:00:00.000Z' }), NOW).settings).toEqual(DEFAULT_SETTINGS)
+    expect(mergeSync(profile, payload({ settings: changed }), NOW).settings).toEqual(DEFAULT_SETTINGS)
+  })
+})
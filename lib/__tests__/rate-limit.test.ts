@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { consumeRateLimit } from '../rate-limit'
+import { createMemoryRateLimitStore, RateLimitStore } from '../rate-limit-store'
+
+// 6 requests an hour: one token comes back every 10 minutes
+const RULE = { maxRequests: 6, windowMinutes: 60 }
+const MINUTE = 60 * 1000
+
+describe('token bucket rate limiting', () => {
+  let store: RateLimitStore
+
+  beforeEach(() => {
+    // The memory store expires buckets by Date.now, so it runs on the same fake clock
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    store = createMemoryRateLimitStore()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  const consume = (key = 'client') => consumeRateLimit(store, key, RULE)
+
+  it('allows a full burst, then rejects', async () => {
+    for (let i = 0; i < RULE.maxRequests; i++) {
+      const result = await consume()
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(RULE.maxRequests - i - 1)
+    }
+
+    const rejected = await consume()
+    expect(rejected.allowed).toBe(false)
+    expect(rejected.remaining).toBe(0)
+  })
+
+  it('says how long until the next token, not the whole window', async () => {
+    for (let i = 0; i < RULE.maxRequests; i++) await consume()
+
+    jest.setSystemTime(Date.now() + 4 * MINUTE)
+    const rejected = await consume()
+
+    expect(rejected.retryAfterMs).toBe(6 * MINUTE)
+    expect(rejected.resetMs).toBe(56 * MINUTE)
+  })
+
+  it('refills continuously instead of at window boundaries', async () => {
+    for (let i = 0; i < RULE.maxRequests; i++) await consume()
+
+    jest.setSystemTime(Date.now() + 10 * MINUTE)
+    expect((await consume()).allowed).toBe(true)
+    expect((await consume()).allowed).toBe(false)
+
+    // Rejected requests don't cost a token, so 20 more minutes bring back exactly two
+    jest.setSystemTime(Date.now() + 20 * MINUTE)
+    expect((await consume()).allowed).toBe(true)
+    expect((await consume()).allowed).toBe(true)
+    expect((await consume()).allowed).toBe(false)
+  })
+
+  it('never refills past the burst size and keeps clients apart', async () => {
+    await consume()
+    jest.setSystemTime(Date.now() + 24 * 60 * MINUTE)
+
+    const results = []
+    for (let i = 0; i <= RULE.maxRequests; i++) results.push((await consume()).allowed)
+    expect(results.filter(Boolean)).toHaveLength(RULE.maxRequests)
+
+    expect((await consume('other-client')).allowed).toBe(true)
+  })
+})
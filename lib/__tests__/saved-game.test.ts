@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from '@jest/globals'
+import { SAVED_GAME_VERSION, loadSavedGame, saveGame } from '../saved-game'
+import { checkGuess } from '../utils'
+
+const STORAGE_KEY = 'claudle-saved-game'
+
+const aiGame = {
+  theme: 'space' as const,
+  personality: 'lasso' as const,
+  difficulty: 'medium' as const,
+  wordLength: 5,
+  maxGuesses: 6,
+  guesses: [checkGuess('SLATE', 'CRANE')],
+  hintsUsed: 1,
+  mode: 'ai' as const,
+  sessionToken: 'token',
+  usedWords: ['ORBIT']
+}
+
+function store(save: unknown) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(save))
+}
+
+describe('saved games', () => {
+  afterEach(() => localStorage.clear())
+
+  it('round-trips the game in progress', () => {
+    saveGame({ ...aiGame, startedAt: '2026-01-01T00:00:00.000Z' })
+
+    expect(loadSavedGame()).toMatchObject({ ...aiGame, version: SAVED_GAME_VERSION, startedAt: '2026-01-01T00:00:00.000Z' })
+  })
+
+  it('migrates a version 1 save, taking startedAt from when it was saved', () => {
+    const savedAt = Date.now() - 60 * 1000
+    store({ ...aiGame, version: 1, savedAt })
+
+    expect(loadSavedGame()).toMatchObject({ version: 2, startedAt: new Date(savedAt).toISOString(), guesses: aiGame.guesses })
+  })
+
+  it('drops saves from a newer build, malformed saves and stale ones', () => {
+    const valid = { ...aiGame, version: SAVED_GAME_VERSION, savedAt: Date.now(), startedAt: new Date().toISOString() }
+
+    for (const save of [
+      { ...valid, version: SAVED_GAME_VERSION + 1 },
+      { ...valid, personality: 'nobody' },
+      { ...valid, guesses: [{ word: 'SLATE', tiles: [] }] },
+      { ...valid, usedWords: [42] },
+      { ...valid, mode: 'daily', date: 'yesterday' },
+      { ...valid, savedAt: Date.now() - 25 * 60 * 60 * 1000 },
+      'not a save'
+    ]) {
+      store(save)
+      expect(loadSavedGame()).toBeNull()
+    }
+  })
+
+  it('keeps a valid custom theme and drops a save with a broken one', () => {
+    const valid = { ...aiGame, version: SAVED_GAME_VERSION, savedAt: Date.now(), startedAt: new Date().toISOString() }
+    const customTheme = { name: 'Birds', description: 'Garden birds', icon: '🐦', difficulty: 'Easy', seedWords: ['ROBIN'] }
+
+    store({ ...valid, theme: 'original', customTheme })
+    expect(loadSavedGame()).toMatchObject({ customTheme: { name: 'Birds', seedWords: ['ROBIN'] } })
+
+    store({ ...valid, theme: 'original', customTheme: { name: '' } })
+    expect(loadSavedGame()).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from '@jest/globals'
+import { analyzeGuesses, describeAnalysis, getCandidates, isConsistent } from '../solver'
+import { isBlockedWord } from '../word-blocklist'
+import { checkGuess } from '../utils'
+
+const scored = (target: string, ...guesses: string[]) => guesses.map(guess => checkGuess(guess, target))
+
+describe('solver', () => {
+  it('keeps only words that would have shown the same tiles', () => {
+    const results = scored('CRANE', 'SLATE')
+    expect(isConsistent('CRANE', results)).toBe(true)
+    expect(isConsistent('SLATE', results)).toBe(false)
+    expect(getCandidates(results, { wordLength: 5 })).toContain('CRANE')
+  })
+
+  it('counts in theme and extra words that are not in the dictionary', () => {
+    const results = scored('ACCIO', 'AUDIO')
+    expect(getCandidates(results, { wordLength: 5 })).not.toContain('ACCIO')
+    expect(getCandidates(results, { wordLength: 5, theme: 'harry-potter' })).toContain('ACCIO')
+    expect(getCandidates(results, { wordLength: 5, extraWords: ['accio'] })).toContain('ACCIO')
+  })
+
+  it('suggests a probe word that is neither a candidate nor blocklisted', () => {
+    const results = scored('CRANE', 'SLATE')
+    const analysis = analyzeGuesses(results, { wordLength: 5 })
+    expect(analysis.probe?.letters).toHaveLength(2)
+    expect(analysis.probe?.word).toBeTruthy()
+    expect(getCandidates(results, { wordLength: 5 })).not.toContain(analysis.probe?.word)
+    expect(isBlockedWord(analysis.probe?.word || '')).toBe(false)
+    expect(describeAnalysis(analysis)[0]).toBe(`There are ${analysis.candidateCount} words left that fit your clues.`)
+  })
+
+  it('says so when one word is left', () => {
+    const analysis = analyzeGuesses(scored('CRANE', 'CRANE'), { wordLength: 5 })
+    expect(analysis.candidateCount).toBe(1)
+    expect(analysis.probe).toBeNull()
+    expect(describeAnalysis(analysis)).toEqual(['Only one word fits everything you have found - you can get it!'])
+  })
+})
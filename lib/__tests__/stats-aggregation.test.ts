@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals'
+import { GameHistoryEntry } from '../game-history'
+import { getDailyStreak, getFavorite, getStreakCalendar, getWinRateOverTime, summarizeHistory } from '../stats-aggregation'
+
+// Local noon, so date keys don't depend on the machine's time zone
+const NOW = new Date(2026, 0, 31, 12)
+const daysBefore = (days: number) => new Date(2026, 0, 31 - days, 12).toISOString()
+
+function entry(overrides: Partial<GameHistoryEntry> = {}): GameHistoryEntry {
+  return {
+    startedAt: daysBefore(0),
+    finishedAt: daysBefore(0),
+    durationMs: 60000,
+    mode: 'ai',
+    theme: 'original',
+    personality: 'lasso',
+    difficulty: 'medium',
+    word: 'CRANE',
+    guesses: ['SLATE', 'CRANE'],
+    wordLength: 5,
+    maxGuesses: 6,
+    hintsUsed: 0,
+    score: 500,
+    won: true,
+    ...overrides
+  }
+}
+
+describe('stats aggregation', () => {
+  it('groups by theme, keeping custom themes apart by name', () => {
+    const history = [
+      entry(),
+      entry({ won: false, score: 0, guesses: ['SLATE', 'PLANT', 'BRAKE', 'TRADE', 'GRAPE', 'FLAME'], hintsUsed: 2 }),
+      entry({ theme: 'space' }),
+      entry({ customTheme: { name: 'Birds', icon: '🐦' } })
+    ]
+    const { byTheme } = summarizeHistory(history, { now: NOW })
+
+    expect(byTheme[0]).toEqual({ key: 'original', played: 2, won: 1, winRate: 50, averageGuesses: 2, averageScore: 250, hintsUsed: 2 })
+    expect(byTheme.map(group => group.key).sort()).toEqual(['custom:Birds', 'original', 'space'])
+  })
+
+  it('picks the most played coach', () => {
+    expect(getFavorite([entry(), entry({ personality: 'kent' }), entry({ personality: 'kent' })], 'personality')).toBe('kent')
+    expect(getFavorite([], 'theme')).toBeNull()
+  })
+
+  it('buckets win rate by week, oldest first', () => {
+    const weeks = getWinRateOverTime([entry(), entry({ won: false }), entry({ finishedAt: daysBefore(8) })], 2, NOW)
+
+    expect(weeks).toEqual([
+      { start: '2026-01-18', played: 1, won: 1, winRate: 100 },
+      { start: '2026-01-25', played: 2, won: 1, winRate: 50 }
+    ])
+    expect(getWinRateOverTime([], 1, NOW)[0].winRate).toBeNull()
+  })
+
+  it('counts a daily streak that today has not broken yet', () => {
+    const history = [1, 2, 3, 5].map(days => entry({ finishedAt: daysBefore(days) }))
+    const calendar = getStreakCalendar(history, { days: 7, now: NOW })
+
+    expect(calendar).toHaveLength(7)
+    expect(calendar[6]).toEqual({ date: '2026-01-31', played: 0, won: 0 })
+    expect(getDailyStreak(calendar)).toBe(3)
+    // A loss doesn't extend it
+    expect(getDailyStreak(getStreakCalendar([entry({ won: false })], { days: 7, now: NOW }))).toBe(0)
+  })
+
+  it('averages game duration', () => {
+    expect(summarizeHistory([entry(), entry({ durationMs: 120000 })], { now: NOW }).averageDurationMs).toBe(90000)
+    expect(summarizeHistory([], { now: NOW }).averageDurationMs).toBeNull()
+  })
+})
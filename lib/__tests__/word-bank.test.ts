@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals'
+import { getAnswerPool, pickWord } from '../word-bank'
+import { getAnswerWords, isDictionaryWord } from '../dictionary'
+import { isBlockedWord } from '../word-blocklist'
+import { MAX_WORD_LENGTH, MIN_WORD_LENGTH, OPENING_GUESS, THEMES, ThemeKey } from '../game-types'
+
+const LENGTHS = Array.from({ length: MAX_WORD_LENGTH - MIN_WORD_LENGTH + 1 }, (_, i) => MIN_WORD_LENGTH + i)
+
+describe('answer pools', () => {
+  it('never offer a blocklisted word at any length', () => {
+    for (const theme of Object.keys(THEMES) as ThemeKey[]) {
+      for (const length of LENGTHS) {
+        expect(getAnswerPool(theme, length).filter(isBlockedWord)).toEqual([])
+      }
+    }
+  })
+
+  it('keep blocklisted words valid as guesses', () => {
+    expect(isDictionaryWord('RETARD')).toBe(true)
+    expect(getAnswerWords(6)).not.toContain('RETARD')
+  })
+
+  it('never offer the opening guess', () => {
+    expect(getAnswerPool('original')).not.toContain(OPENING_GUESS)
+    const picks = Array.from({ length: 200 }, () => pickWord('original'))
+    expect(picks).not.toContain(OPENING_GUESS)
+  })
+
+  it('skips used words until the pool runs out', () => {
+    const pool = getAnswerPool('space')
+    expect(pickWord('space', pool.slice(1))).toBe(pool[0])
+    expect(pool).toContain(pickWord('space', pool))
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import type { LLMProvider } from '../llm-provider'
+import { mockProvider } from '../mock-llm-provider'
+import { THEMES } from '../game-types'
+import { generateWord, parseCandidates, parseUsedWords, MAX_USED_WORDS, WordGenerationRequest } from '../word-generation'
+
+// Replies are scripted per test on top of the mock provider
+let mockComplete: jest.SpiedFunction<LLMProvider['complete']>
+const reply = (...words: string[]) => JSON.stringify({ words })
+
+const request: WordGenerationRequest = {
+  theme: 'original',
+  themeData: THEMES.original,
+  wordLength: 5,
+  usedWords: ['CRANE']
+}
+
+describe('word generation', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+    mockComplete = jest.spyOn(mockProvider, 'complete')
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('takes a usable word from the first call', async () => {
+    mockComplete.mockResolvedValueOnce(reply('CRANE', 'XQZVW', 'SLATE'))
+
+    const { word, metrics } = await generateWord(request)
+    expect(word).toBe('SLATE')
+    expect(metrics).toEqual({ attempts: 1, candidates: 3, rejected: 2, failedCalls: 0, fallback: false })
+  })
+
+  it('retries after failed calls and unusable candidates, excluding rejected words next time', async () => {
+    mockComplete
+      .mockRejectedValueOnce(new Error('overloaded'))
+      .mockResolvedValueOnce('Sorry, I can\'t help with that')
+      .mockResolvedValueOnce(reply('XQZVW', 'CRANE'))
+      .mockResolvedValueOnce(reply('PLANT'))
+
+    const { word, metrics } = await generateWord(request, 4)
+    expect(word).toBe('PLANT')
+    expect(metrics).toEqual({ attempts: 4, candidates: 3, rejected: 2, failedCalls: 2, fallback: false })
+
+    const lastContext = mockComplete.mock.calls[3][0].context
+    expect(lastContext?.excludedWords).toEqual(['CRANE', 'XQZVW'])
+  })
+
+  it('falls back to the word bank once the budget runs out', async () => {
+    mockComplete.mockResolvedValue(reply('AUDIO', 'CRANE'))
+
+    const { word, metrics } = await generateWord(request)
+    expect(mockComplete).toHaveBeenCalledTimes(3)
+    expect(metrics).toMatchObject({ attempts: 3, rejected: 6, fallback: true })
+    expect(word).toMatch(/^[A-Z]{5}$/)
+    expect(word).not.toBe('CRANE')
+  })
+
+  it('reads candidates from a fenced reply and rejects the wrong shape', () => {
+    expect(parseCandidates('```json\n{"words": [" slate ", "Crane"]}\n```')).toEqual(['SLATE', 'CRANE'])
+    expect(() => parseCandidates('{"word": "SLATE"}')).toThrow()
+    expect(() => parseCandidates('SLATE')).toThrow()
+  })
+
+  it('cleans used words before they reach a prompt', () => {
+    expect(parseUsedWords(['crane', 'CRANE', 'ab', 'SL"TE', 42, ' plant '], 5)).toEqual(['CRANE', 'PLANT'])
+    expect(parseUsedWords('CRANE', 5)).toEqual([])
+
+    const many = Array.from({ length: MAX_USED_WORDS + 5 }, (_, i) => `W${String.fromCharCode(65 + (i % 26))}${String.fromCharCode(65 + Math.floor(i / 26))}XY`)
+    expect(parseUsedWords(many, 5)).toEqual(many.slice(-MAX_USED_WORDS))
+  })
+})
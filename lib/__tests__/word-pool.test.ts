@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { mockProvider } from '../mock-llm-provider'
+import { createMemoryWordPoolStore, WordPoolStore } from '../word-pool-store'
+import { drawFromPool, prefillPools, refillPool, POOL_TARGET_SIZE, REFILL_THRESHOLD } from '../word-pool'
+import { isValidWord } from '../utils'
+
+const KEY = 'space:5'
+
+// Background refills aren't awaited by drawFromPool, so give them a few turns of the event loop
+async function settle(rounds = 50) {
+  for (let i = 0; i < rounds; i++) await new Promise(resolve => setImmediate(resolve))
+}
+
+describe('word pool', () => {
+  let store: WordPoolStore
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+    store = createMemoryWordPoolStore()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  // The mock proposes words from the theme's bank, which may run out just short of the target
+  it('refills a pool towards its target with dictionary words', async () => {
+    const added = await refillPool(store, 'space', 5)
+    const words = await store.get(KEY)
+
+    expect(added).toBeGreaterThan(REFILL_THRESHOLD)
+    expect(added).toBeLessThanOrEqual(POOL_TARGET_SIZE)
+    expect(new Set(words).size).toBe(added)
+    expect(words.every(word => isValidWord(word, 'space', 5))).toBe(true)
+  })
+
+  it('stops a refill when the model has nothing usable', async () => {
+    const complete = jest.spyOn(mockProvider, 'complete').mockResolvedValue(JSON.stringify({ words: ['XQZVW'] }))
+
+    expect(await refillPool(store, 'space', 5)).toBe(0)
+    expect(complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('never hands out a used word, and hands each word to one game only', async () => {
+    await store.add(KEY, ['ORBIT', 'COMET'])
+
+    expect(await drawFromPool(store, 'space', 5, ['ORBIT'])).toBe('COMET')
+    const draws = await Promise.all([drawFromPool(store, 'space', 5, []), drawFromPool(store, 'space', 5, [])])
+    expect(draws.filter(word => word === 'ORBIT')).toHaveLength(1)
+    await settle()
+  })
+
+  it('tops up a pool in the background once it runs low', async () => {
+    await store.add(KEY, ['ORBIT'])
+    expect(REFILL_THRESHOLD).toBeGreaterThan(1)
+
+    expect(await drawFromPool(store, 'space', 5, [])).toBe('ORBIT')
+    await settle()
+    expect((await store.get(KEY)).length).toBeGreaterThan(REFILL_THRESHOLD)
+  })
+
+  it('returns null from an empty pool so the caller generates live', async () => {
+    jest.spyOn(mockProvider, 'complete').mockResolvedValue(JSON.stringify({ words: [] }))
+
+    expect(await drawFromPool(store, 'space', 5, [])).toBeNull()
+    await settle()
+  })
+
+  it('prefills each requested theme', async () => {
+    const added = await prefillPools(store, 5, ['space', 'cooking'])
+
+    expect(Object.keys(added)).toEqual(['space', 'cooking'])
+    expect((await store.get('cooking:5')).length).toBe(added.cooking)
+    expect(added.cooking).toBeGreaterThan(REFILL_THRESHOLD)
+  })
+})
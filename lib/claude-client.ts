@@ -1,9 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk'
+import type { LLMProvider } from './llm-provider'
 
 // Allow builds without API key, but require it at runtime
 const apiKey = process.env.ANTHROPIC_API_KEY || 'build-time-placeholder'
 
-if (!process.env.ANTHROPIC_API_KEY && typeof window === 'undefined' && process.env.NODE_ENV !== 'development') {
+if (!process.env.ANTHROPIC_API_KEY && process.env.LLM_PROVIDER !== 'mock' && typeof window === 'undefined' && process.env.NODE_ENV !== 'development') {
   console.warn('ANTHROPIC_API_KEY not found during build - API calls will fail at runtime')
 }
 
@@ -16,4 +17,42 @@ export function checkApiKey() {
   if (!process.env.ANTHROPIC_API_KEY) {
     throw new Error('ANTHROPIC_API_KEY environment variable is required')
   }
-}
\ No newline at end of file
+}
+
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+
+  async complete({ prompt }, { model, maxTokens }) {
+    checkApiKey()
+
+    const message = await claudeClient.messages.create({
+      model,
+      max_tokens: maxTokens,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }]
+    })
+
+    return message.content[0].type === 'text'
+      ? message.content[0].text.trim()
+      : ''
+  },
+
+  async stream({ prompt }, { model, maxTokens }, onText, signal) {
+    checkApiKey()
+
+    const stream = claudeClient.messages.stream({
+      model,
+      max_tokens: maxTokens,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }]
+    }, { signal })
+
+    stream.on('text', onText)
+
+    return (await stream.finalText()).trim()
+  }
+}
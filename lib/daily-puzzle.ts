@@ -0,0 +1,99 @@
+import { Difficulty, GameState, ThemeKey } from './game-types'
+import { WORD_BANK } from './word-bank'
+
+// Daily ClaudLE - every date and theme maps to the same word for everyone, no API calls needed
+
+// Puzzle #1 was played on this date
+const DAILY_EPOCH = Date.UTC(2025, 0, 1)
+const DAY_MS = 24 * 60 * 60 * 1000
+const STORAGE_KEY = 'claudle-daily'
+// Records older than this are pruned whenever a new one is saved
+const RECORD_RETENTION_DAYS = 30
+
+export interface DailyPuzzle {
+  date: string
+  theme: ThemeKey
+  puzzleNumber: number
+}
+
+export interface DailyRecord {
+  guesses: string[]
+  gameState: GameState
+  difficulty: Difficulty
+  hintsUsed?: number
+}
+
+// Local calendar date as YYYY-MM-DD, so the puzzle rolls over at the player's midnight
+export function getDateKey(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
+
+export function getPuzzleNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return Math.floor((Date.UTC(year, month - 1, day) - DAILY_EPOCH) / DAY_MS) + 1
+}
+
+export function getDailyPuzzle(theme: ThemeKey, date: Date = new Date()): DailyPuzzle {
+  const dateKey = getDateKey(date)
+  return { date: dateKey, theme, puzzleNumber: getPuzzleNumber(dateKey) }
+}
+
+// Simple string hash (same approach as the device fingerprint) to spread themes apart
+function hashString(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash)
+}
+
+export function getDailyWord(dateKey: string, theme: ThemeKey): string {
+  const pool = WORD_BANK[theme]
+  // Walk the pool in order from a per-theme offset so consecutive days never repeat
+  const offset = hashString(theme) % pool.length
+  const index = (getPuzzleNumber(dateKey) + offset) % pool.length
+  return pool[index < 0 ? index + pool.length : index]
+}
+
+function recordKey(dateKey: string, theme: ThemeKey): string {
+  return `${dateKey}:${theme}`
+}
+
+function loadRecords(): Record<string, DailyRecord> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : {}
+  } catch (error) {
+    console.error('Failed to load daily puzzles:', error)
+    return {}
+  }
+}
+
+export function loadDailyRecord(dateKey: string, theme: ThemeKey): DailyRecord | null {
+  return loadRecords()[recordKey(dateKey, theme)] || null
+}
+
+export function saveDailyRecord(dateKey: string, theme: ThemeKey, record: DailyRecord): void {
+  try {
+    const records = loadRecords()
+    const cutoff = getPuzzleNumber(dateKey) - RECORD_RETENTION_DAYS
+
+    for (const key of Object.keys(records)) {
+      if (getPuzzleNumber(key.split(':')[0]) < cutoff) {
+        delete records[key]
+      }
+    }
+
+    records[recordKey(dateKey, theme)] = record
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  } catch (error) {
+    console.error('Failed to save daily puzzle:', error)
+  }
+}
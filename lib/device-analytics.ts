@@ -1,3 +1,6 @@
+import { loadGameHistory } from './game-history'
+import { getFavorite } from './stats-aggregation'
+
 // Simple device fingerprinting and analytics without external dependencies
 
 export interface DeviceInfo {
@@ -134,24 +137,36 @@ export function updateDeviceAnalytics(data: {
     info.averageGuesses = info.totalGuesses / info.gamesPlayed
   }
 
+  // Favorites are the most played, from the game-history log
   if (data.theme) {
-    info.favoriteTheme = data.theme
+    info.favoriteTheme = getFavorite(loadGameHistory(), 'theme') || data.theme
   }
 
   if (data.personality) {
-    info.favoritePersonality = data.personality
+    info.favoritePersonality = getFavorite(loadGameHistory(), 'personality') || data.personality
   }
 
   info.lastSeen = new Date().toISOString()
   localStorage.setItem(`claudle-device-${info.id}`, JSON.stringify(info))
 }
 
+// Every device record in this browser (more than one after importing another device's data)
+export function loadAllDeviceInfo(): DeviceInfo[] {
+  if (typeof window === 'undefined') return []
+
+  const keys = Object.keys(localStorage).filter(key => key.startsWith('claudle-device-'))
+  return keys.map(key => JSON.parse(localStorage.getItem(key)!) as DeviceInfo)
+}
+
+export function saveDeviceInfo(info: DeviceInfo): void {
+  localStorage.setItem(`claudle-device-${info.id}`, JSON.stringify(info))
+}
+
 // Get analytics summary for all devices (useful for debugging)
 export function getAnalyticsSummary() {
   if (typeof window === 'undefined') return null
 
-  const keys = Object.keys(localStorage).filter(key => key.startsWith('claudle-device-'))
-  const devices = keys.map(key => JSON.parse(localStorage.getItem(key)!) as DeviceInfo)
+  const devices = loadAllDeviceInfo()
 
   return {
     totalDevices: devices.length,
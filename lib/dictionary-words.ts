@@ -0,0 +1,147 @@
+// English word list (4-8 letters) for offline guess validation.
+// Derived from SCOWL (size 50, English + American) - Copyright 2000-2016 by Kevin Atkinson.
+// Permission to use, copy, modify, distribute and sell these word lists, the associated
+// scripts, the output created from the scripts, and its documentation for any purpose is
+// hereby granted without fee, provided that the above copyright notice appears in all
+// copies and that both that copyright notice and this permission notice appear in
+// supporting documentation.
+
+// Words grouped by length, then first letter, space separated to keep the bundle compact
+export const DICTIONARY_WORDS: Record<number, Record<string, string>> = {
+  4: {
+    A: 'ABED ABET ABLE ABLY ABUT ACED ACES ACHE ACHY ACID ACME ACNE ACRE ACTS ADDS ADZE AFAR AGAR AGED AGES AGOG AGUE AHEM AHOY AIDE AIDS AILS AIMS AIRS AIRY AJAR AKIN ALAS ALBS ALES ALGA ALLY ALMS ALOE ALSO ALTO ALUM AMEN AMID AMMO AMOK AMPS ANAL ANEW ANKH ANON ANTE ANTI ANTS ANUS APED APES APEX APPS APSE AQUA ARCH ARCS AREA ARES ARIA ARID ARKS ARMS ARMY ARTS ARTY ASHY ASKS ASPS ATOM ATOP AUKS AUNT AURA AUTO AVER AVID AVOW AWAY AWED AWES AWLS AWRY AXED AXES AXIS AXLE AXON AYES',
+    B: 'BAAS BABE BABY BACK BADE BAGS BAIL BAIT BAKE BALD BALE BALK BALL BALM BAND BANE BANG BANI BANK BANS BARB BARD BARE BARF BARK BARN BARS BASE BASH BASK BASS BAST BATE BATH BATS BAUD BAWL BAYS BEAD BEAK BEAM BEAN BEAR BEAT BEAU BECK BEDS BEEF BEEN BEEP BEER BEES BEET BEGS BELL BELT BEND BENT BERG BERM BEST BETA BETS BEVY BIAS BIBS BIDE BIDS BIER BIKE BILE BILK BILL BIND BINS BIRD BITE BITS BLAB BLAH BLED BLEW BLIP BLOB BLOC BLOG BLOT BLOW BLUE BLUR BOAR BOAS BOAT BOBS BODE BODY BOGS BOIL BOLA BOLD BOLE BOLL BOLT BOMB BOND BONE BONG BONY BOOB BOOK BOOM BOON BOOR BOOS BOOT BOPS BORE BORN BOSH BOSS BOTH BOUT BOWL BOWS BOYS BOZO BRAD BRAG BRAN BRAS BRAT BRAY BRED BREW BRIG BRIM BROW BUCK BUDS BUFF BUGS BULB BULK BULL BUMP BUMS BUNG BUNK BUNS BUNT BUOY BURG BURN BURP BURR BURS BURY BUSH BUSS BUST BUSY BUTS BUTT BUYS BUZZ BYES BYTE',
+    C: 'CABS CADS CAGE CAKE CALF CALK CALL CALM CAME CAMP CAMS CANE CANS CANT CAPE CAPS CARD CARE CARP CARS CART CASE CASH CASK CAST CATS CAVE CAWS CEDE CELL CENT CHAP CHAR CHAT CHEF CHEW CHIC CHIN CHIP CHIT CHOP CHOW CHUG CHUM CITE CITY CLAD CLAM CLAN CLAP CLAW CLAY CLEF CLEW CLIP CLIT CLOD CLOG CLOP CLOT CLOY CLUB CLUE COAL COAT COAX COBS COCK CODA CODE CODS COED COGS COIF COIL COIN COKE COLA COLD COLS COLT COMA COMB COME CONE CONK CONS COOK COOL COON COOP COOS COOT COPE COPS COPY CORD CORE CORK CORM CORN COST COTE COTS COUP COVE COWL COWS COZY CRAB CRAG CRAM CRAP CRAW CREW CRIB CROP CROW CRUD CRUX CUBE CUBS CUDS CUED CUES CUFF CULL CULT CUMS CUNT CUPS CURB CURD CURE CURL CURS CURT CUSP CUSS CUTE CUTS CYST CZAR',
+    D: 'DABS DADO DADS DAFT DAIS DALE DAME DAMN DAMP DAMS DANK DARE DARK DARN DART DASH DATA DATE DAUB DAWN DAYS DAZE DEAD DEAF DEAL DEAN DEAR DEBS DEBT DECK DEED DEEM DEEP DEER DEFT DEFY DELI DELL DEMO DENS DENT DENY DESK DEWY DIAL DICE DICK DIED DIES DIET DIGS DIKE DILL DIME DIMS DINE DING DINS DINT DIPS DIRE DIRK DIRT DISC DISH DISK DIVA DIVE DOCK DOCS DODO DOER DOES DOFF DOGS DOLE DOLL DOLT DOME DONE DONS DOOM DOOR DOPE DORK DORM DORY DOSE DOTE DOTH DOTS DOUR DOVE DOWN DOZE DRAB DRAG DRAM DRAW DRAY DREW DRIP DROP DRUB DRUG DRUM DRYS DUAL DUBS DUCK DUCT DUDE DUDS DUEL DUES DUET DUFF DUKE DULL DULY DUMB DUMP DUNE DUNG DUNK DUNS DUOS DUPE DUSK DUST DUTY DYED DYER DYES DYKE',
+    E: 'EACH EARL EARN EARS EASE EAST EASY EATS EAVE EBBS ECHO ECRU EDDY EDGE EDGY EDIT EELS EGGS EGOS EKED EKES ELKS ELLS ELMS ELSE EMIR EMIT EMOS EMUS ENDS ENVY EONS EPIC ERAS ERGO ERGS ERRS ESPY ETCH EURO EVEN EVER EVES EVIL EWER EWES EXAM EXEC EXES EXIT EXPO EYED EYES',
+    F: 'FACE FACT FADE FADS FAGS FAIL FAIN FAIR FAKE FALL FAME FANG FANS FARE FARM FART FAST FATE FATS FAUN FAWN FAZE FEAR FEAT FEDS FEED FEEL FEES FEET FELL FELT FEND FENS FERN FEST FETA FEUD FIAT FIBS FIEF FIFE FIGS FILE FILL FILM FIND FINE FINK FINS FIRE FIRM FIRS FISH FIST FITS FIVE FIZZ FLAB FLAG FLAK FLAN FLAP FLAT FLAW FLAX FLAY FLEA FLED FLEE FLEW FLEX FLIP FLIT FLOE FLOG FLOP FLOW FLUB FLUE FLUX FOAL FOAM FOBS FOES FOGS FOGY FOIL FOLD FOLK FOND FONT FOOD FOOL FOOT FOPS FORD FORE FORK FORM FORT FOUL FOUR FOWL FOXY FRAT FRAY FREE FRET FROG FROM FUCK FUEL FULL FUME FUND FUNK FURL FURS FURY FUSE FUSS FUTZ FUZZ',
+    G: 'GABS GADS GAFF GAGS GAIN GAIT GALA GALE GALL GALS GAME GAMY GANG GAPE GAPS GARB GASH GASP GATE GAVE GAWK GAYS GAZE GEAR GEED GEEK GEES GELD GELS GEMS GENE GENT GERM GETS GIBE GIFT GIGS GILD GILL GILT GINS GIRD GIRL GIRT GIST GIVE GLAD GLEE GLEN GLIB GLOB GLOP GLOW GLUE GLUM GLUT GNAT GNAW GNUS GOAD GOAL GOAT GOBS GODS GOES GOLD GOLF GONE GONG GOOD GOOF GOOK GOON GOOP GORE GORY GOSH GOUT GOWN GRAB GRAD GRAM GRAY GREW GRID GRIM GRIN GRIP GRIT GROG GROW GRUB GUFF GULF GULL GULP GUMS GUNK GUNS GURU GUSH GUST GUTS GUYS GYMS GYPS GYRO',
+    H: 'HACK HAFT HAGS HAIL HAIR HAKE HALE HALF HALL HALO HALT HAMS HAND HANG HANK HARD HARE HARK HARM HARP HART HASH HASP HATE HATH HATS HAUL HAVE HAWK HAWS HAYS HAZE HAZY HEAD HEAL HEAP HEAR HEAT HECK HEED HEEL HEFT HEIR HELD HELL HELM HELP HEMP HEMS HENS HERB HERD HERE HERO HERS HEWS HICK HIDE HIED HIES HIGH HIKE HILL HILT HIMS HIND HINT HIPS HIRE HISS HITS HIVE HOAX HOBO HOBS HOCK HODS HOED HOES HOGS HOLD HOLE HOLY HOME HONE HONK HOOD HOOF HOOK HOOP HOOT HOPE HOPS HORN HOSE HOST HOUR HOVE HOWL HOWS HUBS HUED HUES HUFF HUGE HUGS HULA HULK HULL HUMP HUMS HUNG HUNK HUNT HURL HURT HUSH HUSK HUTS HYMN HYPE HYPO',
+    I: 'IAMB IBEX IBIS ICED ICES ICKY ICON IDEA IDES IDLE IDLY IDOL IFFY ILKS ILLS IMAM IMPS INCH INFO INKS INKY INNS INTO IONS IOTA IRIS IRKS IRON ISLE ISMS ITCH ITEM',
+    J: 'JABS JACK JADE JAGS JAIL JAMB JAMS JAPE JARS JAWS JAYS JAZZ JEEP JEER JEEZ JELL JERK JEST JETS JIBE JIBS JIGS JILT JINN JINX JIVE JOBS JOCK JOGS JOHN JOIN JOKE JOLT JOSH JOTS JOWL JOYS JUDO JUGS JUMP JUNK JURY JUST JUTE JUTS',
+    K: 'KALE KEEL KEEN KEEP KEGS KELP KENS KEPT KEYS KHAN KICK KIDS KILL KILN KILO KILT KIND KING KINK KISS KITE KITH KITS KIWI KNEE KNEW KNIT KNOB KNOT KNOW KOOK',
+    L: 'LABS LACE LACK LACY LADE LADS LADY LAGS LAID LAIN LAIR LAKE LAMA LAMB LAME LAMP LAMS LAND LANE LANK LAPS LARD LARK LASH LASS LAST LATE LATH LATS LAUD LAVA LAWN LAWS LAYS LAZE LAZY LEAD LEAF LEAK LEAN LEAP LEAS LEEK LEER LEES LEFT LEGS LEIS LEND LENS LENT LESS LEST LETS LEVY LEWD LIAR LICE LICK LIDS LIED LIEF LIEN LIES LIEU LIFE LIFT LIKE LILT LILY LIMB LIME LIMN LIMO LIMP LIMY LINE LINK LINT LION LIPS LIRA LIRE LISP LIST LITE LIVE LOAD LOAF LOAM LOAN LOBE LOBS LOCI LOCK LOCO LODE LOFT LOGE LOGO LOGS LOIN LOLL LONE LONG LOOK LOOM LOON LOOP LOOT LOPE LOPS LORD LORE LORN LOSE LOSS LOST LOTS LOUD LOUT LOVE LOWS LUAU LUBE LUCK LUGS LULL LUMP LUNG LURE LURK LUSH LUST LUTE LYNX LYRE',
+    M: 'MACE MADE MADS MAID MAIL MAIM MAIN MAKE MALE MALL MALT MAMA MANE MANS MANY MAPS MARE MARK MARS MART MASH MASK MASS MAST MATE MATH MATS MAUL MAWS MAYO MAZE MEAD MEAL MEAN MEAT MEEK MEET MEGS MELD MELT MEME MEMO MEND MENU MEOW MERE MESA MESH MESS METE MEWL MEWS MICA MICE MIEN MIFF MIKE MILD MILE MILF MILK MILL MILS MIME MIND MINE MINI MINK MINT MINX MIRE MISS MIST MITE MITT MKAY MOAN MOAT MOBS MOCK MODE MODS MOLD MOLE MOLL MOLT MOMS MONK MONO MOOD MOON MOOR MOOS MOOT MOPE MOPS MORE MORN MOSS MOST MOTE MOTH MOVE MOWS MUCH MUCK MUFF MUGS MULE MULL MURK MUSE MUSH MUSK MUSS MUST MUTE MUTT MYNA MYTH',
+    N: 'NABS NAGS NAIL NAME NAPE NAPS NARC NARK NARY NAVE NAVY NAYS NEAR NEAT NECK NEED NEON NERD NEST NETS NEWS NEWT NEXT NIBS NICE NICK NIGH NINE NIPS NITS NODE NODS NOEL NOES NONE NOOK NOON NOPE NORM NOSE NOSH NOSY NOTE NOUN NOUS NOVA NUBS NUDE NUKE NULL NUMB NUNS NUTS',
+    O: 'OAFS OAKS OARS OATH OATS OBEY OBIT OBOE ODDS ODES ODOR OFFS OGLE OGRE OHMS OILS OILY OINK OKAY OKRA OLEO OMEN OMIT ONCE ONES ONLY ONTO ONUS ONYX OOPS OOZE OPAL OPEN OPTS OPUS ORAL ORBS ORCS ORES ORGY OUCH OURS OUST OUTS OVAL OVEN OVER OVUM OWED OWES OWLS OWNS OXEN',
+    P: 'PACE PACK PACT PADS PAGE PAID PAIL PAIN PAIR PALE PALL PALM PALS PANE PANG PANS PANT PAPA PAPS PARE PARK PARS PART PASS PAST PATE PATH PATS PAVE PAWL PAWN PAWS PAYS PEAK PEAL PEAR PEAS PEAT PECK PECS PEED PEEK PEEL PEEP PEER PEES PEGS PELT PENS PENT PEON PEPS PERK PERM PERT PESO PEST PETS PEWS PICA PICK PIED PIER PIES PIGS PIKE PILE PILL PIMP PINE PING PINK PINS PINT PIPE PIPS PISS PITA PITH PITS PITY PLAN PLAY PLEA PLOD PLOP PLOT PLOW PLOY PLUG PLUM PLUS POCK PODS POEM POET POKE POKY POLE POLL POLO POLS POMP POND PONE PONY POOH POOL POOP POOR POPE POPS PORE PORK PORN PORT POSE POSH POST POSY POTS POUR POUT PRAM PRAY PREP PREY PRIG PRIM PROD PROF PROM PROP PROS PROW PSST PUBS PUCK PUFF PUGS PUKE PULL PULP PUMA PUMP PUNK PUNS PUNT PUNY PUPA PUPS PURE PURL PURR PUSH PUSS PUTS PUTT PWNS PYRE',
+    Q: 'QUAD QUAY QUID QUIP QUIT QUIZ',
+    R: 'RACE RACK RACY RAFT RAGA RAGE RAGS RAID RAIL RAIN RAKE RAMP RAMS RANG RANK RANT RAPE RAPS RAPT RARE RASH RASP RATE RATS RAVE RAYS RAZE RAZZ READ REAL REAM REAP REAR REDO REDS REED REEF REEK REEL REFS REIN RELY REND RENT REPS REST REVS RHEA RIBS RICE RICH RICK RIDE RIDS RIFE RIFF RIFT RIGS RILE RILL RIME RIMS RIND RING RINK RIOT RIPE RIPS RISE RISK RITE ROAD ROAM ROAN ROAR ROBE ROBS ROCK RODE RODS ROES ROIL ROLE ROLL ROMP ROOD ROOF ROOK ROOM ROOT ROPE ROSE ROSY ROTE ROTS ROUT ROVE ROWS RUBE RUBS RUBY RUDE RUED RUES RUFF RUGS RUIN RULE RUMP RUMS RUNE RUNG RUNS RUNT RUSE RUSH RUSK RUST RUTS',
+    S: 'SACK SACS SAFE SAGA SAGE SAGO SAGS SAID SAIL SAKE SALE SALT SAME SAND SANE SANG SANK SANS SAPS SARI SASH SASS SATE SAVE SAWS SAYS SCAB SCAD SCAM SCAN SCAR SCAT SCOW SCUD SCUM SEAL SEAM SEAR SEAS SEAT SECS SECT SEED SEEK SEEM SEEN SEEP SEER SEES SELF SELL SEMI SEND SENT SERE SERF SETS SEWN SEWS SEXY SHAD SHAG SHAH SHAM SHED SHES SHIM SHIN SHIP SHIT SHOD SHOE SHOO SHOP SHOT SHOW SHUN SHUT SICK SICS SIDE SIFT SIGH SIGN SILK SILL SILO SILT SIMS SINE SING SINK SINS SIPS SIRE SIRS SITE SITS SIZE SKEW SKID SKIM SKIN SKIP SKIS SKIT SLAB SLAG SLAM SLAP SLAT SLAW SLAY SLED SLEW SLID SLIM SLIP SLIT SLOB SLOE SLOG SLOP SLOT SLOW SLUE SLUG SLUM SLUR SLUT SMOG SMUG SMUT SNAG SNAP SNIP SNIT SNOB SNOT SNOW SNUB SNUG SOAK SOAP SOAR SOBS SOCK SODA SODS SOFA SOFT SOIL SOLD SOLE SOLO SOLS SOME SONG SONS SOON SOOT SOPS SORE SORT SOTS SOUL SOUP SOUR SOWN SOWS SPAM SPAN SPAR SPAS SPAT SPAY SPEC SPED SPEW SPIN SPIT SPOT SPRY SPUD SPUN SPUR STAB STAG STAR STAY STEM STEP STEW STIR STOP STOW STUB STUD STUN SUBS SUCH SUCK SUDS SUED SUES SUET SUIT SULK SUMO SUMP SUMS SUNG SUNK SUNS SUPS SURE SURF SWAB SWAG SWAM SWAN SWAP SWAT SWAY SWIG SWIM SWUM SYNC',
+    T: 'TABS TACK TACO TACT TADS TAGS TAIL TAKE TALC TALE TALK TALL TAME TAMP TAMS TANG TANK TANS TAPE TAPS TARE TARO TARP TARS TART TASK TATS TAUT TAXI TEAK TEAL TEAM TEAR TEAS TEAT TEED TEEM TEEN TEES TELL TEMP TEND TENS TENT TERM TERN TEST TEXT THAN THAT THAW THEE THEM THEN THEY THIN THIS THOU THRU THUD THUG THUS TICK TICS TIDE TIDY TIED TIER TIES TIFF TILE TILL TILT TIME TINE TING TINS TINT TINY TIPS TIRE TITS TOAD TOED TOES TOFU TOGA TOGS TOIL TOKE TOLD TOLL TOMB TOME TOMS TONE TONG TONS TONY TOOK TOOL TOOT TOPS TORE TORN TORS TORT TOSS TOTE TOTS TOUR TOUT TOWN TOWS TOYS TRAM TRAP TRAY TREE TREK TRIG TRIM TRIO TRIP TROD TROT TROY TRUE TUBA TUBE TUBS TUCK TUFT TUGS TUNA TUNE TUNS TURD TURF TURN TUSH TUSK TUTU TWEE TWIG TWIN TWIT TWOS TYKE TYPE TYPO TYRO',
+    U: 'UGLY ULNA UMPS UNDO UNIT UNTO UPON UREA URGE URIC URNS USED USER USES',
+    V: 'VAIN VALE VAMP VANE VANS VAPE VARY VASE VAST VATS VEAL VEEP VEER VEIL VEIN VELD VEND VENT VERB VERY VEST VETO VETS VIAL VIBE VICE VIED VIES VIEW VILE VINE VIOL VISA VISE VIVA VOID VOLE VOLT VOTE VOWS',
+    W: 'WACK WADE WADI WADS WAFT WAGE WAGS WAIF WAIL WAIT WAKE WALE WALK WALL WAND WANE WANT WARD WARE WARM WARN WARP WARS WART WARY WASH WASP WATT WAVE WAVY WAXY WAYS WEAK WEAL WEAN WEAR WEBS WEDS WEED WEEK WEEP WEER WEES WEFT WEIR WELD WELL WELT WEND WENS WENT WEPT WERE WEST WETS WHAM WHAT WHEN WHET WHEW WHEY WHIM WHIP WHIR WHIT WHIZ WHOA WHOM WHYS WICK WIDE WIFE WIGS WIKI WILD WILE WILL WILT WILY WIMP WIND WINE WING WINK WINO WINS WIPE WIRE WIRY WISE WISH WISP WIST WITH WITS WIVE WOES WOKE WOKS WOLF WOMB WONT WOOD WOOF WOOL WOOS WORD WORE WORK WORM WORN WOVE WOWS WRAP WREN WRIT WUSS',
+    Y: 'YAKS YAMS YANK YAPS YARD YARN YAWL YAWN YAWS YEAH YEAR YEAS YELL YELP YENS YEPS YEST YETI YEWS YIPS YOGA YOGI YOKE YOLK YORE YOUR YOUS YOWL YUCK YUKS YULE YUPS',
+    Z: 'ZANY ZAPS ZEAL ZEBU ZEDS ZERO ZEST ZETA ZINC ZING ZIPS ZITS ZONE ZOOM ZOOS'
+  },
+  5: {
+    A: 'ABACK ABAFT ABASE ABASH ABATE ABBEY ABBOT ABEAM ABETS ABHOR ABIDE ABLER ABODE ABORT ABOUT ABOVE ABUSE ABUTS ABUZZ ABYSS ACHED ACHES ACHOO ACIDS ACING ACMES ACORN ACRES ACRID ACTED ACTOR ACUTE ADAGE ADAPT ADDED ADDER ADDLE ADEPT ADIEU ADMAN ADMEN ADMIT ADOBE ADOPT ADORE ADORN ADULT ADZES AEGIS AERIE AFFIX AFIRE AFOOT AFOUL AFTER AGAIN AGAPE AGATE AGAVE AGENT AGILE AGING AGLOW AGONY AGREE AHEAD AIDED AIDES AILED AIMED AIRED AISLE ALARM ALBUM ALDER ALERT ALGAE ALIAS ALIBI ALIEN ALIGN ALIKE ALIVE ALLAY ALLEY ALLOT ALLOW ALLOY ALOES ALOFT ALOHA ALONE ALONG ALOOF ALOUD ALPHA ALTAR ALTER ALTOS ALUMS AMASS AMAZE AMBER AMBLE AMEND AMIGO AMINO AMISS AMITY AMONG AMOUR AMPLE AMPLY AMUSE ANGEL ANGER ANGLE ANGRY ANGST ANIME ANION ANISE ANKHS ANKLE ANNEX ANNOY ANNUL ANODE ANONS ANTED ANTES ANTIC ANTIS ANVIL AORTA APACE APART APHID APING APPLE APPLY APRON APSES APTER APTLY AQUAS ARBOR ARCED ARDOR AREAS ARENA ARGON ARGOT ARGUE ARIAS ARISE ARMED ARMOR AROMA AROSE ARRAY ARROW ARSON ARTSY ASCOT ASHED ASHEN ASHES ASIDE ASKED ASKEW ASPEN ASPIC ASSAY ASSES ASSET ASTER ASTIR ATLAS ATOLL ATOMS ATONE ATRIA ATTAR ATTIC AUDIO AUDIT AUGER AUGHT AUGUR AUNTS AURAL AURAS AUTOS AVAIL AVAST AVERS AVERT AVIAN AVOID AVOWS AWAIT AWAKE AWARD AWARE AWASH AWFUL AWING AWOKE AXIAL AXING AXIOM AXLES AXONS AZURE',
+    B: 'BAAED BABEL BABES BACKS BACON BADGE BADLY BAGEL BAGGY BAILS BAITS BAIZE BAKED BAKER BAKES BALDS BALED BALES BALKS BALKY BALLS BALMS BALMY BALSA BANAL BANDS BANDY BANES BANGS BANJO BANKS BANNS BARBS BARDS BARED BARER BARES BARFS BARGE BARKS BARNS BARON BASAL BASED BASER BASES BASIC BASIL BASIN BASIS BASKS BASSO BASTE BATCH BATED BATES BATHE BATHS BATIK BATON BATTY BAWDY BAWLS BAYED BAYOU BEACH BEADS BEADY BEAKS BEAMS BEANS BEARD BEARS BEAST BEATS BEAUS BEBOP BECKS BEECH BEEFS BEEFY BEEPS BEERS BEETS BEFIT BEFOG BEGAN BEGAT BEGET BEGIN BEGOT BEGUN BEIGE BEING BELAY BELCH BELIE BELLE BELLS BELLY BELOW BELTS BENCH BENDS BENTS BERET BERGS BERMS BERRY BERTH BERYL BESET BESOM BESOT BESTS BETAS BEVEL BIBLE BICEP BIDDY BIDES BIDET BIERS BIGHT BIGOT BIKED BIKER BIKES BILGE BILKS BILLS BILLY BIMBO BINDS BINGE BINGO BIPED BIRCH BIRDS BIRTH BISON BITCH BITES BLABS BLACK BLADE BLAME BLAND BLANK BLARE BLAST BLAZE BLEAK BLEAT BLEED BLEEP BLEND BLESS BLIMP BLIND BLING BLINK BLIPS BLISS BLITZ BLOAT BLOBS BLOCK BLOCS BLOGS BLOND BLOOD BLOOM BLOTS BLOWN BLOWS BLUED BLUER BLUES BLUFF BLUNT BLURB BLURS BLURT BLUSH BOARD BOARS BOAST BOATS BOBBY BODED BODES BOGEY BOGGY BOGIE BOGUS BOILS BOLAS BOLES BOLLS BOLTS BOMBS BONDS BONED BONER BONES BONGO BONGS BONNY BONUS BOOBS BOOBY BOOED BOOKS BOOMS BOONS BOORS BOOST BOOTH BOOTS BOOTY BOOZE BOOZY BORAX BORED BORER BORES BORNE BORON BOSOM BOSSY BOTCH BOUGH BOUND BOUTS BOWED BOWEL BOWER BOWLS BOXED BOXER BOXES BOZOS BRACE BRACT BRADS BRAGS BRAID BRAIN BRAKE BRAND BRASH BRASS BRATS BRAVE BRAVO BRAWL BRAWN BRAYS BREAD BREAK BREED BREWS BRIBE BRICK BRIDE BRIEF BRIER BRIGS BRIMS BRINE BRING BRINK BRINY BRISK BROAD BROIL BROKE BROOD BROOK BROOM BROTH BROWN BROWS BRUIN BRUNT BRUSH BRUTE BUCKS BUDDY BUDGE BUFFS BUGGY BUGLE BUILD BUILT BULBS BULGE BULGY BULKS BULKY BULLS BULLY BUMPS BUMPY BUNCH BUNGS BUNKS BUNNY BUNTS BUOYS BURGS BURKA BURLY BURNS BURNT BURPS BURRO BURRS BURST BUSBY BUSED BUSES BUSHY BUSTS BUTCH BUTTE BUTTS BUXOM BUYER BYLAW BYTES BYWAY',
+    C: 'CABAL CABBY CABIN CABLE CACAO CACHE CACTI CADET CADGE CADRE CAGED CAGES CAGEY CAIRN CAKED CAKES CALKS CALLS CALMS CALVE CALYX CAMEL CAMEO CAMPS CAMPY CANAL CANDY CANED CANES CANNY CANOE CANON CANTO CANTS CAPED CAPER CAPES CAPON CARAT CARBS CARDS CARED CARES CARET CARGO CAROL CAROM CARPI CARPS CARRY CARTS CARVE CASED CASES CASKS CASTE CASTS CATCH CATER CATTY CAULK CAUSE CAVED CAVES CAVIL CAWED CEASE CEDAR CEDED CEDES CELLO CELLS CENTS CHAFE CHAFF CHAIN CHAIR CHALK CHAMP CHANT CHAOS CHAPS CHARM CHARS CHART CHARY CHASE CHASM CHATS CHEAP CHEAT CHECK CHEEK CHEEP CHEER CHEFS CHESS CHEST CHEWS CHEWY CHICK CHIDE CHIEF CHILD CHILI CHILL CHIME CHIMP CHINA CHINK CHINO CHINS CHIPS CHIRP CHITS CHIVE CHOCK CHOIR CHOKE CHOMP CHOPS CHORD CHORE CHOSE CHOWS CHUCK CHUGS CHUMP CHUMS CHUNK CHURL CHURN CHUTE CIDER CIGAR CILIA CINCH CIRCA CITED CITES CIVET CIVIC CIVIL CLACK CLAIM CLAMP CLAMS CLANG CLANK CLANS CLAPS CLASH CLASP CLASS CLAWS CLEAN CLEAR CLEAT CLEFS CLEFT CLERK CLEWS CLICK CLIFF CLIMB CLIME CLING CLINK CLIPS CLITS CLOAK CLOCK CLODS CLOGS CLOMP CLONE CLOPS CLOSE CLOTH CLOTS CLOUD CLOUT CLOVE CLOWN CLOYS CLUBS CLUCK CLUED CLUES CLUMP CLUNG CLUNK COACH COALS COAST COATS COBRA COCCI COCKS COCKY COCOA CODAS CODED CODES CODEX COEDS COIFS COILS COINS COKED COKES COLAS COLDS COLIC COLON COLOR COLTS COMAS COMBO COMBS COMER COMES COMET COMFY COMIC COMMA CONCH CONDO CONES CONGA CONIC CONKS COOED COOKS COOLS COONS COOPS COOTS COPED COPES COPRA COPSE CORAL CORDS CORED CORES CORKS CORMS CORNS CORNY CORPS COSTS COTES COUCH COUGH COULD COUNT COUPE COUPS COURT COVEN COVER COVES COVET COVEY COWED COWER COWLS COYER COYLY COZEN CRABS CRACK CRAFT CRAGS CRAMP CRAMS CRANE CRANK CRAPE CRAPS CRASH CRASS CRATE CRAVE CRAWL CRAWS CRAZE CRAZY CREAK CREAM CREDO CREED CREEK CREEL CREEP CREPE CREPT CRESS CREST CREWS CRIBS CRICK CRIED CRIER CRIES CRIME CRIMP CRISP CROAK CROCK CRONE CRONY CROOK CROON CROPS CROSS CROUP CROWD CROWN CROWS CRUDE CRUEL CRUET CRUMB CRUSH CRUST CRYPT CUBED CUBES CUBIC CUBIT CUFFS CUING CULLS CULTS CUMIN CUNTS CUPID CURBS CURDS CURED CURER CURES CURIE CURIO CURLS CURLY CURRY CURSE CURVE CURVY CUSHY CUSPS CUTER CUTUP CYCLE CYNIC CYSTS CZARS',
+    D: 'DACHA DADDY DAFFY DAILY DAIRY DAISY DALES DALLY DAMES DAMNS DAMPS DANCE DANDY DARED DARES DARNS DARTS DATED DATES DATUM DAUBS DAUNT DAVIT DAWNS DAZED DAZES DEALS DEALT DEANS DEARS DEATH DEBAR DEBIT DEBTS DEBUG DEBUT DECAF DECAL DECAY DECKS DECOR DECOY DECRY DEEDS DEEMS DEEPS DEFER DEICE DEIFY DEIGN DEISM DEITY DELAY DELIS DELLS DELTA DELVE DEMON DEMOS DEMUR DENIM DENSE DENTS DEPOT DEPTH DERBY DESKS DETER DETOX DEUCE DEVIL DHOTI DIALS DIARY DICED DICES DICEY DICKS DICTA DIETS DIGIT DIKED DIKES DILLS DILLY DIMER DIMES DIMLY DINED DINER DINES DINGO DINGS DINGY DINKY DIODE DIRER DIRGE DIRKS DIRTY DISCO DISCS DISKS DITCH DITTO DITTY DIVAN DIVAS DIVED DIVER DIVES DIVOT DIVVY DIZZY DOCKS DODGE DODOS DOERS DOFFS DOGGY DOGIE DOGMA DOILY DOING DOLED DOLES DOLLS DOLLY DOLTS DOMED DOMES DONOR DOOMS DOORS DOPED DOPES DOPEY DORKS DORKY DORMS DOSED DOSES DOTED DOTES DOTTY DOUBT DOUGH DOUSE DOVES DOWDY DOWEL DOWNS DOWNY DOWRY DOWSE DOYEN DOZED DOZEN DOZES DRABS DRAFT DRAGS DRAIN DRAKE DRAMA DRAMS DRANK DRAPE DRAWL DRAWN DRAWS DRAYS DREAD DREAM DREGS DRESS DRIED DRIER DRIES DRIFT DRILL DRINK DRIPS DRIVE DROLL DRONE DROOL DROOP DROPS DROSS DROVE DROWN DRUBS DRUGS DRUID DRUMS DRUNK DRYAD DRYER DRYLY DUCAL DUCAT DUCHY DUCKS DUCTS DUDED DUDES DUELS DUETS DUKES DULLS DULLY DUMMY DUMPS DUMPY DUNCE DUNES DUNGS DUNKS DUNNO DUPED DUPES DUSKY DUSTS DUSTY DUVET DWARF DWEEB DWELL DWELT DYERS DYING DYKES',
+    E: 'EAGER EAGLE EARLS EARLY EARNS EARTH EASED EASEL EASES EATEN EATER EAVES EBBED EBONY EDEMA EDGED EDGER EDGES EDICT EDIFY EDITS EERIE EGGED EGRET EIDER EIGHT EJECT EKING ELATE ELBOW ELDER ELECT ELEGY ELFIN ELIDE ELITE ELOPE ELUDE ELVES EMAIL EMBED EMBER EMCEE EMEND EMERY EMIRS EMITS EMOJI EMOTE EMPTY ENACT ENDED ENDOW ENDUE ENEMA ENEMY ENJOY ENNUI ENSUE ENTER ENTRY ENVOY EPICS EPOCH EPOXY EQUAL EQUIP ERASE ERECT ERODE ERRED ERROR ERUPT ESSAY ESTER ETHER ETHIC ETHOS EUROS EVADE EVENS EVENT EVERY EVICT EVILS EVOKE EWERS EXACT EXALT EXAMS EXCEL EXECS EXERT EXILE EXIST EXITS EXPEL EXPOS EXTOL EXTRA EXUDE EXULT',
+    F: 'FABLE FACED FACES FACET FACTS FADED FADES FAGOT FAILS FAINT FAIRS FAIRY FAITH FAKED FAKER FAKES FAKIR FALLS FALSE FAMED FANCY FANGS FANNY FARCE FARED FARES FARMS FARTS FASTS FATAL FATED FATES FATTY FAULT FAUNA FAUNS FAVOR FAWNS FAXED FAXES FAZED FAZES FEARS FEAST FEATS FECAL FECES FEEDS FEELS FEIGN FEINT FELLS FELON FELTS FEMUR FENCE FENDS FERAL FERNS FERRY FESTS FETAL FETCH FETED FETID FETUS FEUDS FEVER FEWER FIATS FIBER FICHE FIEFS FIELD FIEND FIERY FIFES FIFTH FIFTY FIGHT FILCH FILED FILES FILET FILLS FILLY FILMS FILMY FILTH FINAL FINCH FINDS FINED FINER FINES FINIS FINKS FINNY FIRED FIRES FIRMS FIRST FIRTH FISHY FISTS FITLY FIVER FIVES FIXED FIXER FIXES FIZZY FJORD FLACK FLAGS FLAIL FLAIR FLAKE FLAKY FLAME FLANK FLAPS FLARE FLASH FLASK FLATS FLAWS FLAYS FLEAS FLECK FLEES FLEET FLESH FLICK FLIED FLIER FLIES FLING FLINT FLIPS FLIRT FLITS FLOAT FLOCK FLOES FLOGS FLOOD FLOOR FLOPS FLORA FLOSS FLOUR FLOUT FLOWN FLOWS FLUBS FLUES FLUFF FLUID FLUKE FLUKY FLUME FLUNG FLUNK FLUSH FLUTE FLYBY FOALS FOAMS FOAMY FOCAL FOCUS FOGGY FOILS FOIST FOLDS FOLIO FOLKS FOLLY FONTS FOODS FOOLS FOOTS FORAY FORCE FORDS FORES FORGE FORGO FORKS FORMS FORTE FORTH FORTS FORTY FORUM FOULS FOUND FOUNT FOURS FOWLS FOXED FOXES FOYER FRACK FRAIL FRAME FRANC FRANK FRATS FRAUD FRAYS FREAK FREED FREER FREES FRESH FRETS FRIAR FRIED FRIES FRILL FRISK FRIZZ FROCK FROGS FROND FRONT FROST FROTH FROWN FROZE FRUIT FRUMP FRYER FUCKS FUDGE FUELS FUGUE FULLS FULLY FUMED FUMES FUNDS FUNGI FUNKS FUNKY FUNNY FURLS FUROR FURRY FURZE FUSED FUSES FUSSY FUSTY FUTON FUZZY',
+    G: 'GABBY GABLE GAFFE GAFFS GAILY GAINS GAITS GALAS GALES GALLS GAMED GAMER GAMES GAMIN GAMMA GAMUT GANGS GAPED GAPES GARBS GASES GASPS GASSY GATED GATES GAUDY GAUGE GAUNT GAUZE GAUZY GAVEL GAWKS GAWKY GAYER GAZED GAZER GAZES GEARS GECKO GEEKS GEEKY GEESE GELDS GELID GENES GENIE GENII GENRE GENTS GENUS GEODE GERMS GETUP GHOST GHOUL GIANT GIBED GIBES GIDDY GIFTS GILDS GILLS GILTS GIMME GIMPY GIRDS GIRLS GIRTH GIRTS GIVEN GIVES GIZMO GLADE GLADS GLAND GLARE GLASS GLAZE GLEAM GLEAN GLENS GLIDE GLINT GLITZ GLOAT GLOBE GLOBS GLOOM GLORY GLOSS GLOVE GLOWS GLUED GLUES GLUEY GLUTS GLYPH GNARL GNASH GNATS GNAWS GNOME GOADS GOALS GOATS GODLY GOFER GOING GOLDS GOLFS GOLLY GONAD GONER GONGS GONNA GOODS GOODY GOOEY GOOFS GOOFY GOOKS GOONS GOOSE GORED GORES GORGE GORSE GOTTA GOUGE GOURD GOUTY GOWNS GRABS GRACE GRADE GRADS GRAFT GRAIL GRAIN GRAMS GRAND GRANT GRAPE GRAPH GRASP GRASS GRATE GRAVE GRAVY GRAYS GRAZE GREAT GREBE GREED GREEN GREET GRIDS GRIEF GRILL GRIME GRIMY GRIND GRINS GRIPE GRIPS GRIST GRITS GROAN GROIN GROOM GROPE GROSS GROUP GROUT GROVE GROWL GROWN GROWS GRUBS GRUEL GRUFF GRUNT GUANO GUARD GUAVA GUESS GUEST GUIDE GUILD GUILE GUILT GUISE GULAG GULCH GULFS GULLS GULLY GULPS GUMBO GUMMY GUNNY GUPPY GURUS GUSHY GUSTO GUSTS GUSTY GUTSY GUYED GYPSY GYROS',
+    H: 'HABIT HACKS HAFTS HAIKU HAILS HAIRS HAIRY HAKES HALED HALER HALES HALLS HALON HALOS HALTS HALVE HANDS HANDY HANGS HANKS HAPPY HARDY HARED HAREM HARES HARKS HARMS HARPS HARPY HARRY HARSH HARTS HASPS HASTE HASTY HATCH HATED HATER HATES HAULS HAUNT HAVEN HAVES HAVOC HAWED HAWKS HAYED HAZED HAZEL HAZES HEADS HEADY HEALS HEAPS HEARD HEARS HEART HEATH HEATS HEAVE HEAVY HEDGE HEEDS HEELS HEFTS HEFTY HEIRS HEIST HELIX HELLO HELMS HELOT HELPS HENCE HENNA HERBS HERDS HERON HERTZ HEWED HEWER HEXED HEXES HICKS HIDED HIDES HIGHS HIKED HIKER HIKES HILLS HILLY HILTS HINDS HINGE HINTS HIPPO HIPPY HIRED HIRES HITCH HIVED HIVES HOARD HOARY HOBBY HOBOS HOCKS HOGAN HOIST HOKEY HOKUM HOLDS HOLED HOLES HOLLY HOMED HOMER HOMES HOMEY HONED HONES HONEY HONKS HONOR HOOCH HOODS HOOEY HOOFS HOOKS HOOKY HOOPS HOOTS HOPED HOPES HORDE HORNS HORNY HORSE HOSED HOSES HOSTS HOTEL HOTLY HOUND HOURS HOUSE HOVEL HOVER HOWDY HOWLS HUBBY HUFFS HUFFY HUGER HULAS HULKS HULLS HUMAN HUMID HUMOR HUMPS HUMUS HUNCH HUNKS HUNTS HURLS HURRY HURTS HUSKS HUSKY HUSSY HUTCH HYDRA HYENA HYING HYMEN HYMNS HYPED HYPER HYPES HYPOS',
+    I: 'IAMBS ICIER ICILY ICING ICONS IDEAL IDEAS IDIOM IDIOT IDLED IDLER IDLES IDOLS IDYLL IGLOO IMAGE IMAMS IMBUE IMPEL IMPLY INANE INAPT INBOX INCUR INDEX INEPT INERT INFER INFIX INGOT INKED INLAY INLET INNER INPUT INSET INTER INURE IOTAS IRATE IRKED IRONS IRONY ISLES ISLET ISSUE ITCHY ITEMS IVIES IVORY',
+    J: 'JABOT JACKS JADED JADES JAILS JAMBS JAPAN JAPED JAPES JAUNT JAWED JAZZY JEANS JEEPS JEERS JELLS JELLY JERKS JERKY JESTS JETTY JEWEL JIBED JIBES JIFFY JIHAD JILTS JIMMY JINNI JIVED JIVES JOCKS JOHNS JOINS JOINT JOIST JOKED JOKER JOKES JOLLY JOLTS JOULE JOUST JOWLS JOYED JUDGE JUICE JUICY JULEP JUMBO JUMPS JUMPY JUNCO JUNKS JUNTA JUROR',
+    K: 'KAPOK KAPUT KARAT KARMA KAYAK KAZOO KEBAB KEELS KEENS KEEPS KETCH KEYED KHAKI KHANS KICKS KICKY KIDDO KILLS KILNS KILOS KILTS KINDA KINDS KINGS KINKS KINKY KIOSK KITED KITES KITTY KIWIS KLUTZ KNACK KNAVE KNEAD KNEED KNEEL KNEES KNELL KNELT KNIFE KNITS KNOBS KNOCK KNOLL KNOTS KNOWN KNOWS KOALA KOOKS KOOKY KRONE KUDOS KUDZU',
+    L: 'LABEL LABIA LABOR LACED LACES LACKS LADED LADEN LADES LADLE LAGER LAIRS LAITY LAKES LAMAS LAMBS LAMED LAMER LAMES LAMPS LANCE LANDS LANES LANKY LAPEL LAPSE LARCH LARDS LARGE LARGO LARKS LARVA LASER LASSO LASTS LATCH LATER LATEX LATHE LATHS LATTE LAUDS LAUGH LAWNS LAXER LAXLY LAYER LAZED LAZES LEACH LEADS LEAFS LEAFY LEAKS LEAKY LEANS LEAPS LEARN LEASE LEASH LEAST LEAVE LEDGE LEECH LEEKS LEERS LEERY LEFTS LEFTY LEGAL LEGGY LEGIT LEMMA LEMME LEMON LEMUR LENDS LEPER LETUP LEVEE LEVEL LEVER LIARS LIBEL LICIT LICKS LIEGE LIENS LIFER LIFTS LIGHT LIKED LIKEN LIKER LIKES LILAC LILTS LIMBO LIMBS LIMED LIMES LIMIT LIMNS LIMOS LIMPS LINED LINEN LINER LINES LINGO LINKS LIONS LIPID LISLE LISPS LISTS LITER LITHE LIVED LIVEN LIVER LIVES LIVID LLAMA LLANO LOADS LOAFS LOAMY LOANS LOATH LOBBY LOBED LOBES LOCAL LOCKS LOCUS LODES LODGE LOFTS LOFTY LOGES LOGIC LOGIN LOGON LOGOS LOINS LOLLS LONER LONGS LOOKS LOOMS LOONS LOONY LOOPS LOOPY LOOSE LOOTS LOPED LOPES LORDS LORRY LOSER LOSES LOTTO LOTUS LOUSE LOUSY LOUTS LOVED LOVER LOVES LOWED LOWER LOWLY LOYAL LUAUS LUBED LUBES LUCID LUCKS LUCKY LUCRE LULLS LUMPS LUMPY LUNAR LUNCH LUNGE LUNGS LUPUS LURCH LURED LURES LURID LURKS LUSTS LUSTY LUTES LYING LYMPH LYNCH LYRES LYRIC',
+    M: 'MACAW MACED MACES MACHO MACRO MADAM MADLY MAGIC MAGMA MAIDS MAILS MAIMS MAINS MAIZE MAJOR MAKER MAKES MALES MALLS MALTS MAMAS MAMBO MAMMA MANES MANGA MANGE MANGO MANGY MANIA MANIC MANLY MANNA MANOR MANSE MAPLE MARCH MARES MARIA MARKS MARRY MARSH MARTS MASKS MASON MASTS MATCH MATED MATES MATTE MATZO MAULS MAUVE MAVEN MAXED MAXES MAXIM MAYBE MAYOR MAZES MEALS MEALY MEANS MEANT MEATS MEATY MECCA MEDAL MEDIA MEDIC MEETS MELDS MELON MELTS MEMES MEMOS MENDS MENUS MEOWS MERCY MERES MERGE MERIT MERRY MESAS MESSY METAL METED METER METES METRO MEWED MEWLS MIDDY MIDGE MIDST MIENS MIFFS MIGHT MIKED MIKES MILCH MILER MILES MILFS MILKS MILKY MILLS MIMED MIMES MIMIC MINCE MINDS MINED MINER MINES MINIM MINIS MINKS MINOR MINTS MINTY MINUS MIRED MIRES MIRTH MISDO MISER MISTS MISTY MITER MITES MITTS MIXED MIXER MIXES MOANS MOATS MOCHA MOCKS MODAL MODEL MODEM MODES MOGUL MOIRE MOIST MOLAR MOLDS MOLDY MOLES MOLLS MOLTS MOMMY MONEY MONKS MONTH MOOCH MOODS MOODY MOOED MOONS MOORS MOOSE MOOTS MOPED MOPES MORAL MORAY MORES MORNS MORON MOSEY MOSSY MOTEL MOTES MOTHS MOTIF MOTOR MOTTO MOUND MOUNT MOURN MOUSE MOUSY MOUTH MOVED MOVER MOVES MOVIE MOWED MOWER MUCKS MUCKY MUCUS MUDDY MUFFS MUFTI MUGGY MULCH MULES MULLS MULTI MUMMY MUMPS MUNCH MURAL MURKS MURKY MUSED MUSES MUSHY MUSIC MUSKY MUSSY MUSTS MUSTY MUTED MUTER MUTES MUTTS MYNAS MYRRH MYTHS',
+    N: 'NABOB NACHO NACRE NADIR NAIAD NAILS NAIVE NAKED NAMED NAMES NANNY NAPES NAPPY NARCS NASAL NASTY NATAL NATTY NAVAL NAVEL NAVES NEARS NEATH NECKS NEEDS NEEDY NEIGH NERDS NERDY NERVE NERVY NESTS NEVER NEWEL NEWER NEWLY NEWSY NEWTS NEXUS NICER NICHE NICKS NIECE NIFTY NIGGA NIGHT NIMBI NINES NINJA NINNY NINTH NIPPY NITER NIXED NIXES NOBLE NOBLY NODAL NODDY NODES NOELS NOISE NOISY NOMAD NONCE NOOKS NOOSE NORMS NORTH NOSED NOSES NOTCH NOTED NOTES NOUNS NOVAE NOVAS NOVEL NOWAY NUDER NUDES NUDGE NUKED NUKES NULLS NUMBS NURSE NUTTY NYLON NYMPH',
+    O: 'OAKEN OAKUM OARED OASES OASIS OATEN OATHS OBESE OBEYS OBITS OBOES OCCUR OCEAN OCHER OCTAL OCTET ODDER ODDLY ODIUM ODORS OFFAL OFFED OFFER OFTEN OGLED OGLES OGRES OILED OINKS OKAYS OKRAS OLDEN OLDER OLDIE OLIVE OMEGA OMENS OMITS ONION ONSET OOZED OOZES OPALS OPENS OPERA OPINE OPIUM OPTED OPTIC ORALS ORATE ORBIT ORDER ORGAN OSIER OTHER OTTER OUGHT OUNCE OUSTS OUTDO OUTED OUTER OUTGO OVALS OVARY OVENS OVERS OVERT OVOID OVULE OWING OWLET OWNED OWNER OXBOW OXIDE OZONE',
+    P: 'PACED PACES PACKS PACTS PADDY PADRE PAEAN PAGAN PAGED PAGER PAGES PAILS PAINS PAINT PAIRS PALED PALER PALES PALLS PALMS PALMY PALSY PANDA PANEL PANES PANGS PANIC PANSY PANTS PAPAL PAPAS PAPER PARCH PARED PARES PARKA PARKS PARRY PARSE PARTS PARTY PASHA PASTA PASTE PASTS PASTY PATCH PATES PATHS PATIO PATSY PATTY PAUSE PAVED PAVES PAWED PAWLS PAWNS PAYED PAYEE PAYER PEACE PEACH PEAKS PEALS PEARL PEARS PECAN PECKS PEDAL PEEKS PEELS PEEPS PEERS PEEVE PEKOE PELTS PENAL PENCE PENDS PENIS PENNY PEONS PEONY PEPPY PERCH PERIL PERKS PERKY PERMS PESKY PESOS PESTS PETAL PETER PETTY PEWEE PHASE PHIAL PHISH PHLOX PHONE PHONY PHOTO PHYLA PIANO PICKS PICKY PIECE PIERS PIETY PIGGY PIING PIKED PIKER PIKES PILAF PILED PILES PILLS PILOT PIMPS PINCH PINED PINES PINGS PINKS PINTO PINTS PINUP PIOUS PIPED PIPER PIPES PIPIT PIQUE PITCH PITHY PITON PIVOT PIXEL PIXIE PIZZA PLACE PLAID PLAIN PLAIT PLANE PLANK PLANS PLANT PLATE PLAYS PLAZA PLEAD PLEAS PLEAT PLIED PLIES PLODS PLOPS PLOTS PLOWS PLOYS PLUCK PLUGS PLUMB PLUME PLUMP PLUMS PLUNK PLUSH POACH POCKS POEMS POESY POETS POINT POISE POKED POKER POKES POKEY POLAR POLED POLES POLIO POLKA POLLS POLYP PONDS PONES POOCH POOHS POOLS POOPS POPES POPPA POPPY PORCH PORED PORES PORNO PORTS POSED POSER POSES POSIT POSSE POSTS POTTY POUCH POUND POURS POUTS POWER POXES PRANK PRATE PRAWN PRAYS PREEN PREPS PRESS PREYS PRICE PRICK PRIDE PRIED PRIES PRIGS PRIME PRIMP PRINT PRIOR PRISM PRIVY PRIZE PROBE PRODS PROFS PROMO PROMS PRONE PRONG PROOF PROPS PROSE PROSY PROUD PROVE PROWL PROWS PROXY PRUDE PRUNE PSALM PSHAW PSYCH PUBIC PUCKS PUDGY PUFFS PUFFY PUKED PUKES PULLS PULPS PULPY PULSE PUMAS PUMPS PUNCH PUNKS PUNTS PUPAE PUPAL PUPIL PUPPY PUREE PURER PURGE PURLS PURRS PURSE PUSHY PUSSY PUTTS PUTTY PWNED PYGMY PYLON PYRES PYXES',
+    Q: 'QUACK QUADS QUAFF QUAIL QUAKE QUALM QUARK QUART QUASH QUASI QUAYS QUEEN QUEER QUELL QUERY QUEST QUEUE QUICK QUIDS QUIET QUILL QUILT QUIPS QUIRE QUIRK QUITE QUITS QUOIT QUOTA QUOTE QUOTH',
+    R: 'RABBI RABID RACED RACER RACES RACKS RADAR RADII RADIO RADON RAFTS RAGAS RAGED RAGES RAIDS RAILS RAINS RAINY RAISE RAJAH RAKED RAKES RALLY RAMPS RANCH RANDY RANGE RANGY RANKS RANTS RAPED RAPES RAPID RARED RARER RARES RASPS RASPY RATED RATES RATIO RATTY RAVED RAVEL RAVEN RAVES RAWER RAYON RAZED RAZES RAZOR REACH REACT READS READY REALM REALS REAMS REAPS REARM REARS REBEL REBUS REBUT RECAP RECUR REDID REEDS REEDY REEFS REEKS REELS REEVE REFER REFIT REGAL REHAB REIGN REINS RELAX RELAY RELIC REMIT RENAL RENDS RENEW RENTS REORG REPAY REPEL REPLY RERAN RERUN RESET RESIN RESTS RETCH RETRY REUSE REVEL REVUE RHEAS RHEUM RHINO RHYME RICED RICES RICKS RIDER RIDES RIDGE RIFER RIFFS RIFLE RIFTS RIGHT RIGID RIGOR RILED RILES RILLS RIMED RIMES RINDS RINGS RINKS RINSE RIOTS RIPEN RIPER RISEN RISER RISES RISKS RISKY RITES RITZY RIVAL RIVEN RIVER RIVET ROACH ROADS ROAMS ROANS ROARS ROAST ROBED ROBES ROBIN ROBOT ROCKS ROCKY RODEO ROGER ROGUE ROILS ROLES ROLLS ROMAN ROMPS ROODS ROOFS ROOKS ROOMS ROOMY ROOST ROOTS ROPED ROPES ROSES ROSIN ROTOR ROUGE ROUGH ROUND ROUSE ROUTE ROUTS ROVED ROVER ROVES ROWDY ROWED ROWEL ROWER ROYAL RUBES RUBLE RUDDY RUDER RUFFS RUGBY RUING RUINS RULED RULER RULES RUMBA RUMMY RUMOR RUMPS RUNES RUNGS RUNNY RUNTS RUPEE RURAL RUSES RUSKS RUSTS RUSTY',
+    S: 'SABER SABLE SACKS SADES SADLY SAFER SAFES SAGAS SAGER SAGES SAHIB SAILS SAINT SAITH SALAD SALES SALLY SALON SALSA SALTS SALTY SALVE SALVO SAMBA SAMES SANDS SANDY SANER SANGS SAPPY SARIS SASSY SATAY SATED SATES SATIN SATYR SAUCE SAUCY SAUNA SAVED SAVER SAVES SAVOR SAVVY SAWED SAXES SCABS SCADS SCALD SCALE SCALP SCALY SCAMP SCAMS SCANS SCANT SCARE SCARF SCARS SCARY SCATS SCENE SCENT SCHWA SCION SCOFF SCOLD SCONE SCOOP SCOOT SCOPE SCORE SCORN SCOUR SCOUT SCOWL SCOWS SCRAM SCRAP SCREW SCRIP SCROD SCRUB SCUBA SCUDS SCUFF SCULL SCUMS SCURF SEALS SEAMS SEAMY SEARS SEATS SECTS SEDAN SEDGE SEEDS SEEDY SEEKS SEEMS SEEPS SEERS SEGUE SEIZE SELLS SEMEN SEMIS SENDS SENNA SENSE SEPAL SEPIA SEPTA SERER SERFS SERGE SERUM SERVE SERVO SETUP SEVEN SEVER SEWED SEWER SEXED SEXES SHACK SHADE SHADS SHADY SHAFT SHAGS SHAHS SHAKE SHAKY SHALE SHALL SHALT SHAME SHAMS SHANK SHAPE SHARD SHARE SHARK SHARP SHAVE SHAWL SHEAF SHEAR SHEDS SHEEN SHEEP SHEER SHEET SHELF SHELL SHIED SHIES SHIFT SHILL SHIMS SHINE SHINS SHINY SHIPS SHIRE SHIRK SHIRR SHIRT SHITS SHOAL SHOCK SHOES SHONE SHOOK SHOOS SHOOT SHOPS SHORE SHORT SHOTS SHOUT SHOVE SHOWN SHOWS SHOWY SHRED SHREW SHRUB SHRUG SHUCK SHUNS SHUNT SHUSH SHUTS SHYER SHYLY SIBYL SICKS SIDED SIDES SIDLE SIEGE SIEVE SIFTS SIGHS SIGHT SIGMA SIGNS SILKS SILKY SILLS SILLY SILOS SILTS SINCE SINEW SINGE SINGS SINKS SINUS SIRED SIREN SIRES SISAL SISES SISSY SITAR SITED SITES SIXES SIXTH SIXTY SIZED SIZER SIZES SKATE SKEET SKEIN SKEWS SKIDS SKIED SKIER SKIES SKIFF SKILL SKIMP SKIMS SKINS SKIPS SKIRT SKITS SKULK SKULL SKUNK SLABS SLACK SLAGS SLAIN SLAKE SLAMS SLANG SLANT SLAPS SLASH SLATE SLATS SLAVE SLAYS SLEDS SLEEK SLEEP SLEET SLEPT SLEWS SLICE SLICK SLIDE SLIER SLIME SLIMS SLIMY SLING SLINK SLIPS SLITS SLOBS SLOES SLOGS SLOOP SLOPE SLOPS SLOSH SLOTH SLOTS SLOWS SLUED SLUES SLUGS SLUMP SLUMS SLUNG SLUNK SLURP SLURS SLUSH SLUTS SLYLY SMACK SMALL SMART SMASH SMEAR SMELL SMELT SMILE SMIRK SMITE SMITH SMOCK SMOKE SMOKY SMOTE SMUTS SNACK SNAFU SNAGS SNAIL SNAKE SNAKY SNAPS SNARE SNARL SNEAK SNEER SNIDE SNIFF SNIPE SNIPS SNITS SNOBS SNOOP SNOOT SNORE SNORT SNOTS SNOUT SNOWS SNOWY SNUBS SNUFF SNUGS SOAKS SOAPS SOAPY SOARS SOBER SOCKS SODAS SOFAS SOFTY SOGGY SOILS SOLAR SOLED SOLES SOLID SOLOS SOLVE SONAR SONGS SONIC SONNY SOOTH SOOTY SOPPY SORER SORES SORRY SORTA SORTS SOUGH SOULS SOUND SOUPS SOUPY SOURS SOUSE SOUTH SOWED SOWER SPACE SPADE SPAKE SPAMS SPANK SPANS SPARE SPARK SPARS SPASM SPATE SPATS SPAWN SPAYS SPEAK SPEAR SPECK SPECS SPEED SPELL SPEND SPENT SPERM SPEWS SPICE SPICY SPIED SPIEL SPIES SPIKE SPIKY SPILL SPINE SPINS SPINY SPIRE SPITE SPITS SPLAT SPLAY SPLIT SPOIL SPOKE SPOOF SPOOK SPOOL SPOON SPOOR SPORE SPORT SPOTS SPOUT SPRAT SPRAY SPREE SPRIG SPUDS SPUME SPUNK SPURN SPURS SPURT SQUAB SQUAD SQUAT SQUAW SQUID STABS STACK STAFF STAGE STAGS STAID STAIN STAIR STAKE STALE STALK STALL STAMP STAND STANK STAPH STARE STARK STARS START STASH STATE STATS STAVE STAYS STEAD STEAK STEAL STEAM STEED STEEL STEEP STEER STEIN STEMS STENT STEPS STERN STEWS STICK STIES STIFF STILE STILL STILT STING STINK STINT STIRS STOAT STOCK STOIC STOKE STOLE STOMP STONE STONY STOOD STOOL STOOP STOPS STORE STORK STORM STORY STOUT STOVE STOWS STRAP STRAW STRAY STREP STREW STRIP STROP STRUM STRUT STUBS STUCK STUDS STUDY STUFF STUMP STUNG STUNK STUNS STUNT STYLE STYLI SUAVE SUCKS SUDSY SUEDE SUGAR SUING SUITE SUITS SULKS SULKY SULLY SUMAC SUMPS SUNNY SUNUP SUPER SURER SURFS SURGE SURLY SUSHI SWABS SWAGS SWAIN SWAMI SWAMP SWANK SWANS SWAPS SWARD SWARM SWASH SWATH SWATS SWAYS SWEAR SWEAT SWEEP SWEET SWELL SWEPT SWIFT SWIGS SWILL SWIMS SWINE SWING SWIPE SWIRL SWISH SWOON SWOOP SWORD SWORE SWORN SWUNG SYLPH SYNCS SYNOD SYRUP',
+    T: 'TABBY TABLE TABOO TACIT TACKS TACKY TACOS TAFFY TAILS TAINT TAKEN TAKER TAKES TALES TALKS TALLY TALON TAMED TAMER TAMES TAMPS TANGO TANGS TANGY TANKS TANSY TAPED TAPER TAPES TAPIR TARDY TARED TARES TAROS TAROT TARPS TARRY TARTS TASER TASKS TASTE TASTY TATTY TAUNT TAUPE TAWNY TAXED TAXES TAXIS TEACH TEAKS TEALS TEAMS TEARS TEARY TEASE TEATS TECHS TEEMS TEENS TEENY TEETH TELEX TELLS TEMPO TEMPS TEMPT TENDS TENET TENON TENOR TENSE TENTH TENTS TEPEE TEPID TERMS TERNS TERRY TERSE TESTS TESTY TEXTS THANK THAWS THEES THEFT THEIR THEME THERE THESE THETA THICK THIEF THIGH THINE THING THINK THINS THIRD THONG THORN THOSE THOUS THREE THREW THROB THROE THROW THRUM THUDS THUGS THUMB THUMP THYME TIARA TIBIA TICKS TIDAL TIDED TIDES TIERS TIFFS TIGER TIGHT TILDE TILED TILES TILLS TILTS TIMED TIMER TIMES TIMID TINES TINGE TINGS TINNY TINTS TIPSY TIRED TIRES TITAN TITHE TITLE TIZZY TOADS TOADY TOAST TODAY TODDY TOGAS TOILS TOKED TOKEN TOKES TOLLS TOMBS TOMES TONAL TONED TONER TONES TONGS TONIC TONNE TOOLS TOOTH TOOTS TOPAZ TOPIC TOQUE TORCH TORSO TORTE TORTS TORUS TOTAL TOTED TOTEM TOTES TOUCH TOUGH TOURS TOUTS TOWED TOWEL TOWER TOWNS TOXIC TOXIN TOYED TRACE TRACK TRACT TRADE TRAIL TRAIN TRAIT TRAMP TRAMS TRAPS TRASH TRAWL TRAYS TREAD TREAT TREED TREES TREKS TREND TRESS TRIAD TRIAL TRIBE TRICE TRICK TRIED TRIES TRIKE TRILL TRIMS TRIOS TRIPE TRIPS TRITE TROLL TROMP TROOP TROPE TROTH TROTS TROUT TROYS TRUCE TRUCK TRUED TRUER TRUES TRULY TRUMP TRUNK TRUSS TRUST TRUTH TRYST TUBAS TUBBY TUBED TUBER TUBES TUCKS TUFTS TULIP TULLE TUMID TUMMY TUMOR TUNAS TUNED TUNER TUNES TUNIC TUNNY TURDS TURFS TURNS TUSKS TUTOR TUTUS TUXES TWAIN TWANG TWEAK TWEED TWEET TWERK TWERP TWICE TWIGS TWILL TWINE TWINS TWIRL TWIST TWITS TYING TYKES TYPED TYPES TYPOS TYROS',
+    U: 'UDDER ULCER ULNAE ULTRA UMBEL UMBER UMIAK UMPED UNBAR UNCLE UNCUT UNDER UNDID UNDUE UNFIT UNIFY UNION UNITE UNITS UNITY UNMAN UNPIN UNSAY UNSET UNTIE UNTIL UNWED UNZIP UPEND UPPED UPPER UPSET URBAN URGED URGES URINE USAGE USERS USHER USING USUAL USURP USURY UTERI UTTER UVULA',
+    V: 'VAGUE VALES VALET VALID VALOR VALUE VALVE VAMPS VANES VAPED VAPES VAPID VAPOR VASES VASTS VAULT VAUNT VEEPS VEERS VEGAN VEILS VEINS VELDS VENAL VENDS VENOM VENTS VENUE VERBS VERGE VERSE VERVE VESTS VETCH VEXED VEXES VIALS VIAND VIBES VICAR VICED VICES VIDEO VIEWS VIGIL VIGOR VILER VILLA VINES VINYL VIOLA VIOLS VIPER VIRAL VIREO VIRUS VISAS VISED VISES VISIT VISOR VISTA VITAL VIVAS VIVID VIXEN VOCAL VODKA VOGUE VOICE VOIDS VOILE VOLES VOLTS VOMIT VOTED VOTER VOTES VOUCH VOWED VOWEL VULVA VYING',
+    W: 'WACKO WACKS WACKY WADED WADER WADES WADIS WAFER WAFTS WAGED WAGER WAGES WAGON WAIFS WAILS WAIST WAITS WAIVE WAKED WAKEN WAKES WALED WALES WALKS WALLS WALTZ WANDS WANED WANES WANLY WANNA WANTS WARDS WARES WARMS WARNS WARPS WARTS WARTY WASPS WASTE WATCH WATER WATTS WAVED WAVER WAVES WAXED WAXEN WAXES WEALS WEANS WEARS WEARY WEAVE WEDGE WEEDS WEEDY WEEKS WEEPS WEEPY WEEST WEFTS WEIGH WEIRD WEIRS WELDS WELLS WELSH WELTS WENCH WENDS WETLY WHACK WHALE WHAMS WHARF WHATS WHEAL WHEAT WHEEL WHELK WHELP WHENS WHERE WHETS WHICH WHIFF WHILE WHIMS WHINE WHINY WHIPS WHIRL WHIRS WHISK WHIST WHITE WHITS WHOLE WHOOP WHORE WHORL WHOSE WICKS WIDEN WIDER WIDOW WIDTH WIELD WIGHT WIKIS WILDS WILED WILES WILLS WILTS WIMPS WIMPY WINCE WINCH WINDS WINDY WINED WINES WINGS WINKS WINOS WIPED WIPER WIPES WIRED WIRES WISER WISES WISPS WISPY WITCH WITTY WIVES WOKEN WOLFS WOMAN WOMBS WOMEN WOODS WOODY WOOED WOOER WOOFS WOOZY WORDS WORDY WORKS WORLD WORMS WORMY WORRY WORSE WORST WORTH WOULD WOUND WOVEN WOWED WRACK WRAPS WRATH WREAK WRECK WRENS WREST WRING WRIST WRITE WRITS WRONG WROTE WROTH WRUNG WRYER WRYLY',
+    X: 'XENON XYLEM',
+    Y: 'YACHT YAHOO YANKS YARDS YARNS YAWED YAWLS YAWNS YEAHS YEARN YEARS YEAST YELLS YELPS YESES YIELD YODEL YOGIS YOKED YOKEL YOKES YOLKS YOUNG YOURS YOUTH YOWLS YUCCA YUCKY YUMMY',
+    Z: 'ZEBRA ZEBUS ZEROS ZESTS ZILCH ZINCS ZINGS ZIPPY ZONAL ZONED ZONES ZOOMS'
+  },
+  6: {
+    A: 'ABACUS ABASED ABASES ABATED ABATES ABBESS ABBEYS ABBOTS ABDUCT ABHORS ABIDES ABJECT ABJURE ABLAZE ABLEST ABLOOM ABOARD ABODES ABORTS ABOUND ABRADE ABROAD ABRUPT ABSENT ABSORB ABSURD ABUSED ABUSER ABUSES ACACIA ACCEDE ACCENT ACCEPT ACCESS ACCORD ACCOST ACCRUE ACCUSE ACETIC ACHIER ACHING ACIDIC ACIDLY ACORNS ACQUIT ACROSS ACTING ACTION ACTIVE ACTORS ACTUAL ACUITY ACUMEN ACUTER ACUTES ADAGES ADAGIO ADAPTS ADDEND ADDERS ADDICT ADDING ADDLED ADDLES ADDUCE ADEPTS ADHERE ADIEUS ADJOIN ADJURE ADJUST ADMIRE ADMITS ADOBES ADOPTS ADORED ADORES ADORNS ADRIFT ADROIT ADULTS ADVENT ADVERB ADVERT ADVICE ADVISE ADWARE AERATE AERIAL AERIES AFFAIR AFFECT AFFIRM AFFORD AFFRAY AFGHAN AFIELD AFLAME AFLOAT AFRAID AFRESH AGATES AGEISM AGENCY AGENDA AGENTS AGHAST AGINGS AGLEAM AGREED AGREES AIDING AILING AIMING AIRIER AIRILY AIRING AIRMAN AIRMEN AIRWAY AISLES AKIMBO ALARMS ALBEIT ALBINO ALBUMS ALCOVE ALDERS ALERTS ALIBIS ALIENS ALIGHT ALIGNS ALKALI ALLAYS ALLEGE ALLEYS ALLIED ALLIES ALLOTS ALLOWS ALLOYS ALLUDE ALLURE ALMOND ALMOST ALOHAS ALPACA ALPHAS ALPINE ALTARS ALTERS ALUMNA ALUMNI ALWAYS AMAZED AMAZES AMAZON AMBLED AMBLES AMBUSH AMENDS AMIGOS AMOEBA AMORAL AMOUNT AMOURS AMPERE AMPLER AMPULE AMULET AMUSED AMUSES ANALOG ANCHOR ANEMIA ANEMIC ANGELS ANGERS ANGINA ANGLED ANGLER ANGLES ANGORA ANIMAL ANIMUS ANIONS ANKLES ANKLET ANNALS ANNEAL ANNOYS ANNUAL ANNULS ANODES ANOINT ANORAK ANSWER ANTHEM ANTHER ANTICS ANTLER ANUSES ANVILS ANYHOW ANYONE ANYWAY AORTAS APATHY APEXES APHIDS APIARY APIECE APLOMB APOGEE APPALL APPEAL APPEAR APPEND APPLES APRONS APTEST ARABLE ARBORS ARCADE ARCANE ARCHED ARCHER ARCHES ARCHLY ARCING ARCTIC ARDENT ARDORS ARENAS ARGOSY ARGOTS ARGUED ARGUES ARGYLE ARIGHT ARISEN ARISES ARMADA ARMFUL ARMIES ARMING ARMLET ARMORS ARMORY ARMPIT AROMAS AROUND AROUSE ARRANT ARRAYS ARREST ARRIVE ARROWS ARROYO ARTERY ARTFUL ARTIER ARTIST ASCEND ASCENT ASCOTS ASHCAN ASHIER ASHING ASHORE ASHRAM ASIDES ASKING ASLANT ASLEEP ASPECT ASPENS ASPICS ASPIRE ASSAIL ASSAYS ASSENT ASSERT ASSESS ASSETS ASSIGN ASSIST ASSIZE ASSORT ASSUME ASSURE ASTERN ASTERS ASTHMA ASTRAL ASTRAY ASTUTE ASYLUM ATOLLS ATOMIC ATONAL ATONED ATONES ATRIUM ATTACH ATTACK ATTAIN ATTEND ATTEST ATTICS ATTIRE ATTUNE AUBURN AUDIOS AUDITS AUGERS AUGHTS AUGURS AUGURY AUGUST AUTHOR AUTISM AUTUMN AVAILS AVATAR AVENGE AVENUE AVERSE AVERTS AVIARY AVIDLY AVOIDS AVOWAL AVOWED AWAITS AWAKEN AWAKES AWARDS AWEIGH AWHILE AWNING AWOKEN AXIOMS AZALEA AZURES',
+    B: 'BAAING BABBLE BABELS BABIED BABIER BABIES BABOON BACKED BACKER BACKUP BADDER BADGER BADGES BAFFLE BAGELS BAGGED BAILED BAITED BAKERS BAKERY BAKING BALDED BALDER BALDLY BALEEN BALING BALKED BALLAD BALLED BALLET BALLOT BALLSY BALSAM BALSAS BAMBOO BANANA BANDED BANDIT BANGED BANGLE BANISH BANJOS BANKED BANKER BANNED BANNER BANTAM BANTER BANYAN BAOBAB BARBED BARBER BARELY BAREST BARFED BARGED BARGES BARING BARIUM BARKED BARKER BARLEY BARMAN BARONS BARRED BARREL BARREN BARRIO BARROW BARTER BASALT BASELY BASEST BASHED BASHES BASICS BASING BASINS BASKED BASKET BASSES BASSOS BASTED BASTES BATHED BATHER BATHES BATHOS BATIKS BATING BATONS BATTED BATTEN BATTER BATTLE BAUBLE BAWLED BAYING BAYOUS BAZAAR BEACON BEADED BEAGLE BEAKED BEAKER BEAMED BEANED BEARDS BEARER BEASTS BEATEN BEATER BEAUTY BEAVER BEBOPS BECALM BECAME BECKON BECOME BEDBUG BEDDED BEDDER BEDECK BEDLAM BEDPAN BEEFED BEEPED BEEPER BEETLE BEEVES BEFALL BEFELL BEFITS BEFOGS BEFORE BEFOUL BEGETS BEGGAR BEGGED BEGINS BEGONE BEHALF BEHAVE BEHEAD BEHELD BEHEST BEHIND BEHOLD BEINGS BELAYS BELFRY BELIED BELIEF BELIES BELLED BELLES BELLOW BELONG BELTED BEMOAN BEMUSE BENDER BENIGN BENUMB BERATE BEREFT BERETS BERTHS BERYLS BESETS BESIDE BESOMS BESOTS BESTED BESTIR BESTOW BETAKE BETCHA BETIDE BETOOK BETRAY BETTER BETTOR BEVELS BEVIES BEWAIL BEWARE BEYOND BIASED BIASES BIBLES BICEPS BICKER BIDDEN BIDDER BIDETS BIDING BIGAMY BIGGER BIGGIE BIGHTS BIGOTS BIGWIG BIKERS BIKING BIKINI BILGES BILKED BILLED BILLET BILLOW BIMBOS BINARY BINDER BINGED BINGES BINNED BIONIC BIOPSY BIPEDS BIRDED BIRDIE BIRTHS BISECT BISHOP BISQUE BISTRO BITCHY BITING BITMAP BITTEN BITTER BLACKS BLADES BLAMED BLAMER BLAMES BLANCH BLANKS BLARED BLARES BLASTS BLAZED BLAZER BLAZES BLAZON BLEACH BLEARY BLEATS BLEEDS BLEEPS BLENCH BLENDS BLIGHT BLIMPS BLINDS BLINKS BLINTZ BLITHE BLOATS BLOCKS BLONDE BLONDS BLOODS BLOODY BLOOMS BLOTCH BLOUSE BLOWER BLOWUP BLOWZY BLUEST BLUFFS BLUING BLUISH BLUNTS BLURBS BLURRY BLURTS BOARDS BOASTS BOATED BOATER BOBBED BOBBIN BOBBLE BOBCAT BODEGA BODICE BODIES BODILY BODING BODKIN BOGEYS BOGGED BOGGLE BOGIES BOILED BOILER BOLDER BOLDLY BOLERO BOLTED BOMBED BOMBER BONBON BONDED BONERS BONGED BONGOS BONIER BONING BONITO BONNET BONSAI BOOBED BOODLE BOOGIE BOOING BOOKED BOOKIE BOOMED BOOSTS BOOTED BOOTEE BOOTHS BOOZED BOOZER BOOZES BOPPED BORDER BORERS BORING BORROW BOSOMS BOSSED BOSSES BOTANY BOTHER BOTNET BOTTLE BOTTOM BOUGHS BOUGHT BOUNCE BOUNCY BOUNDS BOUNTY BOVINE BOWELS BOWERS BOWING BOWLED BOWLER BOWMAN BOWMEN BOXCAR BOXERS BOXING BOYISH BRACED BRACES BRACTS BRAIDS BRAINS BRAINY BRAISE BRAKED BRAKES BRANCH BRANDS BRANDY BRASSY BRATTY BRAVED BRAVER BRAVES BRAVOS BRAWLS BRAWNY BRAYED BRAZEN BREACH BREADS BREAKS BREAST BREATH BREECH BREEDS BREEZE BREEZY BREWED BREWER BRIBED BRIBES BRICKS BRIDAL BRIDES BRIDGE BRIDLE BRIEFS BRIERS BRIGHT BRINGS BRINKS BRISKS BROACH BROADS BROGAN BROGUE BROILS BROKEN BROKER BRONCO BRONZE BROOCH BROODS BROOKS BROOMS BROTHS BROWNS BROWSE BRUINS BRUISE BRUNCH BRUNET BRUTAL BRUTES BUBBLE BUBBLY BUCKED BUCKET BUCKLE BUDDED BUDGED BUDGES BUDGET BUDGIE BUFFED BUFFER BUFFET BUGGED BUGGER BUGLED BUGLER BUGLES BUILDS BULGED BULGES BULKED BULLED BULLET BUMBLE BUMMED BUMMER BUMPED BUMPER BUNDLE BUNGED BUNGLE BUNION BUNKED BUNKER BUNKUM BUNTED BUOYED BURBLE BURDEN BUREAU BURGER BURGLE BURIAL BURIED BURIES BURKAS BURLAP BURNED BURNER BURPED BURRED BURROS BURROW BURSAR BURSTS BUSBOY BUSHED BUSHEL BUSHES BUSIED BUSIER BUSIES BUSILY BUSING BUSTED BUSTER BUSTLE BUTANE BUTLER BUTTED BUTTER BUTTES BUTTON BUYERS BUYING BUYOUT BUZZED BUZZER BUZZES BYGONE BYLAWS BYLINE BYPASS BYPLAY BYWAYS BYWORD',
+    C: 'CABALS CABANA CABBED CABINS CABLED CABLES CACAOS CACHED CACHES CACHET CACKLE CACTUS CADDIE CADETS CADGED CADGER CADGES CADRES CAFTAN CAGIER CAGILY CAGING CAHOOT CAIRNS CAJOLE CAKING CALICO CALIPH CALKED CALLED CALLER CALLOW CALLUS CALMED CALMER CALMLY CALVED CALVES CAMBER CAMELS CAMEOS CAMERA CAMPED CAMPER CAMPUS CANALS CANARD CANARY CANCAN CANCEL CANCER CANDID CANDLE CANDOR CANINE CANING CANKER CANNED CANNON CANNOT CANOED CANOES CANONS CANOPY CANTED CANTER CANTON CANTOR CANTOS CANVAS CANYON CAPERS CAPLET CAPONS CAPPED CAPTOR CARAFE CARATS CARBON CARBOY CARDED CARDIO CAREEN CAREER CARESS CARETS CARIES CARING CARNAL CAROLS CAROMS CARPAL CARPED CARPEL CARPET CARPUS CARREL CARROT CARTED CARTEL CARTON CARVED CARVER CARVES CASEIN CASHED CASHES CASHEW CASING CASINO CASKET CASSIA CASTER CASTES CASTLE CASTOR CASUAL CATCHY CATERS CATGUT CATION CATKIN CATNAP CATNIP CATTLE CAUCUS CAUDAL CAUGHT CAULKS CAUSAL CAUSED CAUSES CAVEAT CAVERN CAVIAR CAVILS CAVING CAVITY CAVORT CAWING CEASED CEASES CEDARS CEDING CELERY CELLAR CELLOS CEMENT CENSER CENSOR CENSUS CENTER CEREAL CERISE CERVIX CESIUM CHAFED CHAFES CHAFFS CHAINS CHAIRS CHAISE CHALET CHALKS CHALKY CHAMPS CHANCE CHANCY CHANGE CHANTS CHAPEL CHARGE CHARMS CHARTS CHASED CHASER CHASES CHASMS CHASTE CHATTY CHEATS CHECKS CHEEKS CHEEKY CHEEPS CHEERS CHEERY CHEESE CHEESY CHERRY CHERUB CHESTS CHEWED CHEWER CHICER CHICHI CHICKS CHICLE CHIDED CHIDES CHIEFS CHILLS CHILLY CHIMED CHIMES CHIMPS CHINKS CHINOS CHINTZ CHIRPS CHISEL CHITIN CHIVES CHOCKS CHOICE CHOIRS CHOKED CHOKER CHOKES CHOLER CHOMPS CHOOSE CHOOSY CHOPPY CHORAL CHORDS CHORES CHORUS CHOSEN CHOWED CHROME CHUBBY CHUCKS CHUMMY CHUMPS CHUNKS CHUNKY CHURCH CHURLS CHURNS CHUTES CICADA CIDERS CIGARS CILIUM CINDER CINEMA CIPHER CIRCLE CIRCUS CIRRUS CITIES CITING CITRIC CITRON CITRUS CIVETS CIVICS CLACKS CLAIMS CLAMMY CLAMOR CLAMPS CLANGS CLANKS CLARET CLASPS CLASSY CLAUSE CLAWED CLAYEY CLEANS CLEARS CLEATS CLEAVE CLEFTS CLENCH CLERGY CLERIC CLERKS CLEVER CLEWED CLICKS CLIENT CLIFFS CLIMAX CLIMBS CLIMES CLINCH CLINGS CLINGY CLINIC CLINKS CLIQUE CLOAKS CLOCHE CLOCKS CLOMPS CLONED CLONES CLOSED CLOSER CLOSES CLOSET CLOTHE CLOTHS CLOUDS CLOUDY CLOUTS CLOVEN CLOVER CLOVES CLOWNS CLOYED CLUCKS CLUING CLUMPS CLUMSY CLUNKS CLUNKY CLUTCH COALED COARSE COASTS COATED COAXED COAXES COBALT COBBLE COBRAS COBWEB COCCIS COCCUS COCCYX COCKED COCKLE COCOAS COCOON CODDED CODDLE CODGER CODIFY CODING COERCE COEVAL COFFEE COFFER COFFIN COGENT COGNAC COHERE COHORT COILED COINED COITAL COITUS COKING COLDER COLDLY COLLAR COLLIE COLONS COLONY COLORS COLUMN COMBAT COMBED COMBOS COMEDY COMELY COMERS COMETS COMICS COMING COMITY COMMAS COMMIT COMMON COMPEL COMPLY CONCHS CONCUR CONDOM CONDOR CONDOS CONFAB CONFER CONGAS CONICS CONKED CONNED CONSUL CONVEX CONVEY CONVOY COOING COOKED COOKER COOKIE COOLED COOLER COOLIE COOLLY COOPED COOPER COOTIE COPIED COPIER COPIES COPING COPPED COPPER COPSES COPTER COPULA CORALS CORDED CORDON CORING CORKED CORNEA CORNED CORNER CORNET CORONA CORPSE CORPUS CORRAL CORSET CORTEX COSIGN COSINE COSMIC COSMOS COSTAR COSTED COSTLY COTTER COTTON COUGAR COUGHS COUNTS COUNTY COUPES COUPLE COUPON COURSE COURTS COUSIN COVENS COVERS COVERT COVETS COVEYS COWARD COWBOY COWERS COWING COWPOX COYEST COYOTE COZENS COZIER COZIES COZILY CRABBY CRACKS CRADLE CRAFTS CRAFTY CRAGGY CRAMPS CRANED CRANES CRANKS CRANKY CRANNY CRAPES CRAPPY CRATED CRATER CRATES CRAVAT CRAVED CRAVEN CRAVES CRAWLS CRAYON CRAZED CRAZES CREAKS CREAKY CREAMS CREAMY CREASE CREATE CREDIT CREDOS CREEDS CREEKS CREELS CREEPS CREEPY CREOLE CREPES CRESTS CRETIN CREWED CRICKS CRIERS CRIMES CRIMPS CRINGE CRISES CRISIS CRISPS CRISPY CRITIC CROAKS CROCKS CROCUS CROFTS CRONES CROOKS CROONS CROTCH CROUCH CROUPY CROWDS CROWED CROWNS CRUDDY CRUDER CRUETS CRUISE CRUMBS CRUMBY CRUMMY CRUNCH CRUSTS CRUSTY CRUTCH CRUXES CRYING CRYPTS CUBING CUBISM CUBIST CUBITS CUCKOO CUDDLE CUDDLY CUDGEL CUFFED CULLED CUMULI CUPFUL CUPIDS CUPOLA CUPPED CURACY CURATE CURBED CURDLE CURFEW CURIES CURING CURIOS CURLED CURLER CURLEW CURSED CURSES CURSOR CURTER CURTLY CURTSY CURVED CURVES CUSPID CUSSED CUSSES CUSTOM CUTELY CUTEST CUTESY CUTLET CUTOFF CUTOUT CUTTER CUTUPS CYCLED CYCLES CYCLIC CYGNET CYMBAL CYNICS CYSTIC',
+    D: 'DABBED DABBLE DACHAS DACTYL DADOES DAEMON DAFTER DAGGER DAHLIA DAINTY DAISES DAMAGE DAMASK DAMMED DAMNED DAMPED DAMPEN DAMPER DAMPLY DAMSEL DAMSON DANCED DANCER DANCES DANDER DANDLE DANGER DANGLE DANKER DANKLY DAPPER DAPPLE DARING DARKEN DARKER DARKLY DARNED DARTED DASHED DASHES DATING DATIVE DAUBED DAUBER DAUNTS DAVITS DAWDLE DAWNED DAYBED DAZING DAZZLE DEACON DEADEN DEADER DEADLY DEAFEN DEAFER DEALER DEARER DEARLY DEARTH DEATHS DEAVES DEBARK DEBARS DEBASE DEBATE DEBITS DEBRIS DEBTOR DEBUGS DEBUNK DEBUTS DECADE DECALS DECAMP DECANT DECAYS DECEIT DECENT DECIDE DECKED DECODE DECORS DECOYS DECREE DEDUCE DEDUCT DEEDED DEEJAY DEEMED DEEPEN DEEPER DEEPLY DEFACE DEFAME DEFEAT DEFECT DEFEND DEFERS DEFIED DEFIES DEFILE DEFINE DEFORM DEFRAY DEFTER DEFTLY DEFUSE DEGREE DEICED DEICER DEICES DEIGNS DEJECT DELAYS DELETE DELTAS DELUDE DELUGE DELUXE DELVED DELVES DEMAND DEMEAN DEMISE DEMOED DEMONS DEMOTE DEMURE DEMURS DENIAL DENIED DENIER DENIES DENIMS DENOTE DENSER DENTAL DENTED DENTIN DENUDE DEPART DEPEND DEPICT DEPLOY DEPORT DEPOSE DEPOTS DEPTHS DEPUTE DEPUTY DERAIL DERIDE DERIVE DERMIS DESCRY DESERT DESIGN DESIRE DESIST DESPOT DETACH DETAIL DETAIN DETECT DETERS DETEST DETOUR DEUCES DEVICE DEVILS DEVISE DEVOID DEVOTE DEVOUR DEVOUT DEWIER DEWLAP DHARMA DHOTIS DIADEM DIALED DIALOG DIAPER DIATOM DIBBLE DICIER DICING DICKER DICKEY DICTUM DIDDLE DIESEL DIETED DIETER DIFFER DIGEST DIGGER DIGITS DIKING DILATE DILUTE DIMMED DIMMER DIMPLE DIMWIT DINERS DINGED DINGHY DINING DINNED DINNER DIODES DIOXIN DIPOLE DIPPED DIPPER DIRECT DIREST DIRGES DISARM DISBAR DISCOS DISCUS DISHED DISHES DISMAL DISMAY DISOWN DISPEL DISSED DISUSE DITHER DITTOS DIVANS DIVERS DIVERT DIVEST DIVIDE DIVINE DIVING DIVOTS DOABLE DOCENT DOCILE DOCKED DOCKET DOCTOR DODDER DODGED DODGER DODGES DOFFED DOGGED DOGIES DOGMAS DOINGS DOLING DOLLAR DOLLED DOLLOP DOLMEN DOMAIN DOMING DOMINO DONATE DONKEY DONNED DONORS DOODAD DOODLE DOOMED DOPIER DOPING DORIES DORMER DORSAL DOSAGE DOSING DOTAGE DOTCOM DOTING DOTTED DOUBLE DOUBLY DOUBTS DOUCHE DOUGHY DOURER DOURLY DOUSED DOUSES DOWELS DOWNED DOWNER DOWSED DOWSES DOYENS DOZENS DOZING DRABLY DRAFTS DRAFTY DRAGON DRAINS DRAKES DRAMAS DRAPED DRAPES DRAWER DRAWLS DREADS DREAMS DREAMY DREARY DREDGE DRENCH DRESSY DRIERS DRIEST DRIFTS DRILLS DRINKS DRIVEL DRIVEN DRIVER DRIVES DROLLY DRONED DRONES DROOLS DROOPS DROOPY DROPSY DROVER DROVES DROWNS DROWSE DROWSY DRUDGE DRUIDS DRUNKS DRYADS DRYERS DRYING DUBBED DUCATS DUCKED DUDING DUELED DUFFER DUGOUT DULCET DULLED DULLER DUMBER DUMBLY DUMPED DUNCES DUNGED DUNKED DUNNED DUNNER DUPING DUPLEX DURESS DURING DUSTED DUSTER DUTIES DWARFS DWEEBS DWELLS DYADIC DYEING DYNAMO',
+    E: 'EAGLES EAGLET EARBUD EARFUL EARNED EARNER EARTHS EARTHY EARWAX EARWIG EASELS EASIER EASILY EASING EATERS EATERY EATING EBBING ECHOED ECHOES ECZEMA EDDIED EDDIES EDGIER EDGING EDIBLE EDICTS EDITED EDITOR EERIER EERILY EFFACE EFFECT EFFETE EFFIGY EFFORT EGGING EGGNOG EGOISM EGOIST EGRESS EGRETS EIDERS EIGHTH EIGHTS EIGHTY EITHER EJECTS ELAPSE ELATED ELATES ELBOWS ELDERS ELDEST ELECTS ELEVEN ELFISH ELICIT ELIDED ELIDES ELITES ELIXIR ELOPED ELOPES ELUDED ELUDES EMAILS EMBALM EMBARK EMBEDS EMBERS EMBLEM EMBODY EMBOSS EMBRYO EMCEED EMCEES EMENDS EMERGE EMETIC EMOJIS EMOTED EMOTES EMPIRE EMPLOY ENABLE ENACTS ENAMEL ENAMOR ENCAMP ENCASE ENCODE ENCORE ENDEAR ENDING ENDIVE ENDOWS ENDUED ENDUES ENDURE ENEMAS ENERGY ENFOLD ENGAGE ENGINE ENGULF ENIGMA ENJOIN ENJOYS ENLIST ENMESH ENMITY ENOUGH ENRAGE ENRICH ENROLL ENSIGN ENSUED ENSUES ENSURE ENTAIL ENTERS ENTICE ENTIRE ENTITY ENTOMB ENTRAP ENVIED ENVIES ENVOYS ENZYME EPOCHS EQUALS EQUATE EQUINE EQUIPS EQUITY ERASED ERASER ERASES ERECTS ERMINE ERODED ERODES EROTIC ERRAND ERRANT ERRATA ERRING ERRORS ERSATZ ERUPTS ESCAPE ESCHEW ESCORT ESCROW ESPIED ESPIES ESSAYS ESTATE ESTEEM ESTERS ETCHED ETCHER ETCHES ETHICS ETHNIC EULOGY EUNUCH EUREKA EVADED EVADES EVENED EVENER EVENLY EVENTS EVICTS EVILER EVILLY EVINCE EVOKED EVOKES EVOLVE EXACTS EXALTS EXCEED EXCELS EXCEPT EXCESS EXCISE EXCITE EXCUSE EXEMPT EXERTS EXHALE EXHORT EXHUME EXILED EXILES EXISTS EXITED EXODUS EXOTIC EXPAND EXPECT EXPELS EXPEND EXPERT EXPIRE EXPIRY EXPORT EXPOSE EXTANT EXTEND EXTENT EXTOLS EXTORT EXTRAS EXUDED EXUDES EXULTS EYEFUL EYEING EYELET EYELID',
+    F: 'FABLED FABLES FABRIC FACADE FACETS FACIAL FACILE FACING FACTOR FADING FAGGED FAGGOT FAGOTS FAILED FAINER FAINTS FAIRER FAIRLY FAITHS FAKERS FAKING FAKIRS FALCON FALLEN FALLOW FALSER FALTER FAMILY FAMINE FAMISH FAMOUS FANBOY FANDOM FANNED FARCES FARINA FARING FARMED FARMER FARROW FARTED FASTED FASTEN FASTER FATHER FATHOM FATING FATTEN FATTER FAUCET FAULTS FAULTY FAUNAS FAVORS FAWNED FAXING FAZING FEALTY FEARED FEASTS FECUND FEDORA FEEBLE FEEBLY FEEDER FEELER FEIGNS FEINTS FEISTY FELINE FELLED FELLER FELLOW FELONS FELONY FELTED FEMALE FEMURS FENCED FENCER FENCES FENDED FENDER FENNEL FERRET FERRIC FERVID FERVOR FESTAL FESTER FETING FETISH FETTER FETTLE FEUDAL FEUDED FEVERS FEWEST FEZZES FIASCO FIBBED FIBBER FIBERS FIBULA FICHES FICKLE FIDDLE FIDDLY FIDGET FIELDS FIENDS FIERCE FIESTA FIFTHS FIGHTS FIGURE FILIAL FILING FILLED FILLER FILLET FILLIP FILMED FILTER FILTHY FINALE FINALS FINDER FINELY FINERY FINEST FINGER FINING FINISH FINITE FINKED FIRING FIRMED FIRMER FIRMLY FIRSTS FIRTHS FISCAL FISHED FISHER FISHES FITFUL FITTED FITTER FIXATE FIXERS FIXING FIXITY FIZZED FIZZES FIZZLE FJORDS FLABBY FLACKS FLAGON FLAILS FLAIRS FLAKED FLAKES FLAMED FLAMES FLANGE FLANKS FLARED FLARES FLASHY FLASKS FLATLY FLAUNT FLAVOR FLAWED FLAXEN FLAYED FLECKS FLEECE FLEECY FLEETS FLESHY FLEXED FLEXES FLICKS FLIERS FLIEST FLIGHT FLIMSY FLINCH FLINGS FLINTS FLINTY FLIRTS FLOATS FLOCKS FLOODS FLOORS FLOOZY FLOPPY FLORAL FLORAS FLORID FLORIN FLOURS FLOURY FLOUTS FLOWED FLOWER FLUENT FLUFFS FLUFFY FLUIDS FLUKES FLUMES FLUNKS FLUNKY FLURRY FLUTED FLUTES FLUXED FLUXES FLYBYS FLYING FOALED FOAMED FOBBED FODDER FOGGED FOGIES FOIBLE FOILED FOISTS FOLDED FOLDER FOLIOS FOLKSY FOLLOW FOMENT FONDER FONDLE FONDLY FONDUE FOOLED FOOTED FORAGE FORAYS FORBID FORCED FORCES FORDED FOREGO FOREST FORGED FORGER FORGES FORGET FORGOT FORKED FORMAL FORMAT FORMED FORMER FORTES FORUMS FOSSIL FOSTER FOUGHT FOULED FOULER FOULLY FOUNDS FOUNTS FOURTH FOWLED FOXIER FOXING FOYERS FRACAS FRACKS FRAMED FRAMER FRAMES FRANCS FRANKS FRAUDS FRAYED FREAKS FREAKY FREELY FREEST FREEZE FRENCH FRENZY FRESCO FRIARS FRIDGE FRIEND FRIEZE FRIGHT FRIGID FRILLS FRILLY FRINGE FRISKS FRISKY FRIZZY FROCKS FROLIC FRONDS FRONTS FROSTS FROSTY FROTHS FROTHY FROWNS FROWZY FROZEN FRUGAL FRUITS FRUITY FRUMPS FRUMPY FRYERS FRYING FUCKED FUCKER FUDDLE FUDGED FUDGES FUELED FUGUES FULLED FULLER FUMBLE FUMING FUNDED FUNGAL FUNGUS FUNKED FUNNEL FUNNER FURIES FURLED FURORS FURRED FURROW FUSING FUSION FUSSED FUSSES FUTILE FUTONS FUTURE FUTZED FUTZES FUZZED FUZZES',
+    G: 'GABBED GABBLE GABLED GABLES GADDED GADFLY GADGET GAFFED GAFFES GAGGED GAGGLE GAIETY GAINED GAITER GALAXY GALENA GALLED GALLEY GALLON GALLOP GALORE GALOSH GAMBIT GAMBLE GAMBOL GAMELY GAMEST GAMETE GAMIER GAMINE GAMING GAMINS GAMMAS GAMUTS GANDER GANGED GANNET GANTRY GAPING GARAGE GARBED GARBLE GARDEN GARGLE GARISH GARLIC GARNER GARNET GARRET GARTER GASHED GASHES GASKET GASPED GASSED GATHER GATING GAUCHE GAUCHO GAUGED GAUGES GAVELS GAWKED GAYEST GAZEBO GAZERS GAZING GEARED GECKOS GEEING GEEZER GEISHA GELDED GELLED GENDER GENERA GENIAL GENIES GENIUS GENOME GENRES GENTLE GENTLY GENTRY GEODES GERBIL GERUND GEWGAW GEYSER GHETTO GHOSTS GHOULS GIANTS GIBBER GIBBET GIBBON GIBING GIBLET GIFTED GIGGED GIGGLE GIGGLY GIGOLO GILDED GIMLET GINGER GINKGO GINNED GIRDED GIRDER GIRDLE GIRTED GIRTHS GIVENS GIVING GIZMOS GLADES GLADLY GLANCE GLANDS GLARED GLARES GLASSY GLAZED GLAZES GLEAMS GLEANS GLIBLY GLIDED GLIDER GLIDES GLINTS GLITCH GLITZY GLOATS GLOBAL GLOBES GLOOMY GLOSSY GLOVED GLOVES GLOWED GLOWER GLUIER GLUING GLUMLY GLUTEN GNARLS GNARLY GNAWED GNEISS GNOMES GOADED GOALIE GOATEE GOBBED GOBBLE GOBLET GOBLIN GODSON GOFERS GOGGLE GOINGS GOITER GOLDEN GOLFED GOLFER GONADS GONERS GONGED GOOBER GOODLY GOOFED GOOGLE GOOIER GOOSED GOOSES GOPHER GORGED GORGES GORIER GORING GOSPEL GOSSIP GOTTEN GOUGED GOUGER GOUGES GOURDS GOVERN GOWNED GRACED GRACES GRADED GRADER GRADES GRAFTS GRAINS GRAINY GRANDS GRANGE GRANNY GRANTS GRAPES GRAPHS GRASPS GRASSY GRATED GRATER GRATES GRATIS GRAVED GRAVEL GRAVEN GRAVER GRAVES GRAYED GRAYER GRAZED GRAZES GREASE GREASY GREATS GREBES GREEDY GREENS GREETS GRIEFS GRIEVE GRILLE GRILLS GRIMED GRIMES GRIMLY GRINDS GRINGO GRIPED GRIPES GRIPPE GRISLY GRITTY GROANS GROCER GROGGY GROINS GROOMS GROOVE GROOVY GROPED GROPES GROTTO GROUCH GROUND GROUPS GROUSE GROUTS GROVEL GROVES GROWER GROWLS GROWTH GRUBBY GRUDGE GRUMPY GRUNGE GRUNGY GRUNTS GUARDS GUAVAS GUESTS GUFFAW GUIDED GUIDES GUILDS GUILTY GUINEA GUISES GUITAR GULAGS GULLED GULLET GULPED GUMBOS GUMMED GUNMAN GUNMEN GUNNED GUNNER GURGLE GURNEY GUSHED GUSHER GUSHES GUSSET GUSTED GUTTED GUTTER GUYING GUZZLE GYPPED GYPSUM GYRATE',
+    H: 'HABITS HACKED HACKER HACKLE HAGGLE HAILED HAIRDO HAIRED HALEST HALING HALLOW HALOED HALTED HALTER HALVED HALVES HAMLET HAMMED HAMMER HAMPER HANDED HANDLE HANGAR HANGED HANGER HANKER HANKIE HANSOM HAPPEN HARASS HARBOR HARDEN HARDER HARDLY HAREMS HARING HARKED HARLOT HARMED HARPED HARROW HASHED HASHES HASSLE HASTED HASTEN HASTES HATERS HATING HATRED HATTED HATTER HAULED HAULER HAUNCH HAUNTS HAVENS HAVING HAWING HAWKED HAWKER HAWSER HAYING HAYMOW HAZARD HAZELS HAZIER HAZILY HAZING HAZMAT HEADED HEADER HEALED HEALER HEALTH HEAPED HEARER HEARSE HEARTH HEARTS HEARTY HEATED HEATER HEATHS HEAVED HEAVEN HEAVES HECKLE HECTIC HECTOR HEDGED HEDGES HEEDED HEEHAW HEELED HEFTED HEIFER HEIGHT HEISTS HELIUM HELLOS HELMET HELOTS HELPED HELPER HEMMED HEMPEN HENNAS HEPPER HERALD HERBAL HERDED HERDER HEREBY HEREIN HEREOF HERESY HERETO HERMIT HERNIA HEROES HEROIC HEROIN HERONS HERPES HEWERS HEWING HEXING HEYDAY HIATUS HICCUP HICKEY HIDDEN HIDING HIEING HIGHER HIGHLY HIJACK HIKERS HIKING HINDER HINGED HINGES HINTED HIPPED HIPPER HIPPIE HIPPOS HIRING HISSED HISSES HITHER HITTER HIVING HOAGIE HOARDS HOARSE HOAXED HOAXER HOAXES HOBBIT HOBBLE HOBNOB HOCKED HOCKEY HOEING HOGANS HOGGED HOISTS HOKIER HOLDER HOLDUP HOLIER HOLING HOLLER HOLLOW HOMAGE HOMELY HOMERS HOMEYS HOMIER HOMILY HOMING HOMINY HONCHO HONEST HONEYS HONING HONKED HONORS HOODED HOODIE HOODOO HOOFED HOOKAH HOOKED HOOKER HOOKUP HOOPED HOOPLA HOORAY HOOTED HOOTER HOOVES HOPING HOPPED HOPPER HORDED HORDES HORNED HORNET HORRID HORROR HORSED HORSES HORSEY HOSING HOSTED HOSTEL HOTBED HOTELS HOTKEY HOTTER HOUNDS HOURLY HOUSED HOUSES HOVELS HOVERS HOWDAH HOWLED HOWLER HUBBUB HUBCAP HUBRIS HUDDLE HUFFED HUGELY HUGEST HUGGED HULLED HUMANE HUMANS HUMBLE HUMBLY HUMBUG HUMERI HUMMED HUMMUS HUMORS HUMPED HUNGER HUNGRY HUNKER HUNTED HUNTER HURDLE HURLED HURLER HURRAH HURTLE HUSHED HUSHES HUSKED HUSKER HUSSAR HUSTLE HYBRID HYDRAS HYENAS HYMENS HYMNAL HYMNED HYPHEN HYPING',
+    I: 'IAMBIC IBEXES IBISES ICEBOX ICECAP ICICLE ICIEST ICINGS ICKIER IDEALS IDIOCY IDIOMS IDIOTS IDLERS IDLEST IDLING IDYLLS IFFIER IGLOOS IGNITE IGNORE IGUANA IMAGED IMAGES IMBIBE IMBUED IMBUES IMMUNE IMMURE IMPACT IMPAIR IMPALA IMPALE IMPART IMPEDE IMPELS IMPEND IMPISH IMPORT IMPOSE IMPUGN IMPURE IMPUTE INANER INBORN INBRED INCEST INCHED INCHES INCISE INCITE INCOME INCURS INDEED INDENT INDICT INDIGO INDOOR INDUCE INDUCT INFAMY INFANT INFECT INFERS INFEST INFIRM INFLOW INFLUX INFORM INFUSE INGEST INGOTS INHALE INHERE INJECT INJURE INJURY INKIER INKING INLAID INLAND INLAYS INLETS INLINE INMATE INMOST INNATE INNING INPUTS INROAD INSANE INSEAM INSECT INSERT INSETS INSIDE INSIST INSOLE INSTEP INSULT INSURE INTACT INTAKE INTEND INTENT INTERN INTERS INTONE INTROS INTUIT INURED INURES INVADE INVENT INVERT INVEST INVITE INVOKE INWARD IODINE IODIZE IONIZE IPECAC IRISES IRKING IRONED IRONIC ISLAND ISLETS ISOBAR ISSUED ISSUES ITALIC ITCHED ITCHES ITSELF',
+    J: 'JABBED JABBER JABOTS JACKAL JACKED JACKET JADING JAGGED JAGUAR JAILED JAILER JALOPY JAMMED JANGLE JAPANS JAPING JARGON JARRED JASPER JAUNTS JAUNTY JAWING JAZZED JAZZES JEERED JEJUNE JELLED JERKED JERKIN JERSEY JESTED JESTER JETSAM JETTED JEWELS JIBBED JIBING JIGGED JIGGER JIGGLE JIGSAW JIHADS JILTED JINGLE JINXED JINXES JITNEY JIVING JOBBED JOBBER JOCKEY JOCOSE JOCUND JOGGED JOGGER JOGGLE JOINED JOINER JOINTS JOISTS JOKERS JOKING JOLTED JOSHED JOSHES JOSTLE JOTTED JOULES JOUNCE JOUSTS JOVIAL JOYFUL JOYING JOYOUS JUDGED JUDGES JUGGED JUGGLE JUICED JUICER JUICES JUJUBE JULEPS JUMBLE JUMBOS JUMPED JUMPER JUNCOS JUNGLE JUNIOR JUNKED JUNKER JUNKET JUNKIE JUNTAS JURIES JURIST JURORS JUSTER JUSTLY JUTTED',
+    K: 'KABOOM KAOLIN KARATE KARATS KAYAKS KAZOOS KEBABS KEELED KEENED KEENER KEENLY KEEPER KENNED KENNEL KERNEL KETTLE KEYING KHAKIS KIBITZ KIBOSH KICKED KICKER KIDDED KIDDER KIDDIE KIDDOS KIDNAP KIDNEY KILLED KILLER KILNED KILTER KIMONO KINDER KINDLE KINDLY KINGLY KINKED KIOSKS KIPPER KISMET KISSED KISSER KISSES KITING KITSCH KITTEN KLUTZY KNACKS KNAVES KNEADS KNEELS KNELLS KNIFED KNIFES KNIGHT KNIVES KNOBBY KNOCKS KNOLLS KNOTTY KOALAS KOPECK KOSHER KOWTOW KRONER KRONOR KUDZUS',
+    L: 'LABELS LABIAL LABIUM LABORS LACIER LACING LACKED LACKEY LACTIC LACUNA LADDER LADDIE LADIES LADING LADLED LADLES LAGERS LAGGED LAGOON LAMBDA LAMBED LAMELY LAMENT LAMEST LAMING LAMMED LANCED LANCER LANCES LANCET LANDED LANDER LANKER LAPELS LAPPED LAPSED LAPSES LAPTOP LARDED LARDER LARGER LARGES LARGOS LARIAT LARKED LARVAE LARVAL LARYNX LASERS LASHED LASHES LASSES LASSIE LASSOS LASTED LASTLY LATELY LATENT LATEST LATHED LATHER LATHES LATTER LATTES LAUDED LAUGHS LAUNCH LAUREL LAVISH LAWFUL LAWYER LAXEST LAXITY LAYERS LAYING LAYMAN LAYMEN LAYOFF LAYOUT LAZIED LAZIER LAZIES LAZILY LAZING LEADED LEADEN LEADER LEAFED LEAGUE LEAKED LEANED LEANER LEAPED LEARNS LEASED LEASES LEAVED LEAVEN LEAVES LECHER LEDGER LEDGES LEERED LEEWAY LEFTER LEGACY LEGALS LEGATE LEGATO LEGEND LEGGED LEGION LEGMAN LEGMEN LEGUME LEMMAS LEMONS LEMONY LEMURS LENDER LENGTH LENSES LENTIL LEPERS LESION LESSEE LESSEN LESSER LESSON LESSOR LETHAL LETTER LETUPS LEVEES LEVELS LEVERS LEVIED LEVIES LEVITY LEWDER LEWDLY LIABLE LIAISE LIBELS LIBIDO LICHEN LICKED LIDDED LIEFER LIEGES LIFERS LIFTED LIGHTS LIKELY LIKENS LIKEST LIKING LILACS LILIES LILTED LIMBER LIMBOS LIMIER LIMING LIMITS LIMNED LIMPED LIMPER LIMPET LIMPID LIMPLY LINAGE LINDEN LINEAL LINEAR LINENS LINERS LINEUP LINGER LINING LINKED LINKER LINKUP LINNET LINTEL LIPIDS LIQUID LIQUOR LISPED LISTED LISTEN LITANY LITCHI LITERS LITHER LITMUS LITTER LITTLE LIVELY LIVENS LIVERS LIVERY LIVEST LIVING LIZARD LLAMAS LLANOS LOADED LOADER LOAFED LOAFER LOANED LOANER LOATHE LOAVES LOBBED LOCALE LOCALS LOCATE LOCKED LOCKER LOCKET LOCKUP LOCUST LODGED LODGER LODGES LOFTED LOGGED LOGGER LOGINS LOGJAM LOGOFF LOGONS LOGOUT LOITER LOLCAT LOLLED LONELY LONERS LONGED LONGER LOOFAH LOOKED LOOKUP LOOMED LOONIE LOOPED LOOSED LOOSEN LOOSER LOOSES LOOTED LOOTER LOPING LOPPED LORDED LORDLY LOSERS LOSING LOSSES LOTION LOUDER LOUDLY LOUNGE LOUSES LOUVER LOVELY LOVERS LOVING LOWERS LOWEST LOWING LOWISH LUBBER LUBING LUCKED LUGGED LULLED LUMBAR LUMBER LUMMOX LUMPED LUNACY LUNGED LUNGES LUPINE LURING LURKED LUSHER LUSHES LUSTED LUSTER LUXURY LYCEUM LYNXES LYRICS',
+    M: 'MACAWS MACING MACRON MACROS MADAME MADAMS MADCAP MADDEN MADDER MADMAN MADMEN MADRAS MAGGOT MAGNET MAGNUM MAGPIE MAIDEN MAILED MAILER MAIMED MAINLY MAIZES MAJORS MAKERS MAKEUP MAKING MALADY MALICE MALIGN MALLET MALLOW MALTED MAMBOS MAMMAL MAMMON MANAGE MANFUL MANGER MANGLE MANIAC MANIAS MANICS MANNED MANNER MANORS MANSES MANTEL MANTES MANTIS MANTLE MANTRA MANUAL MANURE MAPLES MAPPED MAPPER MARACA MARAUD MARBLE MARGIN MARINA MARINE MARKED MARKER MARKET MARKUP MARLIN MARMOT MAROON MARRED MARROW MARSHY MARTEN MARTIN MARTYR MARVEL MASCOT MASHED MASHER MASHES MASHUP MASKED MASONS MASQUE MASSED MASSES MASTER MATING MATINS MATRIX MATRON MATTED MATTER MATTES MATURE MATZOH MATZOS MATZOT MAULED MAVENS MAXIMA MAXIMS MAXING MAYBES MAYDAY MAYFLY MAYHEM MAYORS MEADOW MEAGER MEANER MEANLY MEASLY MECCAS MEDALS MEDDLE MEDIAL MEDIAN MEDIAS MEDICS MEDIUM MEDLEY MEEKER MEEKLY MELDED MELLOW MELODY MELONS MELTED MEMBER MEMOIR MEMORY MENACE MENAGE MENDED MENDER MENIAL MENSES MENTAL MENTOR MEOWED MERELY MEREST MERGED MERGER MERGES MERINO MERITS MERMAN MERMEN MESCAL MESHED MESHES MESSED MESSES METALS METEOR METERS METHOD METING METRIC METROS METTLE MEWING MEWLED MIASMA MICRON MIDAIR MIDDAY MIDDLE MIDGES MIDGET MIDWAY MIFFED MIGHTY MIKING MILDER MILDEW MILDLY MILERS MILIEU MILKED MILKER MILLED MILLER MILLET MIMICS MIMING MIMOSA MINCED MINCES MINDED MINERS MINGLE MINIMA MINIMS MINING MINION MINNOW MINORS MINTED MINUET MINUTE MINXES MIRAGE MIRING MIRROR MISCUE MISDID MISERS MISERY MISFIT MISHAP MISLAY MISLED MISSAL MISSED MISSES MISTED MISTER MISUSE MITERS MITTEN MIXERS MIXING MIZZEN MOANED MOBBED MOBILE MOCHAS MOCKED MOCKER MODALS MODELS MODEMS MODERN MODEST MODIFY MODISH MODULE MOGULS MOHAIR MOIETY MOIRES MOLARS MOLDED MOLDER MOLEST MOLTED MOLTEN MOMENT MONGER MONIES MONKEY MONTHS MOOING MOONED MOORED MOOTED MOPEDS MOPING MOPPED MOPPET MORALE MORALS MORASS MORAYS MORBID MORGUE MORONS MOROSE MORROW MORSEL MORTAL MORTAR MOSAIC MOSEYS MOSQUE MOSSES MOSTLY MOTELS MOTHER MOTIFS MOTILE MOTION MOTIVE MOTLEY MOTORS MOTTLE MOUNDS MOUNTS MOURNS MOUSED MOUSER MOUSES MOUSSE MOUTHS MOVERS MOVIES MOVING MOWERS MOWING MUCKED MUCOUS MUDDLE MUESLI MUFFED MUFFIN MUFFLE MUFTIS MUGGED MUGGER MUGGLE MUKLUK MULISH MULLAH MULLED MULLET MUMBLE MUMMER MURALS MURDER MURMUR MUSCAT MUSCLE MUSEUM MUSHED MUSHES MUSING MUSKET MUSLIN MUSSED MUSSEL MUSSES MUSTER MUTANT MUTATE MUTELY MUTEST MUTING MUTINY MUTTER MUTTON MUTUAL MUUMUU MUZZLE MYOPIA MYOPIC MYRIAD MYRTLE MYSELF MYSTIC MYTHIC',
+    N: 'NABBED NABOBS NACHOS NADIRS NAGGED NAIADS NAILED NAIVER NAMELY NAMING NAPALM NAPKIN NAPPED NARROW NASALS NATION NATIVE NATURE NAUGHT NAUSEA NAVELS NAVIES NEARBY NEARED NEARER NEARLY NEATER NEATLY NEBULA NECKED NECTAR NEEDED NEEDLE NEGATE NEIGHS NEOCON NEPHEW NERVED NERVES NESTED NESTLE NETHER NETTED NETTLE NEURAL NEURON NEUTER NEWBIE NEWELS NEWEST NEWTON NIACIN NIBBLE NICELY NICEST NICETY NICHES NICKED NICKEL NIECES NIGGAS NIGGAZ NIGGER NIGGLE NIGHER NIGHTS NIMBLE NIMBLY NIMBUS NINETY NINJAS NINTHS NIPPED NIPPER NIPPLE NITWIT NIXING NOBLER NOBLES NOBODY NODDED NODULE NOGGIN NOISED NOISES NOMADS NONCOM NONFAT NOODLE NOOSES NORMAL NOSHED NOSHES NOSIER NOSING NOTARY NOTICE NOTIFY NOTING NOTION NOUGAT NOVELS NOVICE NOWISE NOZZLE NUANCE NUBILE NUCLEI NUDEST NUDGED NUDGES NUDISM NUDIST NUDITY NUGGET NUKING NUMBED NUMBER NUMBLY NUNCIO NURSED NURSES NUTMEG NUTRIA NUTTED NUZZLE NYLONS NYMPHS',
+    O: 'OAFISH OARING OBEYED OBJECT OBLATE OBLIGE OBLONG OBOIST OBSESS OBTAIN OBTUSE OCCULT OCCUPY OCCURS OCEANS OCELOT OCTANE OCTAVE OCTETS OCULAR ODDEST ODDITY ODIOUS OFFEND OFFERS OFFICE OFFING OFFSET OGLING OILIER OILING OINKED OLDEST OLDIES OLIVES OMEGAS OMELET ONIONS ONLINE ONRUSH ONSETS ONUSES ONWARD ONYXES OODLES OOZING OPAQUE OPENED OPENER OPENLY OPERAS OPIATE OPINED OPINES OPPOSE OPTICS OPTIMA OPTING OPTION OPUSES ORACLE ORALLY ORANGE ORATED ORATES ORATOR ORBITS ORCHID ORDAIN ORDEAL ORDERS ORDURE ORGANS ORGASM ORGIES ORIENT ORIGIN ORIOLE ORMOLU ORNATE ORNERY ORPHAN OSIERS OSPREY OSSIFY OTHERS OTIOSE OTTERS OUNCES OUSTED OUSTER OUTAGE OUTBID OUTCRY OUTDID OUTFIT OUTFOX OUTING OUTLAW OUTLAY OUTLET OUTPUT OUTRAN OUTRUN OUTSET OUTWIT OVERDO OVERLY OVOIDS OVULES OWLETS OWLISH OWNERS OWNING OXBOWS OXFORD OXIDES OXYGEN OYSTER',
+    P: 'PACIFY PACING PACKED PACKER PACKET PADDED PADDLE PADRES PAEANS PAGANS PAGERS PAGING PAGODA PAINED PAINTS PAIRED PALACE PALATE PALEST PALING PALLED PALLET PALLID PALLOR PALMED PALTRY PAMPAS PAMPER PANDAS PANDER PANELS PANICS PANNED PANTED PANTIE PANTRY PAPACY PAPAYA PAPERS PAPERY PAPYRI PARADE PARCEL PARDON PARENT PARIAH PARING PARISH PARITY PARKAS PARKED PARLAY PARLEY PARLOR PARODY PAROLE PARRED PARROT PARSEC PARSED PARSER PARSES PARSON PARTED PARTLY PASHAS PASSED PASSEL PASSER PASSES PASTAS PASTED PASTEL PASTES PASTOR PASTRY PATCHY PATENT PATHOS PATINA PATINE PATIOS PATOIS PATROL PATRON PATTED PATTER PAUNCH PAUPER PAUSED PAUSES PAVING PAWING PAWNED PAWPAW PAYDAY PAYEES PAYERS PAYING PAYOFF PEACES PEAHEN PEAKED PEALED PEANUT PEARLS PEARLY PEBBLE PEBBLY PECANS PECKED PECTIN PEDALS PEDANT PEDDLE PEEING PEEKED PEELED PEEPED PEEPER PEERED PEEVED PEEVES PEEWEE PEGGED PELLET PELTED PELVIC PELVIS PENCIL PENDED PENILE PENNED PENNON PENURY PEOPLE PEPPED PEPPER PEPSIN PEPTIC PERILS PERIOD PERISH PERKED PERMED PERMIT PERSON PERTER PERTLY PERUSE PESETA PESTER PESTLE PETALS PETARD PETERS PETITE PETREL PETROL PETTED PEWEES PEWTER PEYOTE PHALLI PHASED PHASES PHIALS PHLEGM PHLOEM PHOBIA PHOBIC PHOEBE PHONED PHONES PHONIC PHOOEY PHOTON PHOTOS PHRASE PHYLUM PHYSIC PIANOS PIAZZA PICKAX PICKED PICKER PICKET PICKLE PICKUP PICNIC PIDDLE PIDGIN PIECED PIECES PIEING PIERCE PIFFLE PIGEON PIGGED PIGLET PIGPEN PIGSTY PIKERS PIKING PILAFS PILEUP PILFER PILING PILLAR PILLED PILLOW PILOTS PIMPED PIMPLE PIMPLY PINCER PINGED PINING PINION PINKED PINKER PINKIE PINNED PINTOS PINUPS PIPERS PIPING PIPITS PIPPED PIPPIN PIQUED PIQUES PIRACY PIRATE PISSED PISSES PISTIL PISTOL PISTON PITIED PITIES PITONS PITTED PIVOTS PIXELS PIXIES PIZZAS PLACED PLACER PLACES PLACID PLAGUE PLAICE PLAIDS PLAINS PLAINT PLAITS PLANAR PLANED PLANES PLANET PLANKS PLANTS PLAQUE PLASMA PLATED PLATEN PLATES PLAYED PLAYER PLAZAS PLEADS PLEASE PLEATS PLEDGE PLENTY PLEXUS PLIANT PLIERS PLIGHT PLINTH PLOVER PLOWED PLUCKS PLUCKY PLUGIN PLUMBS PLUMED PLUMES PLUMPS PLUNGE PLUNKS PLURAL PLUSES PLUSHY PLYING POCKED POCKET PODDED PODIUM POETIC POETRY POGROM POINTS POINTY POISED POISES POISON POKERS POKEYS POKIER POKING POLICE POLICY POLING POLIOS POLISH POLITE POLITY POLKAS POLLED POLLEN POLYPS POMADE POMMEL POMPOM PONCHO PONDER PONIES POODLE POOHED POOLED POOPED POORER POORLY POPGUN POPLAR POPLIN POPPAS POPPED PORING POROUS PORTAL PORTED PORTER PORTLY POSERS POSEUR POSHER POSIES POSING POSITS POSSES POSSUM POSTAL POSTED POSTER POTASH POTATO POTENT POTFUL POTION POTPIE POTTED POTTER POUNCE POUNDS POURED POUTED POWDER POWERS POWWOW PRAISE PRANCE PRANKS PRATED PRATES PRAWNS PRAYED PRAYER PREACH PREENS PREFAB PREFER PREFIX PRENUP PREPAY PREPPY PRESET PRESTO PRETTY PREWAR PREYED PRICED PRICES PRICEY PRICKS PRIDED PRIDES PRIEST PRIMAL PRIMED PRIMER PRIMES PRIMLY PRIMPS PRINCE PRINTS PRIORS PRIORY PRISMS PRISON PRISSY PRIVET PRIZED PRIZES PROBED PROBES PROFIT PROLIX PROMOS PROMPT PRONGS PRONTO PROOFS PROPEL PROPER PROTON PROVED PROVEN PROVES PROWLS PRUDES PRUNED PRUNES PRYING PSALMS PSEUDO PSHAWS PSYCHE PSYCHO PSYCHS PUBLIC PUCKER PUDDLE PUEBLO PUFFED PUFFER PUFFIN PUKING PULLED PULLER PULLET PULLEY PULPED PULPIT PULSAR PULSED PULSES PUMICE PUMMEL PUMPED PUMPER PUNCHY PUNDIT PUNIER PUNISH PUNKER PUNNED PUNTED PUNTER PUPILS PUPPED PUPPET PUREED PUREES PURELY PUREST PURGED PURGES PURIFY PURISM PURIST PURITY PURLED PURPLE PURRED PURSED PURSER PURSES PURSUE PURVEY PUSHED PUSHER PUSHES PUSSES PUTRID PUTSCH PUTTED PUTTER PUZZLE PWNING PYLONS PYRITE PYTHON',
+    Q: 'QUACKS QUAFFS QUAHOG QUAILS QUAINT QUAKED QUAKES QUALMS QUANTA QUARKS QUARRY QUARTO QUARTS QUARTZ QUASAR QUAVER QUEASY QUEENS QUEERS QUELLS QUENCH QUESTS QUEUED QUEUES QUICHE QUIETS QUILLS QUILTS QUINCE QUIRES QUIRKS QUIRKY QUIVER QUOITS QUORUM QUOTAS QUOTED QUOTES',
+    R: 'RABBIS RABBIT RABBLE RABIES RACEME RACERS RACIAL RACIER RACILY RACING RACISM RACIST RACKED RACKET RADARS RADIAL RADIOS RADISH RADIUM RADIUS RAFFIA RAFFLE RAFTED RAFTER RAGGED RAGING RAGLAN RAGOUT RAGTAG RAIDED RAIDER RAILED RAINED RAISED RAISES RAISIN RAJAHS RAKING RAKISH RAMBLE RAMIFY RAMMED RAMROD RANCID RANCOR RANDOM RANGED RANGER RANGES RANKED RANKER RANKLE RANSOM RANTED RANTER RAPIDS RAPIER RAPINE RAPING RAPIST RAPPED RAPPER RAREFY RARELY RAREST RARING RARITY RASCAL RASHER RASHES RASHLY RASPED RASTER RATHER RATIFY RATING RATION RATIOS RATTAN RATTED RATTLE RAVAGE RAVELS RAVENS RAVINE RAVING RAVISH RAWEST RAZING RAZORS RAZZED RAZZES REACTS READER REALER REALLY REALMS REALTY REAMED REAMER REAPED REAPER REARED REARMS REASON REBATE REBELS REBIND REBORN REBUFF REBUKE REBUTS RECALL RECANT RECAPS RECAST RECEDE RECENT RECESS RECIPE RECITE RECKON RECOIL RECOPY RECORD RECOUP RECTAL RECTOR RECTUM RECURS REDCAP REDDEN REDDER REDEEM REDOES REDONE REDRAW REDREW REDUCE REEFED REEFER REEKED REELED REEVES REFERS REFFED REFILE REFILL REFINE REFITS REFLEX REFORM REFUEL REFUGE REFUND REFUSE REFUTE REGAIN REGALE REGARD REGENT REGGAE REGIME REGION REGRET REHABS REHASH REHEAT REHIRE REIGNS REINED REJECT REJOIN RELAID RELATE RELAYS RELENT RELICS RELIED RELIEF RELIES RELISH RELIVE RELOAD REMADE REMAIN REMAKE REMAND REMARK REMEDY REMIND REMISS REMITS REMOTE REMOVE RENAME RENDER RENEGE RENEWS RENNET RENOWN RENTAL RENTED RENTER REOPEN REORGS REPAID REPAIR REPAST REPAYS REPEAL REPEAT REPELS REPENT REPLAY REPORT REPOSE REPUTE REREAD RERUNS RESALE RESCUE RESELL RESEND RESENT RESETS RESIDE RESIGN RESINS RESIST RESOLD RESORT RESTED RESULT RESUME RETAIL RETAIN RETAKE RETARD RETELL RETINA RETIRE RETOLD RETOOK RETOOL RETORT RETROD RETURN RETYPE REUSED REUSES REVAMP REVEAL REVELS REVERE REVERT REVIEW REVILE REVISE REVIVE REVOKE REVOLT REVUES REVVED REWARD REWIND REWIRE REWORD REWORK RHEUMY RHINOS RHYMED RHYMES RHYTHM RIBALD RIBBED RIBBON RICHER RICHES RICHLY RICING RICKED RIDDEN RIDDLE RIDERS RIDGED RIDGES RIDING RIFEST RIFFED RIFFLE RIFLED RIFLES RIFTED RIGGED RIGHTS RIGORS RILING RIMING RIMMED RINGED RINGER RINSED RINSES RIOTED RIOTER RIPELY RIPENS RIPEST RIPPED RIPPER RIPPLE RIPSAW RISERS RISING RISKED RITUAL RIVALS RIVERS RIVETS ROAMED ROAMER ROARED ROASTS ROBBED ROBBER ROBING ROBINS ROBOTS ROBUST ROCKED ROCKER ROCKET ROCOCO RODENT RODEOS ROGERS ROGUES ROILED ROLLED ROLLER ROMPED ROMPER ROOFED ROOFER ROOKED ROOKIE ROOMED ROOMER ROOSTS ROOTED ROOTER ROPING ROSARY ROSIER ROSILY ROSINS ROSTER ROTARY ROTATE ROTORS ROTTED ROTTEN ROTUND ROUGED ROUGES ROUGHS ROUNDS ROUSED ROUSES ROUTED ROUTER ROUTES ROVERS ROVING ROWELS ROWERS ROWING ROYALS RUBBED RUBBER RUBBLE RUBIER RUBIES RUBLES RUBRIC RUCKUS RUDDER RUDELY RUDEST RUEFUL RUFFED RUFFLE RUGGED RUGRAT RUINED RULERS RULING RUMBAS RUMBLE RUMMER RUMORS RUMPLE RUMPUS RUNNEL RUNNER RUNOFF RUNWAY RUPEES RUSHED RUSHES RUSSET RUSTED RUSTIC RUSTLE RUTTED',
+    S: 'SABERS SABLES SACHEM SACHET SACKED SACRED SADDEN SADDER SADDLE SADISM SADIST SAFARI SAFELY SAFEST SAFETY SAGEST SAGGED SAHIBS SAILED SAILOR SAINTS SALAAM SALADS SALAMI SALARY SALINE SALIVA SALLOW SALMON SALONS SALOON SALSAS SALTED SALTER SALUTE SALVED SALVER SALVES SALVOS SAMBAS SAMPAN SAMPLE SANDAL SANDED SANDER SANELY SANEST SANITY SAPPED SARONG SASHAY SASHES SASSED SASSES SATEEN SATING SATINY SATIRE SATRAP SATYRS SAUCED SAUCER SAUCES SAUNAS SAVAGE SAVANT SAVERS SAVING SAVIOR SAVORS SAVORY SAWING SAWYER SAYING SCABBY SCALAR SCALDS SCALED SCALES SCALPS SCAMPI SCAMPS SCANTS SCANTY SCARAB SCARCE SCARED SCARES SCARFS SCENES SCENIC SCENTS SCHEMA SCHEME SCHISM SCHIST SCHLEP SCHOOL SCHUSS SCHWAS SCIONS SCOFFS SCOLDS SCONCE SCONES SCOOPS SCOOTS SCOPED SCOPES SCORCH SCORED SCORER SCORES SCORNS SCOTCH SCOURS SCOUTS SCOWLS SCRAMS SCRAPE SCRAPS SCRAWL SCREAM SCREEN SCREWS SCREWY SCRIBE SCRIMP SCRIPS SCRIPT SCROLL SCROTA SCRUBS SCRUFF SCUBAS SCUFFS SCULLS SCULPT SCUMMY SCURFY SCURRY SCURVY SCUZZY SCYTHE SEABED SEALED SEALER SEAMAN SEAMED SEAMEN SEARCH SEARED SEASON SEATED SEAWAY SECEDE SECOND SECRET SECTOR SECURE SEDANS SEDATE SEDUCE SEEDED SEEING SEEKER SEEMED SEEMLY SEEPED SEESAW SEETHE SEGUED SEGUES SEIZED SEIZES SELDOM SELECT SELFIE SELLER SELVES SENATE SENDER SENILE SENIOR SENSED SENSES SENSOR SENTRY SEPALS SEPSIS SEPTET SEPTIC SEPTUM SEQUEL SEQUIN SERAPE SERAPH SERENE SEREST SERIAL SERIES SERMON SEROUS SERUMS SERVED SERVER SERVES SERVOS SESAME SETTEE SETTER SETTLE SETUPS SEVENS SEVERE SEVERS SEWAGE SEWERS SEWING SEXIER SEXILY SEXING SEXISM SEXIST SEXPOT SEXTET SEXTON SEXUAL SHABBY SHACKS SHADED SHADES SHADOW SHAFTS SHAGGY SHAKEN SHAKER SHAKES SHAMAN SHAMED SHAMES SHANDY SHANKS SHANTY SHAPED SHAPES SHARDS SHARED SHARES SHARIA SHARKS SHARPS SHAVED SHAVEN SHAVER SHAVES SHAWLS SHEARS SHEATH SHEAVE SHEERS SHEETS SHEIKH SHEKEL SHELLS SHELVE SHERRY SHIELD SHIFTS SHIFTY SHILLS SHIMMY SHINED SHINER SHINES SHINNY SHIRES SHIRKS SHIRRS SHIRTS SHITTY SHIVER SHOALS SHOCKS SHODDY SHOGUN SHOOED SHOOTS SHORED SHORES SHORTS SHOULD SHOUTS SHOVED SHOVEL SHOVES SHOWED SHOWER SHRANK SHREDS SHREWD SHREWS SHRIEK SHRIFT SHRIKE SHRILL SHRIMP SHRINE SHRINK SHRIVE SHROUD SHRUBS SHRUGS SHRUNK SHTICK SHUCKS SHUNTS SHYEST SHYING SIBYLS SICKED SICKEN SICKER SICKLE SICKLY SIDING SIDLED SIDLES SIEGES SIERRA SIESTA SIEVED SIEVES SIFTED SIFTER SIGHED SIGHTS SIGNAL SIGNED SIGNER SIGNET SILAGE SILENT SILICA SILKEN SILTED SILVER SIMIAN SIMILE SIMMER SIMPER SIMPLE SIMPLY SINEWS SINEWY SINFUL SINGED SINGER SINGES SINGLE SINGLY SINKER SINNED SINNER SIPHON SIPPED SIRENS SIRING SISTER SITARS SITCOM SITING SITTER SIXTHS SIZING SIZZLE SKATED SKATER SKATES SKEINS SKETCH SKEWED SKEWER SKIERS SKIFFS SKIING SKILLS SKIMPS SKIMPY SKINNY SKIRTS SKIVVY SKULKS SKULLS SKUNKS SKYCAP SKYING SLACKS SLAKED SLAKES SLALOM SLANGY SLANTS SLATED SLATES SLAVED SLAVER SLAVES SLAYER SLEAZE SLEAZY SLEDGE SLEEKS SLEEPS SLEEPY SLEETS SLEETY SLEEVE SLEIGH SLEUTH SLEWED SLICED SLICER SLICES SLICKS SLIDER SLIDES SLIEST SLIGHT SLINGS SLINKS SLINKY SLIVER SLOGAN SLOOPS SLOPED SLOPES SLOPPY SLOTHS SLOUCH SLOUGH SLOVEN SLOWED SLOWER SLOWLY SLUDGE SLUICE SLUING SLUMPS SLURPS SLUSHY SMACKS SMALLS SMARMY SMARTS SMEARS SMELLS SMELLY SMELTS SMILED SMILES SMIRCH SMIRKS SMITES SMITHS SMITHY SMOCKS SMOGGY SMOKED SMOKER SMOKES SMOOCH SMOOTH SMUDGE SMUDGY SMUGLY SMUTTY SNACKS SNAFUS SNAILS SNAKED SNAKES SNAPPY SNARED SNARES SNARKY SNARLS SNATCH SNAZZY SNEAKS SNEAKY SNEERS SNEEZE SNIDER SNIFFS SNIPED SNIPER SNIPES SNIPPY SNITCH SNIVEL SNOBBY SNOOPS SNOOPY SNOOTS SNOOTY SNOOZE SNORED SNORER SNORES SNORTS SNOTTY SNOUTS SNOWED SNUFFS SNUGLY SOAKED SOAPED SOARED SOBBED SOBERS SOCCER SOCIAL SOCKED SOCKET SODDED SODDEN SODIUM SODOMY SOFTEN SOFTER SOFTLY SOILED SOLACE SOLDER SOLELY SOLEMN SOLIDS SOLING SOLOED SOLVED SOLVER SOLVES SOMBER SONARS SONATA SONNET SOONER SOOTHE SOPPED SORBET SORDID SORELY SOREST SORREL SORROW SORTED SORTER SORTIE SOUGHS SOUGHT SOUNDS SOUPED SOURCE SOURED SOURER SOURLY SOUSED SOUSES SOVIET SOWERS SOWING SPACED SPACES SPACEY SPADED SPADES SPANKS SPARED SPARER SPARES SPARKS SPARSE SPASMS SPATES SPAWNS SPAYED SPEAKS SPEARS SPECIE SPECKS SPEECH SPEEDS SPEEDY SPELLS SPENDS SPERMS SPEWED SPHERE SPHINX SPICED SPICES SPIDER SPIELS SPIFFY SPIGOT SPIKED SPIKES SPILLS SPINAL SPINES SPINET SPIRAL SPIREA SPIRES SPIRIT SPITED SPITES SPLASH SPLATS SPLAYS SPLEEN SPLICE SPLINE SPLINT SPLITS SPOILS SPOKEN SPOKES SPONGE SPONGY SPOOFS SPOOKS SPOOKY SPOOLS SPOONS SPOORS SPORED SPORES SPORTS SPORTY SPOTTY SPOUSE SPOUTS SPRAIN SPRANG SPRATS SPRAWL SPRAYS SPREAD SPREED SPREES SPRIER SPRIGS SPRING SPRINT SPRITE SPRITZ SPROUT SPRUCE SPRUNG SPRYLY SPUMED SPUMES SPUNKY SPURNS SPURTS SPUTUM SPYING SQUABS SQUADS SQUALL SQUARE SQUASH SQUATS SQUAWK SQUAWS SQUEAK SQUEAL SQUIDS SQUINT SQUIRE SQUIRM SQUIRT SQUISH STABLE STACKS STAFFS STAGED STAGES STAINS STAIRS STAKED STAKES STALED STALER STALES STALKS STALLS STAMEN STAMPS STANCE STANCH STANDS STANZA STAPLE STARCH STARED STARES STARRY STARTS STARVE STATED STATER STATES STATIC STATUE STATUS STAVED STAVES STAYED STEADS STEADY STEAKS STEALS STEAMS STEAMY STEEDS STEELS STEELY STEEPS STEERS STEINS STENCH STENTS STEPPE STEREO STERNS STEWED STICKS STICKY STIFFS STIFLE STIGMA STILES STILLS STILTS STINGS STINGY STINKS STINTS STITCH STOATS STOCKS STOCKY STODGY STOICS STOKED STOKER STOKES STOLEN STOLES STOLID STOMPS STONED STONER STONES STOOGE STOOLS STOOPS STORED STORES STORKS STORMS STORMY STOVES STOWED STRAFE STRAIN STRAIT STRAND STRAPS STRATA STRAWS STRAYS STREAK STREAM STREET STRESS STREWN STREWS STRICT STRIDE STRIFE STRIKE STRING STRIPE STRIPS STRIVE STROBE STRODE STROKE STROLL STRONG STROPS STROVE STRUCK STRUMS STRUNG STRUTS STUBBY STUCCO STUDIO STUFFS STUFFY STUMPS STUMPY STUNTS STUPID STUPOR STURDY STYLED STYLES STYLUS STYMIE SUAVER SUBBED SUBDUE SUBLET SUBMIT SUBORN SUBSET SUBTLE SUBTLY SUBURB SUBWAY SUCCOR SUCKED SUCKER SUCKLE SUDDEN SUFFER SUFFIX SUGARS SUGARY SUITED SUITES SUITOR SULFUR SULKED SULLEN SULTAN SULTRY SUMMED SUMMER SUMMIT SUMMON SUNDAE SUNDER SUNDRY SUNKEN SUNLIT SUNNED SUNSET SUNTAN SUPERB SUPERS SUPINE SUPPED SUPPER SUPPLE SUPPLY SURELY SUREST SURETY SURFED SURFER SURGED SURGES SURREY SURTAX SURVEY SUTURE SVELTE SWAINS SWAMIS SWAMPS SWAMPY SWANKS SWANKY SWARDS SWARMS SWATCH SWATHE SWATHS SWAYED SWEARS SWEATS SWEATY SWEEPS SWEETS SWELLS SWERVE SWIFTS SWILLS SWINES SWINGS SWIPED SWIPES SWIRLS SWIRLY SWITCH SWIVEL SWOONS SWOOPS SWORDS SYLPHS SYLVAN SYMBOL SYNCED SYNODS SYNTAX SYRUPS SYRUPY SYSTEM',
+    T: 'TABBED TABLED TABLES TABLET TABOOS TACKED TACKLE TACTIC TAGGED TAILED TAILOR TAINTS TAKERS TAKING TALENT TALKED TALKER TALLER TALLOW TALONS TAMALE TAMELY TAMERS TAMEST TAMING TAMPED TAMPER TAMPON TANDEM TANGLE TANGOS TANKED TANKER TANNED TANNER TANNIN TAPERS TAPING TAPIRS TAPPED TARGET TARIFF TARING TARMAC TAROTS TARPON TARRED TARTAN TARTAR TARTER TARTLY TASERS TASKED TASSEL TASTED TASTER TASTES TATTED TATTER TATTLE TATTOO TAUGHT TAUNTS TAUTER TAUTLY TAVERN TAWDRY TAXIED TAXING TEABAG TEACUP TEAMED TEAPOT TEARED TEASED TEASEL TEASER TEASES TECHNO TEDIUM TEEING TEEMED TEETER TEETHE TELLER TEMPED TEMPER TEMPLE TEMPOS TEMPTS TENANT TENDED TENDER TENDON TENETS TENNIS TENONS TENORS TENPIN TENSED TENSER TENSES TENSOR TENTED TENTHS TENURE TEPEES TERMED TERMLY TERROR TERSER TESTED TESTER TESTES TESTIS TETHER TEXTED THANKS THATCH THAWED THEFTS THEIRS THEISM THEIST THEMES THENCE THEORY THESES THESIS THIEVE THIGHS THINGS THINKS THINLY THIRDS THIRST THIRTY THONGS THORAX THORNS THORNY THOUGH THRALL THRASH THREAD THREAT THREES THRESH THRICE THRIFT THRILL THRIVE THROAT THROBS THROES THRONE THRONG THROWN THROWS THRUMS THRUSH THRUST THUMBS THUMPS THWACK THWART THYMUS TIARAS TIBIAE TICKED TICKER TICKET TICKLE TIDBIT TIDIED TIDIER TIDIES TIDILY TIDING TIFFED TIGERS TIGHTS TILDES TILING TILLED TILLER TILTED TIMBER TIMBRE TIMELY TIMERS TIMING TINDER TINGED TINGES TINGLE TINGLY TINIER TINKER TINKLE TINNED TINSEL TINTED TIPPED TIPPER TIPPLE TIPTOE TIPTOP TIRADE TIRING TISSUE TITANS TITHED TITHES TITLED TITLES TITTER TITTLE TOASTS TOASTY TOCSIN TODDLE TOEING TOFFEE TOGGLE TOILED TOILER TOILET TOKENS TOKING TOLLED TOMATO TOMBED TOMBOY TOMCAT TONGUE TONICS TONIER TONING TONNES TONSIL TOOLED TOOTED TOOTHY TOPICS TOPPED TOPPLE TOQUES TORPID TORPOR TORQUE TORRID TORSOS TORTES TOSSED TOSSES TOSSUP TOTALS TOTEMS TOTING TOTTED TOTTER TOUCAN TOUCHY TOUGHS TOUPEE TOURED TOUSLE TOUTED TOWARD TOWELS TOWERS TOWING TOXINS TOYING TRACED TRACER TRACES TRACKS TRACTS TRADED TRADER TRADES TRAGIC TRAILS TRAINS TRAITS TRAMPS TRANCE TRASHY TRAUMA TRAVEL TRAWLS TREADS TREATS TREATY TREBLE TREMOR TRENCH TRENDS TRENDY TRIADS TRIAGE TRIALS TRIBAL TRIBES TRICKS TRICKY TRIFLE TRIKES TRILLS TRIMLY TRIPLE TRIPLY TRIPOD TRIPOS TRITER TRIVET TRIVIA TROIKA TROLLS TROMPS TROOPS TROPES TROPHY TROPIC TROUGH TROUPE TROUTS TROWEL TRUANT TRUCES TRUCKS TRUDGE TRUEST TRUING TRUISM TRUMPS TRUNKS TRUSTS TRUSTY TRUTHS TRYING TRYOUT TRYSTS TUBERS TUBING TUCKED TUCKER TUFTED TUGGED TULIPS TUMBLE TUMORS TUMULT TUNDRA TUNERS TUNICS TUNING TUNNEL TURBAN TURBID TURBOT TUREEN TURFED TURGID TURKEY TURNED TURNER TURNIP TURRET TURTLE TUSHES TUSKED TUSSLE TUTORS TUXEDO TWANGS TWEAKS TWEEDS TWEEDY TWEETS TWELVE TWENTY TWERKS TWERPS TWIGGY TWINED TWINES TWINGE TWIRLS TWISTS TWITCH TWOFER TYCOON TYPHUS TYPIFY TYPING TYPIST TYRANT',
+    U: 'UDDERS UGLIER ULCERS ULTRAS UMBELS UMIAKS UMLAUT UMPING UMPIRE UNABLE UNBARS UNBEND UNBENT UNBIND UNBOLT UNBORN UNCLES UNCOIL UNCORK UNDIES UNDOES UNDONE UNDULY UNEASE UNEASY UNEVEN UNFAIR UNFITS UNFOLD UNFURL UNHAND UNHOLY UNHOOK UNHURT UNIONS UNIQUE UNISEX UNISON UNITED UNITES UNJUST UNKIND UNLACE UNLESS UNLIKE UNLOAD UNLOCK UNMADE UNMAKE UNMANS UNMASK UNPACK UNPAID UNPICK UNPINS UNPLUG UNREAD UNREAL UNREST UNRIPE UNROLL UNRULY UNSAFE UNSAID UNSAYS UNSEAL UNSEAT UNSEEN UNSENT UNSNAP UNSOLD UNSTOP UNSUNG UNSURE UNTIDY UNTIED UNTIES UNTOLD UNTRUE UNUSED UNVEIL UNWARY UNWELL UNWIND UNWISE UNWRAP UNZIPS UPBEAT UPDATE UPENDS UPHELD UPHILL UPHOLD UPKEEP UPLAND UPLIFT UPLOAD UPPERS UPPING UPPITY UPROAR UPROOT UPSETS UPSHOT UPSIDE UPTAKE UPTOWN UPTURN UPWARD URBANE URCHIN URGENT URGING URINAL USABLE USAGES USEFUL USHERS USURER USURPS UTERUS UTMOST UTOPIA UTTERS UVULAR UVULAS',
+    V: 'VACANT VACATE VACUUM VAGARY VAGINA VAGUER VAINER VAINLY VALETS VALISE VALLEY VALUED VALUES VALVED VALVES VAMPED VANDAL VANISH VANITY VANNED VAPING VAPORS VARIED VARIES VARLET VASSAL VASTER VASTLY VATTED VAULTS VAUNTS VECTOR VEERED VEGANS VEGGIE VEILED VEINED VELLUM VELOUR VELVET VENDED VENDOR VENEER VENIAL VENOUS VENTED VENUES VERBAL VERGED VERGES VERIER VERIFY VERILY VERITY VERMIN VERNAL VERSED VERSES VERSUS VERTEX VESPER VESSEL VESTED VESTRY VETOED VETOES VETTED VEXING VIABLE VIANDS VICARS VICING VICTIM VICTOR VIDEOS VIEWED VIEWER VIGILS VILELY VILEST VILIFY VILLAS VINYLS VIOLAS VIOLET VIOLIN VIPERS VIRAGO VIREOS VIRGIN VIRILE VIRTUE VISAED VISAGE VISCID VISCUS VISING VISION VISITS VISORS VISTAS VISUAL VITALS VIVACE VIVIFY VIXENS VIZIER VOCALS VOGUES VOICED VOICES VOIDED VOLLEY VOLUME VOMITS VOODOO VORTEX VOTARY VOTERS VOTING VOTIVE VOWELS VOWING VOYAGE VOYEUR VULGAR VULVAE',
+    W: 'WACKER WACKOS WADDED WADDLE WADERS WADING WAFERS WAFFLE WAFTED WAGERS WAGGED WAGGLE WAGING WAGONS WAILED WAISTS WAITED WAITER WAIVED WAIVER WAIVES WAKENS WAKING WALING WALKED WALKER WALLED WALLET WALLOP WALLOW WALNUT WALRUS WAMPUM WANDER WANGLE WANING WANNER WANTED WANTON WAPITI WARBLE WARDED WARDEN WARDER WARIER WARILY WARMED WARMER WARMLY WARMTH WARNED WARPED WARRED WARREN WASHED WASHER WASHES WASTED WASTER WASTES WATERS WATERY WATTLE WAVERS WAVIER WAVING WAXIER WAXING WAYLAY WEAKEN WEAKER WEAKLY WEALTH WEANED WEAPON WEARER WEASEL WEAVED WEAVER WEAVES WEBBED WEBCAM WEDDED WEDDER WEDGED WEDGES WEEDED WEEDER WEEING WEEKLY WEEPER WEEVIL WEIGHS WEIGHT WEIRDO WELDED WELDER WELKIN WELLED WELTED WELTER WENDED WETTER WHACKS WHALED WHALER WHALES WHAMMY WHEALS WHEELS WHEEZE WHEEZY WHELKS WHELPS WHENCE WHERES WHIFFS WHILED WHILES WHILST WHIMSY WHINED WHINER WHINES WHINNY WHIRLS WHISKS WHITEN WHITER WHITES WHOLES WHOLLY WHOOPS WHOOSH WHORES WHORLS WICKED WICKER WICKET WIDELY WIDENS WIDEST WIDOWS WIDTHS WIELDS WIENER WIFELY WIGEON WIGGED WIGGLE WIGGLY WIGHTS WIGWAG WIGWAM WILDER WILDLY WILIER WILING WILLED WILLOW WILTED WIMPLE WINCED WINCES WINDED WINDOW WINDUP WINERY WINGED WINGER WINING WINKED WINNER WINNOW WINTER WINTRY WIPERS WIPING WIRIER WIRING WISDOM WISELY WISEST WISHED WISHER WISHES WITHAL WITHER WITHIN WIZARD WOBBLE WOBBLY WOEFUL WOLFED WOLVES WOMBAT WONDER WONTED WOODED WOODEN WOODSY WOOERS WOOFED WOOFER WOOING WOOLEN WOOLLY WORDED WORKED WORKER WORLDS WORMED WORSEN WORSTS WORTHY WOULDS WOUNDS WOWING WRAITH WREAKS WREATH WRECKS WRENCH WRESTS WRETCH WRIGHT WRINGS WRISTS WRITER WRITES WRITHE WRONGS WRYEST WUSSES',
+    Y: 'YACHTS YAHOOS YAKKED YAMMER YANKED YAPPED YAWING YAWNED YEARLY YEARNS YEASTS YEASTY YELLED YELLOW YELPED YEOMAN YEOMEN YESSED YIELDS YIPPED YIPPEE YODELS YOGURT YOKELS YOKING YONDER YOUTHS YOWLED YUCCAS YUKKED YUPPIE',
+    Z: 'ZANIER ZANIES ZAPPED ZAPPER ZEALOT ZEBRAS ZENITH ZEPHYR ZEROED ZIGZAG ZINGED ZINGER ZINNIA ZIPPED ZIPPER ZIRCON ZITHER ZODIAC ZOMBIE ZONING ZONKED ZOOMED ZYGOTE'
+  },
+  7: {
+    A: 'ABALONE ABANDON ABASHED ABASHES ABASING ABATING ABDOMEN ABDUCTS ABETTED ABETTOR ABIDING ABILITY ABJURED ABJURES ABOLISH ABORTED ABOUNDS ABRADED ABRADES ABREAST ABRIDGE ABSCESS ABSCOND ABSENCE ABSENTS ABSOLVE ABSORBS ABSTAIN ABUSERS ABUSING ABUSIVE ABUTTED ABYSMAL ABYSSES ACACIAS ACADEMY ACCEDED ACCEDES ACCENTS ACCEPTS ACCLAIM ACCORDS ACCOSTS ACCOUNT ACCRUAL ACCRUED ACCRUES ACCUSED ACCUSER ACCUSES ACERBIC ACETATE ACETONE ACHIEST ACHIEVE ACIDIFY ACIDITY ACOLYTE ACONITE ACQUIRE ACQUITS ACREAGE ACRIDER ACROBAT ACRONYM ACRYLIC ACTIONS ACTIVES ACTRESS ACTUARY ACTUATE ACUTELY ACUTEST ADAGIOS ADAMANT ADAPTED ADAPTER ADDENDA ADDENDS ADDICTS ADDLING ADDRESS ADDUCED ADDUCES ADENOID ADEPTLY ADHERED ADHERES ADIPOSE ADJOINS ADJOURN ADJUDGE ADJUNCT ADJURED ADJURES ADJUSTS ADMIRAL ADMIRED ADMIRER ADMIRES ADOPTED ADORING ADORNED ADRENAL ADULATE ADVANCE ADVENTS ADVERBS ADVERSE ADVERTS ADVISED ADVISER ADVISES AERATED AERATES AERATOR AERIALS AEROBIC AEROSOL AFFABLE AFFABLY AFFAIRS AFFECTS AFFIRMS AFFIXED AFFIXES AFFLICT AFFORDS AFFRAYS AFFRONT AFGHANS AGAINST AGELESS AGENDAS AGILELY AGILITY AGITATE AGONIES AGONIZE AGROUND AILERON AILMENT AIMLESS AIRDROP AIRFARE AIRFOIL AIRHEAD AIRIEST AIRINGS AIRLESS AIRLIFT AIRLINE AIRMAIL AIRPORT AIRSHIP AIRSICK AIRWAYS ALARMED ALBINOS ALBUMEN ALBUMIN ALCHEMY ALCOHOL ALCOVES ALERTED ALERTLY ALFALFA ALGEBRA ALIASED ALIASES ALIBIED ALIENED ALIGHTS ALIGNED ALIMONY ALLAYED ALLEGED ALLEGES ALLEGRO ALLERGY ALLOVER ALLOWED ALLOYED ALLUDED ALLUDES ALLURED ALLURES ALLYING ALMANAC ALMONDS ALPACAS ALREADY ALRIGHT ALTERED ALUMNAE ALUMNUS AMALGAM AMASSED AMASSES AMATEUR AMATORY AMAZING AMAZONS AMBIENT AMBLING AMENDED AMENITY AMIABLE AMIABLY AMMETER AMMONIA AMNESIA AMNESTY AMOEBAE AMOEBAS AMOEBIC AMOROUS AMOUNTS AMPERES AMPLEST AMPLIFY AMPULES AMPUTEE AMULETS AMUSING ANAGRAM ANALOGS ANALOGY ANALYST ANALYZE ANAPEST ANARCHY ANATOMY ANCHORS ANCHOVY ANCIENT ANDANTE ANDIRON ANDROID ANEMONE ANGELIC ANGERED ANGLERS ANGLING ANGORAS ANGRIER ANGRILY ANGUISH ANGULAR ANIMALS ANIMATE ANIMISM ANIMIST ANISEED ANKLETS ANNEALS ANNEXED ANNEXES ANNOYED ANNUALS ANNUITY ANNULAR ANODYNE ANOINTS ANOMALY ANORAKS ANOTHER ANSWERS ANTACID ANTEING ANTENNA ANTHEMS ANTHERS ANTHILL ANTHRAX ANTIGEN ANTIQUE ANTIWAR ANTLERS ANTONYM ANXIETY ANXIOUS ANYBODY ANYMORE ANYTIME APHASIA APHASIC APHELIA APLENTY APOGEES APOLOGY APOSTLE APPALLS APPAREL APPEALS APPEARS APPEASE APPENDS APPLAUD APPLIED APPLIES APPOINT APPRISE APPROVE APRICOT APROPOS APTNESS AQUATIC AQUAVIT AQUEOUS AQUIFER ARBITER ARBUTUS ARCADES ARCHAIC ARCHERS ARCHERY ARCHEST ARCHING ARCHIVE ARCHWAY ARCTICS ARDUOUS ARGUING ARGYLES ARIDITY ARISING ARMADAS ARMBAND ARMFULS ARMHOLE ARMLETS ARMORED ARMORER ARMPITS ARMREST AROUSAL AROUSED AROUSES ARRAIGN ARRANGE ARRAYED ARREARS ARRESTS ARRIVAL ARRIVED ARRIVES ARROYOS ARSENAL ARSENIC ARTICLE ARTIEST ARTISAN ARTISTE ARTISTS ARTLESS ARTSIER ARTWORK ASCENDS ASCENTS ASCETIC ASCRIBE ASEPTIC ASEXUAL ASHAMED ASHCANS ASHIEST ASHRAMS ASHTRAY ASININE ASKANCE ASOCIAL ASPECTS ASPHALT ASPIRED ASPIRES ASPIRIN ASSAILS ASSAULT ASSAYED ASSENTS ASSERTS ASSHOLE ASSIGNS ASSISTS ASSIZES ASSORTS ASSUAGE ASSUMED ASSUMES ASSURED ASSURES ASTOUND ASTRIDE ASTUTER ASUNDER ASYLUMS ATAVISM ATELIER ATHEISM ATHEIST ATHLETE ATLASES ATONING ATROPHY ATTACKS ATTAINS ATTEMPT ATTENDS ATTESTS ATTIRED ATTIRES ATTRACT ATTUNED ATTUNES AUCTION AUDIBLE AUDIBLY AUDITED AUDITOR AUGMENT AUGURED AURALLY AUREOLE AURICLE AUSPICE AUSTERE AUTHORS AUTOPSY AUTUMNS AVAILED AVARICE AVATARS AVENGED AVENGER AVENGES AVENUES AVERAGE AVERRED AVERTED AVIATOR AVIDITY AVOCADO AVOIDED AVOWALS AVOWING AWAITED AWAKENS AWAKING AWARDED AWESOME AWFULLY AWKWARD AWNINGS AZALEAS AZIMUTH',
+    B: 'BABBLED BABBLER BABBLES BABIEST BABOONS BABYING BABYISH BABYSAT BABYSIT BACILLI BACKBIT BACKERS BACKHOE BACKING BACKLOG BACKUPS BADDEST BADGERS BADNESS BAFFLED BAFFLES BAGGAGE BAGGIER BAGGING BAGPIPE BAILIFF BAILING BAILOUT BAITING BALANCE BALCONY BALDEST BALDING BALEFUL BALKIER BALKING BALLADS BALLAST BALLETS BALLING BALLOON BALLOTS BALMIER BALONEY BALSAMS BAMBOOS BANANAS BANDAGE BANDIED BANDIER BANDIES BANDING BANDITS BANEFUL BANGING BANGLES BANKERS BANKING BANNERS BANNING BANQUET BANSHEE BANTAMS BANTERS BANYANS BAOBABS BAPTISM BAPTIST BAPTIZE BARBELL BARBERS BARBING BARFING BARGAIN BARGING BARISTA BARKERS BARKING BARMAID BARONET BAROQUE BARRACK BARRAGE BARRELS BARRENS BARRIER BARRING BARRIOS BARROOM BARROWS BARTERS BASEMAN BASEMEN BASHFUL BASHING BASKETS BASKING BASSIST BASSOON BASTARD BASTING BASTION BATCHED BATCHES BATHERS BATHING BATHMAT BATHTUB BATSMAN BATSMEN BATTENS BATTERS BATTERY BATTIER BATTING BATTLED BATTLES BAUBLES BAUXITE BAWDIER BAWDILY BAWLING BAYONET BAZAARS BAZOOKA BEACHED BEACHES BEACONS BEADIER BEADING BEAGLES BEAKERS BEAMING BEANBAG BEANING BEARDED BEARERS BEARING BEARISH BEASTLY BEATERS BEATIFY BEATING BEATNIK BEAVERS BECALMS BECAUSE BECKONS BECOMES BEDBUGS BEDDING BEDECKS BEDEVIL BEDLAMS BEDPANS BEDROCK BEDROLL BEDROOM BEDSIDE BEDSORE BEDTIME BEECHES BEEFIER BEEFING BEEHIVE BEELINE BEEPERS BEEPING BEESWAX BEETLED BEETLES BEFALLS BEFOULS BEGGARS BEGGING BEGONIA BEGUILE BEHAVED BEHAVES BEHEADS BEHESTS BEHINDS BEHOLDS BEHOOVE BELABOR BELATED BELAYED BELCHED BELCHES BELIEFS BELIEVE BELLBOY BELLHOP BELLIED BELLIES BELLING BELLOWS BELONGS BELOVED BELTING BELTWAY BELYING BEMOANS BEMUSED BEMUSES BENCHED BENCHES BENDING BENEATH BENEFIT BENUMBS BENZENE BEQUEST BERATED BERATES BEREAVE BERRIED BERRIES BERSERK BERTHED BESEECH BESIDES BESIEGE BESPEAK BESPOKE BESTIAL BESTING BESTIRS BESTOWS BETAKEN BETAKES BETHINK BETIDED BETIDES BETOKEN BETRAYS BETROTH BETTERS BETTING BETTORS BETWEEN BETWIXT BEVELED BEWAILS BEWARED BEWARES BEWITCH BIASING BICKERS BICYCLE BIDDERS BIDDIES BIDDING BIFOCAL BIGGEST BIGGIES BIGHORN BIGNESS BIGOTED BIGOTRY BIGWIGS BIKINIS BILIOUS BILKING BILLETS BILLIES BILLING BILLION BILLOWS BILLOWY BINDERS BINDERY BINDING BINNING BIOLOGY BIPEDAL BIPLANE BIPOLAR BIRCHED BIRCHES BIRDIED BIRDIES BIRDING BIRETTA BIRTHED BIRTHER BISCUIT BISECTS BISHOPS BISMUTH BISTROS BITCHED BITCHES BITCOIN BITTERN BITTERS BITUMEN BIVALVE BIVOUAC BIZARRE BLABBED BLACKED BLACKEN BLACKER BLADDER BLAMING BLANDER BLANDLY BLANKED BLANKER BLANKET BLANKLY BLARING BLARNEY BLASTED BLASTER BLATANT BLAZERS BLAZING BLAZONS BLEAKER BLEAKLY BLEATED BLEEDER BLEEPED BLEMISH BLENDED BLENDER BLESSED BLESSES BLIGHTS BLINDED BLINDER BLINDLY BLINKED BLINKER BLINTZE BLISTER BLITHER BLITZED BLITZES BLOATED BLOBBED BLOCKED BLOGGED BLOGGER BLONDER BLONDES BLOODED BLOOMED BLOOMER BLOOPER BLOSSOM BLOTCHY BLOTTED BLOTTER BLOUSED BLOUSES BLOWERS BLOWGUN BLOWING BLOWOUT BLOWUPS BLUBBER BLUFFED BLUFFER BLUNDER BLUNTED BLUNTER BLUNTLY BLURRED BLURTED BLUSHED BLUSHER BLUSHES BLUSTER BOARDED BOARDER BOASTED BOASTER BOATERS BOATING BOATMAN BOATMEN BOBBIES BOBBING BOBBINS BOBBLED BOBBLES BOBCATS BOBSLED BOBTAIL BODEGAS BODICES BODKINS BOGEYED BOGGIER BOGGING BOGGLED BOGGLES BOILERS BOILING BOLDEST BOLEROS BOLOGNA BOLSTER BOLTING BOMBARD BOMBAST BOMBERS BOMBING BONANZA BONBONS BONDAGE BONDING BONFIRE BONGING BONIEST BONITOS BONKERS BONNETS BONNIER BONUSES BOOBIES BOOBING BOODLES BOOGIED BOOGIES BOOKEND BOOKIES BOOKING BOOKISH BOOKLET BOOMING BOORISH BOOSTED BOOSTER BOOTEES BOOTIES BOOTING BOOTLEG BOOZERS BOOZIER BOOZING BOPPING BORDERS BOREDOM BOROUGH BORROWS BORSCHT BOSSIER BOSSILY BOSSING BOTCHED BOTCHES BOTHERS BOTNETS BOTTLED BOTTLES BOTTOMS BOUDOIR BOULDER BOUNCED BOUNCER BOUNCES BOUNDED BOUNDEN BOUNDER BOUQUET BOURBON BOVINES BOWLERS BOWLING BOXCARS BOXWOOD BOYCOTT BOYHOOD BRACING BRACKEN BRACKET BRAGGED BRAGGER BRAIDED BRAILLE BRAINED BRAISED BRAISES BRAKING BRAMBLE BRANDED BRASHER BRASHLY BRASSES BRAVADO BRAVELY BRAVERY BRAVEST BRAVING BRAVURA BRAWLED BRAWLER BRAYING BRAZENS BRAZIER BREADED BREADTH BREAKER BREAKUP BREASTS BREATHE BREATHS BREATHY BREEDER BREEZED BREEZES BREVITY BREWERS BREWERY BREWING BRIBERY BRIBING BRICKED BRIDALS BRIDGED BRIDGES BRIDLED BRIDLES BRIEFED BRIEFER BRIEFLY BRIGADE BRIGAND BRIMFUL BRIMMED BRINIER BRISKED BRISKER BRISKET BRISKLY BRISTLE BRISTLY BRITTLE BROADEN BROADER BROADLY BROCADE BROGANS BROGUES BROILED BROILER BROKERS BROMIDE BROMINE BRONCHI BRONCOS BRONZED BRONZES BROODED BROODER BROOKED BROTHEL BROTHER BROUGHT BROWNED BROWNER BROWNIE BROWSED BROWSER BROWSES BRUISED BRUISER BRUISES BRUNETS BRUSHED BRUSHES BRUSQUE BRUTISH BUBBLED BUBBLES BUCKETS BUCKEYE BUCKING BUCKLED BUCKLER BUCKLES BUCKRAM BUCKSAW BUCOLIC BUDDIES BUDDING BUDGETS BUDGIES BUDGING BUFFALO BUFFERS BUFFETS BUFFING BUFFOON BUGABOO BUGBEAR BUGGERS BUGGIER BUGGIES BUGGING BUGLERS BUGLING BUILDER BUILDUP BUILTIN BULBOUS BULGIER BULGING BULIMIA BULIMIC BULKIER BULKING BULLDOG BULLETS BULLIED BULLIES BULLING BULLION BULLISH BULLOCK BULLPEN BULRUSH BULWARK BUMBLED BUMBLER BUMBLES BUMMERS BUMMEST BUMMING BUMPERS BUMPIER BUMPING BUMPKIN BUNCHED BUNCHES BUNDLED BUNDLES BUNGING BUNGLED BUNGLER BUNGLES BUNIONS BUNKERS BUNKING BUNNIES BUNTING BUOYANT BUOYING BURBLED BURBLES BURDENS BURDOCK BUREAUS BURGEON BURGERS BURGHER BURGLAR BURGLED BURGLES BURIALS BURLIER BURNERS BURNING BURNISH BURNOUT BURPING BURRING BURRITO BURROWS BURSARS BURYING BUSBIES BUSBOYS BUSHELS BUSHIER BUSHING BUSHMAN BUSHMEN BUSIEST BUSTERS BUSTING BUSTLED BUSTLES BUSYING BUTCHER BUTCHES BUTLERS BUTTERS BUTTERY BUTTING BUTTOCK BUTTONS BUYOUTS BUZZARD BUZZERS BUZZING BYGONES BYLINES BYWORDS',
+    C: 'CABANAS CABARET CABBAGE CABBIES CABBING CABINET CABLING CABOOSE CACHETS CACHING CACKLED CACKLES CADAVER CADDIED CADDIES CADDISH CADENCE CADENZA CADGERS CADGING CADMIUM CADUCEI CAESURA CAFTANS CAGIEST CAHOOTS CAISSON CAJOLED CAJOLES CALCIFY CALCINE CALCITE CALCIUM CALCULI CALIBER CALIPER CALIPHS CALKING CALLERS CALLING CALLOUS CALMEST CALMING CALORIC CALORIE CALUMNY CALVING CALYPSO CALYXES CAMBERS CAMBIUM CAMBRIC CAMERAS CAMPERS CAMPHOR CAMPIER CAMPING CANARDS CANASTA CANCANS CANCELS CANCERS CANDIED CANDIES CANDLED CANDLES CANINES CANKERS CANNERY CANNIER CANNILY CANNING CANNONS CANTATA CANTEEN CANTERS CANTING CANTONS CANTORS CANVASS CANYONS CAPABLE CAPABLY CAPERED CAPITAL CAPITOL CAPLETS CAPPING CAPRICE CAPSIZE CAPSTAN CAPSULE CAPTAIN CAPTION CAPTIVE CAPTORS CAPTURE CARAFES CARAMEL CARAVAN CARAWAY CARBIDE CARBINE CARBONS CARBOYS CARCASS CARDIAC CARDING CAREENS CAREERS CAREFUL CARFARE CARGOES CARIBOU CARJACK CARMINE CARNAGE CAROLED CAROLER CAROMED CAROTID CAROUSE CARPALS CARPELS CARPETS CARPING CARPORT CARRELS CARRIED CARRIER CARRIES CARRION CARROTS CARSICK CARTELS CARTING CARTONS CARTOON CARVERS CARVING CASCADE CASHEWS CASHIER CASHING CASINGS CASINOS CASKETS CASSAVA CASSIAS CASSOCK CASTERS CASTING CASTLED CASTLES CASTOFF CASTORS CASUALS CASUIST CATALOG CATALPA CATARRH CATBIRD CATBOAT CATCALL CATCHER CATCHES CATERED CATERER CATFISH CATHODE CATIONS CATKINS CATNAPS CATTAIL CATTIER CATTILY CATWALK CAULKED CAUSING CAUSTIC CAUTION CAVALRY CAVEATS CAVEMAN CAVEMEN CAVERNS CAVILED CAVORTS CAYENNE CEASING CEDILLA CEILING CELESTA CELLARS CELLIST CEMENTS CENSERS CENSORS CENSURE CENTAUR CENTERS CENTIME CENTRAL CENTURY CERAMIC CEREALS CEREBRA CERTAIN CERTIFY CESSION CHAFFED CHAFING CHAGRIN CHAINED CHAIRED CHAISES CHALETS CHALICE CHALKED CHAMBER CHAMOIS CHAMPED CHANCED CHANCEL CHANCES CHANGED CHANGES CHANNEL CHANTED CHANTER CHANTEY CHAOTIC CHAPELS CHAPLET CHAPPED CHAPTER CHARADE CHARGED CHARGER CHARGES CHARIER CHARILY CHARIOT CHARITY CHARMED CHARMER CHARRED CHARTED CHARTER CHASERS CHASING CHASSIS CHASTEN CHASTER CHATTED CHATTEL CHATTER CHEAPEN CHEAPER CHEAPLY CHEATED CHEATER CHECKED CHECKER CHECKUP CHEDDAR CHEEKED CHEEPED CHEERED CHEESED CHEESES CHEETAH CHEMISE CHEMIST CHERISH CHEROOT CHERUBS CHERVIL CHEVRON CHEWERS CHEWIER CHEWING CHICEST CHICHIS CHICKEN CHICORY CHIDING CHIEFER CHIEFLY CHIFFON CHIGGER CHIGNON CHILIES CHILLED CHILLER CHIMERA CHIMING CHIMNEY CHINKED CHINNED CHINTZY CHIPPED CHIPPER CHIRPED CHIRRUP CHISELS CHOCKED CHOICER CHOICES CHOKERS CHOKING CHOLERA CHOMPED CHOOSES CHOPPED CHOPPER CHORALE CHORALS CHORTLE CHOWDER CHOWING CHROMED CHROMES CHRONIC CHUCKED CHUCKLE CHUGGED CHUMMED CHURNED CHUTNEY CICADAS CINCHED CINCHES CINDERS CINEMAS CIPHERS CIRCLED CIRCLES CIRCLET CIRCUIT CISTERN CITADEL CITIZEN CITRONS CIVILLY CIVVIES CLACKED CLAIMED CLAMBER CLAMMED CLAMORS CLAMPED CLANGED CLANGOR CLANKED CLAPPED CLAPPER CLARETS CLARIFY CLARION CLARITY CLASHED CLASHES CLASPED CLASSED CLASSES CLASSIC CLATTER CLAUSES CLAWING CLAYIER CLEANED CLEANER CLEANLY CLEANSE CLEANUP CLEARED CLEARER CLEARLY CLEAVED CLEAVER CLEAVES CLEMENT CLERICS CLERKED CLEWING CLICKED CLIENTS CLIMATE CLIMBED CLIMBER CLINICS CLINKED CLINKER CLIPPED CLIPPER CLIQUES CLOAKED CLOBBER CLOCHES CLOCKED CLOGGED CLOMPED CLONING CLOPPED CLOSELY CLOSEST CLOSETS CLOSING CLOSURE CLOTHED CLOTHES CLOTTED CLOTURE CLOUDED CLOUTED CLOVERS CLOWNED CLOYING CLUBBED CLUCKED CLUMPED CLUNKED CLUNKER CLUSTER CLUTTER COACHED COACHES COALING COARSEN COARSER COASTAL COASTED COASTER COATING COAXING COBBLED COBBLER COBBLES COBWEBS COCAINE COCHLEA COCKADE COCKIER COCKILY COCKING COCKLES COCKNEY COCKPIT COCONUT COCOONS CODDING CODDLED CODDLES CODEINE CODFISH CODGERS CODICES CODICIL COEQUAL COERCED COERCES COEVALS COEXIST COFFEES COFFERS COFFINS COGENCY COGNACS COGNATE COHABIT COHERED COHERES COHORTS COIFFED COILING COINAGE COINING COLDEST COLICKY COLITIS COLLAGE COLLARS COLLATE COLLECT COLLEEN COLLEGE COLLIDE COLLIER COLLIES COLLOID COLLUDE COLOGNE COLONEL COLONES COLORED COLOSSI COLTISH COLUMNS COMBATS COMBINE COMBING COMEDIC COMFIER COMFORT COMICAL COMINGS COMMAND COMMEND COMMENT COMMITS COMMODE COMMONS COMMUNE COMMUTE COMPACT COMPANY COMPARE COMPASS COMPELS COMPETE COMPILE COMPLEX COMPORT COMPOSE COMPOST COMPOTE COMPUTE COMRADE CONCAVE CONCEAL CONCEDE CONCEIT CONCEPT CONCERN CONCERT CONCISE CONCOCT CONCORD CONCURS CONDEMN CONDOLE CONDOMS CONDONE CONDORS CONDUCE CONDUCT CONDUIT CONFABS CONFERS CONFESS CONFIDE CONFINE CONFIRM CONFORM CONFUSE CONFUTE CONGAED CONGEAL CONGEST CONICAL CONIFER CONJOIN CONJURE CONKING CONNECT CONNING CONNIVE CONNOTE CONQUER CONSENT CONSIGN CONSIST CONSOLE CONSORT CONSULS CONSULT CONSUME CONTACT CONTAIN CONTEND CONTENT CONTEST CONTEXT CONTORT CONTOUR CONTROL CONTUSE CONVENE CONVENT CONVERT CONVEYS CONVICT CONVOKE CONVOYS COOKERS COOKERY COOKIES COOKING COOKOUT COOLANT COOLERS COOLEST COOLIES COOLING COOPERS COOPING COOTIES COPIERS COPILOT COPINGS COPIOUS COPPERS COPPERY COPPING COPTERS COPULAS COPYCAT COPYING CORDIAL CORDING CORDITE CORDONS CORKING CORNCOB CORNEAL CORNEAS CORNERS CORNETS CORNICE CORNIER CORNING CORNROW COROLLA CORONAS CORONER CORONET CORPORA CORPSES CORRALS CORRECT CORRODE CORRUPT CORSAGE CORSAIR CORSETS COSIGNS COSPLAY COSTARS COSTING COSTUME COTERIE COTTAGE COTTERS COTTONS COUCHED COUCHES COUGARS COUGHED COUNCIL COUNSEL COUNTED COUNTER COUNTRY COUPLED COUPLES COUPLET COUPONS COURAGE COURIER COURSED COURSER COURSES COURTED COURTLY COUSINS COVERED COVERTS COVETED COWARDS COWBIRD COWBOYS COWERED COWGIRL COWHAND COWHIDE COWLICK COWLING COWPOKE COWSLIP COXCOMB COYNESS COYOTES COZENED COZIEST CRABBED CRACKED CRACKER CRACKLE CRACKLY CRACKUP CRADLED CRADLES CRAFTED CRAMMED CRAMPED CRANIAL CRANING CRANIUM CRANKED CRAPPED CRASHED CRASHES CRASSER CRASSLY CRATERS CRATING CRAVATS CRAVENS CRAVING CRAWLED CRAYONS CRAZIER CRAZIES CRAZILY CRAZING CREAKED CREAMED CREAMER CREASED CREASES CREATED CREATES CREATOR CREDITS CREEPER CREMATE CREOLES CRESTED CRETINS CREVICE CREWING CREWMAN CREWMEN CRIBBED CRICKED CRICKET CRIMPED CRIMSON CRINGED CRINGES CRINKLE CRINKLY CRIPPLE CRISPED CRISPER CRISPLY CRITICS CRITTER CROAKED CROCHET CROCKED CRONIES CROOKED CROONED CROONER CROPPED CROPPER CROQUET CROSIER CROSSED CROSSER CROSSES CROSSLY CROWBAR CROWDED CROWING CROWNED CRUCIAL CRUCIFY CRUDELY CRUDEST CRUDITY CRUELER CRUELLY CRUELTY CRUISED CRUISER CRUISES CRULLER CRUMBED CRUMBLE CRUMBLY CRUMPET CRUMPLE CRUNCHY CRUSADE CRUSHED CRUSHES CRUSTED CRYBABY CRYINGS CRYPTIC CRYSTAL CUBICAL CUBICLE CUBISTS CUCKOLD CUCKOOS CUDDLED CUDDLES CUDGELS CUFFING CUISINE CULLING CULOTTE CULPRIT CULTURE CULVERT CUMMING CUMULUS CUNNING CUPCAKE CUPFULS CUPOLAS CUPPING CURABLE CURATES CURATOR CURBING CURDLED CURDLES CURFEWS CURIOUS CURLERS CURLEWS CURLIER CURLING CURRANT CURRENT CURRIED CURRIES CURSING CURSIVE CURSORS CURSORY CURTAIL CURTAIN CURTEST CURVIER CURVING CUSHIER CUSHION CUSPIDS CUSSING CUSTARD CUSTODY CUSTOMS CUTBACK CUTICLE CUTLASS CUTLERY CUTLETS CUTOFFS CUTOUTS CUTTERS CUTTING CYANIDE CYCLING CYCLIST CYCLONE CYGNETS CYMBALS CYNICAL CYPRESS CZARINA',
+    D: 'DABBING DABBLED DABBLER DABBLES DACTYLS DADDIES DAEMONS DAFFIER DAFTEST DAGGERS DAHLIAS DAILIES DAIRIES DAISIES DALLIED DALLIES DAMAGED DAMAGES DAMASKS DAMMING DAMNING DAMPENS DAMPERS DAMPEST DAMPING DAMSELS DAMSONS DANCERS DANCING DANDIER DANDIES DANDLED DANDLES DANGERS DANGLED DANGLES DANKEST DAPPLED DAPPLES DARKENS DARKEST DARLING DARNING DARTING DASHIKI DASHING DATIVES DAUBERS DAUBING DAUNTED DAUPHIN DAWDLED DAWDLER DAWDLES DAWNING DAYBEDS DAYTIME DAZZLED DAZZLES DEACONS DEADENS DEADEST DEADPAN DEAFENS DEAFEST DEALERS DEALING DEAREST DEARTHS DEATHLY DEBACLE DEBARKS DEBASED DEBASES DEBATED DEBATER DEBATES DEBAUCH DEBITED DEBRIEF DEBTORS DEBUNKS DEBUTED DECADES DECAMPS DECANTS DECAYED DECEASE DECEITS DECEIVE DECENCY DECIBEL DECIDED DECIDES DECIMAL DECKING DECLAIM DECLARE DECLINE DECODED DECODER DECODES DECORUM DECOYED DECREED DECREES DECRIED DECRIES DEDUCED DEDUCES DEDUCTS DEEDING DEEJAYS DEEMING DEEPENS DEEPEST DEFACED DEFACES DEFAMED DEFAMES DEFAULT DEFEATS DEFECTS DEFENDS DEFENSE DEFIANT DEFICIT DEFILED DEFILES DEFINED DEFINER DEFINES DEFLATE DEFLECT DEFORMS DEFRAUD DEFRAYS DEFROST DEFTEST DEFUNCT DEFUSED DEFUSES DEFYING DEGRADE DEGREES DEICERS DEICING DEIFIED DEIFIES DEIGNED DEITIES DEJECTS DELAYED DELETED DELETES DELIGHT DELIMIT DELIVER DELUDED DELUDES DELUGED DELUGES DELVING DEMANDS DEMEANS DEMERIT DEMESNE DEMIGOD DEMISED DEMISES DEMOING DEMONIC DEMOTED DEMOTES DEMOUNT DEMURER DENIALS DENIERS DENIZEN DENOTED DENOTES DENSELY DENSEST DENSITY DENTING DENTIST DENTURE DENUDED DENUDES DENYING DEPARTS DEPENDS DEPICTS DEPLANE DEPLETE DEPLORE DEPLOYS DEPORTS DEPOSED DEPOSES DEPOSIT DEPRAVE DEPRESS DEPRIVE DEPUTED DEPUTES DERAILS DERANGE DERBIES DERIDED DERIDES DERIVED DERIVES DERRICK DERVISH DESCANT DESCEND DESCENT DESERTS DESERVE DESIGNS DESIRED DESIRES DESISTS DESKTOP DESPAIR DESPISE DESPITE DESPOIL DESPOTS DESSERT DESTINE DESTINY DESTROY DETAILS DETAINS DETECTS DETESTS DETOURS DETOXED DETOXES DETRACT DEVALUE DEVELOP DEVIANT DEVIATE DEVICES DEVILED DEVILRY DEVIOUS DEVISED DEVISES DEVOLVE DEVOTED DEVOTEE DEVOTES DEVOURS DEWDROP DEWIEST DEWLAPS DIADEMS DIAGRAM DIALECT DIALING DIAMOND DIAPERS DIARIES DIARIST DIATOMS DIBBLED DIBBLES DICIEST DICKERS DICKEYS DICTATE DICTION DIDDLED DIDDLES DIESELS DIETARY DIETERS DIETING DIFFERS DIFFUSE DIGESTS DIGGERS DIGGING DIGITAL DIGNIFY DIGNITY DIGRAPH DIGRESS DILATED DILATES DILEMMA DILLIES DILUTED DILUTES DIMMERS DIMMEST DIMMING DIMNESS DIMPLED DIMPLES DIMWITS DINETTE DINGIER DINGING DINGOES DINKIER DINKIES DINNERS DINNING DIOCESE DIORAMA DIOXIDE DIOXINS DIPLOMA DIPPERS DIPPING DIRECTS DIRTIED DIRTIER DIRTIES DISABLE DISARMS DISAVOW DISBAND DISBARS DISCARD DISCERN DISCOED DISCORD DISCUSS DISDAIN DISEASE DISGUST DISHING DISHPAN DISHRAG DISLIKE DISMAYS DISMISS DISOBEY DISOWNS DISPELS DISPLAY DISPORT DISPOSE DISPUTE DISROBE DISRUPT DISSECT DISSENT DISSING DISTAFF DISTANT DISTEND DISTILL DISTORT DISTURB DISUSED DISUSES DITCHED DITCHES DITHERS DITTIES DITTOED DIURNAL DIVERGE DIVERSE DIVERTS DIVESTS DIVIDED DIVIDER DIVIDES DIVINED DIVINER DIVINES DIVISOR DIVORCE DIVULGE DIVVIED DIVVIES DIZZIED DIZZIER DIZZIES DIZZILY DOCENTS DOCKETS DOCKING DOCTORS DODDERS DODGERS DODGING DOFFING DOGFISH DOGGIER DOGGIES DOGGING DOGGONE DOGTROT DOGWOOD DOILIES DOLEFUL DOLLARS DOLLIES DOLLING DOLLOPS DOLMENS DOLPHIN DOLTISH DOMAINS DONATED DONATES DONKEYS DONNING DOODADS DOODLED DOODLER DOODLES DOOMING DOORMAN DOORMAT DOORMEN DOORWAY DOPIEST DORKIER DORMANT DORMERS DORMICE DOSAGES DOSSIER DOTCOMS DOTTING DOUBLED DOUBLES DOUBLET DOUBTED DOUBTER DOUCHED DOUCHES DOUGHTY DOUREST DOUSING DOWAGER DOWDIER DOWDIES DOWDILY DOWELED DOWNERS DOWNIER DOWNING DOWRIES DOWSING DRABBER DRACHMA DRAFTED DRAFTEE DRAGGED DRAGNET DRAGONS DRAGOON DRAINED DRAINER DRAPERY DRAPING DRASTIC DRAWERS DRAWING DRAWLED DREADED DREAMED DREAMER DREDGED DREDGER DREDGES DRESSED DRESSER DRESSES DRIBBLE DRIBLET DRIFTED DRIFTER DRILLED DRINKER DRIPPED DRIVELS DRIVERS DRIVING DRIZZLE DRIZZLY DROLLER DRONING DROOLED DROOPED DROPLET DROPOUT DROPPED DROPPER DROUGHT DROVERS DROWNED DROWSED DROWSES DRUBBED DRUDGED DRUDGES DRUGGED DRUMMED DRUMMER DRUNKEN DRUNKER DRYNESS DRYWALL DUALISM DUALITY DUBBING DUBIETY DUBIOUS DUCHESS DUCHIES DUCKING DUCTILE DUCTING DUDGEON DUELING DUELIST DUFFERS DUGOUTS DUKEDOM DULLARD DULLEST DULLING DUMBEST DUMMIES DUMPIER DUMPING DUNGEON DUNGING DUNKING DUNNEST DUNNING DUODENA DURABLE DURABLY DUSKIER DUSTBIN DUSTERS DUSTIER DUSTING DUSTMAN DUSTMEN DUSTPAN DUTEOUS DUTIFUL DWARFED DWELLER DWINDLE DYNAMIC DYNAMOS DYNASTY',
+    E: 'EAGERER EAGERLY EAGLETS EARACHE EARBUDS EARDRUM EARFULS EARLDOM EARLIER EARLOBE EARMARK EARMUFF EARNERS EARNEST EARNING EARPLUG EARRING EARSHOT EARTHED EARTHEN EARTHLY EARWIGS EASIEST EASTERN EATABLE EBONIES ECHELON ECHOING ECLIPSE ECOLOGY ECONOMY ECSTASY EDAMAME EDDYING EDGIEST EDGINGS EDIBLES EDIFICE EDIFIED EDIFIES EDITING EDITION EDITORS EDUCATE EERIEST EFFACED EFFACES EFFECTS EFFORTS EGGHEAD EGOISTS EGOTISM EGOTIST EIGHTHS EJECTED ELAPSED ELAPSES ELASTIC ELATING ELATION ELBOWED ELDERLY ELECTED ELECTOR ELEGANT ELEGIAC ELEGIES ELEMENT ELEVATE ELEVENS ELICITS ELIDING ELISION ELITISM ELITIST ELIXIRS ELLIPSE ELOPING ELUDING ELUSIVE EMAILED EMANATE EMBALMS EMBARGO EMBARKS EMBASSY EMBLEMS EMBRACE EMBROIL EMBRYOS EMENDED EMERALD EMERGED EMERGES EMETICS EMINENT EMIRATE EMITTED EMOTING EMOTION EMOTIVE EMPATHY EMPEROR EMPIRES EMPLOYS EMPOWER EMPRESS EMPTIED EMPTIER EMPTIES EMPTILY EMULATE ENABLED ENABLES ENACTED ENAMELS ENAMORS ENCAMPS ENCASED ENCASES ENCHANT ENCLAVE ENCLOSE ENCODED ENCODER ENCODES ENCORED ENCORES ENCRUST ENCRYPT ENDEARS ENDEMIC ENDINGS ENDIVES ENDLESS ENDORSE ENDOWED ENDUING ENDURED ENDURES ENDWAYS ENEMIES ENFOLDS ENFORCE ENGAGED ENGAGES ENGINES ENGORGE ENGRAVE ENGROSS ENGULFS ENHANCE ENIGMAS ENJOINS ENJOYED ENLARGE ENLISTS ENLIVEN ENNOBLE ENRAGED ENRAGES ENROLLS ENSIGNS ENSLAVE ENSNARE ENSUING ENSURED ENSURES ENTAILS ENTENTE ENTERED ENTHUSE ENTICED ENTICES ENTITLE ENTOMBS ENTRANT ENTRAPS ENTREAT ENTRIES ENTROPY ENTRUST ENTWINE ENVELOP ENVIOUS ENVYING ENZYMES EPAULET EPICURE EPIGRAM EPISODE EPISTLE EPITAPH EPITHET EPITOME EPOCHAL EPOXIED EPOXIES EPSILON EQUABLE EQUABLY EQUALED EQUALLY EQUATED EQUATES EQUATOR EQUINES EQUINOX ERASERS ERASING ERASURE ERECTED ERECTLY ERMINES ERODING EROSION EROSIVE EROTICA ERRANDS ERRATAS ERRATIC ERRATUM ERUDITE ERUPTED ESCAPED ESCAPEE ESCAPES ESCHEWS ESCORTS ESCROWS ESPOUSE ESPYING ESQUIRE ESSAYED ESSENCE ESTATES ESTEEMS ESTUARY ETCHERS ETCHING ETERNAL ETHICAL ETHNICS EUNUCHS EUPHONY EVACUEE EVADING EVASION EVASIVE EVENEST EVENING EVICTED EVIDENT EVILEST EVINCED EVINCES EVOKING EVOLVED EVOLVES EXACTED EXACTER EXACTLY EXALTED EXAMINE EXAMPLE EXCEEDS EXCEPTS EXCERPT EXCISED EXCISES EXCITED EXCITES EXCLAIM EXCLUDE EXCRETA EXCRETE EXCUSED EXCUSES EXECUTE EXEMPTS EXERTED EXHALED EXHALES EXHAUST EXHIBIT EXHORTS EXHUMED EXHUMES EXIGENT EXILING EXISTED EXITING EXOTICS EXPANDS EXPANSE EXPECTS EXPENDS EXPENSE EXPERTS EXPIATE EXPIRED EXPIRES EXPLAIN EXPLODE EXPLOIT EXPLORE EXPORTS EXPOSED EXPOSES EXPOUND EXPRESS EXPUNGE EXTENDS EXTENTS EXTINCT EXTORTS EXTRACT EXTREME EXTRUDE EXUDING EXULTED EYEBALL EYEBROW EYEFULS EYELASH EYELETS EYELIDS EYESORE',
+    F: 'FABRICS FACADES FACETED FACIALS FACINGS FACTION FACTORS FACTORY FACTUAL FACULTY FADDISH FAGGING FAGGOTS FAILING FAILURE FAINEST FAINTED FAINTER FAINTLY FAIREST FAIRIES FAIRWAY FALCONS FALLACY FALLING FALLOFF FALLOUT FALLOWS FALSELY FALSEST FALSIFY FALSITY FALTERS FAMINES FANATIC FANBOYS FANCIED FANCIER FANCIES FANCILY FANFARE FANNIES FANNING FANTASY FANZINE FARAWAY FARMERS FARMING FARROWS FARTHER FARTING FASCISM FASCIST FASHION FASTENS FASTEST FASTING FATALLY FATEFUL FATHEAD FATHERS FATHOMS FATIGUE FATNESS FATTENS FATTEST FATTIER FATTIES FATUOUS FAUCETS FAULTED FAVORED FAWNING FEARFUL FEARING FEASTED FEATHER FEATURE FEBRILE FEDERAL FEDORAS FEEBLER FEEDBAG FEEDERS FEEDING FEELERS FEELING FEIGNED FEINTED FELINES FELLEST FELLING FELLOWS FELTING FEMALES FEMORAL FENCERS FENCING FENDERS FENDING FERMENT FERRETS FERRIED FERRIES FERROUS FERRULE FERTILE FERVENT FESTERS FESTIVE FESTOON FETCHED FETCHES FETLOCK FETTERS FETUSES FEUDING FEVERED FIBBERS FIBBING FIBROID FIBROUS FIBULAE FICKLER FICTION FIDDLED FIDDLER FIDDLES FIDGETS FIDGETY FIELDED FIELDER FIERCER FIERIER FIESTAS FIFTEEN FIFTIES FIGHTER FIGMENT FIGURED FIGURES FILBERT FILCHED FILCHES FILINGS FILLERS FILLETS FILLIES FILLING FILLIPS FILMIER FILMING FILTERS FINAGLE FINALES FINALLY FINANCE FINCHES FINDERS FINDING FINESSE FINGERS FINICKY FINISES FINKING FIREARM FIREBUG FIREFLY FIREMAN FIREMEN FIRMEST FIRMING FIRSTLY FISCALS FISHERS FISHERY FISHIER FISHING FISHNET FISSION FISSURE FISTFUL FITNESS FITTERS FITTEST FITTING FIXABLE FIXATED FIXATES FIXEDLY FIXINGS FIXTURE FIZZIER FIZZING FIZZLED FIZZLES FLACCID FLAGGED FLAGONS FLAILED FLAKIER FLAKING FLAMBES FLAMING FLANGES FLANKED FLANNEL FLAPPED FLAPPER FLARING FLASHED FLASHER FLASHES FLATBED FLATCAR FLATTED FLATTEN FLATTER FLATTOP FLAUNTS FLAVORS FLAWING FLAYING FLECKED FLEDGED FLEECED FLEECES FLEEING FLEETED FLEETER FLESHED FLESHES FLESHLY FLEXING FLICKED FLICKER FLIGHTS FLIGHTY FLIPPED FLIPPER FLIRTED FLITTED FLOATED FLOATER FLOCKED FLOGGED FLOODED FLOODER FLOORED FLOPPED FLORINS FLORIST FLOSSED FLOSSES FLOTSAM FLOUNCE FLOURED FLOUTED FLOWERS FLOWERY FLOWING FLUBBED FLUENCY FLUFFED FLUIDLY FLUKIER FLUMMOX FLUNKED FLUSHED FLUSHER FLUSHES FLUSTER FLUTING FLUTIST FLUTTER FLUXING FLYLEAF FLYOVER FOALING FOAMIER FOAMING FOBBING FOCUSED FOCUSES FODDERS FOGGIER FOGGING FOGHORN FOIBLES FOILING FOISTED FOLDERS FOLDING FOLIAGE FOLLIES FOLLOWS FOMENTS FONDANT FONDEST FONDLED FONDLES FONDUES FOOLERY FOOLING FOOLISH FOOTAGE FOOTING FOOTMAN FOOTMEN FOOTSIE FOPPISH FORAGED FORAGER FORAGES FORAYED FORBADE FORBEAR FORBIDS FORBORE FORCEPS FORCING FORDING FOREARM FOREIGN FORELEG FOREMAN FOREMEN FORESAW FORESEE FORESTS FOREVER FORFEIT FORGAVE FORGERS FORGERY FORGETS FORGING FORGIVE FORGOES FORGONE FORKING FORLORN FORMALS FORMATS FORMING FORMULA FORSAKE FORSOOK FORTIES FORTIFY FORTUNE FORWARD FORWENT FOSSILS FOSTERS FOULEST FOULING FOUNDED FOUNDER FOUNDRY FOURTHS FOWLING FOXHOLE FOXIEST FOXTROT FRACKED FRACTAL FRAGILE FRAILER FRAILTY FRAMERS FRAMING FRANKED FRANKER FRANKLY FRANTIC FRAPPES FRAUGHT FRAYING FRAZZLE FREAKED FRECKLE FREEBIE FREEDOM FREEING FREEMAN FREEMEN FREEWAY FREEZER FREEZES FREIGHT FRESHEN FRESHER FRESHET FRESHLY FRETFUL FRETTED FRIABLE FRIDGES FRIENDS FRIEZES FRIGATE FRIGHTS FRINGED FRINGES FRISKED FRITTER FRIZZED FRIZZES FRIZZLE FROGMAN FROGMEN FROLICS FRONTAL FRONTED FROSTED FROTHED FROWNED FRUITED FUCHSIA FUCKERS FUCKING FUDDLED FUDDLES FUDGING FUELING FULCRUM FULFILL FULLEST FULLING FULSOME FUMBLED FUMBLER FUMBLES FUNDING FUNERAL FUNGOUS FUNKIER FUNKING FUNNELS FUNNEST FUNNIER FUNNIES FUNNILY FURBISH FURIOUS FURLING FURLONG FURNACE FURNISH FURRIER FURRING FURROWS FURTHER FURTIVE FUSIBLE FUSIONS FUSSIER FUSSILY FUSSING FUSTIAN FUSTIER FUTURES FUTZING FUZZIER FUZZILY FUZZING',
+    G: 'GABBIER GABBING GABBLED GABBLES GADDING GADGETS GAFFING GAGGING GAGGLES GAINFUL GAINING GAINSAY GAITERS GALLANT GALLEON GALLERY GALLEYS GALLING GALLIUM GALLONS GALLOPS GALLOWS GAMBITS GAMBLED GAMBLER GAMBLES GAMBOLS GAMETES GAMIEST GAMINES GANDERS GANGING GANGLIA GANGWAY GANNETS GANTLET GARAGED GARAGES GARBAGE GARBING GARBLED GARBLES GARDENS GARGLED GARGLES GARLAND GARMENT GARNERS GARNETS GARNISH GARRETS GARROTE GARTERS GASEOUS GASHING GASKETS GASOHOL GASPING GASSIER GASSING GASTRIC GATEWAY GATHERS GAUCHER GAUCHOS GAUDIER GAUDILY GAUGING GAUNTER GAUZIER GAVOTTE GAWKIER GAWKILY GAWKING GAYNESS GAZEBOS GAZELLE GAZETTE GEARBOX GEARING GEEKIER GEEZERS GELATIN GELDING GELLING GENDERS GENERAL GENERIC GENESES GENESIS GENETIC GENITAL GENOMES GENTEEL GENTIAN GENTILE GENTLED GENTLER GENTLES GENUINE GEOLOGY GERBILS GERMANE GERUNDS GESTATE GESTURE GETAWAY GETTING GEWGAWS GEYSERS GHASTLY GHERKIN GHETTOS GHOSTED GHOSTLY GIBBERS GIBBETS GIBBONS GIBLETS GIDDIER GIDDILY GIFTING GIGABIT GIGGING GIGGLED GIGGLER GIGGLES GIGOLOS GILDING GIMLETS GIMMICK GINGHAM GINNING GINSENG GIRAFFE GIRDERS GIRDING GIRDLED GIRDLES GIRLISH GIRTING GIZZARD GLACIAL GLACIER GLADDEN GLADDER GLAMOUR GLANCED GLANCES GLARING GLASSED GLASSES GLAZIER GLAZING GLEAMED GLEANED GLEEFUL GLIBBER GLIDERS GLIDING GLIMMER GLIMPSE GLINTED GLISTEN GLITTER GLOATED GLOBULE GLORIED GLORIES GLORIFY GLOSSED GLOSSES GLOTTIS GLOVING GLOWERS GLOWING GLUCOSE GLUIEST GLUMMER GLUTTED GLUTTON GNARLED GNASHED GNASHES GNAWING GNOMISH GOADING GOALIES GOATEES GOBBING GOBBLED GOBBLER GOBBLES GOBLETS GOBLINS GODDAMN GODDESS GODHOOD GODLESS GODLIER GODLIKE GODSEND GODSONS GOGGLED GOGGLES GOITERS GOLFERS GOLFING GOLLIES GONDOLA GONGING GOOBERS GOODBYE GOODIES GOOFIER GOOFING GOOGLED GOOGLES GOOIEST GOOSING GOPHERS GORGING GORIEST GORILLA GOSLING GOSPELS GOSSIPS GOSSIPY GOUGERS GOUGING GOULASH GOURMET GOUTIER GOVERNS GOWNING GRABBED GRABBER GRACING GRACKLE GRADERS GRADING GRADUAL GRAFTED GRAFTER GRAMMAR GRANARY GRANDEE GRANDER GRANDLY GRANDMA GRANDPA GRANGES GRANITE GRANOLA GRANTED GRANULE GRAPHED GRAPHIC GRAPNEL GRAPPLE GRASPED GRASSED GRASSES GRATERS GRATIFY GRATING GRAVELS GRAVELY GRAVEST GRAVIES GRAVING GRAVITY GRAYEST GRAYING GRAYISH GRAZING GREASED GREASES GREATER GREATLY GREENED GREENER GREETED GREMLIN GRENADE GRIDDLE GRIEVED GRIEVES GRIFFIN GRILLED GRILLES GRIMACE GRIMIER GRIMING GRIMMER GRINDER GRINGOS GRINNED GRIPING GRIPPED GRISTLE GRISTLY GRITTED GRIZZLY GROANED GROCERS GROCERY GROMMET GROOMED GROOVED GROOVES GROPING GROSSED GROSSER GROSSES GROSSLY GROUCHY GROUNDS GROUPED GROUPER GROUPIE GROUSED GROUSES GROUTED GROVELS GROWERS GROWING GROWLED GROWNUP GROWTHS GRUBBED GRUDGED GRUDGES GRUFFER GRUFFLY GRUMBLE GRUNTED GUARDED GUESSED GUESSER GUESSES GUESTED GUFFAWS GUIDING GUILDER GUINEAS GUITARS GULCHES GULLETS GULLIES GULLING GULPING GUMDROP GUMMIER GUMMING GUNBOAT GUNFIRE GUNNERS GUNNERY GUNNING GUNSHOT GUNWALE GUPPIES GURGLED GURGLES GURNEYS GUSHERS GUSHIER GUSHING GUSSETS GUSTIER GUSTING GUTLESS GUTSIER GUTTERS GUTTING GUZZLED GUZZLER GUZZLES GYMNAST GYPPING GYPSIES GYRATED GYRATES',
+    H: 'HABITAT HACKERS HACKING HACKLES HACKNEY HACKSAW HADDOCK HAFNIUM HAGGARD HAGGLED HAGGLER HAGGLES HAILING HAIRCUT HAIRDOS HAIRIER HAIRNET HAIRPIN HALBERD HALCYON HALFWAY HALIBUT HALLOWS HALLWAY HALOGEN HALOING HALTERS HALTING HALVING HALYARD HAMLETS HAMMERS HAMMING HAMMOCK HAMPERS HAMSTER HANDBAG HANDCAR HANDFUL HANDGUN HANDIER HANDILY HANDING HANDLED HANDLER HANDLES HANDOUT HANDSET HANGARS HANGDOG HANGERS HANGING HANGMAN HANGMEN HANGOUT HANKERS HANKIES HANSOMS HAPLESS HAPPENS HAPPIER HAPPILY HARBORS HARDENS HARDEST HARDIER HARDILY HARDTOP HARELIP HARKING HARLOTS HARMFUL HARMING HARMONY HARNESS HARPIES HARPING HARPIST HARPOON HARRIED HARRIES HARROWS HARSHER HARSHLY HARVEST HASHING HASHISH HASHTAG HASSLED HASSLES HASSOCK HASTENS HASTIER HASTILY HASTING HATCHED HATCHES HATCHET HATEFUL HATREDS HATTERS HATTING HAUGHTY HAULERS HAULING HAUNTED HAUTEUR HAWKERS HAWKING HAWKISH HAWSERS HAYCOCK HAYLOFT HAYMOWS HAYSEED HAYWIRE HAZARDS HAZIEST HAZINGS HEADERS HEADIER HEADING HEADSET HEADWAY HEALERS HEALING HEALTHY HEAPING HEARERS HEARING HEARKEN HEARSAY HEARSES HEARTEN HEARTHS HEATERS HEATHEN HEATHER HEATING HEAVENS HEAVIER HEAVIES HEAVILY HEAVING HECKLED HECKLER HECKLES HECTARE HECTORS HEDGING HEEDFUL HEEDING HEEHAWS HEELING HEFTIER HEFTING HEIFERS HEIGHTS HEINOUS HEIRESS HEISTED HELICAL HELICES HELLION HELLISH HELMETS HELPERS HELPFUL HELPING HEMLINE HEMLOCK HEMMING HENNAED HENPECK HEPATIC HEPPEST HERALDS HERBAGE HERDERS HERDING HERETIC HERMITS HERNIAS HEROICS HEROINE HEROINS HEROISM HERRING HERSELF HEXAGON HEYDAYS HIBACHI HICCUPS HICKEYS HICKORY HIDEOUS HIDEOUT HIGHBOY HIGHEST HIGHWAY HIJACKS HILLIER HILLOCK HILLTOP HIMSELF HINDERS HINGING HINTING HIPPEST HIPPIES HIPPING HIRSUTE HISSING HISTORY HITCHED HITCHES HITTERS HITTING HOAGIES HOARDED HOARDER HOARIER HOARSER HOAXERS HOAXING HOBBIES HOBBLED HOBBLES HOBNAIL HOBNOBS HOCKING HOEDOWN HOGGING HOGGISH HOGWASH HOISTED HOKIEST HOLDERS HOLDING HOLDOUT HOLDUPS HOLIDAY HOLIEST HOLLERS HOLLIES HOLLOWS HOLSTER HOMAGES HOMBURG HOMEBOY HOMERED HOMIEST HOMONYM HONCHOS HONESTY HONEYED HONKING HONORED HOODIES HOODING HOODLUM HOODOOS HOOFING HOOKAHS HOOKERS HOOKING HOOKUPS HOOPING HOOTERS HOOTING HOPEFUL HOPPERS HOPPING HORDING HORIZON HORMONE HORNETS HORNIER HORRIFY HORRORS HORSIER HORSING HOSANNA HOSIERY HOSPICE HOSTAGE HOSTELS HOSTESS HOSTILE HOSTING HOSTLER HOTBEDS HOTCAKE HOTHEAD HOTKEYS HOTNESS HOTSHOT HOTTEST HOUNDED HOUSING HOVERED HOWDAHS HOWEVER HOWLERS HOWLING HUBBIES HUBBUBS HUBCAPS HUDDLED HUDDLES HUFFIER HUFFILY HUFFING HUGGING HULKING HULLING HUMANER HUMANLY HUMBLED HUMBLER HUMBLES HUMBUGS HUMDRUM HUMERUS HUMIDOR HUMMING HUMMOCK HUMORED HUMPING HUNCHED HUNCHES HUNDRED HUNGERS HUNKERS HUNTERS HUNTING HURDLED HURDLER HURDLES HURLERS HURLING HURRAHS HURRIED HURRIES HURTFUL HURTING HURTLED HURTLES HUSBAND HUSHING HUSKERS HUSKIER HUSKIES HUSKILY HUSKING HUSSARS HUSSIES HUSTLED HUSTLER HUSTLES HUTCHES HYBRIDS HYDRANT HYDRATE HYGIENE HYMNALS HYMNING HYPHENS',
+    I: 'IAMBICS ICEBERG ICECAPS ICICLES ICINESS ICKIEST IDEALLY IDIOTIC IDOLIZE IDYLLIC IFFIEST IGNEOUS IGNITED IGNITES IGNOBLE IGNOBLY IGNORED IGNORES IGUANAS ILLEGAL ILLICIT ILLNESS IMAGERY IMAGINE IMAGING IMBIBED IMBIBES IMBUING IMITATE IMMENSE IMMERSE IMMORAL IMMURED IMMURES IMPACTS IMPAIRS IMPALAS IMPALED IMPALES IMPANEL IMPARTS IMPASSE IMPEACH IMPEDED IMPEDES IMPENDS IMPERIL IMPETUS IMPIETY IMPINGE IMPIOUS IMPLANT IMPLIED IMPLIES IMPLODE IMPLORE IMPORTS IMPOSED IMPOSES IMPOUND IMPRESS IMPRINT IMPROVE IMPUGNS IMPULSE IMPURER IMPUTED IMPUTES INANELY INANEST INANITY INBOARD INBOUND INBOXES INBREED INBUILT INCENSE INCHING INCISED INCISES INCISOR INCITED INCITES INCLINE INCLUDE INCOMES INCUBUS INDENTS INDEXED INDEXES INDICES INDICTS INDOORS INDUCED INDUCES INDUCTS INDULGE INEPTLY INERTIA INERTLY INEXACT INFANCY INFANTS INFECTS INFERNO INFESTS INFIDEL INFIELD INFLAME INFLATE INFLECT INFLICT INFORMS INFUSED INFUSES INGESTS INGRAIN INGRATE INGRESS INGROWN INHABIT INHALED INHALER INHALES INHERED INHERES INHERIT INHIBIT INHUMAN INITIAL INJECTS INJURED INJURES INKBLOT INKIEST INKLING INKWELL INMATES INNARDS INNINGS INQUEST INQUIRE INQUIRY INROADS INSANER INSEAMS INSECTS INSERTS INSHORE INSIDER INSIDES INSIGHT INSIPID INSISTS INSOFAR INSOLES INSPECT INSPIRE INSTALL INSTANT INSTEAD INSTEPS INSTILL INSULAR INSULIN INSULTS INSURED INSURER INSURES INTAKES INTEGER INTENDS INTENSE INTENTS INTERIM INTERNS INTONED INTONES INTRUDE INTUITS INURING INVADED INVADER INVADES INVALID INVEIGH INVENTS INVERSE INVERTS INVESTS INVITED INVITES INVOICE INVOKED INVOKES INVOLVE INWARDS IODIZED IODIZES IONIZED IONIZER IONIZES IPECACS IRATELY IRIDIUM IRKSOME IRONIES IRONING ISLANDS ISOBARS ISOLATE ISOTOPE ISSUING ISTHMUS ITALICS ITCHIER ITCHING ITEMIZE ITERATE IVORIES',
+    J: 'JABBERS JABBING JACKALS JACKASS JACKDAW JACKETS JACKING JACKPOT JAGUARS JAILERS JAILING JAMMING JANGLED JANGLES JANITOR JARRING JASMINE JAUNTED JAVELIN JAWBONE JAYWALK JAZZIER JAZZING JEALOUS JEERING JELLIED JELLIES JELLING JERKIER JERKILY JERKING JERKINS JERSEYS JESTERS JESTING JETTIES JETTING JEWELED JEWELER JEWELRY JIBBING JIFFIES JIGGERS JIGGING JIGGLED JIGGLES JIGSAWS JILTING JIMMIED JIMMIES JINGLED JINGLES JINXING JITNEYS JITTERS JITTERY JOBBERS JOBBING JOBLESS JOCKEYS JOCULAR JOGGERS JOGGING JOGGLED JOGGLES JOINERS JOINING JOINTED JOINTLY JOLLIED JOLLIER JOLLIES JOLLITY JOLTING JONQUIL JOSHING JOSTLED JOSTLES JOTTING JOUNCED JOUNCES JOURNAL JOURNEY JOUSTED JOYLESS JOYRIDE JOYRODE JUBILEE JUDGING JUGGING JUGGLED JUGGLER JUGGLES JUGULAR JUICERS JUICIER JUICILY JUICING JUJITSU JUJUBES JUKEBOX JUMBLED JUMBLES JUMPERS JUMPIER JUMPING JUNGLES JUNIORS JUNIPER JUNKERS JUNKETS JUNKIER JUNKIES JUNKING JURISTS JUSTEST JUSTICE JUSTIFY JUTTING',
+    K: 'KARAKUL KARAOKE KATYDID KAYAKED KEELING KEENEST KEENING KEEPERS KEEPING KENNELS KENNING KERATIN KERNELS KESTREL KETCHES KETCHUP KETTLES KEYHOLE KEYNOTE KEYWORD KIBBUTZ KICKERS KICKIER KICKING KICKOFF KIDDERS KIDDIES KIDDING KIDNAPS KIDNEYS KILLERS KILLING KILLJOY KILNING KILOTON KIMONOS KINDEST KINDLED KINDLES KINDRED KINETIC KINFOLK KINGDOM KINGPIN KINKIER KINKING KINSHIP KINSMAN KINSMEN KIPPERS KISSERS KISSING KITCHEN KITSCHY KITTENS KITTIES KLUTZES KNACKER KNAVERY KNAVISH KNEADED KNEADER KNEECAP KNEEING KNELLED KNIFING KNIGHTS KNITTED KNITTER KNOCKED KNOCKER KNOTTED KNOWING KNUCKLE KOOKIER KOPECKS KOSHERS KOWTOWS KRYPTON KUMQUAT',
+    L: 'LABELED LABIALS LABORED LABORER LACIEST LACKEYS LACKING LACONIC LACQUER LACTATE LACTOSE LACUNAE LADDERS LADDIES LADINGS LADLING LADYBUG LAGGARD LAGGING LAGOONS LAMBENT LAMBING LAMBKIN LAMENTS LAMMING LAMPOON LAMPREY LANCERS LANCETS LANCING LANDING LANGUID LANGUOR LANKEST LANKIER LANOLIN LANTERN LANYARD LAPPING LAPSING LAPTOPS LAPWING LARCENY LARCHES LARDERS LARDING LARGELY LARGESS LARGEST LARIATS LARKING LASAGNA LASHING LASSIES LASSOED LASTING LATCHED LATCHES LATENCY LATERAL LATHERS LATHING LATRINE LATTICE LAUDING LAUGHED LAUNDER LAUNDRY LAURELS LAWLESS LAWSUIT LAWYERS LAXNESS LAYAWAY LAYERED LAYETTE LAYOFFS LAYOUTS LAYOVER LAZIEST LAZYING LEACHED LEACHES LEADERS LEADING LEAFIER LEAFING LEAFLET LEAGUED LEAGUES LEAKAGE LEAKIER LEAKING LEANEST LEANING LEAPING LEARNED LEARNER LEASHED LEASHES LEASING LEATHER LEAVENS LEAVING LECHERS LECHERY LECTERN LECTURE LEDGERS LEECHED LEECHES LEERIER LEERING LEEWARD LEFTEST LEFTIES LEFTISM LEFTIST LEGALLY LEGATEE LEGATES LEGATOS LEGENDS LEGGIER LEGGING LEGIBLE LEGIBLY LEGIONS LEGLESS LEGROOM LEGUMES LEGWORK LEISURE LEMMING LENDERS LENDING LENGTHS LENGTHY LENIENT LENTILS LEONINE LEOPARD LEOTARD LEPROSY LEPROUS LESBIAN LESIONS LESSEES LESSENS LESSONS LESSORS LETDOWN LETTERS LETTING LETTUCE LEVELED LEVELER LEVERED LEVYING LEWDEST LEXICAL LEXICON LIAISED LIAISES LIAISON LIBELED LIBELER LIBERAL LIBERTY LIBIDOS LIBRARY LICENSE LICHENS LICKING LIEFEST LIFTING LIFTOFF LIGHTED LIGHTEN LIGHTER LIGHTLY LIGNITE LIKABLE LIKENED LILTING LIMBERS LIMEADE LIMIEST LIMITED LIMNING LIMPEST LIMPETS LIMPING LINDENS LINEAGE LINEMAN LINEMEN LINEUPS LINGERS LINGOES LINGUAL LININGS LINKAGE LINKING LINKUPS LINNETS LINSEED LINTELS LIONESS LIONIZE LIPREAD LIQUEFY LIQUEUR LIQUIDS LIQUORS LISPING LISSOME LISTENS LISTING LITCHIS LITERAL LITHEST LITHIUM LITTERS LITTLER LITURGY LIVABLE LIVENED LIVIDLY LIVINGS LIZARDS LOADERS LOADING LOAFERS LOAFING LOAMIER LOANERS LOANING LOATHED LOATHES LOBBIED LOBBIES LOBBING LOBSTER LOCALES LOCALLY LOCATED LOCATES LOCKERS LOCKETS LOCKING LOCKJAW LOCKOUT LOCKUPS LOCUSTS LODGERS LODGING LOFTIER LOFTILY LOFTING LOGBOOK LOGGERS LOGGING LOGICAL LOGJAMS LOGOFFS LOGOUTS LOITERS LOLCATS LOLLING LONGEST LONGING LONGISH LOOKING LOOKOUT LOOMING LOONIER LOONIES LOOPIER LOOPING LOOSELY LOOSENS LOOSEST LOOSING LOOTERS LOOTING LOPPING LORDING LORRIES LOTIONS LOTTERY LOTUSES LOUDEST LOUNGED LOUNGES LOUSIER LOUTISH LOUVERS LOVABLE LOWBROW LOWDOWN LOWERED LOWLAND LOWLIER LOWNESS LOYALER LOYALLY LOYALTY LOZENGE LUBBERS LUCIDLY LUCKIER LUCKILY LUCKING LUGGAGE LUGGING LULLABY LULLING LUMBAGO LUMBERS LUMPIER LUMPING LUMPISH LUNATIC LUNCHED LUNCHES LUNGING LUPINES LURCHED LURCHES LURIDLY LURKING LUSHEST LUSTFUL LUSTIER LUSTILY LUSTING LYCEUMS LYNCHED LYNCHES LYRICAL',
+    M: 'MACABRE MACADAM MACHETE MACHINE MACRONS MADCAPS MADDENS MADDERS MADDEST MADNESS MADRASA MAESTRO MAGENTA MAGGOTS MAGICAL MAGNATE MAGNETO MAGNETS MAGNIFY MAGNUMS MAGPIES MAHATMA MAIDENS MAILBOX MAILERS MAILING MAILMAN MAILMEN MAIMING MAJESTY MAJORED MAJORLY MAKEUPS MAKINGS MALAISE MALARIA MALIGNS MALLARD MALLETS MALLOWS MALTEDS MALTING MALWARE MAMBOED MAMMALS MAMMARY MAMMOTH MANACLE MANAGED MANAGER MANAGES MANATEE MANDATE MANGERS MANGIER MANGLED MANGLES MANGOES MANHOLE MANHOOD MANHUNT MANIACS MANIKIN MANKIND MANLIER MANNERS MANNING MANNISH MANSARD MANSION MANTELS MANTLED MANTLES MANTRAS MANUALS MANUMIT MANURED MANURES MAPPING MARABOU MARACAS MARAUDS MARBLED MARBLES MARCHED MARCHER MARCHES MARGINS MARIMBA MARINAS MARINER MARINES MARITAL MARKERS MARKETS MARKING MARKUPS MARLINS MARMOTS MAROONS MARQUEE MARQUIS MARRIED MARRIES MARRING MARROWS MARSHAL MARSHES MARTENS MARTIAL MARTINI MARTINS MARTYRS MARVELS MASCARA MASCOTS MASHERS MASHING MASHUPS MASKING MASONIC MASONRY MASQUES MASSAGE MASSEUR MASSING MASSIVE MASTERS MASTERY MASTIFF MASTOID MATADOR MATCHED MATCHES MATRONS MATTERS MATTING MATTOCK MATURED MATURER MATURES MATZOHS MATZOTH MAUDLIN MAULING MAUNDER MAWKISH MAXILLA MAXIMAL MAXIMUM MAYDAYS MAYORAL MAYPOLE MAZURKA MEADOWS MEALIER MEANDER MEANEST MEANING MEASLES MEASURE MEATIER MEDDLED MEDDLER MEDDLES MEDIANS MEDIATE MEDICAL MEDIUMS MEDLEYS MEDULLA MEEKEST MEETING MEGATON MELANGE MELANIN MELDING MELLOWS MELODIC MELTING MEMBERS MEMENTO MEMOIRS MENACED MENACES MENAGES MENDERS MENDING MENFOLK MENIALS MENORAH MENTHOL MENTION MENTORS MEOWING MERCIES MERCURY MERGERS MERGING MERINOS MERITED MERMAID MERRIER MERRILY MESCALS MESHING MESSAGE MESSIAH MESSIER MESSILY MESSING MESTIZO METEORS METERED METHANE METHODS METRICS MEWLING MIASMAS MICROBE MICRONS MIDDIES MIDDLES MIDGETS MIDLAND MIDMOST MIDRIFF MIDTERM MIDTOWN MIDWAYS MIDWEEK MIDWIFE MIDYEAR MIFFING MIGRANT MIGRATE MILDEST MILDEWS MILEAGE MILIEUS MILITIA MILKIER MILKING MILKMAN MILKMEN MILKSOP MILLAGE MILLERS MILLING MILLION MIMETIC MIMICRY MIMOSAS MINARET MINCING MINDFUL MINDING MINERAL MINGLED MINGLES MINIBUS MINICAM MINIMAL MINIMUM MINIONS MINIVAN MINNOWS MINORED MINSTER MINTIER MINTING MINUEND MINUETS MINUSES MINUTED MINUTER MINUTES MINUTIA MIRACLE MIRAGES MIRRORS MISCALL MISCAST MISCUED MISCUES MISDEAL MISDEED MISDOES MISDONE MISERLY MISFIRE MISFITS MISHAPS MISLAID MISLAYS MISLEAD MISPLAY MISREAD MISRULE MISSALS MISSILE MISSING MISSION MISSIVE MISSTEP MISTAKE MISTERS MISTIER MISTILY MISTIME MISTING MISTOOK MISTYPE MISUSED MISUSES MITERED MITOSIS MITTENS MIXTURE MIZZENS MOANING MOBBING MOBILES MOBSTER MOCKERS MOCKERY MOCKING MODELED MODERNS MODESTY MODICUM MODULAR MODULES MODULUS MOISTEN MOISTER MOISTLY MOLDERS MOLDIER MOLDING MOLESTS MOLLIFY MOLLUSK MOLTING MOMENTS MOMMIES MONARCH MONEYED MONGERS MONGREL MONIKER MONITOR MONKEYS MONOCLE MONSOON MONSTER MONTAGE MONTHLY MOOCHED MOOCHER MOOCHES MOODIER MOODILY MOONING MOONLIT MOORING MOOTING MOPPETS MOPPING MORAINE MORALLY MORDANT MORGUES MORNING MOROCCO MORONIC MORROWS MORSELS MORTALS MORTARS MORTIFY MORTISE MOSAICS MOSEYED MOSQUES MOSSIER MOTHERS MOTILES MOTIONS MOTIVES MOTLEYS MOTLIER MOTORED MOTTLED MOTTLES MOTTOES MOUNDED MOUNTED MOURNED MOURNER MOUSERS MOUSIER MOUSING MOUSSED MOUSSES MOUTHED MOVABLE MUCKIER MUCKING MUDDIED MUDDIER MUDDIES MUDDLED MUDDLES MUEZZIN MUFFING MUFFINS MUFFLED MUFFLER MUFFLES MUGGERS MUGGIER MUGGING MUGGLES MUKLUKS MULATTO MULCHED MULCHES MULLAHS MULLETS MULLING MULLION MUMBLED MUMBLER MUMBLES MUMMERS MUMMERY MUMMIES MUMMIFY MUNCHED MUNCHES MUNDANE MURDERS MURKIER MURKILY MURMURS MUSCLED MUSCLES MUSEUMS MUSHIER MUSHING MUSICAL MUSINGS MUSKETS MUSKIER MUSKRAT MUSSELS MUSSIER MUSSING MUSTANG MUSTARD MUSTERS MUSTIER MUTABLE MUTANTS MUTATED MUTATES MUTTERS MUUMUUS MUZZLED MUZZLES MYRIADS MYRTLES MYSTERY MYSTICS MYSTIFY',
+    N: 'NABBING NAGGING NAILING NAIVELY NAIVEST NAIVETY NAKEDLY NANNIES NAPALMS NAPHTHA NAPKINS NAPPIER NAPPIES NAPPING NARRATE NARROWS NARWHAL NASALLY NASCENT NASTIER NASTILY NATIONS NATIVES NATTIER NATTILY NATURAL NATURES NAUGHTS NAUGHTY NEAREST NEARING NEATEST NEBULAE NEBULAR NECKING NECKTIE NEEDFUL NEEDIER NEEDING NEEDLED NEEDLES NEGATED NEGATES NEGLECT NEIGHED NEITHER NEMESES NEMESIS NEOCONS NEONATE NEPHEWS NERDIER NERVIER NERVING NERVOUS NESTING NESTLED NESTLES NETBOOK NETTING NETTLED NETTLES NETWORK NEURONS NEUTERS NEUTRAL NEUTRON NEWBIES NEWBORN NEWNESS NEWSBOY NEWSIER NEWSMAN NEWSMEN NEWTONS NEXUSES NIBBLED NIBBLER NIBBLES NICKELS NICKING NIFTIER NIGGARD NIGGERS NIGGLED NIGGLES NIGHEST NIGHTIE NIGHTLY NIMBLER NINEPIN NINNIES NIPPERS NIPPIER NIPPING NIPPLES NIRVANA NITPICK NITRATE NITWITS NOBLEST NODDING NODULAR NODULES NOGGINS NOISIER NOISILY NOISING NOISOME NOMADIC NOMINAL NOMINEE NONCOMS NONPLUS NONSKID NONSTOP NONUSER NONZERO NOODLED NOODLES NOONDAY NOSEGAY NOSHING NOSIEST NOSTRIL NOSTRUM NOTABLE NOTABLY NOTCHED NOTCHES NOTEPAD NOTHING NOTICED NOTICES NOTIONS NOUGATS NOURISH NOVELLA NOVELTY NOVICES NOWHERE NOXIOUS NOZZLES NUANCED NUANCES NUCLEAR NUCLEIC NUCLEUS NUDGING NUDISTS NUGGETS NULLIFY NULLITY NUMBERS NUMBEST NUMBING NUMERAL NUMERIC NUNCIOS NUNNERY NUPTIAL NURSERY NURSING NURTURE NUTMEAT NUTMEGS NUTRIAS NUTTIER NUTTING NUZZLED NUZZLES',
+    O: 'OARLOCK OARSMAN OARSMEN OATMEAL OBELISK OBESITY OBEYING OBJECTS OBLIGED OBLIGES OBLIQUE OBLONGS OBLOQUY OBOISTS OBSCENE OBSCURE OBSEQUY OBSERVE OBTAINS OBTRUDE OBTUSER OBVERSE OBVIATE OBVIOUS OCARINA OCCLUDE OCEANIC OCELOTS OCTAGON OCTAVES OCTOPUS OCULARS OCULIST ODDBALL ODDNESS ODOROUS ODYSSEY OFFBEAT OFFENDS OFFENSE OFFERED OFFHAND OFFICER OFFICES OFFINGS OFFLOAD OFFSETS OFFSIDE OFTENER OILIEST OILSKIN OINKING OKAYING OMELETS OMINOUS OMITTED OMNIBUS ONENESS ONEROUS ONESELF ONETIME ONGOING ONSHORE OPACITY OPAQUED OPAQUER OPAQUES OPENERS OPENEST OPENING OPERAND OPERATE OPIATES OPINING OPINION OPOSSUM OPPOSED OPPOSES OPPRESS OPTICAL OPTIMAL OPTIMUM OPTIONS OPULENT ORACLES ORANGES ORATING ORATION ORATORS ORATORY ORBITAL ORBITED ORCHARD ORCHIDS ORDAINS ORDEALS ORDERED ORDERLY ORDINAL OREGANO ORGANDY ORGANIC ORGASMS ORIENTS ORIFICE ORIGAMI ORIGINS ORIOLES OROTUND ORPHANS OSMOSIS OSMOTIC OSPREYS OSTRICH OTTOMAN OUSTERS OUSTING OUTAGES OUTBACK OUTBIDS OUTCAST OUTCOME OUTCROP OUTDOES OUTDONE OUTDOOR OUTFITS OUTGOES OUTGREW OUTGROW OUTINGS OUTLAID OUTLAST OUTLAWS OUTLAYS OUTLETS OUTLINE OUTLIVE OUTLOOK OUTPLAY OUTPOST OUTPUTS OUTRAGE OUTRANK OUTRUNS OUTSELL OUTSETS OUTSIDE OUTSIZE OUTSOLD OUTSTAY OUTTAKE OUTVOTE OUTWARD OUTWEAR OUTWITS OUTWORE OUTWORN OVARIAN OVARIES OVATION OVERACT OVERAGE OVERALL OVERATE OVERAWE OVERDID OVERDUE OVEREAT OVERJOY OVERLAP OVERLAY OVERLIE OVERPAY OVERRAN OVERRUN OVERSAW OVERSEE OVERTAX OVERTLY OVERUSE OVIDUCT OVULATE OXFORDS OXIDIZE OXYMORA OYSTERS',
+    P: 'PACIFIC PACKAGE PACKERS PACKETS PACKING PADDIES PADDING PADDLED PADDLES PADDOCK PADLOCK PAGEANT PAGODAS PAILFUL PAINFUL PAINING PAINTED PAINTER PAIRING PAISLEY PAJAMAS PALACES PALATAL PALATES PALAVER PALAZZI PALAZZO PALETTE PALINGS PALLETS PALLING PALMIER PALMING PALMIST PALPATE PALSIED PALSIES PAMPERS PANACEA PANACHE PANCAKE PANDERS PANELED PANICKY PANNIER PANNING PANOPLY PANSIES PANTHER PANTIES PANTING PAPAYAS PAPERED PAPILLA PAPOOSE PAPRIKA PAPYRUS PARABLE PARADED PARADES PARADOX PARAGON PARAPET PARASOL PARBOIL PARCELS PARCHED PARCHES PARDONS PARENTS PARFAIT PARIAHS PARINGS PARKING PARKOUR PARKWAY PARLAYS PARLEYS PARLORS PAROLED PAROLEE PAROLES PARQUET PARRIED PARRIES PARRING PARROTS PARSECS PARSING PARSLEY PARSNIP PARSONS PARTAKE PARTIAL PARTIED PARTIES PARTING PARTNER PARTOOK PARTWAY PARVENU PASCHAL PASSAGE PASSELS PASSING PASSION PASSIVE PASSKEY PASTELS PASTERN PASTIER PASTIES PASTIME PASTING PASTORS PASTURE PATCHED PATCHES PATELLA PATENTS PATHWAY PATIENT PATINAS PATRIOT PATROLS PATRONS PATSIES PATTERN PATTERS PATTIES PATTING PAUCITY PAUNCHY PAUPERS PAUSING PAVINGS PAWNING PAWPAWS PAYABLE PAYDAYS PAYLOAD PAYMENT PAYOFFS PAYROLL PAYWALL PEACHES PEACOCK PEAFOWL PEAHENS PEAKING PEALING PEANUTS PEARLED PEASANT PEBBLED PEBBLES PECCARY PECKING PEDALED PEDANTS PEDDLED PEDDLER PEDDLES PEEKING PEELING PEEPERS PEEPING PEERAGE PEERING PEEVING PEEVISH PEEWEES PEGGING PELAGIC PELICAN PELLETS PELTING PENALTY PENANCE PENCILS PENDANT PENDENT PENDING PENGUIN PENISES PENNANT PENNIES PENNING PENNONS PENSION PENSIVE PEONAGE PEONIES PEOPLED PEOPLES PEPPERS PEPPERY PEPPIER PEPPING PEPTICS PERCALE PERCENT PERCHED PERCHES PERFECT PERFIDY PERFORM PERFUME PERHAPS PERIGEE PERILED PERIODS PERIWIG PERJURE PERJURY PERKIER PERKING PERMING PERMITS PERMUTE PERPLEX PERSIST PERSONA PERSONS PERTAIN PERTEST PERTURB PERUSAL PERUSED PERUSES PERVADE PERVERT PESETAS PESKIER PESTERS PESTLED PESTLES PETARDS PETERED PETIOLE PETITES PETRELS PETRIFY PETTIER PETTILY PETTING PETUNIA PEWTERS PHALANX PHALLIC PHALLUS PHANTOM PHARAOH PHARYNX PHASING PHILTER PHISHED PHISHER PHOBIAS PHOBICS PHOEBES PHOENIX PHONEME PHONICS PHONIED PHONIER PHONIES PHONING PHOTOED PHOTONS PHRASAL PHRASED PHRASES PHYSICS PIANIST PIAZZAS PICANTE PICCOLO PICKERS PICKETS PICKIER PICKING PICKLED PICKLES PICKUPS PICNICS PICTURE PIDDLED PIDDLES PIDGINS PIEBALD PIECING PIERCED PIERCES PIGEONS PIGGIER PIGGIES PIGGING PIGGISH PIGLETS PIGMENT PIGPENS PIGSKIN PIGTAIL PILEUPS PILFERS PILGRIM PILINGS PILLAGE PILLARS PILLBOX PILLING PILLION PILLORY PILLOWS PILOTED PIMENTO PIMPING PIMPLES PINBALL PINCERS PINCHED PINCHES PINGING PINHEAD PINHOLE PINIONS PINKEST PINKEYE PINKIES PINKING PINKISH PINNATE PINNING PIONEER PIOUSLY PIPPING PIPPINS PIQUANT PIQUING PIRANHA PIRATED PIRATES PISSING PISTILS PISTOLS PISTONS PITCHED PITCHER PITCHES PITEOUS PITFALL PITHIER PITHILY PITIFUL PITTING PITYING PIVOTAL PIVOTED PIZZAZZ PLACARD PLACATE PLACEBO PLACERS PLACING PLACKET PLAGUED PLAGUES PLAINER PLAINLY PLAINTS PLAITED PLANETS PLANING PLANKED PLANNED PLANNER PLANTED PLANTER PLAQUES PLASTER PLASTIC PLATEAU PLATENS PLATING PLATOON PLATTER PLAUDIT PLAYACT PLAYBOY PLAYERS PLAYFUL PLAYING PLAYOFF PLAYPEN PLEADED PLEADER PLEASED PLEASES PLEATED PLECTRA PLEDGED PLEDGES PLENARY PLIABLE PLIANCY PLIGHTS PLINTHS PLODDED PLODDER PLOPPED PLOTTED PLOTTER PLOVERS PLOWING PLOWMAN PLOWMEN PLUCKED PLUGGED PLUGINS PLUMAGE PLUMBED PLUMBER PLUMING PLUMMET PLUMPED PLUMPER PLUNDER PLUNGED PLUNGER PLUNGES PLUNKED PLURALS PLUSHER PLYWOOD POACHED POACHER POACHES POCKETS POCKING PODCAST PODDING PODIUMS POETESS POGROMS POINTED POINTER POISING POISONS POKIEST POLECAT POLEMIC POLICED POLICES POLITER POLITIC POLKAED POLLING POLLUTE POLYGON POLYMER POMADED POMADES POMMELS POMPOMS POMPOUS PONCHOS PONDERS PONIARD PONTIFF PONTOON POOCHED POOCHES POODLES POOHING POOLING POOPING POOREST POPCORN POPGUNS POPLARS POPOVER POPPIES POPPING POPULAR PORCHES PORCINE PORTAGE PORTALS PORTEND PORTENT PORTERS PORTICO PORTING PORTION PORTRAY POSEURS POSHEST POSITED POSSESS POSSUMS POSTAGE POSTBOX POSTDOC POSTERS POSTING POSTMAN POSTMEN POSTURE POSTWAR POTABLE POTENCY POTFULS POTHOLE POTHOOK POTIONS POTLUCK POTPIES POTSHOT POTTAGE POTTERS POTTERY POTTIER POTTIES POTTING POUCHED POUCHES POULTRY POUNCED POUNCES POUNDED POURING POUTING POVERTY POWDERS POWDERY POWERED POWWOWS PRAIRIE PRAISED PRAISES PRALINE PRANCED PRANCER PRANCES PRATING PRATTLE PRAWNED PRAYERS PRAYING PREACHY PRECEDE PRECEPT PRECISE PREDATE PREDICT PREEMPT PREENED PREFABS PREFACE PREFECT PREFERS PREHEAT PRELATE PRELUDE PREMIER PREMISE PREMIUM PRENUPS PREPAID PREPARE PREPAYS PREPPED PREQUEL PRESAGE PRESENT PRESETS PRESIDE PRESSED PRESSES PRESTOS PRESUME PRETEEN PRETEND PRETEXT PRETZEL PREVAIL PREVENT PREVIEW PREYING PRICIER PRICING PRICKED PRICKLE PRICKLY PRIDING PRIESTS PRIMACY PRIMARY PRIMATE PRIMERS PRIMING PRIMMER PRIMPED PRINCES PRINTED PRINTER PRISONS PRITHEE PRIVACY PRIVATE PRIVETS PRIVIER PRIVIES PRIZING PROBATE PROBING PROBITY PROBLEM PROCEED PROCESS PROCTOR PROCURE PRODDED PRODIGY PRODUCE PRODUCT PROFANE PROFESS PROFFER PROFILE PROFITS PROFUSE PROGENY PROGRAM PROJECT PROLONG PROMISE PROMOTE PROMPTS PRONGED PRONOUN PROOFED PROPANE PROPELS PROPHET PROPOSE PROPPED PRORATE PROSAIC PROSIER PROSODY PROSPER PROTEAN PROTECT PROTEIN PROTEST PROTONS PROUDER PROUDLY PROVERB PROVIDE PROVING PROVISO PROVOKE PROVOST PROWESS PROWLED PROWLER PROXIES PRUDENT PRUDERY PRUDISH PRUNING PSYCHED PSYCHES PSYCHIC PSYCHOS PUBERTY PUBLISH PUCKERS PUCKISH PUDDING PUDDLED PUDDLES PUDGIER PUEBLOS PUERILE PUFFIER PUFFING PUFFINS PULLERS PULLETS PULLEYS PULLING PULLOUT PULPIER PULPING PULPITS PULSARS PULSATE PULSING PUMICES PUMMELS PUMPERS PUMPING PUMPKIN PUNCHED PUNCHES PUNDITS PUNGENT PUNIEST PUNKEST PUNNING PUNSTER PUNTERS PUNTING PUPPETS PUPPIES PUPPING PURGING PURISTS PURITAN PURLING PURLOIN PURPLER PURPLES PURPORT PURPOSE PURRING PURSERS PURSING PURSUED PURSUER PURSUES PURSUIT PURVEYS PURVIEW PUSHERS PUSHIER PUSHING PUSSIER PUSSIES PUSTULE PUTREFY PUTTERS PUTTIED PUTTIES PUTTING PUZZLED PUZZLER PUZZLES PYGMIES PYRAMID PYTHONS',
+    Q: 'QUACKED QUAFFED QUAHOGS QUAILED QUAKING QUALIFY QUALITY QUANTUM QUARREL QUARTER QUARTET QUARTOS QUASARS QUASHED QUASHES QUAVERS QUAVERY QUEENED QUEENLY QUEERED QUEERER QUEERLY QUELLED QUERIED QUERIES QUESTED QUEUING QUIBBLE QUICHES QUICKEN QUICKER QUICKIE QUICKLY QUIETED QUIETER QUIETLY QUIETUS QUILTED QUILTER QUINCES QUININE QUINTET QUIPPED QUIRKED QUITTER QUIVERS QUIZZED QUIZZES QUOITED QUONDAM QUORUMS QUOTING',
+    R: 'RABBITS RABBLES RACCOON RACEMES RACEWAY RACIEST RACISTS RACKETS RACKING RADIALS RADIANT RADIATE RADICAL RADIOED RAFFISH RAFFLED RAFFLES RAFTERS RAFTING RAGGEDY RAGGING RAGLANS RAGOUTS RAGTAGS RAGTIME RAGWEED RAIDERS RAIDING RAILING RAILWAY RAIMENT RAINBOW RAINIER RAINING RAISING RAISINS RALLIED RALLIES RAMBLED RAMBLER RAMBLES RAMMING RAMPAGE RAMPANT RAMPART RAMRODS RANCHED RANCHER RANCHES RANDIER RANGERS RANGIER RANGING RANKEST RANKING RANKLED RANKLES RANSACK RANSOMS RANTING RAPIDER RAPIDLY RAPIERS RAPISTS RAPPERS RAPPING RAPPORT RAPTURE RASCALS RASHERS RASHEST RASPIER RASPING RATCHET RATINGS RATIONS RATTANS RATTIER RATTING RATTLED RATTLER RATTLES RATTRAP RAUCOUS RAUNCHY RAVAGED RAVAGES RAVELED RAVENED RAVINES RAVINGS RAVIOLI RAWHIDE RAWNESS RAZZING REACHED REACHES REACTED REACTOR READERS READIED READIER READIES READILY READING READMIT READOUT REAGENT REALEST REALIGN REALISM REALIST REALITY REALIZE REAMERS REAMING REAPERS REAPING REAPPLY REARING REARMED REASONS REBATED REBATES REBINDS REBIRTH REBOUND REBUFFS REBUILD REBUILT REBUKED REBUKES REBUSES RECALLS RECANTS RECASTS RECEDED RECEDES RECEIPT RECEIVE RECHECK RECIPES RECITAL RECITED RECITES RECKONS RECLAIM RECLINE RECLUSE RECOILS RECORDS RECOUNT RECOUPS RECOVER RECRUIT RECTIFY RECTORS RECTORY RECTUMS RECYCLE REDCAPS REDCOAT REDDENS REDDEST REDDISH REDEEMS REDHEAD REDNECK REDNESS REDOING REDOUBT REDOUND REDRAFT REDRAWN REDRAWS REDRESS REDSKIN REDUCED REDUCES REDWOOD REEDIER REEFERS REEFING REEKING REELECT REELING REENACT REENTER REENTRY REEVING REFEREE REFFING REFILED REFILES REFILLS REFINED REFINER REFINES REFLECT REFOCUS REFORMS REFRACT REFRAIN REFRESH REFUELS REFUGEE REFUGES REFUNDS REFUSAL REFUSED REFUSES REFUTED REFUTES REGAINS REGALED REGALES REGALIA REGALLY REGARDS REGATTA REGENCY REGENTS REGIMEN REGIMES REGIONS REGRESS REGRETS REGROUP REGULAR REHEATS REHIRED REHIRES REIGNED REINING REISSUE REJECTS REJOICE REJOINS RELABEL RELAPSE RELATED RELATES RELAXED RELAXES RELAYED RELEARN RELEASE RELENTS RELIANT RELIEFS RELIEVE RELIVED RELIVES RELOADS RELYING REMAINS REMAKES REMANDS REMARKS REMARRY REMATCH REMINDS REMNANT REMODEL REMORSE REMOTER REMOTES REMOUNT REMOVAL REMOVED REMOVER REMOVES RENAMED RENAMES RENDERS RENDING RENEGED RENEGES RENEWAL RENEWED RENTALS RENTERS RENTING REOCCUR REOPENS REORDER REORGED REPAINT REPAIRS REPASTS REPEALS REPEATS REPENTS REPLACE REPLAYS REPLETE REPLICA REPLIED REPLIES REPORTS REPOSED REPOSES REPRESS REPRINT REPRISE REPROOF REPROVE REPTILE REPULSE REPUTED REPUTES REQUEST REQUIEM REQUIRE REQUITE REREADS REROUTE RESALES RESCIND RESCUED RESCUER RESCUES RESELLS RESENTS RESERVE RESIDED RESIDES RESIDUE RESIGNS RESISTS RESOLVE RESORTS RESOUND RESPECT RESPELL RESPIRE RESPITE RESPOND RESTART RESTATE RESTFUL RESTING RESTIVE RESTOCK RESTORE RESTUDY RESULTS RESUMED RESUMES RETAILS RETAINS RETAKEN RETAKES RETARDS RETCHED RETCHES RETELLS RETHINK RETINAL RETINAS RETINUE RETIRED RETIREE RETIRES RETOOLS RETORTS RETOUCH RETRACE RETRACT RETRAIN RETREAD RETREAT RETRIAL RETRIED RETRIES RETURNS RETWEET RETYPED RETYPES REUNIFY REUNION REUNITE REUSING REVALUE REVAMPS REVEALS REVELED REVELER REVELRY REVENGE REVENUE REVERED REVERES REVERIE REVERSE REVERTS REVIEWS REVILED REVILER REVILES REVISED REVISES REVISIT REVIVAL REVIVED REVIVES REVOKED REVOKES REVOLTS REVOLVE REVVING REWARDS REWINDS REWIRED REWIRES REWORDS REWORKS REWOUND REWRITE REWROTE RHIZOME RHODIUM RHOMBUS RHUBARB RHYMING RHYTHMS RIBBING RIBBONS RICHEST RICKETS RICKETY RICKING RICOTTA RIDDING RIDDLED RIDDLES RIDGING RIFFING RIFFLED RIFFLES RIFLING RIFTING RIGGING RIGHTED RIGHTER RIGHTLY RIGIDLY RIMMING RINGERS RINGING RINGLET RINSING RIOTERS RIOTING RIOTOUS RIPENED RIPOSTE RIPPERS RIPPING RIPPLED RIPPLES RIPSAWS RISIBLE RISKIER RISKING RITUALS RITZIER RIVALED RIVALRY RIVETED RIVETER RIVULET ROACHES ROADBED ROADWAY ROAMERS ROAMING ROARING ROASTED ROASTER ROBBERS ROBBERY ROBBING ROBOTIC ROCKERS ROCKETS ROCKIER ROCKING RODENTS ROEBUCK ROGERED ROGUERY ROGUISH ROILING ROISTER ROLLERS ROLLICK ROLLING ROMAINE ROMANCE ROMPERS ROMPING ROOFERS ROOFING ROOFTOP ROOKERY ROOKIES ROOKING ROOMERS ROOMFUL ROOMIER ROOMING ROOSTED ROOSTER ROOTING ROSEATE ROSEBUD ROSETTE ROSIEST ROSINED ROSTERS ROSTRUM ROTATED ROTATES ROTTING ROTUNDA ROUGHED ROUGHEN ROUGHER ROUGHLY ROUGING ROUNDED ROUNDER ROUNDLY ROUNDUP ROUSING ROUTINE ROUTING ROWBOAT ROWDIER ROWDIES ROWELED ROYALLY ROYALTY RUBBERS RUBBERY RUBBING RUBBISH RUBDOWN RUBELLA RUBIEST RUBRICS RUDDERS RUDDIER RUFFIAN RUFFING RUFFLED RUFFLES RUGRATS RUINING RUINOUS RULINGS RUMBAED RUMBLED RUMBLES RUMMAGE RUMMEST RUMORED RUMPLED RUMPLES RUNAWAY RUNDOWN RUNNELS RUNNERS RUNNIER RUNNING RUNOFFS RUNWAYS RUPTURE RUSHING RUSSETS RUSTICS RUSTIER RUSTING RUSTLED RUSTLER RUSTLES RUTTING',
+    S: 'SACHEMS SACHETS SACKFUL SACKING SADDENS SADDEST SADDLED SADDLES SADISTS SADNESS SAFARIS SAFFRON SAGGING SAGUARO SAILING SAILORS SAINTLY SALAAMS SALABLE SALAMIS SALIENT SALINES SALLIED SALLIES SALMONS SALOONS SALTEST SALTIER SALTINE SALTING SALUTED SALUTES SALVAGE SALVERS SALVING SAMBAED SAMOVAR SAMPANS SAMPLED SAMPLER SAMPLES SAMURAI SANCTUM SANDALS SANDBAG SANDBAR SANDBOX SANDERS SANDHOG SANDIER SANDING SANDLOT SANDMAN SANDMEN SAPIENT SAPLING SAPPIER SAPPING SARCASM SARCOMA SARDINE SARONGS SASHAYS SASSIER SASSING SATANIC SATCHEL SATIATE SATIETY SATIRES SATISFY SATRAPS SAUCERS SAUCIER SAUCILY SAUCING SAUNAED SAUNTER SAUSAGE SAVAGED SAVAGER SAVAGES SAVANNA SAVANTS SAVINGS SAVIORS SAVORED SAVVIED SAVVIER SAVVIES SAWDUST SAWMILL SAWYERS SAYINGS SCABBED SCABIES SCALARS SCALDED SCALENE SCALIER SCALING SCALLOP SCALPED SCALPEL SCALPER SCAMMED SCAMMER SCAMPER SCANDAL SCANNED SCANNER SCANTED SCANTER SCAPULA SCARABS SCARCER SCARFED SCARIER SCARIFY SCARING SCARLET SCARRED SCARVES SCATTED SCATTER SCENERY SCENTED SCEPTER SCHEMED SCHEMER SCHEMES SCHERZO SCHISMS SCHLEPS SCHLOCK SCHMUCK SCHOLAR SCHOOLS SCIATIC SCIENCE SCISSOR SCOFFED SCOLDED SCONCES SCOOPED SCOOTED SCOOTER SCOPING SCORERS SCORING SCORNED SCOTCHS SCOURED SCOURGE SCOUTED SCOWLED SCRAPED SCRAPER SCRAPES SCRAPPY SCRATCH SCRAWLS SCRAWNY SCREAMS SCREECH SCREENS SCREWED SCRIBES SCRIMPS SCRIPTS SCROLLS SCROOGE SCROTUM SCRUBBY SCRUFFS SCRUFFY SCRUNCH SCRUPLE SCUBAED SCUDDED SCUFFED SCUFFLE SCULLED SCULPTS SCUMBAG SCUMMED SCUPPER SCUTTLE SCYTHED SCYTHES SEABEDS SEABIRD SEAFOOD SEALANT SEALERS SEALING SEAMIER SEAMING SEAPORT SEARING SEASICK SEASIDE SEASONS SEATING SEAWARD SEAWAYS SEAWEED SECEDED SECEDES SECLUDE SECONDS SECRECY SECRETE SECRETS SECTION SECTORS SECULAR SECURED SECURER SECURES SEDATED SEDATER SEDATES SEDUCED SEDUCER SEDUCES SEEDIER SEEDING SEEINGS SEEKERS SEEKING SEEMING SEEPAGE SEEPING SEESAWS SEETHED SEETHES SEGMENT SEISMIC SEIZING SEIZURE SELECTS SELFIES SELFISH SELLERS SELLING SELLOFF SELLOUT SELTZER SELVAGE SEMINAL SEMINAR SENATES SENATOR SENDERS SENDING SENIORS SENSING SENSORS SENSORY SENSUAL SEPTETS SEQUELS SEQUINS SEQUOIA SERAPES SERAPHS SERENER SERFDOM SERIALS SERIOUS SERMONS SERPENT SERRIED SERVANT SERVERS SERVICE SERVILE SERVING SESAMES SESSION SETBACK SETTEES SETTERS SETTING SETTLED SETTLER SETTLES SEVENTH SEVENTY SEVERAL SEVERED SEVERER SEXIEST SEXISTS SEXLESS SEXPOTS SEXTANT SEXTETS SEXTING SEXTONS SHACKLE SHADIER SHADING SHADOWS SHADOWY SHAFTED SHAGGED SHAKERS SHAKEUP SHAKIER SHAKILY SHAKING SHALLOT SHALLOW SHAMANS SHAMBLE SHAMING SHAMMED SHAMPOO SHAPELY SHAPING SHARIAH SHARING SHARKED SHARPED SHARPEN SHARPER SHARPLY SHATTER SHAVERS SHAVING SHEARED SHEARER SHEATHE SHEATHS SHEAVES SHEBANG SHEERED SHEERER SHEIKHS SHEKELS SHELLAC SHELLED SHELLER SHELTER SHELVED SHELVES SHERBET SHERIFF SHIELDS SHIFTED SHILLED SHIMMED SHIMMER SHINDIG SHINERS SHINGLE SHINIER SHINING SHINNED SHIPPED SHIPPER SHIRKED SHIRKER SHIRRED SHIRTED SHIVERS SHIVERY SHOALED SHOCKED SHOCKER SHOEING SHOGUNS SHOOING SHOOTER SHOPPED SHOPPER SHORING SHORTED SHORTEN SHORTER SHORTLY SHOTGUN SHOUTED SHOVELS SHOVING SHOWBIZ SHOWERS SHOWERY SHOWIER SHOWILY SHOWING SHOWMAN SHOWMEN SHOWOFF SHRIEKS SHRIKES SHRILLS SHRILLY SHRIMPS SHRINES SHRINKS SHRIVED SHRIVEL SHRIVEN SHRIVES SHROUDS SHRUBBY SHTICKS SHUCKED SHUDDER SHUFFLE SHUNNED SHUNTED SHUSHED SHUSHES SHUTEYE SHUTOUT SHUTTER SHUTTLE SHYNESS SHYSTER SIBLING SICKBED SICKENS SICKEST SICKING SICKLES SIDEARM SIDEBAR SIDECAR SIDINGS SIDLING SIERRAS SIESTAS SIEVING SIFTERS SIFTING SIGHING SIGHTED SIGNALS SIGNERS SIGNETS SIGNIFY SIGNING SILENCE SILENTS SILICON SILKIER SILLIER SILLIES SILTING SILVERS SILVERY SIMIANS SIMILAR SIMILES SIMMERS SIMPERS SIMPLER SIMPLEX SINCERE SINGERS SINGING SINGLED SINGLES SINKERS SINKING SINNERS SINNING SINUOUS SINUSES SIPHONS SIPPING SIRLOIN SIROCCO SISSIER SISSIES SISTERS SITCOMS SITTERS SITTING SITUATE SIXTEEN SIXTIES SIZABLE SIZZLED SIZZLES SKATERS SKATING SKEPTIC SKETCHY SKEWERS SKEWING SKIDDED SKILLED SKILLET SKIMMED SKIMPED SKINNED SKIPPED SKIPPER SKIRTED SKITTER SKULKED SKUNKED SKYCAPS SKYDIVE SKYJACK SKYLARK SKYLINE SKYWARD SLABBED SLACKED SLACKEN SLACKER SLACKLY SLAKING SLALOMS SLAMMED SLAMMER SLANDER SLANTED SLAPPED SLASHED SLASHES SLATHER SLATING SLAVERS SLAVERY SLAVING SLAVISH SLAYERS SLAYING SLEAZES SLEDDED SLEDGED SLEDGES SLEEKED SLEEKER SLEEKLY SLEEPER SLEETED SLEEVES SLEIGHS SLENDER SLEUTHS SLEWING SLICERS SLICING SLICKED SLICKER SLICKLY SLIDERS SLIDING SLIGHTS SLIMIER SLIMMED SLIMMER SLIPPED SLIPPER SLITHER SLITTER SLIVERS SLOBBER SLOGANS SLOGGED SLOPING SLOPPED SLOSHED SLOSHES SLOTTED SLOUCHY SLOUGHS SLOVENS SLOWEST SLOWING SLUGGED SLUGGER SLUICED SLUICES SLUMBER SLUMDOG SLUMMED SLUMMER SLUMPED SLURPED SLURRED SLYNESS SMACKED SMACKER SMALLER SMARTED SMARTEN SMARTER SMARTLY SMASHED SMASHES SMEARED SMELLED SMELTED SMELTER SMIDGEN SMILING SMIRKED SMITING SMITTEN SMOCKED SMOKERS SMOKIER SMOKING SMOLDER SMOOTHS SMOTHER SMUDGED SMUDGES SMUGGER SMUGGLE SNACKED SNAFFLE SNAGGED SNAILED SNAKIER SNAKING SNAPPED SNAPPER SNARING SNARLED SNEAKED SNEAKER SNEERED SNEEZED SNEEZES SNICKER SNIDEST SNIFFED SNIFFLE SNIFTER SNIPERS SNIPING SNIPPED SNIPPET SNIVELS SNOOKER SNOOPED SNOOPER SNOOZED SNOOZES SNORERS SNORING SNORKEL SNORTED SNOWIER SNOWING SNOWMAN SNOWMEN SNUBBED SNUFFED SNUFFER SNUFFLE SNUGGED SNUGGER SNUGGLE SOAKING SOAPBOX SOAPIER SOAPING SOARING SOBBING SOBERED SOBERER SOBERLY SOCIALS SOCIETY SOCKETS SOCKING SODDING SOFTENS SOFTEST SOFTIES SOGGIER SOGGILY SOILING SOJOURN SOLACED SOLACES SOLARIA SOLDERS SOLDIER SOLICIT SOLIDER SOLIDLY SOLOING SOLOIST SOLUBLE SOLVENT SOLVERS SOLVING SOMEDAY SOMEHOW SOMEONE SOMEWAY SONATAS SONNETS SONNIES SOONEST SOOTHED SOOTHES SOOTIER SOPHISM SOPHIST SOPPIER SOPPING SOPRANO SORBETS SORCERY SORGHUM SORRELS SORRIER SORROWS SORTERS SORTIED SORTIES SORTING SOTTISH SOUGHED SOULFUL SOUNDED SOUNDER SOUNDLY SOUPIER SOUPING SOURCED SOURCES SOUREST SOURING SOUSING SOVIETS SOYBEAN SPACIAL SPACIER SPACING SPADING SPAMMED SPAMMER SPANDEX SPANGLE SPANIEL SPANKED SPANNED SPANNER SPARELY SPAREST SPARING SPARKED SPARKLE SPARRED SPARROW SPARSER SPARTAN SPASTIC SPATIAL SPATTED SPATTER SPATULA SPAWNED SPAYING SPEAKER SPEARED SPECIAL SPECIES SPECIFY SPECKED SPECKLE SPECTER SPECTRA SPEEDER SPEEDUP SPELLED SPELLER SPENDER SPEWING SPHERES SPICIER SPICING SPIDERS SPIDERY SPIELED SPIGOTS SPIKIER SPIKING SPILLED SPINACH SPINALS SPINDLE SPINDLY SPINETS SPINIER SPINNER SPIRALS SPIREAS SPIRITS SPITING SPITTED SPITTLE SPLASHY SPLAYED SPLEENS SPLICED SPLICER SPLICES SPLINES SPLINTS SPLODGE SPLOTCH SPLURGE SPOILED SPOILER SPONGED SPONGER SPONGES SPONSOR SPOOFED SPOOKED SPOOLED SPOONED SPOORED SPORING SPORRAN SPORTED SPOTTED SPOTTER SPOUSES SPOUTED SPRAINS SPRAWLS SPRAYED SPRAYER SPREADS SPRIEST SPRINGS SPRINGY SPRINTS SPRITES SPROUTS SPRUCED SPRUCER SPRUCES SPUMING SPUMONI SPURNED SPURRED SPURTED SPUTTER SPYWARE SQUALID SQUALLS SQUALOR SQUARED SQUARER SQUARES SQUASHY SQUAWKS SQUEAKS SQUEAKY SQUEALS SQUEEZE SQUELCH SQUINTS SQUIRED SQUIRES SQUIRMS SQUIRMY SQUIRTS SQUISHY STABBED STABLED STABLER STABLES STACKED STADIUM STAFFED STAFFER STAGGER STAGING STAIDER STAIDLY STAINED STAKING STALEST STALING STALKED STALKER STALLED STAMENS STAMINA STAMMER STAMPED STANCES STANDBY STANZAS STAPLED STAPLER STAPLES STARCHY STARDOM STARING STARKER STARKLY STARLET STARLIT STARRED STARTED STARTER STARTLE STARTUP STARVED STARVES STASHED STASHES STATELY STATING STATION STATUES STATURE STATUTE STAUNCH STAVING STAYING STEALTH STEAMED STEAMER STEELED STEEPED STEEPER STEEPLE STEEPLY STEERED STELLAR STEMMED STENCIL STEPDAD STEPMOM STEPPED STEPPES STEPSON STEREOS STERILE STERNER STERNLY STERNUM STEROID STEWARD STEWING STICKER STICKUP STIFFED STIFFEN STIFFER STIFFLY STIFLED STIFLES STIGMAS STILLED STILLER STILTED STIMULI STINGER STINKER STINTED STIPEND STIPPLE STIRRED STIRRER STIRRUP STOCKED STOICAL STOKERS STOKING STOMACH STOMPED STONERS STONIER STONILY STONING STOOGES STOOPED STOPGAP STOPPED STOPPER STORAGE STORIED STORIES STORING STORMED STOUTER STOUTLY STOWING STRAFED STRAFES STRAINS STRAITS STRANDS STRANGE STRATUM STRAWED STRAYED STREAKS STREAKY STREAMS STREETS STRETCH STREWED STRIDES STRIKER STRIKES STRINGS STRINGY STRIPED STRIPES STRIVEN STRIVES STROBES STROKED STROKES STROLLS STROPHE STRUDEL STUBBED STUBBLE STUBBLY STUDDED STUDENT STUDIED STUDIES STUDIOS STUFFED STUMBLE STUMPED STUNNED STUNTED STUPEFY STUPIDS STUPORS STUTTER STYLING STYLISH STYLIST STYLIZE STYMIED STYMIES STYPTIC SUAVELY SUAVEST SUAVITY SUBBING SUBDUED SUBDUES SUBHEAD SUBJECT SUBJOIN SUBLETS SUBLIME SUBMITS SUBORNS SUBPLOT SUBSETS SUBSIDE SUBSIDY SUBSIST SUBSOIL SUBSUME SUBTEEN SUBTLER SUBURBS SUBVERT SUBWAYS SUCCEED SUCCESS SUCCORS SUCCUMB SUCKERS SUCKING SUCKLED SUCKLES SUCROSE SUCTION SUDSIER SUFFERS SUFFICE SUFFUSE SUGARED SUGGEST SUICIDE SUITING SUITORS SULFATE SULFIDE SULFURS SULKIER SULKIES SULKILY SULKING SULLIED SULLIES SULTANA SULTANS SUMMARY SUMMERS SUMMERY SUMMING SUMMITS SUMMONS SUNBEAM SUNBURN SUNDAES SUNDERS SUNDIAL SUNDOWN SUNFISH SUNLAMP SUNLESS SUNNIER SUNNING SUNRISE SUNROOF SUNSETS SUNSPOT SUNTANS SUPPERS SUPPING SUPPLER SUPPORT SUPPOSE SUPREME SURFACE SURFEIT SURFERS SURFING SURGEON SURGERY SURGING SURLIER SURMISE SURNAME SURPASS SURPLUS SURREAL SURREYS SURVEYS SURVIVE SUSPECT SUSPEND SUSTAIN SUTURED SUTURES SVELTER SWABBED SWADDLE SWAGGED SWAGGER SWALLOW SWAMPED SWANKED SWANKER SWAPPED SWARMED SWARTHY SWASHED SWASHES SWATHED SWATHES SWATTED SWATTER SWAYING SWEARER SWEATER SWEEPER SWEETEN SWEETER SWEETIE SWEETLY SWELLED SWELLER SWELTER SWERVED SWERVES SWIFTER SWIFTLY SWIGGED SWILLED SWIMMER SWINDLE SWINGER SWINISH SWIPING SWIRLED SWISHED SWISHER SWISHES SWIVELS SWOLLEN SWOONED SWOOPED SYMBOLS SYMPTOM SYNAPSE SYNCING SYNERGY SYNONYM SYRINGE SYSTEMS',
+    T: 'TABBIES TABBING TABLEAU TABLETS TABLING TABLOID TABOOED TABULAR TACITLY TACKIER TACKING TACKLED TACKLER TACKLES TACTFUL TACTICS TACTILE TADPOLE TAFFETA TAFFIES TAGGING TAILING TAILORS TAINTED TAKEOFF TAKEOUT TAKINGS TALENTS TALKERS TALKING TALLEST TALLIED TALLIES TALLYHO TAMABLE TAMALES TAMPERS TAMPING TAMPONS TANAGER TANDEMS TANGELO TANGENT TANGIER TANGLED TANGLES TANGOED TANKARD TANKERS TANKFUL TANKING TANNERS TANNERY TANNEST TANNING TANTRUM TAPERED TAPIOCA TAPPING TAPROOM TAPROOT TARDIER TARDILY TARGETS TARIFFS TARMACS TARNISH TARPONS TARRIED TARRIER TARRIES TARRING TARTANS TARTARS TARTEST TASERED TASKING TASSELS TASTERS TASTIER TASTING TATTERS TATTING TATTLED TATTLER TATTLES TATTOOS TAUNTED TAUTEST TAVERNS TAWNIER TAXABLE TAXICAB TAXIING TEACHER TEACHES TEACUPS TEAMING TEAPOTS TEARFUL TEARGAS TEARIER TEARING TEAROOM TEASELS TEASERS TEASING TEATIME TEDIOUS TEEMING TEENAGE TEENIER TEETERS TEETHED TEETHES TELEXED TELEXES TELLERS TELLING TEMBLOR TEMPERA TEMPERS TEMPEST TEMPING TEMPLES TEMPTED TEMPTER TEMPURA TENABLE TENANCY TENANTS TENDERS TENDING TENDONS TENDRIL TENFOLD TENONED TENPINS TENSELY TENSEST TENSILE TENSING TENSION TENSORS TENTING TENUOUS TENURED TENURES TEQUILA TERABIT TERMING TERMINI TERMITE TERRACE TERRAIN TERRIER TERRIFY TERRORS TERSELY TERSEST TESTATE TESTERS TESTIER TESTIFY TESTILY TESTING TETANUS TETHERS TEXTILE TEXTING TEXTUAL TEXTURE THALAMI THANKED THAWING THEATER THEISTS THEOREM THERAPY THEREBY THEREIN THEREOF THEREON THERETO THERMAL THERMOS THICKEN THICKER THICKET THICKLY THIEVED THIEVES THIMBLE THINKER THINNED THINNER THIRDLY THIRSTS THIRSTY THISTLE THITHER THORIUM THOUGHT THRALLS THREADS THREATS THRIFTS THRIFTY THRILLS THRIVED THRIVES THROATS THROATY THRONES THRONGS THROUGH THROWER THRUSTS THRUWAY THUDDED THUMBED THUMPED THUNDER THWACKS THWARTS THYROID THYSELF TICKERS TICKETS TICKING TICKLED TICKLES TIDBITS TIDIEST TIDINGS TIDYING TIFFING TIGHTEN TIGHTER TIGHTLY TIGRESS TILLAGE TILLERS TILLING TILTING TIMBERS TIMBRES TIMIDER TIMIDLY TIMINGS TIMPANI TINFOIL TINGING TINGLED TINGLES TINIEST TINKERS TINKLED TINKLES TINNIER TINNING TINSELS TINTING TIPPERS TIPPING TIPPLED TIPPLER TIPPLES TIPSIER TIPSILY TIPSTER TIPTOED TIPTOES TIPTOPS TIRADES TIREDER TISSUES TITANIC TITHING TITLING TITMICE TITTERS TITTLES TITULAR TIZZIES TOADIED TOADIES TOASTED TOASTER TOBACCO TOCSINS TODDIES TODDLED TODDLER TODDLES TOEHOLD TOENAIL TOFFEES TOGGLED TOGGLES TOILERS TOILETS TOILING TOLLING TOMBING TOMBOYS TOMCATS TONGUED TONGUES TONIEST TONIGHT TONNAGE TONSILS TONSURE TOOLBAR TOOLBOX TOOLING TOOLKIT TOOTHED TOOTING TOPAZES TOPCOAT TOPICAL TOPKNOT TOPLESS TOPMAST TOPMOST TOPPING TOPPLED TOPPLES TOPSAIL TOPSIDE TOPSOIL TORCHED TORCHES TORMENT TORNADO TORPEDO TORQUED TORQUES TORRENT TORSION TORTURE TOSSING TOSSUPS TOTALED TOTALLY TOTEMIC TOTTERS TOTTING TOUCANS TOUCHED TOUCHES TOUGHEN TOUGHER TOUGHLY TOUPEES TOURING TOURISM TOURIST TOURNEY TOUSLED TOUSLES TOUTING TOWARDS TOWELED TOWERED TOWHEAD TOWPATH TOXEMIA TRACERS TRACERY TRACHEA TRACING TRACKED TRACKER TRACTOR TRADERS TRADING TRADUCE TRAFFIC TRAGEDY TRAILED TRAILER TRAINED TRAINEE TRAINER TRAIPSE TRAITOR TRAMMED TRAMMEL TRAMPED TRAMPLE TRANCES TRANSIT TRANSOM TRAPEZE TRAPPED TRAPPER TRASHED TRASHES TRAUMAS TRAVAIL TRAVELS TRAWLED TRAWLER TREACLE TREADLE TREASON TREATED TREBLED TREBLES TREEING TREETOP TREFOIL TREKKED TRELLIS TREMBLE TREMOLO TREMORS TRENDED TRESSES TRESTLE TRIALED TRIBUNE TRIBUTE TRICEPS TRICKED TRICKLE TRIDENT TRIFLED TRIFLER TRIFLES TRIGGER TRILLED TRILOGY TRIMMED TRIMMER TRINITY TRINKET TRIPLED TRIPLES TRIPLET TRIPODS TRIPPED TRISECT TRITELY TRITEST TRIUMPH TRIVETS TRIVIAL TROCHEE TRODDEN TROIKAS TROLLED TROLLEY TROLLOP TROMPED TROOPED TROOPER TROPICS TROPISM TROTTED TROTTER TROUBLE TROUGHS TROUNCE TROUPED TROUPER TROUPES TROUSER TROWELS TRUANCY TRUANTS TRUCKED TRUCKER TRUCKLE TRUDGED TRUDGES TRUFFLE TRUISMS TRUMPED TRUMPET TRUNDLE TRUSSED TRUSSES TRUSTED TRUSTEE TRUTHER TRYOUTS TRYSTED TSUNAMI TUBBIER TUBULAR TUCKERS TUCKING TUFTING TUGBOAT TUGGING TUITION TUMBLED TUMBLER TUMBLES TUMBREL TUMMIES TUMULTS TUNDRAS TUNEFUL TUNNELS TUNNIES TURBANS TURBINE TURBOTS TUREENS TURFING TURKEYS TURMOIL TURNERS TURNING TURNIPS TURNKEY TURNOFF TURNOUT TURRETS TURTLES TUSSLED TUSSLES TUSSOCK TUTORED TUXEDOS TWADDLE TWANGED TWEAKED TWEETED TWEETER TWELFTH TWELVES TWERKED TWIDDLE TWIGGED TWILLED TWINGED TWINGES TWINING TWINKLE TWINNED TWIRLED TWIRLER TWISTED TWISTER TWITTED TWITTER TWOFERS TWOFOLD TWOSOME TYCOONS TYPESET TYPHOID TYPHOON TYPICAL TYPISTS TYRANNY TYRANTS',
+    U: 'UGLIEST UKULELE ULULATE UMBRAGE UMLAUTS UMPIRED UMPIRES UMPTEEN UNAIDED UNARMED UNASKED UNAWARE UNBENDS UNBINDS UNBLOCK UNBOLTS UNBOSOM UNBOUND UNCANNY UNCASED UNCIVIL UNCLASP UNCLEAN UNCLEAR UNCOILS UNCORKS UNCOUTH UNCOVER UNCTION UNDATED UNDERGO UNDOING UNDRESS UNDYING UNEARTH UNEATEN UNEQUAL UNFOLDS UNFROCK UNFUNNY UNFURLS UNGODLY UNGUENT UNHANDS UNHAPPY UNHEARD UNHINGE UNHITCH UNHOOKS UNHORSE UNICORN UNIFIED UNIFIES UNIFORM UNIQUER UNITARY UNITIES UNITING UNKEMPT UNKNOWN UNLACED UNLACES UNLATCH UNLEARN UNLEASH UNLOADS UNLOCKS UNLOOSE UNLOVED UNLUCKY UNMAKES UNMANLY UNMASKS UNMORAL UNMOVED UNNAMED UNNERVE UNPACKS UNPAVED UNPLUGS UNQUOTE UNRAVEL UNREADY UNRIPER UNROLLS UNSAFER UNSCREW UNSEALS UNSEATS UNSNAPS UNSNARL UNSOUND UNSTOPS UNSTUCK UNTAMED UNTRIED UNTRUER UNTRUTH UNTWIST UNTYING UNUSUAL UNVEILS UNWINDS UNWISER UNWOUND UNWRAPS UPBEATS UPBRAID UPCHUCK UPDATED UPDATER UPDATES UPDRAFT UPENDED UPFRONT UPGRADE UPHILLS UPHOLDS UPLANDS UPLIFTS UPRAISE UPRIGHT UPROARS UPROOTS UPSCALE UPSHOTS UPSIDES UPSTAGE UPSTART UPSTATE UPSURGE UPSWING UPTAKES UPTIGHT UPTURNS UPWARDS URANIUM URBANER URCHINS URETHRA URGENCY URINALS URINARY URINATE UROLOGY USELESS USHERED USUALLY USURERS USURPED USURPER UTENSIL UTERINE UTILITY UTILIZE UTOPIAS UTTERED UTTERLY UVULARS',
+    V: 'VACANCY VACATED VACATES VACCINE VACUITY VACUOUS VACUUMS VAGINAE VAGINAL VAGRANT VAGUELY VAGUEST VAINEST VALANCE VALENCE VALETED VALIANT VALIDLY VALISES VALLEYS VALUING VALVING VAMOOSE VAMPING VAMPIRE VANDALS VANILLA VANNING VANTAGE VARIANT VARIATE VARIETY VARIOUS VARLETS VARMINT VARNISH VARSITY VARYING VASSALS VASTEST VATTING VAULTED VAULTER VAUNTED VECTORS VEERING VEGGIES VEHICLE VEILING VEINING VELOURS VELVETY VENALLY VENDING VENDORS VENEERS VENISON VENTING VENTRAL VENTURE VERANDA VERBALS VERBENA VERBOSE VERDANT VERDICT VERDURE VERGING VERIEST VERSIFY VERSING VERSION VERTIGO VESICLE VESPERS VESSELS VESTIGE VESTING VETCHES VETERAN VETOING VETTING VIADUCT VIBRANT VIBRATE VIBRATO VICEROY VICIOUS VICTIMS VICTORS VICTORY VICTUAL VIEWERS VIEWING VILLAGE VILLAIN VILLEIN VINEGAR VINTAGE VINTNER VIOLATE VIOLENT VIOLETS VIOLINS VIOLIST VIRGINS VIRGULE VIRTUAL VIRTUES VIRUSES VISAGES VISAING VISCERA VISCOUS VISIBLE VISIBLY VISIONS VISITED VISITOR VISUALS VITALLY VITAMIN VITIATE VITRIOL VIVIDER VIVIDLY VIZIERS VOCALIC VOCALLY VOGUISH VOICING VOIDING VOLCANO VOLLEYS VOLTAGE VOLTAIC VOLUBLE VOLUBLY VOLUMES VOMITED VOODOOS VOUCHED VOUCHER VOUCHES VOYAGED VOYAGER VOYAGES VOYEURS VULTURE',
+    W: 'WACKEST WACKIER WADDING WADDLED WADDLES WAFFLED WAFFLES WAFTING WAGERED WAGGING WAGGISH WAGGLED WAGGLES WAGONER WAILING WAITERS WAITING WAIVERS WAIVING WAKEFUL WAKENED WALKERS WALKING WALKOUT WALKWAY WALLABY WALLETS WALLEYE WALLING WALLOPS WALLOWS WALNUTS WALTZED WALTZES WANDERS WANGLED WANGLES WANNABE WANNEST WANTING WANTONS WAPITIS WARBLED WARBLER WARBLES WARDENS WARDERS WARDING WARFARE WARHEAD WARIEST WARLIKE WARLOCK WARLORD WARMERS WARMEST WARMING WARNING WARPATH WARPING WARRANT WARRENS WARRING WARRIOR WARSHIP WARTHOG WARTIER WARTIME WASHERS WASHING WASHOUT WASHTUB WASPISH WASSAIL WASTAGE WASTERS WASTING WASTREL WATCHED WATCHER WATCHES WATERED WATTAGE WATTLED WATTLES WAVELET WAVERED WAVIEST WAXIEST WAXWING WAXWORK WAYLAID WAYLAYS WAYSIDE WAYWARD WEAKENS WEAKEST WEALTHY WEANING WEAPONS WEARERS WEARIED WEARIER WEARIES WEARILY WEARING WEASELS WEATHER WEAVERS WEAVING WEBBING WEBCAMS WEBCAST WEBINAR WEBSITE WEDDING WEDGING WEDLOCK WEEDERS WEEDIER WEEDING WEEKDAY WEEKEND WEEPERS WEEPIER WEEPIES WEEPING WEEVILS WEIGHED WEIGHTS WEIGHTY WEIRDER WEIRDLY WEIRDOS WELCOME WELDERS WELDING WELFARE WELLING WELSHED WELSHES WELTERS WELTING WENCHES WENDING WESTERN WETBACK WETLAND WETNESS WETTEST WETTING WHACKED WHALERS WHALING WHAMMED WHARVES WHATNOT WHEATEN WHEEDLE WHEELED WHEELER WHEEZED WHEEZES WHELKED WHELPED WHEREAS WHEREAT WHEREBY WHEREIN WHEREOF WHEREON WHETHER WHETTED WHIFFED WHILING WHIMPER WHINERS WHINIER WHINING WHIPPED WHIPPET WHIRLED WHIRRED WHISKED WHISKER WHISKEY WHISKYS WHISPER WHISTLE WHITENS WHITEST WHITHER WHITING WHITISH WHITTLE WHIZZED WHIZZES WHOEVER WHOOPED WHOOPEE WHOPPER WHORLED WICKERS WICKETS WIDENED WIDOWED WIDOWER WIELDED WIENERS WIGGING WIGGLED WIGGLER WIGGLES WIGWAGS WIGWAMS WILDCAT WILDEST WILIEST WILLFUL WILLIES WILLING WILLOWS WILLOWY WILTING WIMPIER WIMPLED WIMPLES WINCHED WINCHES WINCING WINDBAG WINDIER WINDING WINDOWS WINDUPS WINGERS WINGING WINGNUT WINGTIP WINKING WINNERS WINNING WINNOWS WINSOME WINTERS WIRETAP WIRIEST WISHERS WISHFUL WISHING WISPIER WISTFUL WITCHED WITCHES WITHERS WITHOUT WITLESS WITNESS WITTIER WITTILY WITTING WIZARDS WIZENED WOBBLED WOBBLES WOLFING WOLFISH WOLFRAM WOMANLY WOMBATS WONDERS WOODCUT WOODIER WOODIES WOODING WOODMAN WOODMEN WOOFERS WOOFING WOOLENS WOOZIER WORDIER WORDING WORKDAY WORKERS WORKING WORKMAN WORKMEN WORKOUT WORLDLY WORMIER WORMING WORRIED WORRIER WORRIES WORSENS WORSHIP WORSTED WOUNDED WOUNDER WRAITHS WRANGLE WRAPPED WRAPPER WREAKED WREATHE WREATHS WRECKED WRECKER WRESTED WRESTLE WRIGGLE WRIGGLY WRINGER WRINKLE WRINKLY WRITERS WRITHED WRITHES WRITING WRITTEN WRONGED WRONGER WRONGLY WROUGHT WRYNESS',
+    Y: 'YACHTED YAKKING YAMMERS YANKING YAPPING YARDAGE YARDARM YAWNING YEARNED YELLING YELLOWS YELPING YESHIVA YESSING YIELDED YIPPING YODELED YODELER YOGURTS YOUNGER YOWLING YTTRIUM YUCKIER YUKKING YUMMIER YUPPIES',
+    Z: 'ZANIEST ZAPPERS ZAPPING ZEALOTS ZEALOUS ZENITHS ZEPHYRS ZEROING ZESTFUL ZIGZAGS ZILLION ZINCKED ZINGERS ZINGING ZINNIAS ZIPPERS ZIPPIER ZIPPING ZIRCONS ZITHERS ZODIACS ZOMBIES ZOOLOGY ZOOMING ZYGOTES'
+  },
+  8: {
+    A: 'AARDVARK ABACUSES ABALONES ABANDONS ABASHING ABATTOIR ABBESSES ABDICATE ABDOMENS ABDUCTED ABDUCTEE ABDUCTOR ABERRANT ABETTING ABETTORS ABEYANCE ABHORRED ABJECTLY ABJURING ABLATIVE ABLUTION ABNEGATE ABNORMAL ABORTING ABORTION ABORTIVE ABOUNDED ABRADING ABRASION ABRASIVE ABRIDGED ABRIDGES ABROGATE ABRUPTER ABRUPTLY ABSCISSA ABSCONDS ABSENCES ABSENTED ABSENTEE ABSENTLY ABSINTHE ABSOLUTE ABSOLVED ABSOLVES ABSORBED ABSTAINS ABSTRACT ABSTRUSE ABSURDER ABSURDLY ABUNDANT ABUTMENT ABUTTING ACADEMIA ACADEMIC ACANTHUS ACCEDING ACCENTED ACCEPTED ACCESSED ACCESSES ACCIDENT ACCLAIMS ACCOLADE ACCORDED ACCOSTED ACCOUNTS ACCREDIT ACCRUALS ACCRUING ACCURACY ACCURATE ACCURSED ACCUSERS ACCUSING ACCUSTOM ACERBITY ACETATES ACHIEVED ACHIEVER ACHIEVES ACOLYTES ACONITES ACOUSTIC ACQUAINT ACQUIRED ACQUIRES ACREAGES ACRIDEST ACRIMONY ACROBATS ACRONYMS ACROSTIC ACRYLICS ACTINIUM ACTIVATE ACTIVELY ACTIVISM ACTIVIST ACTIVITY ACTUALLY ACTUATED ACTUATES ACTUATOR ADAPTERS ADAPTING ADAPTIVE ADDENDUM ADDICTED ADDITION ADDITIVE ADDUCING ADENOIDS ADEQUACY ADEQUATE ADHERENT ADHERING ADHESION ADHESIVE ADJACENT ADJOINED ADJOURNS ADJUDGED ADJUDGES ADJUNCTS ADJURING ADJUSTED ADJUSTER ADJUTANT ADMIRALS ADMIRERS ADMIRING ADMITTED ADMONISH ADOPTING ADOPTION ADOPTIVE ADORABLE ADORABLY ADORNING ADRENALS ADROITLY ADULATED ADULATES ADULTERY ADVANCED ADVANCES ADVERSER ADVERTED ADVISERS ADVISING ADVISORY ADVOCACY ADVOCATE AERATING AERATION AERATORS AEROBICS AEROSOLS AESTHETE AFFECTED AFFINITY AFFIRMED AFFIXING AFFLICTS AFFLUENT AFFORDED AFFOREST AFFRONTS AFLUTTER AGENCIES AGGRIEVE AGITATED AGITATES AGITATOR AGLITTER AGNOSTIC AGONIZED AGONIZES AGRARIAN AGREEING AGRONOMY AILERONS AILMENTS AIRBORNE AIRBRUSH AIRCRAFT AIRDROPS AIRFARES AIRFIELD AIRFOILS AIRHEADS AIRINESS AIRLIFTS AIRLINER AIRLINES AIRMAILS AIRPLANE AIRPORTS AIRSHIPS AIRSPACE AIRSTRIP AIRTIGHT AIRWAVES ALACRITY ALARMING ALARMIST ALBACORE ALCOHOLS ALDERMAN ALDERMEN ALERTING ALFRESCO ALGEBRAS ALIASING ALIBIING ALIENATE ALIENING ALIGHTED ALIGNING ALKALIES ALKALINE ALKALOID ALLAYING ALLEGING ALLEGORY ALLEGROS ALLELUIA ALLERGEN ALLERGIC ALLEYWAY ALLIANCE ALLOCATE ALLOTTED ALLOWING ALLOYING ALLSPICE ALLUDING ALLURING ALLUSION ALLUSIVE ALLUVIAL ALLUVIUM ALMANACS ALMIGHTY ALPHABET ALTERING ALTHOUGH ALTITUDE ALTRUISM ALTRUIST ALUMINUM AMALGAMS AMARANTH AMASSING AMATEURS AMBIANCE AMBITION AMBROSIA AMBUSHED AMBUSHES AMENABLE AMENDING AMETHYST AMICABLE AMICABLY AMMETERS AMNESIAC AMORALLY AMORTIZE AMOUNTED AMPERAGE AMPUTATE AMPUTEES ANACONDA ANAGRAMS ANALOGUE ANALYSES ANALYSIS ANALYSTS ANALYTIC ANALYZED ANALYZER ANALYZES ANAPESTS ANARCHIC ANATHEMA ANATOMIC ANCESTOR ANCESTRY ANCHORED ANCIENTS ANDANTES ANDIRONS ANDROGEN ANDROIDS ANECDOTE ANEMONES ANEURYSM ANGERING ANGRIEST ANGSTROM ANIMATED ANIMATES ANIMATOR ANIMISTS ANNEALED ANNEXING ANNOTATE ANNOUNCE ANNOYING ANNUALLY ANNULLED ANODYNES ANOINTED ANOREXIA ANOREXIC ANSWERED ANTACIDS ANTEATER ANTEDATE ANTELOPE ANTENNAE ANTENNAS ANTERIOR ANTEROOM ANTHILLS ANTIBODY ANTICKED ANTIDOTE ANTIGENS ANTIHERO ANTIMONY ANTIQUED ANTIQUES ANTLERED ANTONYMS ANYPLACE ANYTHING ANYWHERE APERITIF APERTURE APHASICS APHELION APHORISM APIARIES APOLOGIA APOPLEXY APOSTASY APOSTATE APOSTLES APPALLED APPARELS APPARENT APPEALED APPEARED APPEASED APPEASER APPEASES APPENDED APPENDIX APPETITE APPLAUDS APPLAUSE APPLYING APPOINTS APPOSITE APPRAISE APPRISED APPRISES APPROACH APPROVAL APPROVED APPROVES APRICOTS APTITUDE AQUANAUT AQUARIUM AQUATICS AQUEDUCT AQUIFERS AQUILINE ARACHNID ARBITERS ARBOREAL ARCHAISM ARCHDUKE ARCHIVED ARCHIVES ARCHNESS ARCHWAYS ARDENTLY ARGOSIES ARGUABLE ARGUABLY ARGUMENT ARMAMENT ARMATURE ARMBANDS ARMCHAIR ARMHOLES ARMORERS ARMORIES ARMORING ARMRESTS AROMATIC AROUSING ARPEGGIO ARRAIGNS ARRANGED ARRANGER ARRANGES ARRAYING ARRESTED ARRIVALS ARRIVING ARROGANT ARROGATE ARSENALS ARSONIST ARTERIAL ARTERIES ARTFULLY ARTICLES ARTIFACT ARTIFICE ARTISANS ARTISTES ARTISTIC ARTISTRY ARTSIEST ARTWORKS ASBESTOS ASCENDED ASCETICS ASCRIBED ASCRIBES ASHTRAYS ASPERITY ASPHALTS ASPHYXIA ASPIRANT ASPIRATE ASPIRING ASPIRINS ASSAILED ASSASSIN ASSAULTS ASSAYING ASSEMBLE ASSEMBLY ASSENTED ASSERTED ASSESSED ASSESSES ASSESSOR ASSHOLES ASSIGNED ASSISTED ASSORTED ASSUAGED ASSUAGES ASSUMING ASSUREDS ASSURING ASTERISK ASTEROID ASTONISH ASTOUNDS ASTUTELY ASTUTEST ATELIERS ATHEISTS ATHLETES ATHLETIC ATOMIZER ATROCITY ATTACHED ATTACKED ATTACKER ATTAINED ATTEMPTS ATTENDED ATTENDER ATTESTED ATTIRING ATTITUDE ATTORNEY ATTRACTS ATTUNING ATWITTER ATYPICAL AUCTIONS AUDACITY AUDIBLES AUDIENCE AUDITING AUDITION AUDITORS AUDITORY AUGMENTS AUGURIES AUGURING AUGUSTER AUREOLES AURICLES AUSPICES AUSTERER AUTHORED AUTISTIC AUTOCRAT AUTOMATE AUTONOMY AUTUMNAL AVAILING AVENGERS AVENGING AVERAGED AVERAGES AVERRING AVERSION AVERTING AVIARIES AVIATION AVIATORS AVIATRIX AVIONICS AVOCADOS AVOIDING AVOWEDLY AWAITING AWAKENED AWARDING AWFULLER AZIMUTHS',
+    B: 'BABBLERS BABBLING BABUSHKA BABYHOOD BABYSITS BACHELOR BACILLUS BACKACHE BACKBITE BACKBONE BACKDATE BACKDROP BACKFIRE BACKHAND BACKHOES BACKINGS BACKLASH BACKLESS BACKLOGS BACKPACK BACKREST BACKSIDE BACKSLID BACKSPIN BACKSTOP BACKWARD BACKWASH BACKYARD BACTERIA BADGERED BADINAGE BADLANDS BADMOUTH BAFFLING BAGGIEST BAGPIPES BAILIFFS BAILOUTS BAKERIES BALANCED BALANCES BALDNESS BALKIEST BALLASTS BALLOONS BALLOTED BALLPARK BALLROOM BALLSIER BALLYHOO BALMIEST BALUSTER BANALITY BANDAGED BANDAGES BANDANNA BANDIEST BANDITRY BANDYING BANISHED BANISHES BANISTER BANJOIST BANKBOOK BANKNOTE BANKROLL BANKRUPT BANQUETS BANSHEES BANTERED BAPTISMS BAPTISTS BAPTIZED BAPTIZES BARBACOA BARBARIC BARBECUE BARBELLS BARBERED BARBERRY BAREBACK BAREFOOT BARENESS BARGAINS BARISTAS BARITONE BARMAIDS BARNACLE BARNYARD BARONESS BARONETS BARONIAL BARRACKS BARRAGED BARRAGES BARRELED BARRENER BARRETTE BARRIERS BARRINGS BARROOMS BARTERED BASEBALL BASELESS BASELINE BASEMENT BASENESS BASILICA BASSINET BASSISTS BASSOONS BASTARDS BASTIONS BATCHING BATHMATS BATHROBE BATHROOM BATHTUBS BATTENED BATTERED BATTIEST BATTLING BAWDIEST BAYBERRY BAYONETS BAZOOKAS BEACHING BEADIEST BEANBAGS BEARABLE BEARDING BEARINGS BEARSKIN BEATIFIC BEATINGS BEATNIKS BEAUTIES BEAUTIFY BEAVERED BECALMED BECKONED BECOMING BEDAZZLE BEDECKED BEDEVILS BEDROCKS BEDROLLS BEDROOMS BEDSIDES BEDSORES BEDSTEAD BEDTIMES BEECHNUT BEEFIEST BEEHIVES BEELINES BEETLING BEFALLEN BEFITTED BEFOGGED BEFOULED BEFRIEND BEFUDDLE BEGGARED BEGGARLY BEGINNER BEGONIAS BEGOTTEN BEGRUDGE BEGUILED BEGUILES BEHALVES BEHAVING BEHAVIOR BEHEADED BEHEMOTH BEHOLDEN BEHOLDER BEHOOVED BEHOOVES BELABORS BELAYING BELCHING BELFRIES BELIEVED BELIEVER BELIEVES BELITTLE BELLBOYS BELLHOPS BELLOWED BELLYFUL BELLYING BELONGED BELOVEDS BELTWAYS BEMOANED BEMUSING BENCHING BENEFICE BENEFITS BENIGNLY BENUMBED BEQUEATH BEQUESTS BERATING BEREAVED BEREAVES BERIBERI BERRYING BERTHING BESIEGED BESIEGER BESIEGES BESMIRCH BESOTTED BESOUGHT BESPEAKS BESPOKEN BESTIARY BESTOWAL BESTOWED BESTRIDE BESTRODE BETAKING BETHINKS BETIDING BETOKENS BETRAYAL BETRAYED BETRAYER BETROTHS BETTERED BEVELING BEVERAGE BEWAILED BEWARING BEWILDER BIANNUAL BIATHLON BIBLICAL BIBULOUS BICKERED BICUSPID BICYCLED BICYCLES BIENNIAL BIFOCALS BIGAMIST BIGAMOUS BIGHORNS BIGMOUTH BILLETED BILLFOLD BILLINGS BILLIONS BILLOWED BINARIES BINDINGS BINNACLE BINOMIAL BIOPSIED BIOPSIES BIPLANES BIRACIAL BIRCHING BIRDBATH BIRDCAGE BIRDSEED BIRETTAS BIRTHDAY BIRTHERS BIRTHING BISCUITS BISECTED BISECTOR BISEXUAL BITCHIER BITCHING BITCOINS BITINGLY BITTERER BITTERLY BITTERNS BIVALVES BIVOUACS BIWEEKLY BLABBING BLACKENS BLACKEST BLACKING BLACKISH BLACKOUT BLACKTOP BLADDERS BLANCHED BLANCHES BLANDEST BLANKEST BLANKETS BLANKING BLARNEYS BLASTERS BLASTING BLASTOFF BLAZONED BLEACHED BLEACHER BLEACHES BLEAKEST BLEARIER BLEARILY BLEATING BLEEDERS BLEEDING BLEEPING BLENCHED BLENCHES BLENDERS BLENDING BLESSING BLIGHTED BLINDERS BLINDEST BLINDING BLINKERS BLINKING BLINTZES BLISSFUL BLISTERS BLITHELY BLITHEST BLITZING BLIZZARD BLOATING BLOBBING BLOCKADE BLOCKAGE BLOCKING BLOGGERS BLOGGING BLONDEST BLOODIED BLOODIER BLOODIES BLOODING BLOOMERS BLOOMING BLOOPERS BLOSSOMS BLOTCHED BLOTCHES BLOTTERS BLOTTING BLOUSING BLOWGUNS BLOWOUTS BLOWZIER BLUBBERS BLUDGEON BLUEBELL BLUEBIRD BLUEFISH BLUENOSE BLUFFERS BLUFFEST BLUFFING BLUNDERS BLUNTEST BLUNTING BLURRIER BLURRING BLURTING BLUSHERS BLUSHING BLUSTERS BLUSTERY BOARDERS BOARDING BOASTERS BOASTFUL BOASTING BOBBLING BOBOLINK BOBSLEDS BOBTAILS BOBWHITE BODYWORK BOGEYING BOGEYMAN BOGEYMEN BOGGIEST BOGGLING BOHEMIAN BOILINGS BOLDFACE BOLDNESS BOLSTERS BOMBARDS BOMBINGS BONANZAS BONDSMAN BONDSMEN BONEHEAD BONELESS BONFIRES BONNIEST BOOKCASE BOOKENDS BOOKINGS BOOKLETS BOOKMARK BOOKSHOP BOOKWORM BOOSTERS BOOSTING BOOTLEGS BOOTLESS BOOZIEST BORDELLO BORDERED BORINGLY BOROUGHS BORROWED BORROWER BOSSIEST BOTANIST BOTCHING BOTHERED BOTTLING BOTTOMED BOTULISM BOUDOIRS BOUFFANT BOUILLON BOULDERS BOUNCERS BOUNCIER BOUNCING BOUNDARY BOUNDERS BOUNDING BOUNTIES BOUQUETS BOUTIQUE BOWSPRIT BOYCOTTS BOYHOODS BOYISHLY BRACELET BRACKETS BRACKISH BRAGGART BRAGGERS BRAGGING BRAIDING BRAINIER BRAINING BRAISING BRAKEMAN BRAKEMEN BRAMBLES BRANCHED BRANCHES BRANDIED BRANDIES BRANDING BRANDISH BRASHEST BRASSIER BRATTIER BRAVURAS BRAWLERS BRAWLING BRAWNIER BRAZENED BRAZENLY BRAZIERS BREACHED BREACHES BREADING BREADTHS BREAKAGE BREAKERS BREAKING BREAKUPS BREASTED BREATHED BREATHER BREATHES BREECHES BREEDERS BREEDING BREEZIER BREEZILY BREEZING BRETHREN BREVIARY BRICKBAT BRICKING BRIDGING BRIDLING BRIEFEST BRIEFING BRIGADES BRIGANDS BRIGHTEN BRIGHTER BRIGHTLY BRIMMING BRINDLED BRINGING BRINIEST BRISKEST BRISKETS BRISKING BRISTLED BRISTLES BRITCHES BRITTLER BROACHED BROACHES BROADENS BROADEST BROCADED BROCADES BROCCOLI BROCHURE BROILERS BROILING BROKERED BROMIDES BRONCHUS BRONZING BROOCHES BROODERS BROODING BROOKING BROTHELS BROTHERS BROUHAHA BROWBEAT BROWNEST BROWNIES BROWNING BROWNISH BROWNOUT BROWSERS BROWSING BRUISERS BRUISING BRUNCHED BRUNCHES BRUNETTE BRUSHING BRUSQUER BRUTALLY BUBBLIER BUBBLING BUCKETED BUCKEYES BUCKLERS BUCKLING BUCKSAWS BUCKSHOT BUCKSKIN BUCOLICS BUDDINGS BUDGETED BUFFERED BUFFETED BUFFOONS BUGABOOS BUGBEARS BUGGIEST BUILDERS BUILDING BUILDUPS BULGIEST BULIMICS BULKHEAD BULKIEST BULLDOGS BULLDOZE BULLETIN BULLFROG BULLHORN BULLOCKS BULLPENS BULLRING BULLSHIT BULLYING BULWARKS BUMBLERS BUMBLING BUMPIEST BUMPKINS BUNCHING BUNDLING BUNGALOW BUNGHOLE BUNGLERS BUNGLING BUNTINGS BUOYANCY BURBLING BURDENED BURGEONS BURGHERS BURGLARS BURGLARY BURGLING BURLIEST BURNOOSE BURNOUTS BURRITOS BURROWED BURSITIS BURSTING BUSHELED BUSHIEST BUSHINGS BUSINESS BUSTLING BUSYBODY BUSYNESS BUSYWORK BUTCHERS BUTCHERY BUTTERED BUTTOCKS BUTTONED BUTTRESS BUZZARDS BUZZKILL BUZZWORD BYPASSED BYPASSES',
+    C: 'CABARETS CABBAGES CABINETS CABOODLE CABOOSES CACKLING CADAVERS CADDYING CADENCES CADENZAS CADUCEUS CAESURAS CAFFEINE CAGINESS CAISSONS CAJOLERY CAJOLING CALABASH CALAMINE CALAMITY CALCINED CALCINES CALCULUS CALENDAR CALFSKIN CALIBERS CALICOES CALIPERS CALLABLE CALLINGS CALLIOPE CALLOWER CALLUSED CALLUSES CALMNESS CALORIES CALYPSOS CAMBERED CAMBIUMS CAMELLIA CAMISOLE CAMPAIGN CAMPFIRE CAMPIEST CAMPSITE CAMPUSES CAMSHAFT CANARIES CANCELED CANDIDLY CANDLING CANDYING CANISTER CANKERED CANNABIS CANNIBAL CANNIEST CANNONED CANOEING CANOEIST CANONIZE CANOPIED CANOPIES CANTATAS CANTEENS CANTERED CANTICLE CANVASED CANVASES CAPACITY CAPERING CAPITALS CAPITOLS CAPRICES CAPSIZED CAPSIZES CAPSTANS CAPSULED CAPSULES CAPTAINS CAPTIONS CAPTIOUS CAPTIVES CAPTURED CAPTURES CARAMELS CARAPACE CARAVANS CARAWAYS CARBIDES CARBINES CARDIGAN CARDINAL CAREENED CAREERED CAREFREE CARELESS CARESSED CARESSES CAREWORN CARIBOUS CARILLON CARJACKS CARMINES CARNALLY CARNIVAL CAROLERS CAROLING CAROMING CAROTIDS CAROUSAL CAROUSED CAROUSEL CAROUSER CAROUSES CARPETED CARPORTS CARRIAGE CARRIERS CARRYALL CARRYING CARRYOUT CARTOONS CARVINGS CARYATID CASCADED CASCADES CASELOAD CASEMENT CASEWORK CASHBACK CASHIERS CASHMERE CASSAVAS CASSETTE CASSOCKS CASTANET CASTAWAY CASTINGS CASTLING CASTOFFS CASTRATE CASUALLY CASUALTY CASUISTS CATACOMB CATALOGS CATALPAS CATALYST CATALYZE CATAPULT CATARACT CATBIRDS CATBOATS CATCALLS CATCHALL CATCHERS CATCHIER CATCHING CATEGORY CATERERS CATERING CATHETER CATHODES CATHOLIC CATTAILS CATTIEST CATWALKS CAUCUSED CAUCUSES CAULDRON CAULKING CAUSALLY CAUSEWAY CAUSTICS CAUTIONS CAUTIOUS CAVALIER CAVILING CAVITIES CAVORTED CEDILLAS CEILINGS CELERITY CELESTAS CELIBACY CELIBATE CELLISTS CELLULAR CEMENTED CEMETERY CENOTAPH CENSORED CENSURED CENSURES CENSUSED CENSUSES CENTAURS CENTERED CENTIMES CENTRALS CENTRIST CEPHALIC CERAMICS CEREBRAL CEREBRUM CEREMONY CERULEAN CERVICAL CERVICES CESAREAN CESSIONS CESSPOOL CETACEAN CHAFFING CHAGRINS CHAINING CHAINSAW CHAIRING CHAIRMAN CHAIRMEN CHALICES CHALKIER CHALKING CHAMBERS CHAMBRAY CHAMPING CHAMPION CHANCELS CHANCERY CHANCIER CHANCING CHANDLER CHANGING CHANNELS CHANTERS CHANTEYS CHANTING CHAPERON CHAPLAIN CHAPLETS CHAPPING CHAPTERS CHARADES CHARCOAL CHARGERS CHARGING CHARIEST CHARIOTS CHARISMA CHARMERS CHARMING CHARRING CHARTERS CHARTING CHASTELY CHASTENS CHASTEST CHASTISE CHASTITY CHASUBLE CHATEAUS CHATTELS CHATTERS CHATTIER CHATTILY CHATTING CHEAPENS CHEAPEST CHEATERS CHEATING CHECKERS CHECKING CHECKOUT CHECKUPS CHEEKIER CHEEKILY CHEEKING CHEEPING CHEERFUL CHEERIER CHEERILY CHEERING CHEESIER CHEESING CHEETAHS CHEMICAL CHEMISES CHEMISTS CHENILLE CHEROOTS CHERRIES CHERUBIC CHERUBIM CHESSMAN CHESSMEN CHESTNUT CHEVRONS CHEWIEST CHICKENS CHICKPEA CHIEFEST CHIGGERS CHIGNONS CHILDISH CHILDREN CHILLERS CHILLEST CHILLIER CHILLING CHIMERAS CHIMNEYS CHINKING CHINNING CHIPMUNK CHIPPERS CHIPPING CHIRPING CHIRRUPS CHISELED CHISELER CHITCHAT CHIVALRY CHLORIDE CHLORINE CHOCKING CHOICEST CHOLERIC CHOMPING CHOOSIER CHOOSING CHOPPERS CHOPPIER CHOPPILY CHOPPING CHORALES CHORTLED CHORTLES CHORUSED CHORUSES CHOWDERS CHRISTEN CHROMING CHROMIUM CHUBBIER CHUCKING CHUCKLED CHUCKLES CHUGGING CHUMMIER CHUMMING CHUNKIER CHURCHES CHURLISH CHURNING CHUTZPAH CIABATTA CICATRIX CILANTRO CINCHING CINCHONA CINCTURE CINDERED CINNABAR CINNAMON CIPHERED CIRCLETS CIRCLING CIRCUITS CIRCULAR CIRCUSES CISTERNS CITADELS CITATION CITIZENS CITRUSES CIVILIAN CIVILITY CIVILIZE CLACKING CLAIMANT CLAIMING CLAMBAKE CLAMBERS CLAMMIER CLAMMING CLAMORED CLAMPING CLANGING CLANKING CLANNISH CLAPPERS CLAPPING CLAPTRAP CLARINET CLARIONS CLASHING CLASPING CLASSICS CLASSIER CLASSIFY CLASSING CLATTERS CLAVICLE CLAYIEST CLEANERS CLEANEST CLEANING CLEANSED CLEANSER CLEANSES CLEANUPS CLEAREST CLEARING CLEAVAGE CLEAVERS CLEAVING CLEMATIS CLEMENCY CLENCHED CLENCHES CLERGIES CLERICAL CLERKING CLEVERER CLEVERLY CLICKING CLIMATES CLIMATIC CLIMAXED CLIMAXES CLIMBERS CLIMBING CLINCHED CLINCHER CLINCHES CLINGIER CLINGING CLINICAL CLINKERS CLINKING CLIPPERS CLIPPING CLIQUISH CLITORAL CLITORIS CLOAKING CLOBBERS CLOCKING CLOGGING CLOISTER CLOMPING CLOPPING CLOSEOUT CLOSETED CLOSURES CLOTHIER CLOTHING CLOTTING CLOTURES CLOUDIER CLOUDING CLOUTING CLOWNING CLOWNISH CLUBBING CLUBFEET CLUBFOOT CLUCKING CLUELESS CLUMPING CLUMSIER CLUMSILY CLUNKERS CLUNKIER CLUNKING CLUSTERS CLUTCHED CLUTCHES CLUTTERS COACHING COACHMAN COACHMEN COALESCE COARSELY COARSENS COARSEST COASTERS COASTING COATINGS COAUTHOR COBBLERS COBBLING COCCYGES COCHLEAE COCHLEAS COCKADES COCKATOO COCKEREL COCKEYED COCKIEST COCKNEYS COCKPITS COCKSURE COCKTAIL COCONUTS COCOONED CODDLING CODICILS CODIFIED CODIFIES COEQUALS COERCING COERCION COERCIVE COEXISTS COFFINED COGENTLY COGITATE COGNATES COGNOMEN COGWHEEL COHABITS COHERENT COHERING COHESION COHESIVE COIFFING COIFFURE COINAGES COINCIDE COLANDER COLDNESS COLESLAW COLISEUM COLLAGES COLLAPSE COLLARED COLLATED COLLATES COLLECTS COLLEENS COLLEGES COLLIDED COLLIDES COLLIERS COLLIERY COLLOIDS COLLOQUY COLLUDED COLLUDES COLOGNES COLONELS COLONIAL COLONIES COLONIST COLONIZE COLOREDS COLORFUL COLORING COLOSSAL COLOSSUS COLUMNED COMATOSE COMBATED COMBINED COMBINES COMEBACK COMEDIAN COMEDIES COMEDOWN COMELIER COMFIEST COMFORTS COMMANDO COMMANDS COMMENCE COMMENDS COMMENTS COMMERCE COMMODES COMMONER COMMONLY COMMUNAL COMMUNED COMMUNES COMMUTED COMMUTER COMMUTES COMPACTS COMPARED COMPARES COMPETED COMPETES COMPILED COMPILER COMPILES COMPLAIN COMPLETE COMPLIED COMPLIES COMPORTS COMPOSED COMPOSER COMPOSES COMPOSTS COMPOTES COMPOUND COMPRESS COMPRISE COMPUTED COMPUTER COMPUTES COMRADES CONCEALS CONCEDED CONCEDES CONCEITS CONCEIVE CONCEPTS CONCERNS CONCERTO CONCERTS CONCISER CONCLAVE CONCLUDE CONCOCTS CONCRETE CONDEMNS CONDENSE CONDOLED CONDOLES CONDONED CONDONES CONDUCED CONDUCES CONDUCTS CONDUITS CONFETTI CONFIDED CONFIDES CONFINED CONFINES CONFIRMS CONFLICT CONFORMS CONFOUND CONFRONT CONFUSED CONFUSES CONFUTED CONFUTES CONGAING CONGEALS CONGESTS CONGRESS CONIFERS CONJOINS CONJOINT CONJUGAL CONJURED CONJURER CONJURES CONNECTS CONNIVED CONNIVER CONNIVES CONNOTED CONNOTES CONQUERS CONQUEST CONSENTS CONSERVE CONSIDER CONSIGNS CONSISTS CONSOLED CONSOLES CONSORTS CONSPIRE CONSTANT CONSTRUE CONSULAR CONSULTS CONSUMED CONSUMER CONSUMES CONTACTS CONTAINS CONTEMPT CONTENDS CONTENTS CONTESTS CONTEXTS CONTINUA CONTINUE CONTORTS CONTOURS CONTRACT CONTRAIL CONTRARY CONTRAST CONTRITE CONTRIVE CONTROLS CONTUSED CONTUSES CONVENED CONVENES CONVENTS CONVERGE CONVERSE CONVERTS CONVEYED CONVEYOR CONVICTS CONVINCE CONVOKED CONVOKES CONVOYED CONVULSE COOKBOOK COOKOUTS COOLANTS COOLNESS COOPERED COPILOTS COPULATE COPYCATS COQUETTE CORDIALS CORDLESS CORDONED CORDUROY CORNBALL CORNCOBS CORNERED CORNICES CORNIEST CORNMEAL CORNROWS COROLLAS CORONARY CORONERS CORONETS CORPORAL CORRECTS CORRIDOR CORRODED CORRODES CORRUPTS CORSAGES CORSAIRS CORSETED CORTICAL CORTICES COSIGNED COSIGNER COSMETIC COSMOSES COSTINGS COSTLIER COSTUMED COSTUMES COTERIES COTTAGES COTTONED COUCHING COUGHING COUNCILS COUNSELS COUNTERS COUNTESS COUNTIES COUNTING COUPLETS COUPLING COURIERS COURSING COURTESY COURTIER COURTING COVENANT COVERAGE COVERALL COVERING COVERLET COVERTLY COVETING COVETOUS COWARDLY COWBIRDS COWERING COWGIRLS COWHANDS COWHIDES COWLICKS COWLINGS COWORKER COWPOKES COWSLIPS COXCOMBS COXSWAIN COZENING COZINESS CRABBIER CRABBILY CRABBING CRACKERS CRACKING CRACKLED CRACKLES CRACKPOT CRACKUPS CRADLING CRAFTIER CRAFTILY CRAFTING CRAGGIER CRAMMING CRAMPING CRANIUMS CRANKIER CRANKING CRANNIES CRAPPIER CRAPPING CRASHING CRASSEST CRATERED CRAVENLY CRAVINGS CRAWLING CRAYFISH CRAYONED CRAZIEST CREAKIER CREAKING CREAMERS CREAMERY CREAMIER CREAMING CREASING CREATING CREATION CREATIVE CREATORS CREATURE CREDENCE CREDENZA CREDIBLE CREDIBLY CREDITED CREDITOR CREEPERS CREEPIER CREEPILY CREEPING CREMATED CREMATES CREOSOTE CRESCENT CRESTING CREVASSE CREVICES CRIBBAGE CRIBBING CRICKETS CRICKING CRIMINAL CRIMPING CRIMSONS CRINGING CRINKLED CRINKLES CRIPPLED CRIPPLES CRISPEST CRISPIER CRISPING CRITERIA CRITICAL CRITIQUE CRITTERS CROAKING CROCHETS CROCKERY CROCUSES CROOKING CROONERS CROONING CROPPERS CROPPING CROSIERS CROSSBAR CROSSBOW CROSSEST CROSSING CROTCHES CROTCHET CROUCHED CROUCHES CROUPIER CROWBARS CROWDING CROWNING CRUCIBLE CRUCIFIX CRUDDIER CRUELEST CRUISERS CRUISING CRULLERS CRUMBIER CRUMBING CRUMBLED CRUMBLES CRUMMIER CRUMPETS CRUMPLED CRUMPLES CRUNCHED CRUNCHER CRUNCHES CRUSADED CRUSADER CRUSADES CRUSHING CRUSTIER CRUSTING CRUTCHES CRYSTALS CUBICLES CUCKOLDS CUCUMBER CUDDLIER CUDDLING CUDGELED CUISINES CULINARY CULOTTES CULPABLE CULPRITS CULTURAL CULTURED CULTURES CULVERTS CUPBOARD CUPCAKES CUPIDITY CURACIES CURATIVE CURATORS CURDLING CURLICUE CURLIEST CURRANTS CURRENCY CURRENTS CURRYING CURTAILS CURTAINS CURTNESS CURTSIED CURTSIES CURVIEST CUSHIEST CUSHIONS CUSTARDS CUSTOMER CUTBACKS CUTENESS CUTESIER CUTICLES CUTTINGS CYBERSEX CYCLAMEN CYCLICAL CYCLISTS CYCLONES CYCLONIC CYLINDER CYNICISM CYNOSURE CYTOLOGY CZARINAS',
+    D: 'DABBLERS DABBLING DACTYLIC DAFFIEST DAFFODIL DAINTIER DAINTIES DAINTILY DAIQUIRI DAIRYING DAIRYMAN DAIRYMEN DALLYING DAMAGING DAMASKED DAMNABLE DAMNABLY DAMPENED DAMPNESS DANDIEST DANDLING DANDRUFF DANGLING DANKNESS DAPPERER DAPPLING DARINGLY DARKENED DARKNESS DARKROOM DARLINGS DARNEDER DASHIKIS DATABASE DATATYPE DATELINE DAUGHTER DAUNTING DAUPHINS DAWDLERS DAWDLING DAYBREAK DAYDREAM DAYLIGHT DAZZLING DEADBEAT DEADBOLT DEADENED DEADLIER DEADLINE DEADLOCK DEADPANS DEADWOOD DEAFENED DEAFNESS DEALINGS DEARNESS DEATHBED DEBACLES DEBARKED DEBARRED DEBASING DEBATERS DEBATING DEBILITY DEBITING DEBONAIR DEBRIEFS DEBUGGED DEBUGGER DEBUNKED DEBUTING DECADENT DECAMPED DECANTED DECANTER DECAYING DECEASED DECEASES DECEDENT DECEIVED DECEIVER DECEIVES DECENTLY DECIBELS DECIDING DECIMALS DECIMATE DECIPHER DECISION DECISIVE DECKHAND DECLAIMS DECLARED DECLARES DECLINED DECLINES DECODING DECORATE DECOROUS DECOYING DECREASE DECREPIT DECRYING DEDICATE DEDUCING DEDUCTED DEEPENED DEEPNESS DEERSKIN DEFACING DEFAMING DEFAULTS DEFEATED DEFECATE DEFECTED DEFECTOR DEFENDED DEFENDER DEFENSED DEFENSES DEFERRED DEFIANCE DEFICITS DEFILING DEFINERS DEFINING DEFINITE DEFLATED DEFLATES DEFLECTS DEFOGGER DEFOREST DEFORMED DEFRAUDS DEFRAYAL DEFRAYED DEFROSTS DEFTNESS DEFUSING DEGRADED DEGRADES DEIFYING DEIGNING DEJECTED DELAYING DELEGATE DELETING DELETION DELICACY DELICATE DELIGHTS DELIMITS DELIRIUM DELIVERS DELIVERY DELUDING DELUGING DELUSION DELUSIVE DEMAGOGY DEMANDED DEMEANED DEMEANOR DEMENTED DEMENTIA DEMERITS DEMESNES DEMIGODS DEMIJOHN DEMISING DEMOCRAT DEMOLISH DEMONIAC DEMOTING DEMOTION DEMURELY DEMUREST DEMURRED DENATURE DENDRITE DENIZENS DENOTING DENOUNCE DENTISTS DENTURES DENUDING DEPARTED DEPENDED DEPICTED DEPLANED DEPLANES DEPLETED DEPLETES DEPLORED DEPLORES DEPLOYED DEPORTED DEPOSING DEPOSITS DEPRAVED DEPRAVES DEPRIVED DEPRIVES DEPUTIES DEPUTING DEPUTIZE DERAILED DERANGED DERANGES DERELICT DERIDING DERISION DERISIVE DERISORY DERIVING DEROGATE DERRICKS DESCANTS DESCENDS DESCENTS DESCRIBE DESCRIED DESCRIES DESERTED DESERTER DESERVED DESERVES DESIGNED DESIGNER DESIRING DESIROUS DESISTED DESKTOPS DESOLATE DESPAIRS DESPISED DESPISES DESPOILS DESPOTIC DESSERTS DESTINED DESTINES DESTROYS DESTRUCT DETACHED DETACHES DETAILED DETAINED DETAINEE DETECTED DETECTOR DETENTES DETERRED DETESTED DETHRONE DETONATE DETOURED DETOXIFY DETOXING DETRACTS DETRITUS DEVALUED DEVALUES DEVELOPS DEVIANCE DEVIANTS DEVIATED DEVIATES DEVILING DEVILISH DEVILTRY DEVISING DEVOLVED DEVOLVES DEVOTEES DEVOTING DEVOTION DEVOURED DEVOUTER DEVOUTLY DEWBERRY DEWDROPS DEXTROSE DIABETES DIABETIC DIABOLIC DIAGNOSE DIAGONAL DIAGRAMS DIALECTS DIALINGS DIALOGUE DIALYSES DIALYSIS DIALYZES DIAMETER DIAMONDS DIAPERED DIARISTS DIARRHEA DIATRIBE DIBBLING DICKERED DICTATED DICTATES DICTATOR DIDACTIC DIDDLING DIERESES DIERESIS DIESELED DIETETIC DIFFERED DIFFUSED DIFFUSES DIGESTED DIGITIZE DIGRAPHS DILATING DILATION DILATORY DILEMMAS DILIGENT DILUTING DILUTION DIMINISH DIMPLING DINETTES DINGHIES DINGIEST DINKIEST DINNERED DINOSAUR DIOCESAN DIOCESES DIORAMAS DIPLOMAS DIPLOMAT DIPSTICK DIRECTED DIRECTER DIRECTLY DIRECTOR DIRTIEST DIRTYING DISABLED DISABLES DISABUSE DISAGREE DISALLOW DISARMED DISARRAY DISASTER DISAVOWS DISBANDS DISBURSE DISCARDS DISCERNS DISCIPLE DISCLAIM DISCLOSE DISCOING DISCOLOR DISCORDS DISCOUNT DISCOVER DISCREET DISCRETE DISCUSES DISDAINS DISEASED DISEASES DISFAVOR DISGORGE DISGRACE DISGUISE DISGUSTS DISHEVEL DISHONOR DISHPANS DISHRAGS DISINTER DISJOINT DISKETTE DISLIKED DISLIKES DISLODGE DISLOYAL DISMALLY DISMAYED DISMOUNT DISOBEYS DISORDER DISOWNED DISPATCH DISPENSE DISPERSE DISPIRIT DISPLACE DISPLAYS DISPORTS DISPOSAL DISPOSED DISPOSES DISPROOF DISPROVE DISPUTED DISPUTES DISQUIET DISROBED DISROBES DISRUPTS DISSECTS DISSENTS DISSOLVE DISSUADE DISTAFFS DISTANCE DISTASTE DISTENDS DISTILLS DISTINCT DISTORTS DISTRACT DISTRAIT DISTRESS DISTRICT DISTRUST DISTURBS DISUNITE DISUNITY DISUSING DITCHING DITHERED DITTOING DIURETIC DIVERGED DIVERGES DIVERTED DIVESTED DIVIDEND DIVIDERS DIVIDING DIVINELY DIVINERS DIVINEST DIVINING DIVINITY DIVISION DIVISIVE DIVISORS DIVORCED DIVORCES DIVULGED DIVULGES DIVVYING DIZZIEST DIZZYING DOCILELY DOCILITY DOCKETED DOCKYARD DOCTORAL DOCTORED DOCTRINE DOCUMENT DODDERED DOGFIGHT DOGGEDLY DOGGEREL DOGGIEST DOGGONER DOGGONES DOGHOUSE DOGMATIC DOGTROTS DOGWOODS DOLDRUMS DOLLOPED DOLOROUS DOLPHINS DOMESTIC DOMICILE DOMINANT DOMINATE DOMINEER DOMINION DOMINOES DONATING DONATION DOODLERS DOODLING DOOMSDAY DOORBELL DOORKNOB DOORMATS DOORSTEP DOORWAYS DORKIEST DORMANCY DORMOUSE DOSSIERS DOTINGLY DOUBLETS DOUBLING DOUBLOON DOUBTERS DOUBTFUL DOUBTING DOUCHING DOUGHIER DOUGHNUT DOVETAIL DOWAGERS DOWDIEST DOWELING DOWNBEAT DOWNCAST DOWNFALL DOWNHILL DOWNIEST DOWNLOAD DOWNPLAY DOWNPOUR DOWNSIZE DOWNTIME DOWNTOWN DOWNTURN DOWNWARD DOWNWIND DOXOLOGY DRABBEST DRABNESS DRACHMAS DRAFTEES DRAFTIER DRAFTING DRAGGING DRAGNETS DRAGOONS DRAINAGE DRAINERS DRAINING DRAMATIC DRAWBACK DRAWINGS DRAWLING DREADFUL DREADING DREAMERS DREAMIER DREAMILY DREAMING DREARIER DREARILY DREDGERS DREDGING DRENCHED DRENCHES DRESSAGE DRESSERS DRESSIER DRESSING DRIBBLED DRIBBLER DRIBBLES DRIBLETS DRIFTERS DRIFTING DRILLING DRINKERS DRINKING DRIPPING DRIVELED DRIVEWAY DRIVINGS DRIZZLED DRIZZLES DROLLERY DROLLEST DROOLING DROOPIER DROOPING DROPLETS DROPOUTS DROPPERS DROPPING DROUGHTS DROWNING DROWSIER DROWSILY DROWSING DRUBBING DRUDGERY DRUDGING DRUGGING DRUGGIST DRUMMERS DRUMMING DRUNKARD DRUNKEST DUCKBILL DUCKLING DUCTLESS DUELISTS DUKEDOMS DULCIMER DULLARDS DULLNESS DUMBBELL DUMBNESS DUMPIEST DUMPLING DUMPSTER DUNGAREE DUNGEONS DUODENAL DUODENUM DUPLEXES DURATION DUSKIEST DUSTBINS DUSTIEST DUSTLESS DUSTPANS DUTIABLE DWARFING DWARFISH DWARFISM DWELLERS DWELLING DWINDLED DWINDLES DYESTUFF DYNAMICS DYNAMISM DYNAMITE DYNASTIC DYSLEXIA DYSLEXIC',
+    E: 'EAGEREST EARACHES EARDRUMS EARLDOMS EARLIEST EARLOBES EARMARKS EARMUFFS EARNESTS EARNINGS EARPHONE EARPLUGS EARRINGS EARTHIER EARTHING EASINESS EASTERLY EASTWARD EATABLES EATERIES ECHELONS ECLECTIC ECLIPSED ECLIPSES ECLIPTIC ECONOMIC ECSTATIC EDGEWISE EDGINESS EDIFICES EDIFYING EDITABLE EDITIONS EDUCABLE EDUCATED EDUCATES EDUCATOR EERINESS EFFACING EFFECTED EFFICACY EFFIGIES EFFLUENT EFFUSION EFFUSIVE EGGHEADS EGGPLANT EGGSHELL EGOISTIC EGOTISTS EGRESSES EIGHTEEN EIGHTIES EJECTING EJECTION ELAPSING ELASTICS ELBOWING ELECTING ELECTION ELECTIVE ELECTORS ELECTRIC ELECTRON ELEGANCE ELEGIACS ELEMENTS ELEPHANT ELEVATED ELEVATES ELEVATOR ELEVENTH ELICITED ELIGIBLE ELISIONS ELITISTS ELLIPSES ELLIPSIS ELLIPTIC ELONGATE ELOQUENT EMACIATE EMAILING EMANATED EMANATES EMBALMED EMBALMER EMBARKED EMBEDDED EMBEZZLE EMBITTER EMBLAZON EMBODIED EMBODIES EMBOLDEN EMBOLISM EMBOSSED EMBOSSES EMBRACED EMBRACES EMBROILS EMCEEING EMENDING EMERALDS EMERGENT EMERGING EMERITUS EMIGRANT EMIGRATE EMINENCE EMIRATES EMISSARY EMISSION EMITTING EMOTIONS EMPERORS EMPHASES EMPHASIS EMPHATIC EMPLOYED EMPLOYEE EMPLOYER EMPORIUM EMPOWERS EMPTIEST EMPTYING EMULATED EMULATES EMULATOR EMULSIFY EMULSION ENABLING ENACTING ENAMELED ENAMORED ENCAMPED ENCASING ENCHANTS ENCIRCLE ENCLAVES ENCLOSED ENCLOSES ENCODERS ENCODING ENCORING ENCROACH ENCRUSTS ENCRYPTS ENCUMBER ENDANGER ENDEARED ENDEAVOR ENDEMICS ENDORSED ENDORSER ENDORSES ENDOWING ENDURING ENERGIES ENERGIZE ENERVATE ENFEEBLE ENFOLDED ENFORCED ENFORCER ENFORCES ENGAGING ENGENDER ENGINEER ENGORGED ENGORGES ENGRAVED ENGRAVER ENGRAVES ENGULFED ENHANCED ENHANCER ENHANCES ENJOINED ENJOYING ENLARGED ENLARGER ENLARGES ENLISTED ENLISTEE ENLIVENS ENMESHED ENMESHES ENMITIES ENNOBLED ENNOBLES ENORMITY ENORMOUS ENRAGING ENRICHED ENRICHES ENROLLED ENSCONCE ENSEMBLE ENSHRINE ENSHROUD ENSLAVED ENSLAVES ENSNARED ENSNARES ENSURING ENTAILED ENTANGLE ENTENTES ENTERING ENTHRALL ENTHRONE ENTHUSED ENTHUSES ENTICING ENTIRELY ENTIRETY ENTITIES ENTITLED ENTITLES ENTOMBED ENTRAILS ENTRANCE ENTRANTS ENTREATS ENTREATY ENTRENCH ENTRUSTS ENTRYWAY ENTWINED ENTWINES ENVELOPE ENVELOPS ENVIABLE ENVIABLY ENVIRONS ENVISAGE ENVISION EPAULETS EPICURES EPIDEMIC EPIGRAMS EPILEPSY EPILOGUE EPISODES EPISODIC EPISTLES EPITAPHS EPITHETS EPITOMES EPOXYING EQUALING EQUALITY EQUALIZE EQUATING EQUATION EQUATORS EQUIPAGE EQUIPPED EQUITIES ERASURES ERECTILE ERECTING ERECTION ERSATZES ERUPTING ERUPTION ESCALATE ESCAPADE ESCAPEES ESCAPING ESCAPISM ESCAPIST ESCAROLE ESCHEWED ESCORTED ESOPHAGI ESOTERIC ESPECIAL ESPOUSAL ESPOUSED ESPOUSES ESPRESSO ESQUIRES ESSAYING ESSAYIST ESSENCES ESTEEMED ESTIMATE ESTRANGE ESTROGEN ETCHINGS ETERNITY ETHEREAL ETIOLOGY EUGENICS EULOGIES EULOGIZE EUPHORIA EUPHORIC EUTECTIC EVACUATE EVACUEES EVALUATE EVASIONS EVENINGS EVENNESS EVENTFUL EVENTIDE EVENTUAL EVERMORE EVERYDAY EVERYONE EVICTING EVICTION EVIDENCE EVILDOER EVINCING EVOLVING EXACTEST EXACTING EXALTING EXAMINED EXAMINER EXAMINES EXAMPLED EXAMPLES EXCAVATE EXCEEDED EXCELLED EXCEPTED EXCERPTS EXCESSES EXCHANGE EXCISING EXCISION EXCITING EXCLAIMS EXCLUDED EXCLUDES EXCRETED EXCRETES EXCUSING EXECRATE EXECUTED EXECUTES EXECUTOR EXEGESES EXEGESIS EXEMPLAR EXEMPTED EXERCISE EXERTING EXERTION EXHALING EXHAUSTS EXHIBITS EXHORTED EXHUMING EXIGENCY EXIGUOUS EXISTENT EXISTING EXODUSES EXORCISE EXORCISM EXORCIST EXPANDED EXPANSES EXPECTED EXPEDITE EXPELLED EXPENDED EXPENSES EXPERTLY EXPIATED EXPIATES EXPIRING EXPLAINS EXPLICIT EXPLODED EXPLODES EXPLOITS EXPLORED EXPLORER EXPLORES EXPONENT EXPORTED EXPORTER EXPOSING EXPOSURE EXPOUNDS EXPUNGED EXPUNGES EXTENDED EXTERIOR EXTERNAL EXTINCTS EXTOLLED EXTORTED EXTRACTS EXTREMER EXTREMES EXTRUDED EXTRUDES EXULTANT EXULTING EYEBALLS EYEBROWS EYEGLASS EYELINER EYEPIECE EYESIGHT EYESORES EYETEETH EYETOOTH',
+    F: 'FABULOUS FACELESS FACETING FACIALLY FACILITY FACTIONS FACTORED FACTOTUM FAILINGS FAILURES FAINTEST FAINTING FAIRNESS FAIRWAYS FAITHFUL FALCONER FALCONRY FALLIBLE FALLIBLY FALLOFFS FALLOWED FALSETTO FALTERED FAMILIAL FAMILIAR FAMILIES FAMISHED FAMISHES FAMOUSLY FANATICS FANCIERS FANCIEST FANCIFUL FANCYING FANFARES FARCICAL FAREWELL FARMHAND FARMLAND FARMYARD FARROWED FARTHEST FARTHING FASCISTS FASHIONS FASTENED FASTENER FASTNESS FATALISM FATALIST FATALITY FATHEADS FATHERED FATHERLY FATHOMED FATIGUED FATIGUES FATTENED FATTIEST FAULTIER FAULTILY FAULTING FAVORING FAVORITE FEARLESS FEARSOME FEASIBLE FEASIBLY FEASTING FEATHERS FEATHERY FEATURED FEATURES FECKLESS FEDERALS FEDERATE FEEBLEST FEEDBACK FEEDBAGS FEEDINGS FEELINGS FEIGNING FEINTING FEISTIER FELDSPAR FELICITY FELLATIO FELONIES FEMININE FEMINISM FEMINIST FERMENTS FEROCITY FERRETED FERRULES FERRYING FERVENCY FERVIDLY FESTERED FESTIVAL FESTOONS FETCHING FETISHES FETLOCKS FETTERED FEVERISH FIASCOES FICKLEST FICTIONS FIDDLERS FIDDLING FIDELITY FIDGETED FIELDERS FIELDING FIENDISH FIERCELY FIERCEST FIERIEST FIFTEENS FIFTIETH FIGHTERS FIGHTING FIGMENTS FIGURINE FIGURING FILAMENT FILBERTS FILCHING FILIGREE FILLETED FILLINGS FILLIPED FILMIEST FILTERED FILTHIER FILTRATE FINAGLED FINAGLER FINAGLES FINALIST FINALITY FINALIZE FINANCED FINANCES FINDINGS FINENESS FINESSED FINESSES FINGERED FINISHED FINISHER FINISHES FINITELY FIREARMS FIREBALL FIREBOMB FIREBUGS FIREPLUG FIRESIDE FIRETRAP FIREWALL FIREWOOD FIREWORK FIRMNESS FIRMWARE FISCALLY FISHBOWL FISHHOOK FISHIEST FISHNETS FISHTAIL FISHWIFE FISSURES FISTFULS FITFULLY FITTINGS FIXATING FIXATION FIXATIVE FIXTURES FIZZIEST FIZZLING FLABBIER FLAGELLA FLAGGING FLAGPOLE FLAGRANT FLAGSHIP FLAILING FLAKIEST FLAMENCO FLAMINGO FLAMINGS FLANKING FLANNELS FLAPJACK FLAPPERS FLAPPING FLASHERS FLASHEST FLASHGUN FLASHIER FLASHILY FLASHING FLATBEDS FLATBOAT FLATCARS FLATFEET FLATFISH FLATFOOT FLATIRON FLATNESS FLATTENS FLATTERS FLATTERY FLATTEST FLATTING FLATTOPS FLATWARE FLAUNTED FLAVORED FLAWLESS FLECKING FLEECIER FLEECING FLEETEST FLEETING FLESHIER FLESHING FLEXIBLE FLEXIBLY FLEXTIME FLICKERS FLICKING FLIMFLAM FLIMSIER FLIMSILY FLINCHED FLINCHES FLINGING FLINTIER FLIPPANT FLIPPERS FLIPPEST FLIPPING FLIRTING FLITTING FLOATERS FLOATING FLOCKING FLOGGING FLOODING FLOODLIT FLOORING FLOOZIES FLOPPIER FLOPPIES FLOPPING FLORIDLY FLORISTS FLOSSING FLOTILLA FLOUNCED FLOUNCES FLOUNDER FLOURING FLOURISH FLOUTING FLOWERED FLUBBING FLUENTLY FLUFFIER FLUFFING FLUIDITY FLUKIEST FLUNKIES FLUNKING FLUORIDE FLUORINE FLUORITE FLURRIED FLURRIES FLUSHEST FLUSHING FLUSTERS FLUTISTS FLUTTERS FLUTTERY FLYOVERS FLYPAPER FLYSHEET FLYSPECK FLYWHEEL FOAMIEST FOCUSING FOGBOUND FOGGIEST FOGHORNS FOISTING FOLDAWAY FOLKLORE FOLKSIER FOLLICLE FOLLOWED FOLLOWER FOMENTED FONDANTS FONDLING FONDNESS FOOLSCAP FOOTBALL FOOTFALL FOOTHILL FOOTHOLD FOOTINGS FOOTNOTE FOOTPATH FOOTREST FOOTSIES FOOTSORE FOOTSTEP FOOTWEAR FOOTWORK FORAGERS FORAGING FORAYING FORBEARS FORBORNE FORCEFUL FORCIBLE FORCIBLY FOREARMS FOREBEAR FOREBODE FORECAST FOREFEET FOREFOOT FOREGOES FOREGONE FOREHAND FOREHEAD FORELEGS FORELOCK FOREMAST FOREMOST FORENAME FORENOON FORENSIC FOREPLAY FORESAIL FORESEEN FORESEES FORESKIN FORESTED FORESTER FORESTRY FORETELL FORETOLD FOREWARN FOREWENT FOREWORD FORFEITS FORGIVEN FORGIVES FORGOING FORKLIFT FORMALLY FORMERLY FORMLESS FORMULAE FORMULAS FORSAKEN FORSAKES FORSOOTH FORSWEAR FORSWORE FORSWORN FORTIETH FORTRESS FORTUNES FORWARDS FOSTERED FOULNESS FOUNDERS FOUNDING FOUNTAIN FOURFOLD FOURSOME FOURTEEN FOURTHLY FOXGLOVE FOXHOLES FOXHOUND FOXTROTS FRACASES FRACKING FRACTALS FRACTION FRACTURE FRAGMENT FRAGRANT FRAILEST FRANKEST FRANKING FRAZZLED FRAZZLES FREAKIER FREAKING FREAKISH FRECKLED FRECKLES FREEBASE FREEBIES FREEDMAN FREEDMEN FREEDOMS FREEHAND FREEHOLD FREELOAD FREEWAYS FREEWILL FREEZERS FREEZING FREIGHTS FRENETIC FRENZIED FRENZIES FREQUENT FRESCOES FRESHENS FRESHEST FRESHETS FRESHMAN FRESHMEN FRETTING FRETWORK FRICTION FRIENDED FRIENDLY FRIGATES FRIGHTED FRIGHTEN FRIGIDLY FRILLIER FRINGING FRIPPERY FRISKIER FRISKILY FRISKING FRITTERS FRIZZIER FRIZZING FRIZZLED FRIZZLES FRONTAGE FRONTIER FRONTING FROSTBIT FROSTIER FROSTILY FROSTING FROTHIER FROTHING FROWNING FROWZIER FRUCTIFY FRUCTOSE FRUGALLY FRUITFUL FRUITIER FRUITING FRUITION FRUMPIER FUCHSIAS FUDDLING FUGITIVE FULCRUMS FULFILLS FULLBACK FULLNESS FUMBLERS FUMBLING FUMIGATE FUNCTION FUNERALS FUNEREAL FUNKIEST FUNNELED FUNNIEST FURBELOW FURLONGS FURLOUGH FURNACES FURRIERS FURRIEST FURROWED FURTHERS FURTHEST FUSELAGE FUSSIEST FUSTIEST FUTILELY FUTILITY FUTURITY FUZZIEST',
+    G: 'GABBIEST GABBLING GADABOUT GADFLIES GADGETRY GAINSAID GAINSAYS GALACTIC GALAXIES GALLANTS GALLEONS GALLOPED GALOSHES GALVANIC GAMBLERS GAMBLING GAMBOLED GAMECOCK GAMENESS GANGLAND GANGLING GANGLION GANGRENE GANGSTER GANGWAYS GANTLETS GANTRIES GARAGING GARBANZO GARBLING GARDENED GARDENER GARDENIA GARGLING GARGOYLE GARISHLY GARLANDS GARLICKY GARMENTS GARNERED GARRISON GARROTED GARROTES GASLIGHT GASOLINE GASSIEST GASWORKS GATEPOST GATEWAYS GATHERED GATHERER GAUCHEST GAUDIEST GAUNTEST GAUNTLET GAUZIEST GAVOTTES GAWKIEST GAZELLES GAZETTED GAZETTES GAZPACHO GEEKIEST GELDINGS GEMSTONE GENDARME GENERALS GENERATE GENERICS GENEROUS GENETICS GENIALLY GENITALS GENITIVE GENIUSES GENOCIDE GENTIANS GENTILES GENTLEST GENTLING GENTRIES GENTRIFY GEOCACHE GEODESIC GEOLOGIC GEOMETER GEOMETRY GERANIUM GERMINAL GESTATED GESTATES GESTURED GESTURES GETAWAYS GHERKINS GHOSTING GHOULISH GIANTESS GIBBERED GIBBETED GIDDIEST GIGABITS GIGABYTE GIGANTIC GIGGLERS GIGGLIER GIGGLING GIMCRACK GIMLETED GIMMICKS GIMMICKY GINGERLY GINKGOES GIRAFFES GIRDLING GIRLHOOD GIVEAWAY GIZZARDS GLACIERS GLADDENS GLADDEST GLADIOLA GLADIOLI GLADNESS GLAMOURS GLANCING GLASSFUL GLASSIER GLASSING GLAUCOMA GLAZIERS GLEAMING GLEANING GLIBBEST GLIBNESS GLIMMERS GLIMPSED GLIMPSES GLINTING GLISTENS GLITCHES GLITTERS GLITTERY GLITZIER GLOAMING GLOATING GLOBALLY GLOBULAR GLOBULES GLOOMIER GLOOMILY GLORIOUS GLORYING GLOSSARY GLOSSIER GLOSSIES GLOSSING GLOWERED GLOWWORM GLUMMEST GLUMNESS GLUTTING GLUTTONS GLUTTONY GLYCERIN GLYCEROL GLYCOGEN GNARLIER GNARLING GNASHING GOALPOST GOATHERD GOATSKIN GOBBLERS GOBBLING GODCHILD GODLIEST GODSENDS GOGGLING GOLDENER GOLDFISH GONDOLAS GOODBYES GOODLIER GOODNESS GOODWILL GOOFIEST GOOGLING GORGEOUS GORILLAS GORINESS GOSLINGS GOSSAMER GOSSIPED GOURMAND GOURMETS GOUTIEST GOVERNED GOVERNOR GRABBING GRACEFUL GRACIOUS GRACKLES GRADIENT GRADUATE GRAFFITI GRAFFITO GRAFTERS GRAFTING GRAINIER GRAMMARS GRANDDAD GRANDEES GRANDEST GRANDEUR GRANDMAS GRANDPAS GRANDSON GRANNIES GRANTING GRANULAR GRANULES GRAPHICS GRAPHING GRAPHITE GRAPNELS GRAPPLED GRAPPLES GRASPING GRASSIER GRASSING GRATEFUL GRATINGS GRATUITY GRAVELED GRAVELLY GRAYNESS GREASIER GREASING GREATEST GREEDIER GREEDILY GREENERY GREENEST GREENING GREENISH GREETING GREMLINS GRENADES GRIDDLES GRIDIRON GRIDLOCK GRIEVING GRIEVOUS GRIFFINS GRILLING GRIMACED GRIMACES GRIMIEST GRIMMEST GRIMNESS GRINDERS GRINDING GRINNING GRIPPING GRISLIER GRITTIER GRITTING GRIZZLED GROANING GROGGIER GROGGILY GROMMETS GROOMING GROOVIER GROOVING GROSBEAK GROSSEST GROSSING GROTTOES GROUCHED GROUCHES GROUNDED GROUNDER GROUPERS GROUPIES GROUPING GROUSING GROUTING GROVELED GROVELER GROWLING GROWNUPS GRUBBIER GRUBBING GRUDGING GRUELING GRUESOME GRUFFEST GRUMBLED GRUMBLER GRUMBLES GRUMPIER GRUMPILY GRUNGIER GRUNTING GUARANTY GUARDIAN GUARDING GUESSERS GUESSING GUESTING GUFFAWED GUIDANCE GUILDERS GUILEFUL GUILTIER GUILTILY GULLIBLE GUMDROPS GUMMIEST GUMPTION GUNBOATS GUNFIGHT GUNPOINT GUNSHOTS GUNSMITH GUNWALES GURGLING GUSHIEST GUSSETED GUSTIEST GUTSIEST GUTTERED GUTTURAL GUZZLERS GUZZLING GYMNASTS GYRATING GYRATION',
+    H: 'HABITATS HABITUAL HACIENDA HACKNEYS HACKSAWS HADDOCKS HAGGLERS HAGGLING HAIRCUTS HAIRIEST HAIRLESS HAIRLINE HAIRNETS HAIRPINS HALBERDS HALFBACK HALFTIME HALIBUTS HALLMARK HALLOWED HALLWAYS HALOGENS HALTERED HALYARDS HAMMERED HAMMOCKS HAMPERED HAMSTERS HANDBAGS HANDBALL HANDBILL HANDBOOK HANDCARS HANDCART HANDCUFF HANDFULS HANDGUNS HANDHELD HANDICAP HANDIEST HANDLERS HANDLING HANDMADE HANDMAID HANDOUTS HANDPICK HANDRAIL HANDSETS HANDSOME HANDWORK HANDYMAN HANDYMEN HANGINGS HANGNAIL HANGOUTS HANGOVER HANKERED HAPPENED HAPPIEST HARANGUE HARASSED HARASSES HARBORED HARDBACK HARDBALL HARDENED HARDENER HARDIEST HARDNESS HARDSHIP HARDTACK HARDTOPS HARDWARE HARDWOOD HARELIPS HARMLESS HARMONIC HARPISTS HARPOONS HARRIDAN HARROWED HARRYING HARSHEST HARVESTS HASHTAGS HASSLING HASSOCKS HASTENED HASTIEST HATCHERY HATCHETS HATCHING HATCHWAY HAUNCHES HAUNTING HAWTHORN HAYCOCKS HAYLOFTS HAYSEEDS HAYSTACK HAZARDED HAZELNUT HAZINESS HEADACHE HEADBAND HEADGEAR HEADIEST HEADINGS HEADLAND HEADLESS HEADLINE HEADLOCK HEADLONG HEADREST HEADROOM HEADSETS HEADWIND HEADWORD HEARINGS HEARKENS HEARTENS HEARTIER HEARTIES HEARTILY HEATEDLY HEATHENS HEAVENLY HEAVIEST HEAVYSET HECKLERS HECKLING HECTARES HECTORED HEDGEHOG HEDGEROW HEDONISM HEDONIST HEEDLESS HEEHAWED HEFTIEST HEGEMONY HEIGHTEN HEIRLOOM HEISTING HELIPORT HELLHOLE HELLIONS HELMSMAN HELMSMEN HELPINGS HELPLESS HELPLINE HELPMATE HEMLINES HEMLOCKS HENCHMAN HENCHMEN HENNAING HENPECKS HEPTAGON HERALDED HERALDIC HERALDRY HERDSMAN HERDSMEN HEREDITY HERESIES HERETICS HEREUPON HEREWITH HERITAGE HERMETIC HERRINGS HESITANT HESITATE HEXAGONS HIATUSES HIBACHIS HIBISCUS HICCOUGH HICCUPED HIDEAWAY HIDEOUTS HIGHBALL HIGHBORN HIGHBOYS HIGHBROW HIGHLAND HIGHNESS HIGHTAIL HIGHWAYS HIJACKED HIJACKER HILARITY HILLIEST HILLOCKS HILLSIDE HILLTOPS HINDERED HINDMOST HIRELING HISTORIC HITCHING HITHERTO HOARDERS HOARDING HOARIEST HOARSELY HOARSEST HOBBLING HOBBYIST HOBNAILS HOCKSHOP HOEDOWNS HOGSHEAD HOISTING HOLDINGS HOLDOUTS HOLDOVER HOLIDAYS HOLINESS HOLISTIC HOLLERED HOLLOWED HOLLOWER HOLLOWLY HOLOGRAM HOLSTERS HOMBURGS HOMEBODY HOMEBOYS HOMELAND HOMELESS HOMELIER HOMEMADE HOMEPAGE HOMERING HOMEROOM HOMESICK HOMESPUN HOMETOWN HOMEWARD HOMEWORK HOMICIDE HOMILIES HOMONYMS HONESTER HONESTLY HONEYBEE HONEYDEW HONEYING HONORARY HONORING HOODLUMS HOODOOED HOODWINK HOOKWORM HOOLIGAN HOPEFULS HOPELESS HORIZONS HORMONAL HORMONES HORNIEST HORNLESS HORNPIPE HOROLOGY HORRIBLE HORRIBLY HORRIDLY HORRIFIC HORSEFLY HORSEMAN HORSEMEN HORSIEST HOSANNAS HOSPICES HOSPITAL HOSTAGES HOSTELED HOSTELER HOSTELRY HOSTILES HOSTLERS HOTCAKES HOTELIER HOTHEADS HOTHOUSE HOTSHOTS HOUNDING HOUSEFLY HOUSETOP HOUSINGS HOVERING HOWITZER HUCKSTER HUDDLING HUFFIEST HUGENESS HUMANELY HUMANEST HUMANISM HUMANIST HUMANITY HUMANIZE HUMANOID HUMBLEST HUMBLING HUMIDIFY HUMIDITY HUMIDORS HUMILITY HUMMOCKS HUMORING HUMORIST HUMOROUS HUMPBACK HUNCHING HUNDREDS HUNGERED HUNGOVER HUNGRIER HUNGRILY HUNKERED HUNTRESS HUNTSMAN HUNTSMEN HURDLERS HURDLING HURRAHED HURRYING HURTLING HUSBANDS HUSKIEST HUSTINGS HUSTLERS HUSTLING HYACINTH HYDRANTS HYDRATED HYDRATES HYDROGEN HYGIENIC HYPHENED HYPNOSES HYPNOSIS HYPNOTIC HYSTERIA HYSTERIC',
+    I: 'ICEBERGS ICEBOUND ICEBOXES IDEALISM IDEALIST IDEALIZE IDENTIFY IDENTITY IDEOGRAM IDEOLOGY IDIOCIES IDLENESS IDOLATER IDOLATRY IDOLIZED IDOLIZES IGNITING IGNITION IGNOMINY IGNORANT IGNORING ILLEGALS ILLUMINE ILLUSION ILLUSIVE ILLUSORY IMAGINED IMAGINES IMBECILE IMBIBING IMITATED IMITATES IMITATOR IMMANENT IMMATURE IMMERSED IMMERSES IMMINENT IMMOBILE IMMODEST IMMOLATE IMMORTAL IMMUNITY IMMUNIZE IMMURING IMPACTED IMPAIRED IMPALING IMPANELS IMPARTED IMPASSES IMPEDING IMPELLED IMPENDED IMPERIAL IMPERILS IMPETIGO IMPINGED IMPINGES IMPISHLY IMPLANTS IMPLICIT IMPLODED IMPLODES IMPLORED IMPLORES IMPLYING IMPOLITE IMPORTED IMPORTER IMPOSING IMPOSTOR IMPOTENT IMPOUNDS IMPRINTS IMPRISON IMPROPER IMPROVED IMPROVES IMPUDENT IMPUGNED IMPULSED IMPULSES IMPUNITY IMPURELY IMPUREST IMPURITY IMPUTING INACTION INACTIVE INASMUCH INBOARDS INBREEDS INCENSED INCENSES INCHOATE INCIDENT INCISING INCISION INCISIVE INCISORS INCITING INCLINED INCLINES INCLUDED INCLUDES INCOMING INCREASE INCUBATE INCURRED INDEBTED INDECENT INDENTED INDEXING INDICATE INDICTED INDIGENT INDIRECT INDOLENT INDUCING INDUCTED INDUCTEE INDULGED INDULGES INDUSTRY INEDIBLE INEQUITY INERTIAL INEXPERT INFAMIES INFAMOUS INFANTRY INFECTED INFERIOR INFERNAL INFERNOS INFERRED INFESTED INFIDELS INFIELDS INFINITE INFINITY INFLAMED INFLAMES INFLATED INFLATES INFLECTS INFLICTS INFLUXES INFORMAL INFORMED INFORMER INFRARED INFRINGE INFUSING INFUSION INGESTED INGRAINS INGRATES INHABITS INHALANT INHALERS INHALING INHERENT INHERING INHERITS INHIBITS INHUMANE INIMICAL INIQUITY INITIALS INITIATE INJECTED INJECTOR INJURIES INJURING INKBLOTS INKINESS INKLINGS INKWELLS INLAYING INNATELY INNOCENT INNOVATE INNUENDO INPUTTED INQUESTS INQUIRED INQUIRER INQUIRES INSANELY INSANEST INSANITY INSCRIBE INSECURE INSERTED INSIDERS INSIGHTS INSIGNIA INSISTED INSOLENT INSOMNIA INSPECTS INSPIRED INSPIRES INSTALLS INSTANCE INSTANTS INSTILLS INSTINCT INSTRUCT INSULATE INSULTED INSUREDS INSURERS INSURING INTAGLIO INTEGERS INTEGRAL INTENDED INTENSER INTENTLY INTERACT INTERCOM INTEREST INTERIOR INTERNAL INTERNED INTERNEE INTERNET INTERRED INTERVAL INTIMACY INTIMATE INTONING INTRANET INTREPID INTRIGUE INTRUDED INTRUDER INTRUDES INTUITED INUNDATE INVADERS INVADING INVALIDS INVASION INVASIVE INVEIGHS INVEIGLE INVENTED INVENTOR INVERSES INVERTED INVESTED INVESTOR INVITING INVOICED INVOICES INVOKING INVOLVED INVOLVES INWARDLY IODIZING IONIZERS IONIZING IRONCLAD IRONICAL IRONWARE IRONWORK IRRIGATE IRRITANT IRRITATE ISLANDER ISOLATED ISOLATES ISOTOPES ISOTOPIC ISSUANCE ITCHIEST ITEMIZED ITEMIZES ITERATED ITERATES ITERATOR',
+    J: 'JABBERED JABBERER JACKBOOT JACKDAWS JACKPOTS JAGGEDER JAGGEDLY JALOPIES JALOUSIE JAMBOREE JANGLING JANITORS JAPANNED JASMINES JAUNDICE JAUNTIER JAUNTILY JAUNTING JAVELINS JAWBONED JAWBONES JAYWALKS JAZZIEST JEALOUSY JELLYING JEOPARDY JEREMIAD JERKIEST JETTISON JEWELERS JEWELING JIGGERED JIGGLING JIGSAWED JIHADIST JIMMYING JINGLING JINGOISM JINGOIST JOCKEYED JOCOSELY JOCOSITY JOCUNDLY JODHPURS JOGGLING JOINTING JOKINGLY JOLLIEST JOLLYING JONQUILS JOSTLING JOTTINGS JOUNCING JOURNALS JOURNEYS JOUSTING JOVIALLY JOYFULLY JOYOUSLY JOYRIDER JOYRIDES JOYSTICK JUBILANT JUBILEES JUDGMENT JUDICIAL JUGGLERS JUGGLING JUGULARS JUICIEST JULIENNE JUMBLING JUMPIEST JUMPSUIT JUNCTION JUNCTURE JUNIPERS JUNKETED JUNKIEST JUNKYARD JUSTICES JUSTNESS JUVENILE',
+    K: 'KAMIKAZE KANGAROO KARAOKES KATYDIDS KAYAKING KEENNESS KEEPSAKE KENNELED KERCHIEF KEROSENE KESTRELS KEYBOARD KEYHOLES KEYNOTED KEYNOTES KEYPUNCH KEYSTONE KEYWORDS KIBITZED KIBITZER KIBITZES KICKBACK KICKIEST KICKOFFS KIELBASA KILLDEER KILLINGS KILLJOYS KILOBYTE KILOGRAM KILOTONS KILOWATT KINDLIER KINDLING KINDNESS KINFOLKS KINGDOMS KINGLIER KINGPINS KINGSHIP KINKIEST KIPPERED KITCHENS KLUTZIER KNAPSACK KNEADERS KNEADING KNEECAPS KNEELING KNELLING KNICKERS KNIGHTED KNIGHTLY KNITTERS KNITTING KNITWEAR KNOBBIER KNOCKERS KNOCKING KNOCKOUT KNOTHOLE KNOTTIER KNOTTING KNOWABLE KNOWINGS KNUCKLED KNUCKLES KOHLRABI KOOKIEST KOSHERED KOWTOWED KUMQUATS',
+    L: 'LABELING LABORERS LABORING LABURNUM LACERATE LACQUERS LACROSSE LACTATED LACTATES LADDERED LADYBIRD LADYBUGS LADYLIKE LADYSHIP LAGGARDS LAMASERY LAMBASTE LAMBKINS LAMBSKIN LAMENESS LAMENTED LAMINATE LAMPOONS LAMPPOST LAMPREYS LANDFALL LANDFILL LANDINGS LANDLADY LANDLINE LANDLORD LANDMARK LANDMASS LANDSLID LANDWARD LANGUAGE LANGUISH LANGUORS LANKIEST LANTERNS LANYARDS LAPIDARY LAPWINGS LARBOARD LARKSPUR LARYNGES LASAGNAS LASSOING LATCHING LATENESS LATERALS LATHERED LATITUDE LATRINES LATTERLY LATTICED LATTICES LAUDABLE LAUDABLY LAUDANUM LAUGHING LAUGHTER LAUNCHED LAUNCHER LAUNCHES LAUNDERS LAUREATE LAVATORY LAVENDER LAVISHED LAVISHER LAVISHES LAVISHLY LAWFULLY LAWGIVER LAWMAKER LAWSUITS LAXATIVE LAYERING LAYETTES LAYOVERS LAYWOMAN LAYWOMEN LAZINESS LEACHING LEAFIEST LEAFLESS LEAFLETS LEAGUING LEAKAGES LEAKIEST LEANINGS LEANNESS LEAPFROG LEARNERS LEARNING LEASHING LEATHERS LEATHERY LEAVENED LEAVINGS LECITHIN LECTERNS LECTURED LECTURER LECTURES LEECHING LEERIEST LEEWARDS LEFTISTS LEFTMOST LEFTOVER LEGACIES LEGALESE LEGALISM LEGALITY LEGALIZE LEGATEES LEGATION LEGGIEST LEGGINGS LEGROOMS LEMMINGS LEMONADE LENGTHEN LENIENCY LEOPARDS LEOTARDS LESBIANS LESSENED LETDOWNS LETHALLY LETHARGY LETTERED LETTUCES LEUKEMIA LEVELERS LEVELING LEVERAGE LEVERING LEVITATE LEWDNESS LEXICONS LIAISING LIAISONS LIBATION LIBELERS LIBELING LIBELOUS LIBERALS LIBERATE LIBRETTO LICENSED LICENSEE LICENSES LICKINGS LICORICE LIFEBOAT LIFELESS LIFELIKE LIFELINE LIFELONG LIFESPAN LIFETIME LIFEWORK LIFTOFFS LIGAMENT LIGATURE LIGHTENS LIGHTERS LIGHTEST LIGHTING LIKELIER LIKENESS LIKENING LIKEWISE LIMBERED LIMBLESS LIMEADES LIMERICK LIMITING LIMPIDLY LIMPNESS LINCHPIN LINEAGES LINEALLY LINEARLY LINEFEED LINESMAN LINESMEN LINGERED LINGERER LINGERIE LINGUIST LINIMENT LINKAGES LINOLEUM LIONIZED LIONIZES LIPREADS LIPSTICK LIQUEURS LIQUORED LISTENED LISTENER LISTINGS LISTLESS LITANIES LITERACY LITERALS LITERARY LITERATE LITERATI LITIGANT LITIGATE LITTERED LITTLEST LITTORAL LIVELIER LIVELONG LIVENING LIVERIED LIVERIES LOADABLE LOAMIEST LOANWORD LOATHING LOBBYING LOBBYIST LOBOTOMY LOBSTERS LOCALITY LOCALIZE LOCATING LOCATION LOCAVORE LOCKABLE LOCKOUTS LOCKSTEP LOCOWEED LOCUTION LODESTAR LODGINGS LOFTIEST LOGBOOKS LOGICIAN LOGISTIC LOGOTYPE LOITERED LOITERER LOLLIPOP LOLLYGAG LONELIER LONESOME LONGBOAT LONGHAIR LONGHAND LONGHORN LONGINGS LONGTIME LOOKOUTS LOONIEST LOOPHOLE LOOPIEST LOOSENED LOPSIDED LORDLIER LORDSHIP LOUDNESS LOUNGING LOUSIEST LOUVERED LOVEBIRD LOVELESS LOVELIER LOVELIES LOVELORN LOVESICK LOVINGLY LOWBROWS LOWERING LOWLANDS LOWLIEST LOYALEST LOYALIST LOZENGES LUCIDITY LUCKIEST LUCKLESS LUKEWARM LUMBERED LUMINARY LUMINOUS LUMMOXES LUMPIEST LUNACIES LUNATICS LUNCHBOX LUNCHEON LUNCHING LURCHING LUSCIOUS LUSHNESS LUSTIEST LUSTROUS LUXURIES LYMPHOMA LYNCHING LYRICIST',
+    M: 'MACARONI MACAROON MACERATE MACHETES MACHINED MACHINES MACHISMO MACKEREL MACKINAW MADDENED MADHOUSE MADRASAH MADRASAS MADRASES MADRASSA MADRIGAL MADWOMAN MADWOMEN MAESTROS MAGAZINE MAGICIAN MAGNATES MAGNESIA MAGNETIC MAGNETOS MAGNOLIA MAHARANI MAHATMAS MAHOGANY MAIDENLY MAILINGS MAINLAND MAINLINE MAINMAST MAINSAIL MAINSTAY MAINTAIN MAJESTIC MAJORING MAJORITY MALADIES MALARIAL MALARKEY MALENESS MALIGNED MALINGER MALLARDS MALTREAT MAMBOING MAMMOTHS MANACLED MANACLES MANAGERS MANAGING MANATEES MANDARIN MANDATED MANDATES MANDIBLE MANDOLIN MANDRAKE MANDRILL MANEUVER MANFULLY MANGIEST MANGLING MANGROVE MANHOLES MANHUNTS MANIACAL MANICURE MANIFEST MANIFOLD MANIKINS MANLIEST MANNERED MANNERLY MANORIAL MANPOWER MANSARDS MANSIONS MANTILLA MANTISES MANTISSA MANTLING MANUALLY MANUMITS MANURING MAPPINGS MARABOUS MARATHON MARAUDED MARAUDER MARBLING MARCHERS MARCHING MARGINAL MARIACHI MARIGOLD MARIMBAS MARINADE MARINATE MARINERS MARITIME MARJORAM MARKDOWN MARKEDLY MARKETED MARKETER MARKINGS MARKSMAN MARKSMEN MARMOSET MAROONED MARQUEES MARQUESS MARQUISE MARRIAGE MARRIEDS MARRYING MARSHALS MARSHIER MARTINET MARTINIS MARTYRED MARVELED MARZIPAN MASCARAS MASSACRE MASSAGED MASSAGES MASSEURS MASSEUSE MASTERED MASTERLY MASTHEAD MASTIFFS MASTODON MASTOIDS MATADORS MATCHBOX MATCHING MATERIAL MATERNAL MATRICES MATRONLY MATTERED MATTOCKS MATTRESS MATURELY MATUREST MATURING MATURITY MAUNDERS MAVERICK MAXILLAE MAXIMIZE MAXIMUMS MAYFLIES MAYPOLES MAZURKAS MEAGERLY MEALIEST MEALTIME MEANDERS MEANINGS MEANNESS MEANTIME MEASLIER MEASURED MEASURES MEATBALL MEATIEST MEATLOAF MECHANIC MEDALIST MEDDLERS MEDDLING MEDIATED MEDIATES MEDIATOR MEDICALS MEDICATE MEDICINE MEDIEVAL MEDIOCRE MEDITATE MEDULLAS MEEKNESS MEETINGS MEGABYTE MEGALITH MEGATONS MELANGES MELANOMA MELLOWED MELLOWER MELODIES MELTDOWN MEMBRANE MEMENTOS MEMORIAL MEMORIES MEMORIZE MENACING MENHADEN MENIALLY MENORAHS MENSWEAR MENTALLY MENTIONS MENTORED MERCHANT MERCIFUL MERCURIC MERIDIAN MERINGUE MERITING MERMAIDS MERRIEST MESDAMES MESQUITE MESSAGES MESSIAHS MESSIEST MESTIZOS METALLIC METAPHOR METEORIC METERING METHANOL METHINKS METRICAL MICROBES MIDDLING MIDLANDS MIDNIGHT MIDPOINT MIDRIFFS MIDTERMS MIDWEEKS MIDWIFED MIDWIFES MIDWIVES MIDYEARS MIGHTIER MIGHTILY MIGRAINE MIGRANTS MIGRATED MIGRATES MILDEWED MILDNESS MILEAGES MILEPOST MILITANT MILITARY MILITATE MILITIAS MILKIEST MILKMAID MILKSOPS MILKWEED MILLINER MILLIONS MILLRACE MIMICKED MINARETS MINATORY MINDLESS MINERALS MINGLING MINIBIKE MINICAMS MINIMIZE MINIMUMS MINISTER MINISTRY MINIVANS MINORING MINORITY MINSTREL MINTIEST MINUENDS MINUTELY MINUTEST MINUTIAE MINUTING MIRACLES MIRRORED MIRTHFUL MISAPPLY MISCALLS MISCARRY MISCASTS MISCHIEF MISCOUNT MISCUING MISDEALS MISDEALT MISDEEDS MISDOING MISERIES MISFIRED MISFIRES MISGUIDE MISHMASH MISJUDGE MISLEADS MISMATCH MISNOMER MISOGYNY MISPLACE MISPLAYS MISPRINT MISQUOTE MISREADS MISRULED MISRULES MISSILES MISSIONS MISSIVES MISSPELL MISSPEND MISSPENT MISSTATE MISSTEPS MISTAKEN MISTAKES MISTIEST MISTIMED MISTIMES MISTREAT MISTRESS MISTRIAL MISTRUST MISTYPES MISUSING MITERING MITIGATE MIXTURES MNEMONIC MOBILITY MOBILIZE MOBSTERS MOCCASIN MODELING MODERATE MODESTLY MODICUMS MODIFIED MODIFIER MODIFIES MODISHLY MODULATE MOIETIES MOISTENS MOISTEST MOISTURE MOLASSES MOLDERED MOLDIEST MOLDINGS MOLECULE MOLEHILL MOLESKIN MOLESTED MOLESTER MOLLUSKS MOMENTUM MONARCHS MONARCHY MONASTIC MONAURAL MONETARY MONETIZE MONEYBAG MONGERED MONGOOSE MONGRELS MONIKERS MONITORS MONKEYED MONOCLES MONOGAMY MONOGRAM MONOLITH MONOPOLY MONORAIL MONOTONE MONOTONY MONOXIDE MONSIEUR MONSOONS MONSTERS MONTAGES MONUMENT MOOCHERS MOOCHING MOODIEST MOONBEAM MOONSHOT MOORINGS MOORLAND MORAINES MORALIST MORALITY MORALIZE MORASSES MORBIDLY MORDANTS MOREOVER MORIBUND MORNINGS MOROSELY MORPHEME MORPHINE MORTALLY MORTARED MORTGAGE MORTISED MORTISES MORTUARY MOSEYING MOSQUITO MOSSIEST MOTHBALL MOTHERED MOTHERLY MOTILITY MOTIONED MOTIVATE MOTLIEST MOTORCAR MOTORING MOTORIST MOTORIZE MOTORMAN MOTORMEN MOTORWAY MOTTLING MOUNDING MOUNTAIN MOUNTING MOURNERS MOURNFUL MOURNING MOUSIEST MOUSSING MOUTHFUL MOUTHING MOVABLES MOVEMENT MOVINGLY MUCILAGE MUCKIEST MUCKRAKE MUDDIEST MUDDLING MUDDYING MUDGUARD MUDSLIDE MUEZZINS MUFFLERS MUFFLING MUGGIEST MUGGINGS MULBERRY MULCHING MULETEER MULISHLY MULLIONS MULTIPLE MULTIPLY MUMBLERS MUMBLING MUNCHIES MUNCHING MUNITION MURALIST MURDERED MURDERER MURKIEST MURMURED MUSCATEL MUSCLING MUSCULAR MUSHIEST MUSHROOM MUSICALE MUSICALS MUSICIAN MUSKETRY MUSKIEST MUSKRATS MUSSIEST MUSTACHE MUSTANGS MUSTERED MUSTIEST MUTATING MUTATION MUTENESS MUTILATE MUTINEER MUTINIED MUTINIES MUTINOUS MUTTERED MUTUALLY MUZZLING MYSTICAL MYSTIQUE MYTHICAL',
+    N: 'NAMELESS NAMESAKE NAPALMED NAPPIEST NARCOSIS NARCOTIC NARRATED NARRATES NARRATOR NARROWED NARROWER NARROWLY NARWHALS NASALIZE NASTIEST NATIONAL NATIVITY NATTIEST NATURALS NAUSEATE NAUSEOUS NAUTICAL NAUTILUS NAVIGATE NAYSAYER NEARNESS NEATNESS NEBULOUS NECKLACE NECKLINE NECKTIES NECROSIS NEEDIEST NEEDLESS NEEDLING NEGATING NEGATION NEGATIVE NEGLECTS NEGLIGEE NEIGHBOR NEIGHING NEMATODE NEONATAL NEONATES NEOPHYTE NEOPRENE NEPOTISM NERDIEST NERVIEST NESTLING NETBOOKS NETTLING NETWORKS NEURITIS NEUROSES NEUROSIS NEUROTIC NEUTERED NEUTRALS NEUTRINO NEUTRONS NEWBORNS NEWCOMER NEWLYWED NEWSBOYS NEWSCAST NEWSIEST NEWSREEL NIBBLERS NIBBLING NICENESS NICETIES NICKNAME NICOTINE NIFTIEST NIGGARDS NIGGLING NIGHTCAP NIGHTIES NIHILISM NIHILIST NIMBLEST NINEPINS NINETEEN NINETIES NIPPIEST NITPICKS NITRATED NITRATES NITROGEN NOBILITY NOBLEMAN NOBLEMEN NOBODIES NOCTURNE NOISIEST NOMINATE NOMINEES NONDAIRY NONEMPTY NONESUCH NONEVENT NONFATAL NONHUMAN NONRIGID NONSENSE NONSTICK NONTOXIC NONUNION NONUSERS NONWHITE NOODLING NOONTIME NORMALCY NORMALLY NORTHERN NOSEDIVE NOSEGAYS NOSINESS NOSTRILS NOSTRUMS NOTABLES NOTARIES NOTARIZE NOTATION NOTCHING NOTEBOOK NOTHINGS NOTICING NOTIFIED NOTIFIES NOTIONAL NOVELIST NOVELLAS NOWADAYS NUISANCE NUMBERED NUMBNESS NUMERACY NUMERALS NUMERATE NUMEROUS NUMSKULL NUPTIALS NURTURED NURTURES NUTHATCH NUTMEATS NUTRIENT NUTSHELL NUTTIEST NUZZLING',
+    O: 'OARLOCKS OBDURACY OBDURATE OBEDIENT OBEISANT OBELISKS OBITUARY OBJECTED OBJECTOR OBLATION OBLIGATE OBLIGING OBLIQUES OBLIVION OBSCENER OBSCURED OBSCURER OBSCURES OBSERVED OBSERVER OBSERVES OBSESSED OBSESSES OBSIDIAN OBSOLETE OBSTACLE OBSTRUCT OBTAINED OBTRUDED OBTRUDES OBTUSELY OBTUSEST OBVERSES OBVIATED OBVIATES OCARINAS OCCASION OCCLUDED OCCLUDES OCCUPANT OCCUPIED OCCUPIES OCCURRED OCTAGONS OCULISTS ODDBALLS ODDITIES ODIOUSLY ODOMETER ODORLESS ODYSSEYS OFFBEATS OFFENDED OFFENDER OFFENSES OFFERING OFFICERS OFFICIAL OFFLOADS OFFSHOOT OFFSHORE OFFSTAGE OFTENEST OILCLOTH OILFIELD OILINESS OINTMENT OLEANDER OLIGARCH OMISSION OMITTING OMNIVORE ONCOLOGY ONCOMING ONLOOKER ONRUSHES OPAQUELY OPAQUEST OPAQUING OPENINGS OPENNESS OPENWORK OPERABLE OPERANDS OPERATED OPERATES OPERATIC OPERATOR OPERETTA OPINIONS OPOSSUMS OPPONENT OPPOSING OPPOSITE OPTICIAN OPTIMISM OPTIMIST OPTIMIZE OPTIMUMS OPTIONAL OPTIONED OPULENCE ORACULAR ORATIONS ORATORIO ORBITALS ORBITING ORCHARDS ORDAINED ORDERING ORDINALS ORDINARY ORDNANCE ORGANICS ORGANISM ORGANIST ORGANIZE ORGASMIC ORIENTAL ORIENTED ORIFICES ORIGINAL ORNAMENT ORNATELY ORNERIER ORPHANED ORTHODOX OSSIFIED OSSIFIES OTTOMANS OUTBACKS OUTBOUND OUTBREAK OUTBURST OUTCASTS OUTCLASS OUTCOMES OUTCRIES OUTCROPS OUTDATED OUTDOING OUTDOORS OUTFIELD OUTFLANK OUTFOXED OUTFOXES OUTGOING OUTGROWN OUTGROWS OUTHOUSE OUTLASTS OUTLAWED OUTLINED OUTLINES OUTLIVED OUTLIVES OUTLOOKS OUTLYING OUTMODED OUTPLAYS OUTPOSTS OUTRAGED OUTRAGES OUTRANKS OUTREACH OUTRIDER OUTRIGHT OUTSELLS OUTSHINE OUTSHONE OUTSIDER OUTSIDES OUTSIZES OUTSKIRT OUTSMART OUTSTAYS OUTSTRIP OUTTAKES OUTVOTED OUTVOTES OUTWARDS OUTWEARS OUTWEIGH OVATIONS OVERACTS OVERAGES OVERALLS OVERAWED OVERAWES OVERBEAR OVERBITE OVERBOOK OVERBORE OVERCAME OVERCAST OVERCOAT OVERCOME OVERCOOK OVERDOES OVERDONE OVERDOSE OVERDRAW OVERDREW OVEREATS OVERFLOW OVERFULL OVERGREW OVERGROW OVERHAND OVERHANG OVERHAUL OVERHEAD OVERHEAR OVERHEAT OVERHUNG OVERJOYS OVERKILL OVERLAID OVERLAIN OVERLAND OVERLAPS OVERLAYS OVERLIES OVERLOAD OVERLONG OVERLOOK OVERLORD OVERMUCH OVERPAID OVERPASS OVERPAYS OVERPLAY OVERRATE OVERRIDE OVERRIPE OVERRODE OVERRULE OVERRUNS OVERSEAS OVERSEEN OVERSEER OVERSEES OVERSELL OVERSHOE OVERSHOT OVERSIZE OVERSOLD OVERSTAY OVERSTEP OVERTAKE OVERTIME OVERTONE OVERTOOK OVERTURE OVERTURN OVERUSED OVERUSES OVERVIEW OVERWORK OVIDUCTS OVULATED OVULATES OXIDIZED OXIDIZER OXIDIZES OXYMORON',
+    P: 'PACIFIED PACIFIER PACIFIES PACIFISM PACIFIST PACKAGED PACKAGES PADDLING PADDOCKS PADLOCKS PAGANISM PAGEANTS PAGINATE PAILFULS PAINLESS PAINTERS PAINTING PAIRWISE PAISLEYS PALATALS PALATIAL PALAVERS PALEFACE PALENESS PALETTES PALIMONY PALISADE PALLIATE PALMETTO PALMIEST PALMISTS PALOMINO PALPABLE PALPABLY PALPATED PALPATES PALSYING PALTRIER PAMPERED PAMPHLET PANACEAS PANCAKED PANCAKES PANCREAS PANDEMIC PANDERED PANDERER PANELING PANELIST PANICKED PANNIERS PANORAMA PANTHEON PANTHERS PANTRIES PANTSUIT PAPACIES PAPERBOY PAPERING PAPILLAE PAPOOSES PARABLES PARABOLA PARADIGM PARADING PARADISE PARAFFIN PARAGONS PARAKEET PARALLAX PARALLEL PARALYZE PARAMOUR PARANOIA PARANOID PARAPETS PARASITE PARASOLS PARBOILS PARCELED PARCHING PARDONED PARENTAL PARENTED PARFAITS PARISHES PARKWAYS PARLANCE PARLAYED PARLEYED PARODIED PARODIES PAROLEES PAROLING PAROXYSM PARQUETS PARROTED PARRYING PARSNIPS PARTAKEN PARTAKER PARTAKES PARTERRE PARTIALS PARTICLE PARTINGS PARTISAN PARTNERS PARTYING PARVENUS PASSABLE PASSABLY PASSAGES PASSBOOK PASSERBY PASSIONS PASSIVES PASSKEYS PASSPORT PASSWORD PASTERNS PASTICHE PASTIEST PASTIMES PASTORAL PASTRAMI PASTRIES PASTURED PASTURES PATCHIER PATCHING PATELLAE PATELLAS PATENTED PATENTLY PATERNAL PATHETIC PATHOGEN PATHWAYS PATIENCE PATIENTS PATRIOTS PATTERED PATTERNS PAUNCHES PAVEMENT PAVILION PAWNSHOP PAYCHECK PAYLOADS PAYMENTS PAYROLLS PAYWALLS PEACEFUL PEACOCKS PEAFOWLS PEARLIER PEARLING PEASANTS PEBBLING PECTORAL PECULIAR PEDAGOGY PEDALING PEDANTIC PEDANTRY PEDDLERS PEDDLING PEDERAST PEDESTAL PEDICURE PEDIGREE PEDIMENT PEEKABOO PEELINGS PEEPHOLE PEERAGES PEERLESS PELICANS PELLAGRA PELLETED PELLUCID PELVISES PENALIZE PENANCES PENCHANT PENCILED PENDANTS PENDENTS PENDULUM PENGUINS PENITENT PENKNIFE PENLIGHT PENNANTS PENOLOGY PENSIONS PENTAGON PEOPLING PEPPERED PEPPIEST PERCALES PERCEIVE PERCENTS PERCHING PERFECTS PERFORCE PERFORMS PERFUMED PERFUMES PERIGEES PERILING PERILOUS PERIODIC PERISHED PERISHES PERIWIGS PERJURED PERJURER PERJURES PERKIEST PERMEATE PERMUTED PERMUTES PEROXIDE PERSISTS PERSONAE PERSONAL PERSPIRE PERSUADE PERTAINS PERTNESS PERTURBS PERUSALS PERUSING PERVADED PERVADES PERVERSE PERVERTS PESKIEST PESTERED PESTLING PETERING PETIOLES PETITION PETTIEST PETTIFOG PETULANT PETUNIAS PHANTASM PHANTOMS PHARAOHS PHARMACY PHEASANT PHILTERS PHISHERS PHISHING PHONEMES PHONEMIC PHONETIC PHONEYED PHONIEST PHONYING PHOSPHOR PHOTOING PHRASING PHYSICAL PHYSIQUE PIANISTS PICAYUNE PICCOLOS PICKAXED PICKAXES PICKEREL PICKETED PICKIEST PICKINGS PICKLING PICTURED PICTURES PIDDLING PIEBALDS PIERCING PIGGIEST PIGMENTS PIGSKINS PIGSTIES PIGTAILS PILASTER PILCHARD PILFERED PILFERER PILGRIMS PILLAGED PILLAGES PILLIONS PILLOWED PILOTING PIMENTOS PIMIENTO PIMPLIER PINAFORE PINCHING PINHEADS PINHOLES PINIONED PINNACLE PINOCHLE PINPOINT PINPRICK PINWHEEL PIONEERS PIPELINE PIQUANCY PIRANHAS PIRATING PITCHERS PITCHING PITCHMAN PITCHMEN PITFALLS PITHIEST PITIABLE PITIABLY PITILESS PITTANCE PIVOTING PIZZERIA PLACARDS PLACATED PLACATES PLACEBOS PLACENTA PLACIDLY PLACKETS PLAGUING PLAINEST PLAITING PLANGENT PLANKING PLANKTON PLANNERS PLANNING PLANTAIN PLANTERS PLANTING PLASTERS PLASTICS PLATEAUS PLATEFUL PLATELET PLATFORM PLATINUM PLATONIC PLATOONS PLATTERS PLATYPUS PLAUDITS PLAYABLE PLAYACTS PLAYBACK PLAYBILL PLAYBOYS PLAYGOER PLAYLIST PLAYMATE PLAYOFFS PLAYPENS PLAYROOM PLEADERS PLEADING PLEASANT PLEASING PLEASURE PLEATING PLEBEIAN PLECTRUM PLEDGING PLETHORA PLEURISY PLEXUSES PLIGHTED PLODDERS PLODDING PLOPPING PLOTTERS PLOTTING PLUCKIER PLUCKING PLUGGING PLUMBERS PLUMBING PLUMMETS PLUMPEST PLUMPING PLUNDERS PLUNGERS PLUNGING PLUNKING PLUSHEST PLUSHIER POACHERS POACHING POCKETED POCKMARK PODCASTS PODIATRY POETICAL POIGNANT POINTERS POINTIER POINTING POISONED POISONER POLARITY POLARIZE POLECATS POLEMICS POLESTAR POLICIES POLICING POLISHED POLISHER POLISHES POLITELY POLITEST POLITICO POLITICS POLITIES POLKAING POLLIWOG POLLSTER POLLUTED POLLUTER POLLUTES POLONIUM POLTROON POLYGAMY POLYGLOT POLYGONS POLYMATH POLYMERS POMADING POMMELED PONDERED PONIARDS PONTIFFS PONTOONS PONYTAIL POOCHING POPINJAY POPOVERS POPULACE POPULATE POPULISM POPULIST POPULOUS POROSITY PORPHYRY PORPOISE PORRIDGE PORTABLE PORTAGED PORTAGES PORTENDS PORTENTS PORTHOLE PORTIONS PORTLIER PORTRAIT PORTRAYS POSITING POSITION POSITIVE POSITRON POSSIBLE POSSIBLY POSTCARD POSTCODE POSTDATE POSTLUDE POSTMARK POSTPAID POSTPONE POSTURED POSTURES POTABLES POTATOES POTBELLY POTHOLES POTHOOKS POTLUCKS POTSHERD POTSHOTS POTTERED POTTIEST POUCHING POULTICE POUNCING POUNDING POWDERED POWERFUL POWERING POWWOWED PRACTICE PRAIRIES PRAISING PRALINES PRANCERS PRANCING PRATFALL PRATTLED PRATTLES PRAWNING PREACHED PREACHER PREACHES PREAMBLE PRECEDED PRECEDES PRECEPTS PRECINCT PRECIOUS PRECISER PRECISES PRECLUDE PREDATED PREDATES PREDATOR PREDICTS PREEMPTS PREENING PREEXIST PREFACED PREFACES PREFECTS PREFIXED PREFIXES PREGNANT PREHEATS PREJUDGE PRELATES PRELUDES PREMIERE PREMIERS PREMISED PREMISES PREMIUMS PRENATAL PREPARED PREPARES PREPPIER PREPPIES PREPPING PREQUELS PRESAGED PRESAGES PRESENCE PRESENTS PRESERVE PRESIDED PRESIDES PRESSING PRESSMAN PRESSMEN PRESSURE PRESTIGE PRESUMED PRESUMES PRETEENS PRETENDS PRETENSE PRETERIT PRETEXTS PRETTIED PRETTIER PRETTIES PRETTIFY PRETTILY PRETZELS PREVAILS PREVENTS PREVIEWS PREVIOUS PRICIEST PRICKING PRICKLED PRICKLES PRIESTLY PRIGGISH PRIMATES PRIMEVAL PRIMMEST PRIMNESS PRIMPING PRIMROSE PRINCELY PRINCESS PRINTERS PRINTING PRINTOUT PRIORESS PRIORIES PRIORITY PRISONER PRISSIER PRISTINE PRIVATER PRIVATES PRIVIEST PROBABLE PROBABLY PROBATED PROBATES PROBLEMS PROCEEDS PROCLAIM PROCTORS PROCURED PROCURER PROCURES PRODDING PRODIGAL PRODUCED PRODUCER PRODUCES PRODUCTS PROFANED PROFANES PROFFERS PROFILED PROFILES PROFITED PROFORMA PROFOUND PROGRAMS PROGRESS PROHIBIT PROJECTS PROLIFIC PROLOGUE PROLONGS PROMISED PROMISES PROMOTED PROMOTER PROMOTES PROMPTED PROMPTER PROMPTLY PRONOUNS PROOFING PROPERER PROPERLY PROPERTY PROPHECY PROPHESY PROPHETS PROPOSAL PROPOSED PROPOSER PROPOSES PROPOUND PROPPING PRORATED PRORATES PROSIEST PROSPECT PROSPERS PROSTATE PROTECTS PROTEINS PROTESTS PROTOCOL PROTOZOA PROTRACT PROTRUDE PROUDEST PROVABLE PROVABLY PROVERBS PROVIDED PROVIDER PROVIDES PROVINCE PROVISOS PROVOKED PROVOKES PROVOSTS PROWLERS PROWLING PRUDENCE PRURIENT PSALMIST PSYCHICS PSYCHING PTOMAINE PUBLICAN PUBLICLY PUCKERED PUDDINGS PUDDLING PUDGIEST PUFFBALL PUFFIEST PUGILISM PUGILIST PULLBACK PULLOUTS PULLOVER PULPIEST PULSATED PULSATES PUMMELED PUMPKINS PUNCHIER PUNCHING PUNCTUAL PUNCTURE PUNGENCY PUNISHED PUNISHES PUNITIVE PUNSTERS PUPPETRY PURBLIND PURCHASE PUREBRED PUREEING PURENESS PURIFIED PURIFIER PURIFIES PURITANS PURLOINS PURPLEST PURPLISH PURPORTS PURPOSED PURPOSES PURSUANT PURSUERS PURSUING PURSUITS PURULENT PURVEYED PURVEYOR PUSHCART PUSHIEST PUSHOVER PUSSIEST PUSSYCAT PUSTULES PUTATIVE PUTSCHES PUTTERED PUTTYING PUZZLERS PUZZLING PYORRHEA PYRAMIDS',
+    Q: 'QUACKERY QUACKING QUADRANT QUAFFING QUAGMIRE QUAILING QUAINTER QUAINTLY QUANDARY QUANTIFY QUANTITY QUARRELS QUARRIED QUARRIES QUARTERS QUARTETS QUASHING QUATRAIN QUAVERED QUEASIER QUEASILY QUEENING QUEEREST QUEERING QUELLING QUENCHED QUENCHES QUERYING QUESTING QUESTION QUIBBLED QUIBBLER QUIBBLES QUICKENS QUICKEST QUICKIES QUIETEST QUIETING QUIETUDE QUILTERS QUILTING QUINTETS QUIPPING QUIRKIER QUIRKING QUISLING QUITTERS QUITTING QUIVERED QUIXOTIC QUIZZING QUOITING QUOTABLE QUOTIENT',
+    R: 'RABBITED RACEWAYS RACIALLY RACINESS RACKETED RADIALLY RADIANCE RADIATED RADIATES RADIATOR RADICALS RADIOING RADISHES RAFFLING RAGGEDER RAGGEDLY RAILINGS RAILLERY RAILROAD RAILWAYS RAINBOWS RAINCOAT RAINDROP RAINFALL RAINIEST RAKISHLY RALLYING RAMBLERS RAMBLING RAMIFIED RAMIFIES RAMPAGED RAMPAGES RAMPARTS RANCHERS RANCHING RANDIEST RANDOMLY RANGIEST RANKINGS RANKLING RANKNESS RANSACKS RANSOMED RAPACITY RAPIDEST RAPIDITY RAPPORTS RAPTURES RAREFIED RAREFIES RARENESS RARITIES RASCALLY RASHNESS RASPIEST RATCHETS RATIFIED RATIFIES RATIONAL RATIONED RATTIEST RATTLERS RATTLING RATTRAPS RAVAGING RAVELING RAVENING RAVENOUS RAVIOLIS RAVISHED RAVISHES RAWBONED REACHING REACTING REACTION REACTIVE REACTORS READABLE READIEST READINGS READJUST READMITS READOUTS READYING REAFFIRM REAGENTS REALISTS REALIZED REALIZES REAPPEAR REARMING REARMOST REARWARD REASONED REASSERT REASSESS REASSIGN REASSURE REAWAKEN REBATING REBELLED REBIRTHS REBOUNDS REBUFFED REBUILDS REBUKING REBUTTAL REBUTTED RECALLED RECANTED RECAPPED RECEDING RECEIPTS RECEIVED RECEIVER RECEIVES RECENTER RECENTLY RECEPTOR RECESSED RECESSES RECHARGE RECHECKS RECITALS RECITING RECKLESS RECKONED RECLAIMS RECLINED RECLINER RECLINES RECLUSES RECOILED RECOPIED RECOPIES RECORDED RECORDER RECOUNTS RECOUPED RECOURSE RECOVERS RECOVERY RECREANT RECREATE RECRUITS RECURRED RECYCLED RECYCLES REDCOATS REDDENED REDEEMED REDEEMER REDEFINE REDEPLOY REDESIGN REDHEADS REDIRECT REDNECKS REDOLENT REDOUBLE REDOUBTS REDOUNDS REDRAFTS REDSKINS REDUCING REDWOODS REEDIEST REELECTS REEMERGE REENACTS REENLIST REENTERS REFEREED REFEREES REFERENT REFERRAL REFERRED REFILING REFILLED REFINERS REFINERY REFINING REFINISH REFITTED REFLECTS REFLEXES REFOREST REFORMAT REFORMED REFORMER REFRACTS REFRAINS REFUELED REFUGEES REFUNDED REFUSALS REFUSING REFUTING REGAINED REGALING REGARDED REGATTAS REGICIDE REGIMENS REGIMENT REGIONAL REGISTER REGISTRY REGROUPS REGULARS REGULATE REHABBED REHASHED REHASHES REHEARSE REHEATED REHIRING REIGNING REIMPOSE REINDEER REINSERT REINVENT REINVEST REISSUED REISSUES REJECTED REJOICED REJOICES REJOINED REKINDLE RELABELS RELAPSED RELAPSES RELATING RELATION RELATIVE RELAXANT RELAXING RELAYING RELEARNS RELEASED RELEASES RELEGATE RELENTED RELEVANT RELIABLE RELIABLY RELIANCE RELIEVED RELIEVES RELIGION RELISHED RELISHES RELIVING RELOADED RELOCATE REMAINED REMAKING REMANDED REMARKED REMEDIAL REMEDIED REMEDIES REMEMBER REMINDED REMINDER REMITTED REMNANTS REMODELS REMOTELY REMOTEST REMOUNTS REMOVALS REMOVERS REMOVING RENAMING RENDERED RENEGADE RENEGING RENEWALS RENEWING RENOUNCE RENOVATE RENOWNED RENUMBER REOCCUPY REOCCURS REOPENED REORDERS REORGING REPAINTS REPAIRED REPARTEE REPAYING REPEALED REPEATED REPEATER REPELLED REPENTED REPHRASE REPLACED REPLACES REPLAYED REPLETED REPLETES REPLICAS REPLYING REPORTED REPORTER REPOSING REPRIEVE REPRINTS REPRISAL REPRISES REPRIZED REPROACH REPROOFS REPROVED REPROVES REPTILES REPUBLIC REPULSED REPULSES REPUTING REQUESTS REQUIEMS REQUIRED REQUIRES REQUITAL REQUITED REQUITES REROUTED REROUTES RESCINDS RESCUERS RESCUING RESEARCH RESEMBLE RESENTED RESERVED RESERVES RESETTLE RESIDENT RESIDING RESIDUAL RESIDUES RESIGNED RESINOUS RESISTED RESISTER RESISTOR RESOLUTE RESOLVED RESOLVER RESOLVES RESONANT RESONATE RESORTED RESOUNDS RESOURCE RESPECTS RESPELLS RESPIRED RESPIRES RESPITES RESPONDS RESPONSE RESTARTS RESTATED RESTATES RESTLESS RESTOCKS RESTORED RESTORER RESTORES RESTRAIN RESTRICT RESTROOM RESUBMIT RESULTED RESUMING RESUPPLY RETAILED RETAILER RETAINED RETAINER RETAKING RETARDED RETCHING RETHINKS RETICENT RETINUES RETIREES RETIRING RETOOLED RETORTED RETRACED RETRACES RETRACTS RETRAINS RETREADS RETREATS RETRENCH RETRIALS RETRIEVE RETROFIT RETRYING RETURNED RETURNEE RETWEETS RETYPING REUNIONS REUNITED REUNITES REUSABLE REVALUED REVALUES REVAMPED REVEALED REVEILLE REVELERS REVELING REVENGED REVENGES REVENUES REVEREND REVERENT REVERIES REVERING REVERSAL REVERSED REVERSES REVERTED REVIEWED REVIEWER REVILERS REVILING REVISING REVISION REVISITS REVIVALS REVIVIFY REVIVING REVOKING REVOLTED REVOLVED REVOLVER REVOLVES REWARDED REWIRING REWORDED REWORKED REWRITES RHAPSODY RHEOSTAT RHETORIC RHIZOMES RHOMBOID RHUBARBS RHYTHMIC RIBALDRY RICHNESS RICKSHAW RICOCHET RIDDANCE RIDDLING RIDICULE RIFFLING RIFFRAFF RIFLEMAN RIFLEMEN RIGHTEST RIGHTFUL RIGHTING RIGHTIST RIGIDITY RIGOROUS RINGLETS RINGSIDE RINGTONE RINGWORM RIPENESS RIPENING RIPOSTED RIPOSTES RIPPLING RISKIEST RITUALLY RITZIEST RIVALING RIVERBED RIVETERS RIVETING RIVULETS ROADBEDS ROADKILL ROADSHOW ROADSIDE ROADSTER ROADWAYS ROADWORK ROASTERS ROASTING ROBOCALL ROBOTICS ROBUSTER ROBUSTLY ROCKETED ROCKETRY ROCKIEST ROEBUCKS ROENTGEN ROGERING ROISTERS ROLLBACK ROLLICKS ROMANCED ROMANCES ROMANTIC ROOFTOPS ROOMFULS ROOMIEST ROOMMATE ROOSTERS ROOSTING ROOTLESS ROSARIES ROSEBUDS ROSEBUSH ROSEMARY ROSETTES ROSEWOOD ROSINESS ROSINING ROSTRUMS ROTARIES ROTATING ROTATION ROTTENER ROTUNDAS ROUGHAGE ROUGHENS ROUGHEST ROUGHING ROULETTE ROUNDEST ROUNDING ROUNDISH ROUNDUPS ROUTEING ROUTINES ROWBOATS ROWDIEST ROWDYISM ROWELING ROYALIST RUBBISHY RUBDOWNS RUBICUND RUCKSACK RUCKUSES RUDDIEST RUDENESS RUDIMENT RUEFULLY RUFFIANS RUFFLING RUGGEDER RUGGEDLY RUMBAING RUMBLING RUMINANT RUMINATE RUMMAGED RUMMAGES RUMORING RUMPLING RUMPUSES RUNABOUT RUNAWAYS RUNDOWNS RUNNIEST RUPTURED RUPTURES RUSTIEST RUSTLERS RUSTLING RUTABAGA RUTHLESS',
+    S: 'SABOTAGE SABOTEUR SACKFULS SACREDLY SACRISTY SADDENED SADDLING SADISTIC SAFARIED SAFENESS SAFETIES SAFFRONS SAGACITY SAGUAROS SAILBOAT SAILFISH SAILINGS SALAAMED SALARIED SALARIES SALESMAN SALESMEN SALIENCE SALIENTS SALINITY SALIVARY SALIVATE SALLOWER SALLYING SALTIEST SALTINES SALUTARY SALUTING SALVAGED SALVAGES SAMBAING SAMENESS SAMOVARS SAMPLERS SAMPLING SANCTIFY SANCTION SANCTITY SANCTUMS SANDBAGS SANDBANK SANDBARS SANDHOGS SANDIEST SANDLOTS SANDWICH SANGUINE SANITARY SANITIZE SANSERIF SAPIENCE SAPLINGS SAPPHIRE SAPPIEST SARCASMS SARCOMAS SARDINES SARDONIC SASHAYED SASSIEST SATANISM SATCHELS SATIATED SATIATES SATIRIST SATIRIZE SATURATE SAUCEPAN SAUCIEST SAUNAING SAUNTERS SAUSAGES SAVAGELY SAVAGERY SAVAGEST SAVAGING SAVANNAS SAVORIER SAVORIES SAVORING SAVVIEST SAVVYING SAWHORSE SAWMILLS SCABBARD SCABBIER SCABBING SCABROUS SCAFFOLD SCALAWAG SCALDING SCALIEST SCALLION SCALLOPS SCALPELS SCALPERS SCALPING SCAMMERS SCAMMING SCAMPERS SCANDALS SCANNERS SCANNING SCANSION SCANTEST SCANTIER SCANTIES SCANTILY SCANTING SCAPULAE SCARCELY SCARCEST SCARCITY SCARFING SCARIEST SCARRING SCATHING SCATTERS SCATTING SCAVENGE SCENARIO SCENTING SCEPTERS SCHEDULE SCHEMERS SCHEMING SCHERZOS SCHIZOID SCHMALTZ SCHMOOZE SCHMUCKS SCHNAPPS SCHOLARS SCHOOLED SCHOONER SCHUSSED SCHUSSES SCIATICA SCIENCES SCIMITAR SCISSORS SCOFFING SCOFFLAW SCOLDING SCOOPING SCOOTERS SCOOTING SCORCHED SCORCHER SCORCHES SCORNFUL SCORNING SCORPION SCOTCHED SCOTCHES SCOURGED SCOURGES SCOURING SCOUTING SCOWLING SCRABBLE SCRAGGLY SCRAMBLE SCRAMMED SCRAPERS SCRAPING SCRAPPED SCRATCHY SCRAWLED SCREAMED SCREECHY SCREENED SCREWIER SCREWING SCRIBBLE SCRIMPED SCRIPTED SCROFULA SCROLLED SCROOGES SCROUNGE SCRUBBED SCRUBBER SCRUNCHY SCRUPLED SCRUPLES SCRUTINY SCUBAING SCUDDING SCUFFING SCUFFLED SCUFFLES SCULLERY SCULLING SCULLION SCULPTED SCULPTOR SCUMBAGS SCUMMIER SCUMMING SCUPPERS SCURRIED SCURRIES SCURVIER SCUTTLED SCUTTLES SCUZZIER SCYTHING SEABIRDS SEABOARD SEACOAST SEAFARER SEAGOING SEALANTS SEALSKIN SEAMIEST SEAMLESS SEAPLANE SEAPORTS SEARCHED SEARCHER SEARCHES SEASCAPE SEASHELL SEASHORE SEASIDES SEASONAL SEASONED SEAWARDS SECEDING SECLUDED SECLUDES SECONDED SECONDLY SECRETED SECRETES SECRETLY SECTIONS SECURELY SECUREST SECURING SECURITY SEDATELY SEDATEST SEDATING SEDATION SEDATIVE SEDIMENT SEDITION SEDUCERS SEDUCING SEDULOUS SEEDIEST SEEDLESS SEEDLING SEEMLIER SEESAWED SEETHING SEGMENTS SEGUEING SEIZURES SELECTED SELECTOR SELENIUM SELFLESS SELFSAME SELLOFFS SELLOUTS SELVAGES SEMANTIC SEMESTER SEMINARS SEMINARY SEMITONE SENATORS SENILITY SENSIBLE SENSIBLY SENSUOUS SENTENCE SENTIENT SENTINEL SENTRIES SEPARATE SEQUENCE SEQUINED SEQUITUR SEQUOIAS SERAGLIO SERAPHIC SERENADE SERENELY SERENEST SERENITY SERGEANT SERIALLY SERPENTS SERRATED SERVANTS SERVICED SERVICES SERVINGS SESSIONS SETBACKS SETTABLE SETTINGS SETTLERS SETTLING SEVENTHS SEVERELY SEVEREST SEVERING SEVERITY SEWERAGE SEXINESS SEXTANTS SEXUALLY SHABBIER SHABBILY SHACKLED SHACKLES SHADIEST SHADINGS SHADOWED SHAFTING SHAGGIER SHAGGING SHAKEUPS SHAKIEST SHALLOTS SHALLOWS SHAMBLED SHAMBLES SHAMEFUL SHAMMING SHAMPOOS SHAMROCK SHANGHAI SHANTIES SHANTUNG SHARKING SHARPENS SHARPERS SHARPEST SHARPING SHATTERS SHAVINGS SHEARERS SHEARING SHEATHED SHEATHES SHEBANGS SHEDDING SHEEPDOG SHEEPISH SHEEREST SHEERING SHEETING SHEIKDOM SHELLACS SHELLING SHELTERS SHELVING SHEPHERD SHERBETS SHERIFFS SHERRIES SHIELDED SHIFTIER SHIFTILY SHIFTING SHIITAKE SHILLING SHIMMERS SHIMMERY SHIMMIED SHIMMIES SHIMMING SHINBONE SHINDIGS SHINGLED SHINGLES SHINIEST SHINNIED SHINNIES SHINNING SHIPLOAD SHIPMATE SHIPMENT SHIPPERS SHIPPING SHIPYARD SHIRKERS SHIRKING SHIRRING SHIRTING SHITTIER SHITTING SHIVERED SHOALING SHOCKERS SHOCKING SHODDIER SHODDILY SHOEHORN SHOELACE SHOOTERS SHOOTING SHOOTOUT SHOPLIFT SHOPPERS SHOPPING SHOPTALK SHOPWORN SHORTAGE SHORTCUT SHORTENS SHORTEST SHORTING SHORTISH SHOTGUNS SHOULDER SHOUTING SHOVELED SHOWBOAT SHOWCASE SHOWDOWN SHOWERED SHOWGIRL SHOWIEST SHOWINGS SHOWOFFS SHOWROOM SHRAPNEL SHREDDED SHREDDER SHREWDER SHREWDLY SHREWISH SHRIEKED SHRILLED SHRILLER SHRIMPED SHRIVELS SHRIVING SHROUDED SHRUGGED SHRUNKEN SHUCKING SHUCKSES SHUDDERS SHUFFLED SHUFFLER SHUFFLES SHUNNING SHUNTING SHUSHING SHUTDOWN SHUTOUTS SHUTTERS SHUTTING SHUTTLED SHUTTLES SHYSTERS SIBILANT SIBLINGS SICKBEDS SICKENED SICKLIER SICKNESS SIDEARMS SIDEBARS SIDECARS SIDEKICK SIDELINE SIDELONG SIDEREAL SIDESHOW SIDESTEP SIDEWALK SIDEWALL SIDEWAYS SIGHTING SIGNALED SIGNALLY SIGNINGS SIGNPOST SILENCED SILENCER SILENCES SILENTER SILENTLY SILICATE SILICONE SILKIEST SILKWORM SILLIEST SILVERED SIMMERED SIMPERED SIMPLEST SIMPLIFY SIMULATE SINCERER SINECURE SINFULLY SINGEING SINGLING SINGSONG SINGULAR SINISTER SINKABLE SINKHOLE SIPHONED SIRLOINS SIROCCOS SISSIEST SISTERLY SITTINGS SITUATED SITUATES SIXPENCE SIXTEENS SIXTIETH SIZZLING SKELETAL SKELETON SKEPTICS SKETCHED SKETCHES SKEWERED SKIDDING SKILLETS SKILLFUL SKIMMING SKIMPIER SKIMPING SKINHEAD SKINLESS SKINNIER SKINNING SKIPPERS SKIPPING SKIRMISH SKIRTING SKITTERS SKITTISH SKIVVIED SKIVVIES SKULKING SKULLCAP SKUNKING SKYDIVED SKYDIVER SKYDIVES SKYJACKS SKYLARKS SKYLIGHT SKYLINES SKYWARDS SLABBING SLACKENS SLACKERS SLACKEST SLACKING SLALOMED SLAMMERS SLAMMING SLANDERS SLANGIER SLANTING SLAPDASH SLAPPING SLASHING SLATHERS SLATTERN SLAVERED SLAYINGS SLEAZIER SLEAZILY SLEDDING SLEDGING SLEEKEST SLEEKING SLEEPERS SLEEPIER SLEEPILY SLEEPING SLEETING SLEIGHED SLICKERS SLICKEST SLICKING SLIGHTED SLIGHTER SLIGHTLY SLIMIEST SLIMMEST SLIMMING SLIMNESS SLINGING SLINKIER SLINKING SLIPKNOT SLIPPAGE SLIPPERS SLIPPERY SLIPPING SLIPSHOD SLITHERS SLITHERY SLITTING SLIVERED SLOBBERS SLOGGING SLOPPIER SLOPPILY SLOPPING SLOSHING SLOTHFUL SLOTTING SLOUCHED SLOUCHES SLOUGHED SLOVENLY SLOWDOWN SLOWNESS SLOWPOKE SLUGGARD SLUGGERS SLUGGING SLUGGISH SLUICING SLUMBERS SLUMDOGS SLUMLORD SLUMMING SLUMPING SLURPING SLURRING SLUSHIER SLUTTISH SMACKERS SMACKING SMALLEST SMALLISH SMALLPOX SMARMIER SMARTENS SMARTEST SMARTING SMASHING SMEARING SMELLIER SMELLING SMELTERS SMELTING SMIDGENS SMIRCHED SMIRCHES SMIRKING SMITHIES SMOCKING SMOGGIER SMOKIEST SMOLDERS SMOOCHED SMOOCHES SMOOTHED SMOOTHER SMOOTHIE SMOOTHLY SMOTHERS SMUDGIER SMUDGING SMUGGEST SMUGGLED SMUGGLER SMUGGLES SMUGNESS SMUTTIER SNACKING SNAFFLED SNAFFLES SNAGGING SNAILING SNAKIEST SNAPPERS SNAPPIER SNAPPING SNAPPISH SNAPSHOT SNARKIER SNARLING SNATCHED SNATCHES SNAZZIER SNEAKERS SNEAKIER SNEAKING SNEERING SNEEZING SNICKERS SNIFFING SNIFFLED SNIFFLES SNIFTERS SNIPPETS SNIPPIER SNIPPING SNITCHED SNITCHES SNIVELED SNOBBERY SNOBBIER SNOBBISH SNOOPERS SNOOPIER SNOOPING SNOOTIER SNOOZING SNORKELS SNORTING SNOTTIER SNOWBALL SNOWDROP SNOWFALL SNOWIEST SNOWPLOW SNOWSHED SNOWSHOE SNOWSUIT SNUBBING SNUFFBOX SNUFFERS SNUFFING SNUFFLED SNUFFLES SNUGGEST SNUGGING SNUGGLED SNUGGLES SOAKINGS SOAPIEST SOAPSUDS SOBEREST SOBERING SOBRIETY SOCIABLE SOCIABLY SOCIALLY SOCIETAL SODOMITE SOFTBALL SOFTENED SOFTENER SOFTNESS SOFTWARE SOFTWOOD SOGGIEST SOJOURNS SOLACING SOLARIUM SOLDERED SOLDIERS SOLECISM SOLEMNER SOLEMNLY SOLENOID SOLICITS SOLIDEST SOLIDIFY SOLIDITY SOLITARY SOLITUDE SOLOISTS SOLSTICE SOLUBLES SOLUTION SOLVABLE SOLVENCY SOLVENTS SOMBERLY SOMBRERO SOMEBODY SOMEONES SOMETIME SOMEWHAT SONGBIRD SONGSTER SONORITY SONOROUS SOOTHING SOOTIEST SOPHISTS SOPPIEST SOPRANOS SORCERER SORDIDLY SOREHEAD SORENESS SORORITY SORRIEST SORROWED SOUGHING SOULLESS SOULMATE SOUNDEST SOUNDING SOUPIEST SOURCING SOURNESS SOURPUSS SOUTHERN SOUTHPAW SOUVENIR SOYBEANS SPACEMAN SPACEMEN SPACIEST SPACIOUS SPADEFUL SPAMMERS SPAMMING SPANGLED SPANGLES SPANIELS SPANKING SPANNERS SPANNING SPARKING SPARKLED SPARKLER SPARKLES SPARRING SPARROWS SPARSELY SPARSEST SPARSITY SPASTICS SPATTERS SPATTING SPATULAS SPAWNING SPEAKERS SPEAKING SPEARING SPECIALS SPECIFIC SPECIMEN SPECIOUS SPECKING SPECKLED SPECKLES SPECTERS SPECTRAL SPECTRUM SPEECHES SPEEDERS SPEEDIER SPEEDILY SPEEDING SPEEDUPS SPEEDWAY SPELLERS SPELLING SPENDERS SPENDING SPHEROID SPHINXES SPICIEST SPIELING SPIFFIER SPIKIEST SPILLAGE SPILLING SPILLWAY SPINDLED SPINDLES SPINIEST SPINNERS SPINNING SPINSTER SPIRALED SPIRALLY SPIRITED SPITBALL SPITEFUL SPITFIRE SPITTING SPITTOON SPLASHED SPLASHES SPLATTED SPLATTER SPLAYING SPLENDID SPLENDOR SPLICERS SPLICING SPLINTED SPLINTER SPLOTCHY SPLURGED SPLURGES SPLUTTER SPOILAGE SPOILERS SPOILING SPONGERS SPONGIER SPONGING SPONSORS SPOOFING SPOOKIER SPOOKING SPOOLING SPOONFUL SPOONING SPOORING SPORADIC SPORTIER SPORTING SPORTIVE SPOTLESS SPOTTERS SPOTTIER SPOTTING SPOUTING SPRAINED SPRAWLED SPRAYERS SPRAYING SPREADER SPREEING SPRINKLE SPRINTED SPRINTER SPRITZED SPRITZES SPROCKET SPROUTED SPRUCEST SPRUCING SPRYNESS SPUNKIER SPURIOUS SPURNING SPURRING SPURTING SPUTTERS SPYGLASS SQUABBLE SQUADRON SQUALLED SQUANDER SQUARELY SQUAREST SQUARING SQUASHED SQUASHES SQUATTED SQUATTER SQUAWKED SQUEAKED SQUEALED SQUEALER SQUEEGEE SQUEEZED SQUEEZER SQUEEZES SQUIGGLE SQUIGGLY SQUINTED SQUINTER SQUIRING SQUIRMED SQUIRREL SQUIRTED SQUISHED SQUISHES SRIRACHA STABBING STABLEST STABLING STACCATO STACKING STADIUMS STAFFERS STAFFING STAGGERS STAGINGS STAGNANT STAGNATE STAIDEST STAINING STAIRWAY STAKEOUT STALKERS STALKING STALLING STALLION STALWART STAMMERS STAMPEDE STAMPING STANCHED STANCHER STANCHES STANDARD STANDBYS STANDING STANDOFF STANDOUT STAPLERS STAPLING STARCHED STARCHES STARFISH STARKEST STARLESS STARLETS STARLING STARRIER STARRING STARTERS STARTING STARTLED STARTLES STARTUPS STARVING STASHING STATIONS STATUARY STATURES STATUSES STATUTES STEADIED STEADIER STEADIES STEADILY STEALING STEALTHY STEAMERS STEAMIER STEAMING STEELIER STEELING STEEPEST STEEPING STEEPLES STEERAGE STEERING STEMMING STENCHES STENCILS STEPDADS STEPMOMS STEPPING STEPSONS STERLING STERNEST STERNUMS STEROIDS STEWARDS STICKERS STICKIER STICKIES STICKING STICKLER STICKPIN STICKUPS STIFFENS STIFFEST STIFFING STIFLING STIGMATA STILETTO STILLEST STILLING STIMULUS STINGERS STINGIER STINGILY STINGING STINGRAY STINKERS STINKING STINTING STIPENDS STIPPLED STIPPLES STIRRERS STIRRING STIRRUPS STITCHED STITCHES STOCKADE STOCKIER STOCKING STODGIER STOICISM STOLIDER STOLIDLY STOMACHS STOMPING STONIEST STOOPING STOPCOCK STOPGAPS STOPOVER STOPPAGE STOPPERS STOPPING STORMIER STORMILY STORMING STOUTEST STOWAWAY STRADDLE STRAFING STRAGGLE STRAGGLY STRAIGHT STRAINED STRAINER STRAITEN STRANDED STRANGER STRANGLE STRAPPED STRATEGY STRATIFY STRAWING STRAYING STREAKED STREAMED STREAMER STRENGTH STRESSED STRESSES STRETCHY STREWING STRIATED STRICKEN STRICTER STRICTLY STRIDDEN STRIDENT STRIDING STRIKERS STRIKING STRINGED STRINGER STRIPING STRIPPED STRIPPER STRIVING STROKING STROLLED STROLLER STRONGER STRONGLY STROPHES STROPPED STRUDELS STRUGGLE STRUMMED STRUMPET STRUTTED STUBBIER STUBBING STUBBORN STUCCOED STUCCOES STUDDING STUDENTS STUDIOUS STUDYING STUFFIER STUFFILY STUFFING STULTIFY STUMBLED STUMBLER STUMBLES STUMPIER STUMPING STUNNING STUNTING STUPIDER STUPIDLY STURDIER STURDILY STURGEON STUTTERS STYLISTS STYLIZED STYLIZES STYLUSES STYPTICS SUBCLASS SUBDUING SUBGROUP SUBHEADS SUBHUMAN SUBJECTS SUBJOINS SUBLEASE SUBLIMED SUBLIMER SUBLIMES SUBMERGE SUBMERSE SUBORNED SUBPLOTS SUBPOENA SUBPRIME SUBSIDED SUBSIDES SUBSISTS SUBSONIC SUBSPACE SUBSUMED SUBSUMES SUBTEENS SUBTITLE SUBTLEST SUBTLETY SUBTOTAL SUBTRACT SUBURBAN SUBURBIA SUBVERTS SUCCEEDS SUCCINCT SUCCORED SUCCUMBS SUCHLIKE SUCKERED SUCKLING SUCTIONS SUDDENLY SUDSIEST SUFFERED SUFFERER SUFFICED SUFFICES SUFFIXED SUFFIXES SUFFRAGE SUFFUSED SUFFUSES SUGARIER SUGARING SUGGESTS SUICIDAL SUICIDES SUITABLE SUITABLY SUITCASE SUKIYAKI SULFATES SULFIDES SULFURED SULFURIC SULKIEST SULLENER SULLENLY SULLYING SULTANAS SULTRIER SUMMERED SUMMITRY SUMMONED SUMMONER SUNBATHE SUNBEAMS SUNBLOCK SUNBURNS SUNDERED SUNDIALS SUNDOWNS SUNDRIES SUNLAMPS SUNLIGHT SUNNIEST SUNRISES SUNROOFS SUNSHINE SUNSPOTS SUPERBER SUPERBLY SUPEREGO SUPERIOR SUPERMAN SUPERMEN SUPPLANT SUPPLEST SUPPLIED SUPPLIER SUPPLIES SUPPORTS SUPPOSED SUPPOSES SUPPRESS SURCEASE SUREFIRE SURENESS SURETIES SURFACED SURFACES SURFEITS SURGEONS SURGICAL SURLIEST SURMISED SURMISES SURMOUNT SURNAMES SURPLICE SURPRISE SURROUND SURTAXED SURTAXES SURVEYED SURVEYOR SURVIVAL SURVIVED SURVIVES SURVIVOR SUSPECTS SUSPENDS SUSPENSE SUSTAINS SUTURING SVELTEST SWABBING SWADDLED SWADDLES SWAGGERS SWAGGING SWALLOWS SWAMPIER SWAMPING SWANKEST SWANKIER SWANKING SWAPPING SWARMING SWASHING SWASTIKA SWATCHES SWATHING SWATTERS SWATTING SWEARERS SWEARING SWEATERS SWEATIER SWEATING SWEEPERS SWEEPING SWEETENS SWEETEST SWEETIES SWEETISH SWELLEST SWELLING SWELTERS SWERVING SWIFTEST SWIGGING SWILLING SWIMMERS SWIMMING SWIMSUIT SWINDLED SWINDLER SWINDLES SWINGERS SWINGING SWIRLING SWISHEST SWISHING SWITCHED SWITCHER SWITCHES SWIVELED SWOONING SWOOPING SYBARITE SYCAMORE SYLLABIC SYLLABLE SYLLABUS SYMBOLIC SYMMETRY SYMPATHY SYMPHONY SYMPTOMS SYNAPSES SYNDROME SYNONYMS SYNOPSES SYNOPSIS SYPHILIS SYRINGED SYRINGES SYSTEMIC SYSTOLIC',
+    T: 'TABLEAUX TABLOIDS TABOOING TABULATE TACITURN TACKIEST TACKLERS TACKLING TACTICAL TACTLESS TADPOLES TAILCOAT TAILGATE TAILLESS TAILORED TAILPIPE TAILSPIN TAILWIND TAINTING TAKEOFFS TAKEOUTS TAKEOVER TALENTED TALISMAN TALLNESS TALLYHOS TALLYING TAMARIND TAMENESS TAMPERED TANAGERS TANGELOS TANGENTS TANGIBLE TANGIBLY TANGIEST TANGLING TANGOING TANKARDS TANKFULS TANTRUMS TAPERING TAPESTRY TAPEWORM TAPROOMS TAPROOTS TARDIEST TARGETED TARRAGON TARRIEST TARRYING TARTNESS TASERING TASSELED TASTEFUL TASTIEST TATTERED TATTLERS TATTLING TATTOOED TAUNTING TAUTNESS TAWDRIER TAWNIEST TAXATION TAXICABS TAXONOMY TAXPAYER TEACHERS TEACHING TEALIGHT TEAMMATE TEAMSTER TEAMWORK TEARDROP TEARIEST TEAROOMS TEASPOON TEENAGER TEENIEST TEETERED TEETHING TEETOTAL TELECAST TELEGRAM TELETHON TELETYPE TELEVISE TELEXING TELLTALE TEMBLORS TEMERITY TEMPERAS TEMPERED TEMPESTS TEMPLATE TEMPORAL TEMPTERS TEMPTING TENACITY TENANTED TENDENCY TENDERED TENDERER TENDERLY TENDRILS TENEMENT TENONING TENSIONS TENTACLE TENURING TEQUILAS TERABITS TERABYTE TERMINAL TERMINUS TERMITES TERRACED TERRACES TERRAINS TERRAPIN TERRIBLE TERRIBLY TERRIERS TERRIFIC TERTIARY TESTABLE TESTATES TESTICLE TESTIEST TETHERED TEXTBOOK TEXTILES TEXTURAL TEXTURED TEXTURES THALAMUS THALLIUM THANKFUL THANKING THATCHED THATCHER THATCHES THEATERS THEISTIC THEMATIC THEOLOGY THEOREMS THEORIES THEORIST THEORIZE THERMALS THESAURI THESPIAN THIAMINE THICKENS THICKEST THICKETS THICKSET THIEVERY THIEVING THIEVISH THIMBLES THINKERS THINKING THINNERS THINNESS THINNEST THINNING THIRSTED THIRTEEN THIRTIES THISTLES THORACIC THORAXES THORNIER THOROUGH THOUGHTS THOUSAND THRALLED THRASHED THRASHER THRASHES THREADED THREATEN THRENODY THRESHED THRESHER THRESHES THRILLED THRILLER THRIVING THROBBED THRONGED THROTTLE THROWERS THROWING THRUMMED THRUSHES THRUWAYS THUDDING THUMBING THUMPING THUNDERS THWACKED THWARTED THYMUSES THYROIDS TICKETED TICKLING TICKLISH TIDINESS TIGHTENS TIGHTEST TIGHTWAD TILLABLE TIMBERED TIMELESS TIMELIER TIMELINE TIMEWORN TIMEZONE TIMIDEST TIMIDITY TIMOROUS TINCTURE TINGEING TINGLING TINKERED TINKLING TINNIEST TINSELED TINSMITH TIPPLERS TIPPLING TIPSIEST TIPSTERS TIREDEST TIRELESS TIRESOME TITANIUM TITMOUSE TITTERED TOADYING TOASTERS TOASTIER TOASTING TOBACCOS TOBOGGAN TODDLERS TODDLING TOEHOLDS TOENAILS TOGETHER TOGGLING TOILETED TOILETRY TOILETTE TOILSOME TOKENISM TOLERANT TOLERATE TOLLGATE TOMAHAWK TOMATOES TOMORROW TONALITY TONELESS TONGUING TONNAGES TONSURED TONSURES TOOLBARS TOOTHIER TOPCOATS TOPKNOTS TOPMASTS TOPOLOGY TOPPINGS TOPPLING TOPSAILS TOPSIDES TORCHING TOREADOR TORMENTS TORQUING TORRENTS TORTILLA TORTOISE TORTUOUS TORTURED TORTURER TORTURES TOTALING TOTALITY TOTTERED TOUCHIER TOUCHING TOUGHENS TOUGHEST TOURISTS TOURNEYS TOUSLING TOWELING TOWERING TOWHEADS TOWNSHIP TOWNSMAN TOWNSMEN TOWPATHS TOXICITY TRACHEAE TRACINGS TRACKERS TRACKING TRACTION TRACTORS TRADUCED TRADUCES TRAFFICS TRAILERS TRAILING TRAINEES TRAINERS TRAINING TRAIPSED TRAIPSES TRAITORS TRAMMELS TRAMMING TRAMPING TRAMPLED TRAMPLES TRANQUIL TRANSACT TRANSEPT TRANSFER TRANSFIX TRANSITS TRANSMIT TRANSOMS TRAPDOOR TRAPEZES TRAPPERS TRAPPING TRASHCAN TRASHIER TRASHING TRAVAILS TRAVELED TRAVELER TRAVERSE TRAVESTY TRAWLERS TRAWLING TREADING TREADLED TREADLES TREASURE TREASURY TREATIES TREATING TREATISE TREBLING TREELESS TREETOPS TREFOILS TREKKING TREMBLED TREMBLES TREMOLOS TRENCHED TRENCHES TRENDIER TRENDIES TRENDING TRESPASS TRESTLES TRIALING TRIANGLE TRIBUNAL TRIBUNES TRIBUTES TRICKERY TRICKIER TRICKING TRICKLED TRICKLES TRICOLOR TRICYCLE TRIDENTS TRIFECTA TRIFLERS TRIFLING TRIGGERS TRILLING TRILLION TRIMARAN TRIMMERS TRIMMEST TRIMMING TRIMNESS TRINKETS TRIPLETS TRIPLING TRIPPING TRIPTYCH TRISECTS TRIUMPHS TROCHEES TROLLEYS TROLLING TROLLOPS TROMBONE TROMPING TROOPERS TROOPING TROPHIES TROPICAL TROPISMS TROTTERS TROTTING TROUBLED TROUBLES TROUNCED TROUNCES TROUPERS TROUPING TROUSERS TROWELED TRUANTED TRUCKERS TRUCKING TRUCKLED TRUCKLES TRUDGING TRUFFLES TRUMPERY TRUMPETS TRUMPING TRUNCATE TRUNDLED TRUNDLES TRUNKING TRUSSING TRUSTEES TRUSTFUL TRUSTIER TRUSTIES TRUSTING TRUTHERS TRUTHFUL TRYSTING TSUNAMIS TUBBIEST TUBELESS TUBERCLE TUBEROUS TUCKERED TUGBOATS TUMBLERS TUMBLING TUMBRELS TUNELESS TUNGSTEN TUNNELED TURBINES TURBOJET TURGIDLY TURMERIC TURMOILS TURNCOAT TURNKEYS TURNOFFS TURNOUTS TURNOVER TURNPIKE TUSSLING TUSSOCKS TUTELAGE TUTORIAL TUTORING TWADDLED TWADDLES TWANGING TWEAKING TWEEDIER TWEETERS TWEETING TWEEZERS TWELFTHS TWENTIES TWERKING TWIDDLED TWIDDLES TWIGGIER TWIGGING TWILIGHT TWINGING TWINKLED TWINKLES TWINNING TWIRLERS TWIRLING TWISTERS TWISTING TWITCHED TWITCHES TWITTERS TWITTING TWOSOMES TYMPANUM TYPECAST TYPEFACE TYPESETS TYPHOONS TYPIFIED TYPIFIES',
+    U: 'UBIQUITY UGLINESS UKULELES ULCERATE ULCEROUS ULTERIOR ULTIMATE ULULATED ULULATES UMBILICI UMBRELLA UMPIRING UNABATED UNAFRAID UNAWARES UNBARRED UNBEATEN UNBELIEF UNBIASED UNBIDDEN UNBLOCKS UNBOLTED UNBOSOMS UNBROKEN UNBUCKLE UNBURDEN UNBUTTON UNCALLED UNCARING UNCLASPS UNCLOTHE UNCOILED UNCOMMON UNCOOKED UNCORKED UNCOUPLE UNCOVERS UNCTIONS UNCTUOUS UNDERACT UNDERAGE UNDERARM UNDERBID UNDERCUT UNDERDOG UNDERFED UNDERLAY UNDERLIE UNDERPAY UNDERPIN UNDERSEA UNDERTOW UNDOINGS UNDULANT UNDULATE UNEARNED UNEARTHS UNEASIER UNEASILY UNEDITED UNENDING UNERRING UNEVENLY UNFAIRER UNFAIRLY UNFASTEN UNFETTER UNFILLED UNFITTED UNFOLDED UNFORMED UNFRIEND UNFROCKS UNFURLED UNGAINLY UNGUENTS UNGULATE UNHANDED UNHARMED UNHEEDED UNHINGED UNHINGES UNHOLIER UNHOOKED UNHORSED UNHORSES UNICORNS UNICYCLE UNIFORMS UNIFYING UNIONIZE UNIQUELY UNIQUEST UNIVERSE UNJUSTLY UNKINDER UNKINDLY UNKNOWNS UNLACING UNLAWFUL UNLEADED UNLEARNS UNLIKELY UNLISTED UNLOADED UNLOCKED UNLOOSED UNLOOSES UNMAKING UNMANNED UNMARKED UNMASKED UNMISSED UNNEEDED UNNERVED UNNERVES UNOPENED UNPACKED UNPINNED UNPROVED UNPROVEN UNQUOTED UNQUOTES UNRAVELS UNRIPEST UNROLLED UNRULIER UNSADDLE UNSAFEST UNSALTED UNSAVORY UNSAYING UNSCREWS UNSEALED UNSEATED UNSEEING UNSEEMLY UNSETTLE UNSHAVEN UNSIGNED UNSNARLS UNSOLVED UNSPOKEN UNSTABLE UNSTATED UNSTEADY UNSTRUNG UNSUBTLE UNSUITED UNTANGLE UNTAPPED UNTAUGHT UNTESTED UNTIDIER UNTIMELY UNTIRING UNTITLED UNTOWARD UNTRUEST UNTRUTHS UNTWISTS UNUSABLE UNVEILED UNVOICED UNWANTED UNWARIER UNWASHED UNWIELDY UNWISELY UNWISEST UNWONTED UNWORTHY UNZIPPED UPBRAIDS UPCHUCKS UPCOMING UPDATING UPDRAFTS UPENDING UPGRADED UPGRADES UPHEAVAL UPLIFTED UPMARKET UPPERCUT UPRAISED UPRAISES UPRIGHTS UPRISING UPROOTED UPSTAGED UPSTAGES UPSTAIRS UPSTARTS UPSTREAM UPSURGED UPSURGES UPSWINGS UPTURNED UPWARDLY URBANEST URBANITY URBANIZE URETHRAE URGENTLY URINATED URINATES USEFULLY USERNAME USHERING USURIOUS USURPERS USURPING UTENSILS UTILIZED UTILIZES UTTERING',
+    V: 'VACANTLY VACATING VACATION VACCINES VACUUMED VAGABOND VAGARIES VAGRANCY VAGRANTS VALANCES VALENCES VALETING VALIDATE VALIDITY VALOROUS VALUABLE VAMOOSED VAMOOSES VAMPIRES VANADIUM VANGUARD VANILLAS VANISHED VANISHES VANITIES VANQUISH VANTAGES VAPIDITY VAPORIZE VAPOROUS VARIABLE VARIABLY VARIANCE VARIANTS VARICOSE VARMINTS VASCULAR VASTNESS VAULTERS VAULTING VAUNTING VECTORED VEGETATE VEHEMENT VEHICLES VELOCITY VENALITY VENDETTA VENEERED VENERATE VENEREAL VENGEFUL VENOMOUS VENTURED VENTURES VERACITY VERANDAS VERBALLY VERBATIM VERBENAS VERBIAGE VERDICTS VERIFIED VERIFIES VERITIES VERMOUTH VERSIONS VERTEBRA VERTEXES VERTICAL VERTICES VESICLES VESTIGES VESTMENT VESTRIES VETERANS VEXATION VIADUCTS VIBRANCY VIBRATED VIBRATES VIBRATOR VIBRATOS VIBURNUM VICARAGE VICEROYS VICINITY VICTUALS VIEWINGS VIGILANT VIGNETTE VIGOROUS VILENESS VILIFIED VILIFIES VILLAGER VILLAGES VILLAINS VILLAINY VILLEINS VINEGARY VINEYARD VINTAGES VINTNERS VIOLABLE VIOLATED VIOLATES VIOLATOR VIOLENCE VIOLISTS VIRAGOES VIRGINAL VIRGULES VIRILITY VIROLOGY VIRTUOSO VIRTUOUS VIRULENT VISCERAL VISCOUNT VISIONED VISITING VISITORS VISUALLY VITALITY VITALIZE VITAMINS VITIATED VITIATES VITREOUS VIVACITY VIVIDEST VIVIFIED VIVIFIES VIXENISH VOCALIST VOCALIZE VOCATION VOCATIVE VOLATILE VOLCANIC VOLITION VOLLEYED VOLTAGES VOMITING VOODOOED VORACITY VORTEXES VOTARIES VOUCHERS VOUCHING VOYAGERS VOYAGING VULGARER VULGARLY VULTURES VUVUZELA',
+    W: 'WACKIEST WADDLING WAFFLING WAGERING WAGGLING WAGONERS WAINSCOT WAITRESS WAKENING WALKOUTS WALKWAYS WALLEYED WALLEYES WALLOPED WALLOWED WALRUSES WALTZING WANDERED WANDERER WANGLING WANNABES WANTONED WANTONLY WARBLERS WARBLING WARDROBE WARDROOM WARHEADS WARHORSE WARINESS WARLOCKS WARLORDS WARNINGS WARPATHS WARRANTS WARRANTY WARRIORS WARSHIPS WARTHOGS WARTIEST WASHABLE WASHBOWL WASHINGS WASHOUTS WASHROOM WASHTUBS WASSAILS WASTEFUL WASTRELS WATCHDOG WATCHERS WATCHFUL WATCHING WATCHMAN WATCHMEN WATERBED WATERIER WATERING WATERWAY WATTLING WAVEFORM WAVELETS WAVERING WAVINESS WAXINESS WAXWINGS WAXWORKS WAYFARER WAYSIDES WEAKENED WEAKFISH WEAKLING WEAKNESS WEAPONRY WEARABLE WEARIEST WEARYING WEASELED WEATHERS WEBCASTS WEBINARS WEBISODE WEBSITES WEDDINGS WEEDIEST WEEKDAYS WEEKENDS WEEKLIES WEEPIEST WEEPINGS WEIGHING WEIGHTED WEIRDEST WELCOMED WELCOMES WELSHING WELTERED WEREWOLF WESTERLY WESTERNS WESTWARD WETBACKS WETLANDS WHACKING WHAMMIES WHAMMING WHATEVER WHEEDLED WHEEDLES WHEELING WHEEZIER WHEEZING WHELPING WHENEVER WHEREVER WHETTING WHIFFING WHIMPERS WHIMSIES WHINIEST WHINNIED WHINNIES WHIPCORD WHIPLASH WHIPPETS WHIPPING WHIRLING WHIRRING WHISKERS WHISKEYS WHISKING WHISPERS WHISTLED WHISTLER WHISTLES WHITECAP WHITENED WHITENER WHITINGS WHITTLED WHITTLER WHITTLES WHIZZING WHODUNIT WHOMEVER WHOOPEES WHOOPING WHOOSHED WHOOSHES WHOPPERS WHOPPING WICKEDER WICKEDLY WIDENESS WIDENING WIDOWERS WIDOWING WIELDING WIGGLERS WIGGLIER WIGGLING WILDCATS WILDFIRE WILDFOWL WILDLIFE WILDNESS WILINESS WIMPIEST WIMPLING WINCHING WINDBAGS WINDBURN WINDFALL WINDIEST WINDLASS WINDMILL WINDOWED WINDPIPE WINDSOCK WINDSURF WINDWARD WINERIES WINGLESS WINGNUTS WINGSPAN WINGTIPS WINNINGS WINNOWED WINSOMER WINTERED WINTRIER WIRELESS WIRETAPS WIRINESS WISEACRE WISHBONE WISPIEST WISTERIA WITCHERY WITCHING WITHDRAW WITHDREW WITHERED WITHHELD WITHHOLD WITTIEST WIZARDRY WOBBLIER WOBBLING WOEFULLY WOMANISH WOMANIZE WONDERED WONDROUS WOODBINE WOODCOCK WOODCUTS WOODENER WOODENLY WOODIEST WOODLAND WOODPILE WOODSHED WOODSIER WOODSMAN WOODSMEN WOODWIND WOODWORK WOODWORM WOOLLIER WOOLLIES WOOZIEST WORDIEST WORDINGS WORDPLAY WORKABLE WORKADAY WORKBOOK WORKDAYS WORKFARE WORKFLOW WORKINGS WORKLOAD WORKOUTS WORKSHOP WORKWEEK WORMHOLE WORMIEST WORMWOOD WORRIERS WORRYING WORSENED WORSHIPS WORSTING WORTHIER WORTHIES WORTHILY WOUNDING WRANGLED WRANGLER WRANGLES WRAPPERS WRAPPING WRATHFUL WREAKING WREATHED WREATHES WRECKAGE WRECKERS WRECKING WRENCHED WRENCHES WRESTING WRESTLED WRESTLER WRESTLES WRETCHED WRETCHES WRIGGLED WRIGGLER WRIGGLES WRINGERS WRINGING WRINKLED WRINKLES WRITABLE WRITHING WRITINGS WRONGEST WRONGFUL WRONGING',
+    Y: 'YACHTING YAMMERED YARDAGES YARDARMS YARMULKE YEARBOOK YEARLIES YEARLING YEARNING YEASTIER YELLOWED YELLOWER YESHIVAS YIELDING YODELERS YODELING YOUNGEST YOUNGISH YOURSELF YOUTHFUL YUCKIEST YULETIDE YUMMIEST',
+    Z: 'ZANINESS ZEPPELIN ZILLIONS ZINCKING ZIPPERED ZIPPIEST ZODIACAL ZUCCHINI ZWIEBACK'
+  }
+}
@@ -0,0 +1,65 @@
+import { ThemeKey } from './game-types'
+import { DICTIONARY_WORDS } from './dictionary-words'
+import { isBlockedWord } from './word-blocklist'
+
+// Themed words (names, spells, jargon) that are valid for their theme but not in the dictionary
+export const THEME_WORDS: Partial<Record<ThemeKey, string[]>> = {
+  theater: ['THESP', 'FOLEY', 'SCRIM'],
+  'harry-potter': ['ACCIO', 'LUMOS', 'ALBUS', 'DRACO', 'SNAPE', 'DOBBY', 'GINNY', 'PERCY', 'FLEUR', 'SQUIB', 'TONKS', 'LUPIN', 'AUROR'],
+  disney: ['SIMBA', 'ARIEL', 'MOANA', 'DUMBO', 'BAMBI', 'MULAN', 'TIMON', 'JAFAR', 'PLUTO', 'ALICE', 'WENDY', 'TIANA'],
+  'marine-biology': ['MANTA', 'KRILL', 'ORCAS'],
+  'billy-joel': ['LAURA', 'EDDIE', 'ALEXA'],
+  cooking: ['AIOLI', 'TAPAS', 'PESTO', 'RAMEN', 'PANKO', 'DASHI', 'MOCHI', 'UMAMI', 'PENNE', 'ROTIS'],
+  space: ['VENUS', 'PLUTO', 'CERES', 'RIGEL', 'DENEB', 'SAGAN', 'ORION', 'MIMAS', 'DIONE', 'ARIES', 'LIBRA', 'SOYUZ'],
+  nature: ['TAIGA', 'BIOME']
+}
+
+// Built lazily on first lookup so the word list is only expanded when needed
+let dictionary: Set<string> | null = null
+
+function getDictionary(): Set<string> {
+  if (!dictionary) {
+    dictionary = new Set<string>()
+    for (const length of Object.keys(DICTIONARY_WORDS)) {
+      for (const word of getDictionaryWords(Number(length))) {
+        dictionary.add(word)
+      }
+    }
+  }
+
+  return dictionary
+}
+
+// Every dictionary word of the given length (empty for unsupported lengths)
+export function getDictionaryWords(length: number): string[] {
+  const groups = DICTIONARY_WORDS[length]
+  if (!groups) return []
+
+  return Object.values(groups).reduce<string[]>((words, group) => words.concat(group.split(' ')), [])
+}
+
+// Dictionary words fit to show a player (answers, solver suggestions, bot guesses): the full list
+// minus the blocklist. Guesses are still checked against every dictionary word
+const answerWords = new Map<number, string[]>()
+
+export function getAnswerWords(length: number): string[] {
+  let words = answerWords.get(length)
+  if (!words) {
+    words = getDictionaryWords(length).filter(word => !isBlockedWord(word))
+    answerWords.set(length, words)
+  }
+  return words
+}
+
+export function isDictionaryWord(word: string): boolean {
+  return getDictionary().has(word.toUpperCase())
+}
+
+export function isThemeWord(word: string, theme: ThemeKey): boolean {
+  return THEME_WORDS[theme]?.includes(word.toUpperCase()) ?? false
+}
+
+// A word is playable if it is in the dictionary or on the allow-list for the current theme
+export function isAllowedWord(word: string, theme?: ThemeKey): boolean {
+  return isDictionaryWord(word) || (theme !== undefined && isThemeWord(word, theme))
+}
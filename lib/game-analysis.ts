@@ -0,0 +1,164 @@
+import { GuessResult, ThemeKey } from './game-types'
+import { getAnswerWords } from './dictionary'
+import { isBlockedWord } from './word-blocklist'
+import { checkGuess } from './utils'
+import { getCandidates, getLetterFrequencies, isConsistent } from './solver'
+
+// Post-game "Replay & Analyse": scores each guess by how much it was expected to narrow
+// the candidate list (Shannon information, in bits) and compares it with the guess an
+// information-maximising bot would have made. Runs entirely locally so it works offline.
+
+export interface GuessAnalysis {
+  guess: string
+  candidatesBefore: number
+  candidatesAfter: number
+  // Expected information of the guess against the candidates it faced
+  expectedBits: number
+  // Information actually gained, log2(before / after)
+  actualBits: number
+  botGuess: string
+  botBits: number
+  // How much expected information the player left on the table compared with the bot
+  bitsLost: number
+}
+
+export interface GameAnalysis {
+  steps: GuessAnalysis[]
+  // Index into steps of the costliest guess, or null if every guess was close to optimal
+  biggestMistake: number | null
+}
+
+// Sizes that keep a full replay well under a second in the browser (and cheap in game-over):
+// each guess costs at most MAX_BOT_POOL * MAX_SAMPLE scorings, about 15,000
+const MAX_SAMPLE = 150
+const MAX_BOT_POOL = 100
+// Differences smaller than this aren't worth calling a mistake
+const MISTAKE_THRESHOLD_BITS = 0.5
+
+// The tile pattern a guess would show for a given answer, e.g. "20100"
+function getPattern(guess: string, answer: string): string {
+  return checkGuess(guess, answer).tiles
+    .map(tile => (tile.state === 'correct' ? '2' : tile.state === 'present' ? '1' : '0'))
+    .join('')
+}
+
+// Every n-th word, so large candidate sets are estimated from an even spread
+function sample(words: string[], size: number): string[] {
+  if (words.length <= size) return words
+  const step = words.length / size
+  return Array.from({ length: size }, (_, i) => words[Math.floor(i * step)])
+}
+
+// Entropy of the tile patterns the guess would produce across the candidates
+export function getExpectedInformation(guess: string, candidates: string[]): number {
+  if (candidates.length <= 1) return 0
+
+  const buckets: Record<string, number> = {}
+  for (const answer of candidates) {
+    const pattern = getPattern(guess, answer)
+    buckets[pattern] = (buckets[pattern] || 0) + 1
+  }
+
+  return Object.keys(buckets).reduce((bits, pattern) => {
+    const p = buckets[pattern] / candidates.length
+    return bits - p * Math.log2(p)
+  }, 0)
+}
+
+// Bot guesses come from the remaining candidates plus the dictionary words that cover
+// the most frequent unknown letters - the usual shortlist for an entropy solver, split evenly
+// between the two. They are shown in the replay, so blocklisted words are left out
+function getBotPool(candidates: string[], results: GuessResult[], wordLength: number): string[] {
+  const weights: Record<string, number> = {}
+  for (const { letter, share } of getLetterFrequencies(candidates, results)) {
+    // Letters in every candidate tell us nothing new
+    weights[letter] = share < 1 ? share : 0
+  }
+
+  const score = (word: string) =>
+    Array.from(new Set(word.split(''))).reduce((total, letter) => total + (weights[letter] || 0), 0)
+
+  const probes = getAnswerWords(wordLength)
+    .map(word => ({ word, score: score(word) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_BOT_POOL / 2)
+    .map(({ word }) => word)
+
+  const shown = candidates.filter(word => !isBlockedWord(word))
+  return Array.from(new Set(sample(shown, MAX_BOT_POOL / 2).concat(probes)))
+}
+
+// The guess with the most expected information; candidates win ties since they might just be right
+export function findBotGuess(candidates: string[], results: GuessResult[], wordLength: number): { guess: string; bits: number } {
+  if (candidates.length === 1) return { guess: candidates[0], bits: 0 }
+
+  const answers = sample(candidates, MAX_SAMPLE)
+  const remaining = new Set(candidates)
+  let best = { guess: candidates[0] || '', bits: -1 }
+
+  for (const guess of getBotPool(candidates, results, wordLength)) {
+    const bits = getExpectedInformation(guess, answers)
+    if (bits > best.bits + 1e-9 || (Math.abs(bits - best.bits) <= 1e-9 && remaining.has(guess) && !remaining.has(best.guess))) {
+      best = { guess, bits }
+    }
+  }
+
+  return best
+}
+
+// Replay a finished game guess by guess. targetWord is included in the word pool so
+// answers outside the dictionary (e.g. themed names) still leave a candidate.
+export function analyzeGame(
+  results: GuessResult[],
+  { targetWord, wordLength, theme }: { targetWord: string; wordLength: number; theme?: ThemeKey }
+): GameAnalysis {
+  let candidates = getCandidates([], { wordLength, theme, extraWords: [targetWord] })
+  const steps: GuessAnalysis[] = []
+
+  results.forEach((result, i) => {
+    const history = results.slice(0, i)
+    const answers = sample(candidates, MAX_SAMPLE)
+    const expectedBits = getExpectedInformation(result.word, answers)
+    const bot = findBotGuess(candidates, history, wordLength)
+
+    const after = candidates.filter(word => isConsistent(word, [result]))
+    const solved = result.tiles.every(tile => tile.state === 'correct')
+
+    steps.push({
+      guess: result.word,
+      candidatesBefore: candidates.length,
+      candidatesAfter: after.length,
+      expectedBits,
+      actualBits: after.length > 0 ? Math.log2(candidates.length / after.length) : 0,
+      botGuess: bot.guess,
+      botBits: bot.bits,
+      // Solving the puzzle is never a mistake, however little it would have told us
+      bitsLost: solved ? 0 : Math.max(0, bot.bits - expectedBits)
+    })
+
+    candidates = after
+  })
+
+  const worst = steps.reduce<number | null>((worstIndex, step, i) =>
+    step.bitsLost >= MISTAKE_THRESHOLD_BITS && (worstIndex === null || step.bitsLost > steps[worstIndex].bitsLost)
+      ? i
+      : worstIndex
+  , null)
+
+  return { steps, biggestMistake: worst }
+}
+
+export function formatBits(bits: number): string {
+  return bits.toFixed(1)
+}
+
+// A plain account of the biggest mistake, used offline and as the coach's fallback
+export function describeBiggestMistake({ steps, biggestMistake }: GameAnalysis): string {
+  if (biggestMistake === null) {
+    return 'Every guess pulled its weight - none of them was far from what the bot would have played.'
+  }
+
+  const step = steps[biggestMistake]
+  return `Guess ${biggestMistake + 1} (${step.guess}) was the costliest: it was expected to give ${formatBits(step.expectedBits)} bits ` +
+    `against ${step.candidatesBefore} possible words, while ${step.botGuess} would have given ${formatBits(step.botBits)} bits.`
+}
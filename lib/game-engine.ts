@@ -0,0 +1,176 @@
+import { CustomThemeInfo, Difficulty, GameData, GameState, GameStats, GuessResult, ThemeKey, MAX_GUESSES, WORD_LENGTH } from './game-types'
+import { checkGuess } from './utils'
+import { validateGuess } from './guess-validation'
+import { MAX_HINTS, getGameScore } from './hint-ladder'
+
+// Headless ClaudLE rules - a pure reducer over GameData with no React, fetch or storage.
+// Guesses can be scored locally (when the target word is known) or by the server.
+
+export type GameAction =
+  | { type: 'start'; theme: ThemeKey; customTheme?: CustomThemeInfo; targetWord?: string; difficulty?: Difficulty; wordLength?: number; maxGuesses?: number; guesses?: GuessResult[]; hintsUsed?: number }
+  | { type: 'type'; letter: string }
+  | { type: 'delete' }
+  // Score the current guess against a known target word
+  | { type: 'guess' }
+  // Apply a guess scored elsewhere (e.g. /api/game/guess); the answer arrives once the game ends,
+  // and the scorer's hint count (when it keeps one) replaces the local one
+  | { type: 'scored'; result: GuessResult; targetWord?: string; hintsUsed?: number }
+  | { type: 'hint' }
+  | { type: 'reset' }
+
+export function createGame(theme: ThemeKey = 'original', options: Partial<Omit<GameData, 'theme'>> = {}): GameData {
+  return {
+    targetWord: '',
+    theme,
+    guesses: [],
+    currentGuess: '',
+    gameState: 'playing',
+    difficulty: 'medium',
+    hintsUsed: 0,
+    wordLength: WORD_LENGTH,
+    maxGuesses: MAX_GUESSES,
+    ...options
+  }
+}
+
+// Outcome is derived from the tiles alone, so it works without knowing the answer
+export function getGameState(guesses: GuessResult[], maxGuesses: number): GameState {
+  const last = guesses[guesses.length - 1]
+  if (last && last.tiles.every(tile => tile.state === 'correct')) return 'won'
+  if (guesses.length >= maxGuesses) return 'lost'
+  return 'playing'
+}
+
+// Player-facing reason the current guess can't be submitted, or null if it can
+export function getGuessRejection(game: GameData): string | null {
+  if (game.gameState !== 'playing') return 'Game is over'
+
+  return validateGuess(game.currentGuess, {
+    theme: game.theme,
+    difficulty: game.difficulty,
+    previousGuesses: game.guesses,
+    wordLength: game.wordLength,
+    extraWords: game.customTheme?.seedWords
+  })
+}
+
+function applyResult(game: GameData, result: GuessResult, targetWord?: string): GameData {
+  const guesses = [...game.guesses, result]
+  const gameState = getGameState(guesses, game.maxGuesses)
+
+  return {
+    ...game,
+    guesses,
+    currentGuess: '',
+    gameState,
+    targetWord: targetWord || game.targetWord
+  }
+}
+
+export function gameReducer(game: GameData, action: GameAction): GameData {
+  switch (action.type) {
+    case 'start': {
+      const guesses = action.guesses || []
+      const maxGuesses = action.maxGuesses || MAX_GUESSES
+      return createGame(action.theme, {
+        customTheme: action.customTheme,
+        targetWord: action.targetWord || '',
+        difficulty: action.difficulty || 'medium',
+        wordLength: action.wordLength || WORD_LENGTH,
+        maxGuesses,
+        guesses,
+        hintsUsed: action.hintsUsed || 0,
+        gameState: getGameState(guesses, maxGuesses)
+      })
+    }
+
+    case 'type':
+      if (game.gameState !== 'playing' || game.currentGuess.length >= game.wordLength || !/^[A-Z]$/.test(action.letter)) {
+        return game
+      }
+      return { ...game, currentGuess: game.currentGuess + action.letter }
+
+    case 'delete':
+      if (game.gameState !== 'playing') return game
+      return { ...game, currentGuess: game.currentGuess.slice(0, -1) }
+
+    case 'guess':
+      if (!game.targetWord || getGuessRejection(game)) return game
+      return applyResult(game, checkGuess(game.currentGuess, game.targetWord))
+
+    case 'scored':
+      if (game.gameState !== 'playing') return game
+      return applyResult(
+        action.hintsUsed === undefined ? game : { ...game, hintsUsed: Math.min(action.hintsUsed, MAX_HINTS) },
+        action.result,
+        action.targetWord
+      )
+
+    case 'hint':
+      if (game.gameState !== 'playing' || game.hintsUsed >= MAX_HINTS) return game
+      return { ...game, hintsUsed: game.hintsUsed + 1 }
+
+    // A fresh board for the same kind of game: theme, difficulty and size carry over
+    case 'reset':
+      return createGame(game.theme, {
+        customTheme: game.customTheme,
+        difficulty: game.difficulty,
+        wordLength: game.wordLength,
+        maxGuesses: game.maxGuesses
+      })
+
+    default:
+      return game
+  }
+}
+
+export function createEmptyStats(): GameStats {
+  return {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    currentStreak: 0,
+    maxStreak: 0,
+    guessDistribution: Array(MAX_GUESSES).fill(0),
+    hardModeGamesPlayed: 0,
+    hardModeGamesWon: 0,
+    hintsUsed: 0,
+    totalScore: 0,
+    bestScore: 0
+  }
+}
+
+export function getFinalScore(game: GameData): number {
+  return getGameScore({
+    won: game.gameState === 'won',
+    guessCount: game.guesses.length,
+    maxGuesses: game.maxGuesses,
+    hintsUsed: game.hintsUsed
+  })
+}
+
+// Fold a finished game into the running statistics
+export function recordGameResult(stats: GameStats, game: GameData): GameStats {
+  const won = game.gameState === 'won'
+  const isHard = game.difficulty === 'hard'
+  const score = getFinalScore(game)
+  // Longer guess limits extend the distribution rather than overflowing it
+  const guessDistribution = [...stats.guessDistribution]
+  while (guessDistribution.length < game.maxGuesses) guessDistribution.push(0)
+
+  if (won) {
+    guessDistribution[game.guesses.length - 1]++
+  }
+
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    gamesWon: won ? stats.gamesWon + 1 : stats.gamesWon,
+    currentStreak: won ? stats.currentStreak + 1 : 0,
+    maxStreak: won ? Math.max(stats.maxStreak, stats.currentStreak + 1) : stats.maxStreak,
+    guessDistribution,
+    hardModeGamesPlayed: (stats.hardModeGamesPlayed || 0) + (isHard ? 1 : 0),
+    hardModeGamesWon: (stats.hardModeGamesWon || 0) + (isHard && won ? 1 : 0),
+    hintsUsed: (stats.hintsUsed || 0) + game.hintsUsed,
+    totalScore: (stats.totalScore || 0) + score,
+    bestScore: Math.max(stats.bestScore || 0, score)
+  }
+}
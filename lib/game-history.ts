@@ -0,0 +1,61 @@
+import { Difficulty, Personality, ThemeKey } from './game-types'
+
+// A log of every finished game, kept in localStorage. The stats modal aggregates it
+// (see stats-aggregation.ts) for per-theme, per-coach and over-time breakdowns.
+
+const STORAGE_KEY = 'claudle-history'
+// Oldest games are dropped beyond this so localStorage stays small
+export const MAX_HISTORY_ENTRIES = 1000
+
+export interface GameHistoryEntry {
+  // ISO timestamps
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  mode: 'ai' | 'daily' | 'offline'
+  theme: ThemeKey
+  // A player-made theme (theme is then 'original'), kept by name so it still reads right once deleted
+  customTheme?: { name: string; icon: string }
+  personality: Personality
+  difficulty: Difficulty
+  word: string
+  guesses: string[]
+  wordLength: number
+  maxGuesses: number
+  hintsUsed: number
+  score: number
+  won: boolean
+}
+
+export function loadGameHistory(): GameHistoryEntry[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const history = saved ? JSON.parse(saved) : []
+    return Array.isArray(history) ? history : []
+  } catch (error) {
+    console.error('Failed to load game history:', error)
+    return []
+  }
+}
+
+// Replace the whole log (oldest games beyond the cap are dropped) and return what was kept
+export function saveGameHistory(history: GameHistoryEntry[]): GameHistoryEntry[] {
+  const kept = history.slice(-MAX_HISTORY_ENTRIES)
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept))
+  } catch (error) {
+    console.error('Failed to save game history:', error)
+  }
+
+  return kept
+}
+
+// Append a finished game and return the updated log
+export function recordGameHistory(entry: GameHistoryEntry): GameHistoryEntry[] {
+  return saveGameHistory(loadGameHistory().concat(entry))
+}
+
+export function clearGameHistory(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
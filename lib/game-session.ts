@@ -0,0 +1,174 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { CustomThemeInfo, Difficulty, GameConfig, GameState, GuessResult, Theme, ThemeKey, THEMES, DEFAULT_GAME_CONFIG } from './game-types'
+import { checkGuess, isValidWord } from './utils'
+import { getDailyWord, isDateKey } from './daily-puzzle'
+import { getSessionStore } from './session-store'
+
+// Server-authoritative game sessions.
+// The whole session (including the target word) travels as an AES-GCM encrypted
+// token, so the browser holds an opaque string it can neither read nor forge.
+// Each token can only be spent once (see claimSession), so old tokens can't be replayed.
+
+export interface GameSession extends GameConfig {
+  id: string
+  targetWord: string
+  theme: ThemeKey
+  // A player-made theme, validated by generate-word before the session was issued
+  customTheme?: CustomThemeInfo
+  difficulty: Difficulty
+  guesses: string[]
+  createdAt: number
+  // Fresh for every token encodeSession issues; claimed server-side when the token is spent
+  nonce?: string
+}
+
+// Sessions older than this are rejected
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// Tokens are only as safe as this secret. Development and tests fall back to a placeholder that
+// is public in the repo; production refuses to issue or read any session without a real one.
+// Resolved on first use rather than at import, so `next build` works without the secret
+const DEV_SECRET = 'claudle-development-only-session-secret'
+let key: Buffer | null = null
+
+function getSessionKey(): Buffer {
+  if (!key) {
+    const secret = process.env.GAME_SESSION_SECRET
+    if (!secret && process.env.NODE_ENV === 'production') {
+      throw new Error('GAME_SESSION_SECRET is not set - refusing to issue game sessions')
+    }
+    key = createHash('sha256').update(secret || DEV_SECRET).digest()
+  }
+
+  return key
+}
+
+export function encodeSession(session: GameSession): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getSessionKey(), iv)
+  const payload = JSON.stringify({ ...session, nonce: randomBytes(12).toString('hex') })
+  const encrypted = Buffer.concat([cipher.update(payload, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return Buffer.concat([iv, tag, encrypted]).toString('base64url')
+}
+
+export function decodeSession(token: unknown): GameSession | null {
+  if (typeof token !== 'string' || token.length === 0) return null
+  const sessionKey = getSessionKey()
+
+  try {
+    const raw = Buffer.from(token, 'base64url')
+    const iv = raw.subarray(0, 12)
+    const tag = raw.subarray(12, 28)
+    const encrypted = raw.subarray(28)
+
+    const decipher = createDecipheriv('aes-256-gcm', sessionKey, iv)
+    decipher.setAuthTag(tag)
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+    const session = JSON.parse(decrypted) as GameSession
+
+    if (Date.now() - session.createdAt > SESSION_MAX_AGE_MS) return null
+
+    // Tokens issued before configurable games were always classic 5x6
+    return { ...DEFAULT_GAME_CONFIG, ...session }
+  } catch {
+    // Tampered, truncated or signed with another secret
+    return null
+  }
+}
+
+// Spend a token on one guess before answering it. Resolves to the response to send: this one
+// the first time, or - when the same guess is sent again because its response was lost - the
+// response recorded then, so the client gets the same next token rather than a fork of the game.
+// null when the token was already spent on a different guess (a kept copy, or a racing request)
+export async function claimSession<T>(session: GameSession, guess: string, response: T): Promise<T | null> {
+  if (!session.nonce) return null
+
+  const stored = await getSessionStore().claim(session.nonce, JSON.stringify({ guess, response }), SESSION_MAX_AGE_MS)
+  if (stored === null) return response
+
+  try {
+    const previous = JSON.parse(stored) as { guess?: unknown; response?: T }
+    return previous.guess === guess && previous.response ? previous.response : null
+  } catch {
+    return null
+  }
+}
+
+// Record a hint for the game and return how many it has now had, counting every hint the
+// server served - whatever the client says. AI games only: daily answers are public anyway
+export function recordSessionHint(session: GameSession): Promise<number> {
+  return getSessionStore().increment(`hints:${session.id}`, SESSION_MAX_AGE_MS)
+}
+
+export function getSessionHints(session: GameSession): Promise<number> {
+  return getSessionStore().count(`hints:${session.id}`)
+}
+
+export function createSession(targetWord: string, theme: ThemeKey, difficulty: Difficulty = 'medium', config: GameConfig = DEFAULT_GAME_CONFIG, customTheme?: CustomThemeInfo): GameSession {
+  return {
+    id: randomBytes(8).toString('hex'),
+    targetWord,
+    theme,
+    ...(customTheme && { customTheme }),
+    difficulty,
+    wordLength: config.wordLength,
+    maxGuesses: config.maxGuesses,
+    guesses: [],
+    createdAt: Date.now()
+  }
+}
+
+export function getSessionState(session: GameSession): GameState {
+  if (session.guesses.includes(session.targetWord)) return 'won'
+  if (session.guesses.length >= session.maxGuesses) return 'lost'
+  return 'playing'
+}
+
+export function getSessionResults(session: GameSession): GuessResult[] {
+  return session.guesses.map(guess => checkGuess(guess, session.targetWord))
+}
+
+// Score a guess against the session and return the updated session
+export function applyGuess(session: GameSession, guess: string): { session: GameSession; result: GuessResult; gameState: GameState } {
+  const updated: GameSession = { ...session, guesses: [...session.guesses, guess] }
+
+  return {
+    session: updated,
+    result: checkGuess(guess, session.targetWord),
+    gameState: getSessionState(updated)
+  }
+}
+
+// Daily puzzles are played locally, so the client sends its guesses and the server
+// re-derives the (already public) daily word instead of decrypting a token
+export function createDailySession(daily: unknown): GameSession | null {
+  if (!daily || typeof daily !== 'object') return null
+
+  const { date, theme, guesses, difficulty = 'medium' } = daily as Record<string, unknown>
+
+  if (!isDateKey(date) || typeof theme !== 'string' || !THEMES[theme as ThemeKey]) return null
+  if (!Array.isArray(guesses) || guesses.length > DEFAULT_GAME_CONFIG.maxGuesses) return null
+  if (!guesses.every(guess => typeof guess === 'string' && isValidWord(guess, theme as ThemeKey))) return null
+
+  return {
+    id: `daily-${date}-${theme}`,
+    targetWord: getDailyWord(date, theme as ThemeKey),
+    theme: theme as ThemeKey,
+    difficulty: difficulty === 'hard' ? 'hard' : 'medium',
+    ...DEFAULT_GAME_CONFIG,
+    guesses,
+    createdAt: Date.now()
+  }
+}
+
+// The theme to describe in prompts - the player's own, or the built-in one
+export function getSessionTheme(session: GameSession): Theme & { seedWords?: string[] } {
+  return session.customTheme || THEMES[session.theme] || THEMES.original
+}
+
+// Resolve the game a Claude route is being asked about - a session token or a daily puzzle
+export function resolveSession({ sessionToken, daily }: { sessionToken?: unknown; daily?: unknown }): GameSession | null {
+  return sessionToken ? decodeSession(sessionToken) : createDailySession(daily)
+}
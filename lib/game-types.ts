@@ -13,7 +13,8 @@ export type HintType = 'gentle' | 'strategic' | 'direct'
 
 export type ThemeKey = 'original' | 'theater' | 'harry-potter' | 'disney' | 'marine-biology' | 'billy-joel' | 'cooking' | 'space' | 'sports' | 'nature'
 
-export type Personality = 'lasso' | 'kent'
+// Id of a coach in lib/personality-registry.ts
+export type { Personality } from './personality-registry'
 
 export interface Theme {
   name: string
@@ -22,6 +23,12 @@ export interface Theme {
   icon: string
 }
 
+// A player-made theme (see lib/custom-themes.ts). Games use the classic dictionary, plus the
+// theme's own seed words, which may be answers and are always accepted as guesses
+export interface CustomThemeInfo extends Theme {
+  seedWords: string[]
+}
+
 export const THEMES: Record<ThemeKey, Theme> = {
   original: {
     name: "Classic Words",
@@ -91,6 +98,11 @@ export interface GameStats {
   currentStreak: number
   maxStreak: number
   guessDistribution: number[]
+  hardModeGamesPlayed?: number
+  hardModeGamesWon?: number
+  hintsUsed?: number
+  totalScore?: number
+  bestScore?: number
 }
 
 export interface GuessResult {
@@ -99,17 +111,56 @@ export interface GuessResult {
 }
 
 export interface GameData {
+  // Empty while the answer is held server-side; filled in when the game ends
   targetWord: string
+  theme: ThemeKey
+  // Set for games on a player-made theme (theme is then 'original')
+  customTheme?: CustomThemeInfo
   guesses: GuessResult[]
   currentGuess: string
   gameState: GameState
   difficulty: Difficulty
   hintsUsed: number
+  wordLength: number
   maxGuesses: number
 }
 
+// Defaults for the classic game; other lengths and guess counts are chosen per game
 export const WORD_LENGTH = 5
 export const MAX_GUESSES = 6
+// The optional opening guess for classic games - never an answer, or it would win on its own
+export const OPENING_GUESS = 'AUDIO'
+
+export const MIN_WORD_LENGTH = 4
+export const MAX_WORD_LENGTH = 8
+export const MIN_GUESS_LIMIT = 6
+export const MAX_GUESS_LIMIT = 10
+
+export interface GameConfig {
+  wordLength: number
+  maxGuesses: number
+}
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  wordLength: WORD_LENGTH,
+  maxGuesses: MAX_GUESSES
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+// Parse a client-supplied config; missing fields fall back to the defaults, out-of-range values are rejected
+export function parseGameConfig(input: { wordLength?: unknown; maxGuesses?: unknown }): GameConfig | null {
+  const { wordLength = WORD_LENGTH, maxGuesses = MAX_GUESSES } = input
+
+  if (!isIntegerInRange(wordLength, MIN_WORD_LENGTH, MAX_WORD_LENGTH) ||
+      !isIntegerInRange(maxGuesses, MIN_GUESS_LIMIT, MAX_GUESS_LIMIT)) {
+    return null
+  }
+
+  return { wordLength, maxGuesses }
+}
 
 export const KEYBOARD_LAYOUT = [
   ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
@@ -0,0 +1,70 @@
+import { Difficulty, GuessResult, ThemeKey, WORD_LENGTH } from './game-types'
+import { isValidWord } from './utils'
+
+// Shared guess rules - used by the board before submitting and by /api/game/guess when scoring
+
+interface GuessContext {
+  theme?: ThemeKey
+  difficulty?: Difficulty
+  previousGuesses?: GuessResult[]
+  wordLength?: number
+  // Also accepted, e.g. a custom theme's seed words that aren't in the dictionary
+  extraWords?: string[]
+}
+
+function ordinal(position: number): string {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' }
+  return `${position}${suffixes[position] || 'th'}`
+}
+
+// Hard mode: green letters must stay in place and yellow letters must be reused
+export function getHardModeViolation(guess: string, previousGuesses: GuessResult[]): string | null {
+  for (const previous of previousGuesses) {
+    for (let i = 0; i < previous.tiles.length; i++) {
+      const tile = previous.tiles[i]
+      if (tile.state === 'correct' && guess[i] !== tile.letter) {
+        return `${ordinal(i + 1)} letter must be ${tile.letter}`
+      }
+    }
+  }
+
+  for (const previous of previousGuesses) {
+    // Count revealed occurrences so duplicate yellows/greens are enforced too
+    const required: Record<string, number> = {}
+    for (const tile of previous.tiles) {
+      if (tile.state === 'correct' || tile.state === 'present') {
+        required[tile.letter] = (required[tile.letter] || 0) + 1
+      }
+    }
+
+    for (const [letter, count] of Object.entries(required)) {
+      const used = guess.split('').filter(l => l === letter).length
+      if (used < count) {
+        return count > 1 ? `Guess must contain ${count} ${letter}s` : `Guess must contain ${letter}`
+      }
+    }
+  }
+
+  return null
+}
+
+// Returns a player-facing rejection message, or null if the guess is allowed
+export function validateGuess(guess: string, { theme, difficulty, previousGuesses = [], wordLength = WORD_LENGTH, extraWords = [] }: GuessContext = {}): string | null {
+  if (guess.length < wordLength) {
+    return 'Not enough letters'
+  }
+
+  if (guess.length > wordLength) {
+    return 'Too many letters'
+  }
+
+  if (!isValidWord(guess, theme, wordLength) && !extraWords.includes(guess)) {
+    return 'Not in word list'
+  }
+
+  if (difficulty === 'hard') {
+    return getHardModeViolation(guess, previousGuesses)
+  }
+
+  return null
+}
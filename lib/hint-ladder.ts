@@ -0,0 +1,81 @@
+import { GuessResult, HintType, Theme, THEMES, ThemeKey } from './game-types'
+import { summarizeClues } from './utils'
+
+// Hints climb a fixed ladder: a thematic nudge, then a letter, then one revealed position.
+// Each rung costs more score than the one before.
+
+export const HINT_LADDER: HintType[] = ['gentle', 'strategic', 'direct']
+
+export const MAX_HINTS = HINT_LADDER.length
+
+export const HINT_TIERS: Record<HintType, { label: string; description: string; penalty: number }> = {
+  gentle: { label: 'Gentle Nudge', description: 'A thematic clue about the word', penalty: 10 },
+  strategic: { label: 'Letter Hint', description: 'One letter you have not found yet', penalty: 25 },
+  direct: { label: 'Reveal a Letter', description: 'One letter in its exact position', penalty: 50 }
+}
+
+// Points for each unused guess when the word is solved
+const POINTS_PER_SPARE_GUESS = 100
+
+// The rung the next hint comes from, or null once the ladder is used up
+export function getNextHintType(hintsUsed: number): HintType | null {
+  return HINT_LADDER[hintsUsed] || null
+}
+
+export function getHintPenalty(hintsUsed: number): number {
+  return HINT_LADDER.slice(0, hintsUsed).reduce((total, type) => total + HINT_TIERS[type].penalty, 0)
+}
+
+// Solving sooner scores more, hints cost points, and a loss scores nothing
+export function getGameScore({ won, guessCount, maxGuesses, hintsUsed }: {
+  won: boolean
+  guessCount: number
+  maxGuesses: number
+  hintsUsed: number
+}): number {
+  if (!won) return 0
+  return Math.max(0, (maxGuesses - guessCount + 1) * POINTS_PER_SPARE_GUESS - getHintPenalty(hintsUsed))
+}
+
+export interface HintTarget {
+  targetWord: string
+  theme: ThemeKey
+  // A player-made theme, described instead of the built-in one
+  customTheme?: Theme
+  results: GuessResult[]
+}
+
+// A letter of the answer the player hasn't found yet (green or yellow)
+export function pickUnfoundLetter({ targetWord, results }: HintTarget): string | null {
+  const clues = summarizeClues(results)
+  const found = new Set([...clues.correctLetters, ...clues.presentLetters].map(c => c.letter))
+  return targetWord.split('').find(letter => !found.has(letter)) || null
+}
+
+// The first position (1-based) that hasn't been solved yet
+export function pickUnsolvedPosition({ targetWord, results }: HintTarget): { letter: string; position: number } | null {
+  const solved = new Set(summarizeClues(results).correctLetters.map(c => c.position))
+
+  for (let i = 0; i < targetWord.length; i++) {
+    if (!solved.has(i + 1)) return { letter: targetWord[i], position: i + 1 }
+  }
+
+  return null
+}
+
+// Deterministic per-tier hint for when the model is unavailable
+export function getFallbackHint(type: HintType, target: HintTarget): string {
+  if (type === 'direct') {
+    const reveal = pickUnsolvedPosition(target)
+    if (reveal) return `Letter ${reveal.position} is ${reveal.letter}.`
+  }
+
+  if (type === 'strategic' || type === 'direct') {
+    const letter = pickUnfoundLetter(target)
+    if (letter) return `The word contains the letter ${letter}.`
+    return 'You have found every letter - now it is just about the order.'
+  }
+
+  const theme = target.customTheme || THEMES[target.theme]
+  return `Think ${theme.name.toLowerCase()}: ${theme.description.toLowerCase()}. The word has ${target.targetWord.length} letters.`
+}
@@ -0,0 +1,89 @@
+import { Personality, ThemeKey } from './game-types'
+import { anthropicProvider } from './claude-client'
+import { mockProvider } from './mock-llm-provider'
+
+// Provider-agnostic text generation used by every /api/claude route.
+// LLM_PROVIDER picks the backend ('anthropic' by default, 'mock' for offline dev/CI),
+// and each route's model and token budget can be overridden from the environment.
+
+export type LLMRoute = 'generate-word' | 'word-pool' | 'get-hint' | 'coaching' | 'game-over'
+
+export interface LLMRouteConfig {
+  model: string
+  maxTokens: number
+}
+
+export interface LLMRequest {
+  route: LLMRoute
+  prompt: string
+  // Structured game context - ignored by real models, used by the mock to stay in character
+  context?: {
+    personality?: Personality
+    theme?: ThemeKey
+    wordLength?: number
+    excludedWords?: string[]
+    // How many words generate-word and word-pool ask for
+    candidates?: number
+    // How the game ended, for game-over
+    won?: boolean
+  }
+}
+
+// Receives each chunk of generated text as it arrives
+export type TextHandler = (text: string) => void
+
+export interface LLMProvider {
+  name: string
+  // Resolves to the model's text response, trimmed
+  complete(request: LLMRequest, config: LLMRouteConfig): Promise<string>
+  // Same as complete, but forwards text to onText as it is generated; stops early when signal aborts
+  stream(request: LLMRequest, config: LLMRouteConfig, onText: TextHandler, signal?: AbortSignal): Promise<string>
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+
+const ROUTE_DEFAULTS: Record<LLMRoute, LLMRouteConfig> = {
+  'generate-word': { model: DEFAULT_MODEL, maxTokens: 100 },
+  // Batches of words to fill the word pool
+  'word-pool': { model: DEFAULT_MODEL, maxTokens: 400 },
+  'get-hint': { model: DEFAULT_MODEL, maxTokens: 200 },
+  coaching: { model: DEFAULT_MODEL, maxTokens: 150 },
+  'game-over': { model: DEFAULT_MODEL, maxTokens: 150 }
+}
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  anthropic: anthropicProvider,
+  mock: mockProvider
+}
+
+// e.g. 'get-hint' -> LLM_GET_HINT_MODEL / LLM_GET_HINT_MAX_TOKENS, falling back to LLM_MODEL
+export function getRouteConfig(route: LLMRoute): LLMRouteConfig {
+  const prefix = `LLM_${route.toUpperCase().replace(/-/g, '_')}`
+  const defaults = ROUTE_DEFAULTS[route]
+  const maxTokens = Number(process.env[`${prefix}_MAX_TOKENS`])
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model,
+    maxTokens: Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : defaults.maxTokens
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  const name = process.env.LLM_PROVIDER || 'anthropic'
+  const provider = PROVIDERS[name]
+
+  if (!provider) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(' or ')})`)
+  }
+
+  return provider
+}
+
+// Run a route's prompt through the configured provider with that route's model settings
+export function completeText(request: LLMRequest): Promise<string> {
+  return getLLMProvider().complete(request, getRouteConfig(request.route))
+}
+
+export function streamText(request: LLMRequest, onText: TextHandler, signal?: AbortSignal): Promise<string> {
+  return getLLMProvider().stream(request, getRouteConfig(request.route), onText, signal)
+}
@@ -0,0 +1,58 @@
+import type { LLMProvider, LLMRoute } from './llm-provider'
+import { WORD_LENGTH } from './game-types'
+import { getAnswerPool } from './word-bank'
+import { getPersonality } from './personality-registry'
+
+// Deterministic offline stand-in for a real model (LLM_PROVIDER=mock).
+// The same prompt always gets the same answer, so dev, CI and tests can exercise
+// every route with no API key or network.
+
+function hashString(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash) + value.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash)
+}
+
+// Pause between streamed words so progressive rendering is visible in dev
+const STREAM_DELAY_MS = 40
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+
+  async stream(request, config, onText, signal) {
+    const text = await mockProvider.complete(request, config)
+    const chunks = text.match(/\S+\s*/g) || []
+
+    for (const chunk of chunks) {
+      if (signal?.aborted) break
+      onText(chunk)
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS))
+    }
+
+    return text
+  },
+
+  async complete({ route, prompt, context = {} }) {
+    const seed = hashString(prompt)
+
+    if (route === 'generate-word' || route === 'word-pool') {
+      const { theme = 'original', wordLength = WORD_LENGTH, excludedWords = [], candidates: count = 1 } = context
+      const pool = getAnswerPool(theme, wordLength)
+      const available = pool.filter(word => !excludedWords.includes(word))
+      const candidates = available.length > 0 ? available : pool
+      // The same JSON shape the word-generation prompt asks a real model for
+      const words = Array.from({ length: Math.min(count, candidates.length) }, (_, i) => candidates[(seed + i) % candidates.length])
+      return JSON.stringify({ words })
+    }
+
+    // Each coach's own fallback lines, so new coaches stay in character here too
+    const { fallbacks } = getPersonality(context.personality)
+    const responses = route === 'get-hint' ? fallbacks.hint
+      : route === 'coaching' ? fallbacks.coaching
+      : context.won === false ? fallbacks.lost : fallbacks.won
+    return responses[seed % responses.length]
+  }
+}
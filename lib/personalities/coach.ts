@@ -0,0 +1,30 @@
+// The shape of a coach data file. Kept apart from the registry so the data files don't import
+// the module that imports them.
+
+export interface CoachPersonality<Id extends string = string> {
+  id: Id
+  // 'Ted Lasso' in the picker, 'Coach Lasso' when crediting a hint
+  name: string
+  title: string
+  emoji: string
+  tagline: string
+  // Tailwind classes for the coach's card when selected - spelled out in full so Tailwind keeps them
+  accent: string
+  // Opens every prompt: who the model is playing
+  systemPrompt: string
+  // House rules for the voice, appended as a bulleted list
+  toneRules: string[]
+  // Said in character when the model can't be reached; the first line of each is the route's
+  // fallback, the rest give the mock provider some variety
+  fallbacks: {
+    hint: string[]
+    coaching: string[]
+    won: string[]
+    lost: string[]
+  }
+}
+
+// Keeps the id's literal type, so the Personality union can be derived from the coach files
+export function defineCoach<Id extends string>(coach: CoachPersonality<Id>): CoachPersonality<Id> {
+  return coach
+}
@@ -0,0 +1,9 @@
+// Generated by scripts/generate-coach-index.js from the coach files in this directory -
+// run `npm run generate:coaches` after adding or removing one rather than editing this list
+import lasso from './lasso'
+import kent from './kent'
+import socratic from './socratic'
+import statsNerd from './stats-nerd'
+
+// Every coach, in picker order (to reorder, move the imports above and regenerate)
+export const COACH_FILES = [lasso, kent, socratic, statsNerd]
@@ -0,0 +1,77 @@
+import { COACH_FILES } from './personalities'
+import type { CoachPersonality } from './personalities/coach'
+
+export type { CoachPersonality } from './personalities/coach'
+
+// Every coach the player can pick. Each one is a single data file in lib/personalities/ -
+// add the file, run `npm run generate:coaches` to list it in COACH_FILES, and the settings,
+// prompts, fallbacks and the Personality type all pick it up.
+
+// A coach id - derived from the data files, so a typo in one is a type error
+export type Personality = typeof COACH_FILES[number]['id']
+
+export const DEFAULT_PERSONALITY: Personality = 'lasso'
+
+// Throws on the first malformed entry, so a broken data file fails at startup rather than mid-game
+function validateCoach(coach: CoachPersonality, seen: Set<string>) {
+  const where = `Coach "${coach?.id}"`
+
+  if (!coach || typeof coach.id !== 'string' || !/^[a-z][a-z0-9-]*$/.test(coach.id)) {
+    throw new Error(`${where}: id must be lowercase letters, numbers and dashes`)
+  }
+  if (seen.has(coach.id)) {
+    throw new Error(`${where}: duplicate id`)
+  }
+  for (const field of ['name', 'title', 'emoji', 'tagline', 'accent', 'systemPrompt'] as const) {
+    if (typeof coach[field] !== 'string' || !coach[field].trim()) {
+      throw new Error(`${where}: ${field} is required`)
+    }
+  }
+  if (!Array.isArray(coach.toneRules) || coach.toneRules.some(rule => typeof rule !== 'string' || !rule.trim())) {
+    throw new Error(`${where}: toneRules must be a list of non-empty strings`)
+  }
+  for (const route of ['hint', 'coaching', 'won', 'lost'] as const) {
+    const lines = coach.fallbacks?.[route]
+    if (!Array.isArray(lines) || lines.length === 0 || lines.some(line => typeof line !== 'string' || !line.trim())) {
+      throw new Error(`${where}: fallbacks.${route} needs at least one line`)
+    }
+  }
+}
+
+function buildRegistry(coaches: CoachPersonality<Personality>[]): Record<Personality, CoachPersonality<Personality>> {
+  const seen = new Set<string>()
+  const registry = {} as Record<Personality, CoachPersonality<Personality>>
+
+  for (const coach of coaches) {
+    validateCoach(coach, seen)
+    seen.add(coach.id)
+    registry[coach.id] = coach
+  }
+
+  if (!registry[DEFAULT_PERSONALITY]) {
+    throw new Error(`The default coach "${DEFAULT_PERSONALITY}" is missing`)
+  }
+
+  return registry
+}
+
+// Validated once, when the module first loads
+const PERSONALITIES = buildRegistry(COACH_FILES)
+
+// In picker order
+export const COACHES: CoachPersonality<Personality>[] = COACH_FILES
+
+export function isPersonality(value: unknown): value is Personality {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERSONALITIES, value)
+}
+
+// Unknown ids (an old save, a hand-edited request) get the default coach
+export function getPersonality(id: unknown): CoachPersonality<Personality> {
+  return isPersonality(id) ? PERSONALITIES[id] : PERSONALITIES[DEFAULT_PERSONALITY]
+}
+
+// The character brief that opens a route's prompt
+export function getPersonalityPrompt(coach: CoachPersonality): string {
+  return `${coach.systemPrompt}
+${coach.toneRules.map(rule => `- ${rule}`).join('\n')}`
+}
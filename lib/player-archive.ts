@@ -0,0 +1,279 @@
+import { GameStats, MAX_GUESSES, MAX_GUESS_LIMIT, MAX_WORD_LENGTH, MIN_GUESS_LIMIT, MIN_WORD_LENGTH, THEMES } from './game-types'
+import { isPersonality } from './personality-registry'
+import { createEmptyStats } from './game-engine'
+import { loadGameStats, saveGameStats } from './utils'
+import { GameHistoryEntry, loadGameHistory, saveGameHistory } from './game-history'
+import { PlayerSettings, loadSettings, parseSettings, saveSettings } from './settings'
+import { DeviceInfo, loadAllDeviceInfo, saveDeviceInfo } from './device-analytics'
+
+// A portable backup of everything ClaudLE keeps in localStorage, so streaks survive a new phone.
+// Archives are versioned JSON with a checksum over the data; importing merges rather than replaces.
+
+const ARCHIVE_FORMAT = 'claudle-archive'
+export const ARCHIVE_VERSION = 1
+// Checksums of archives already merged here, so importing the same file twice can't double the counts
+const IMPORTED_KEY = 'claudle-imported-archives'
+
+export interface PlayerData {
+  stats: GameStats
+  history: GameHistoryEntry[]
+  settings: PlayerSettings | null
+  devices: DeviceInfo[]
+}
+
+export interface PlayerArchive {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+  checksum: string
+  data: PlayerData
+}
+
+// FNV-1a - catches truncated or hand-edited files; it's an integrity check, not a signature
+function checksum(data: PlayerData): string {
+  const text = JSON.stringify(data)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash.toString(16).padStart(8, '0')
+}
+
+export function loadPlayerData(): PlayerData {
+  return {
+    stats: { ...createEmptyStats(), ...loadGameStats() },
+    history: loadGameHistory(),
+    settings: loadSettings(),
+    devices: loadAllDeviceInfo()
+  }
+}
+
+export function createArchive(data: PlayerData = loadPlayerData()): PlayerArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(data),
+    data
+  }
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isStats(value: unknown): value is GameStats {
+  return isObject(value) &&
+    ['gamesPlayed', 'gamesWon', 'currentStreak', 'maxStreak'].every(key => isCount(value[key])) &&
+    Array.isArray(value.guessDistribution) && value.guessDistribution.every(isCount)
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+const HISTORY_MODES = ['ai', 'daily', 'offline']
+const DIFFICULTIES = ['easy', 'medium', 'hard']
+
+// Every field is checked, since entries also arrive from uploaded backups and other devices' syncs
+export function isHistoryEntry(value: unknown): value is GameHistoryEntry {
+  if (!isObject(value)) return false
+  const { wordLength, maxGuesses, customTheme } = value
+  if (!isIntegerInRange(wordLength, MIN_WORD_LENGTH, MAX_WORD_LENGTH) ||
+      !isIntegerInRange(maxGuesses, MIN_GUESS_LIMIT, MAX_GUESS_LIMIT)) {
+    return false
+  }
+
+  const pattern = new RegExp(`^[A-Z]{${wordLength}}$`)
+  const isWord = (word: unknown) => typeof word === 'string' && pattern.test(word)
+
+  return typeof value.startedAt === 'string' && typeof value.finishedAt === 'string' &&
+    isCount(value.durationMs) && HISTORY_MODES.includes(value.mode as string) &&
+    typeof value.theme === 'string' && value.theme in THEMES &&
+    (customTheme === undefined || (isObject(customTheme) && typeof customTheme.name === 'string' && typeof customTheme.icon === 'string')) &&
+    isPersonality(value.personality) && DIFFICULTIES.includes(value.difficulty as string) &&
+    isWord(value.word) && Array.isArray(value.guesses) && value.guesses.length <= maxGuesses && value.guesses.every(isWord) &&
+    isCount(value.hintsUsed) && isCount(value.score) && typeof value.won === 'boolean'
+}
+
+function isDeviceInfo(value: unknown): value is DeviceInfo {
+  return isObject(value) && typeof value.id === 'string' && typeof value.lastSeen === 'string'
+}
+
+// Validate an uploaded file; the error is shown to the player as-is
+export function parseArchive(text: string): { archive: PlayerArchive } | { error: string } {
+  let archive: unknown
+  try {
+    archive = JSON.parse(text)
+  } catch {
+    return { error: 'That file is not a ClaudLE backup.' }
+  }
+
+  if (!isObject(archive) || archive.format !== ARCHIVE_FORMAT || typeof archive.version !== 'number' ||
+    typeof archive.exportedAt !== 'string') {
+    return { error: 'That file is not a ClaudLE backup.' }
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    return { error: 'This backup comes from a newer version of ClaudLE. Update and try again.' }
+  }
+
+  const { data } = archive
+  if (!isObject(data) || !isStats(data.stats) || !Array.isArray(data.history) || !data.history.every(isHistoryEntry) ||
+    !Array.isArray(data.devices) || !data.devices.every(isDeviceInfo)) {
+    return { error: 'This backup is missing data or damaged.' }
+  }
+  // Over the data exactly as uploaded, before any of it is cleaned up
+  if (archive.checksum !== checksum(data as unknown as PlayerData)) {
+    return { error: 'This backup failed its checksum - it may have been edited or cut short.' }
+  }
+
+  const { stats, history, devices, settings } = data
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: archive.version,
+      exportedAt: archive.exportedAt,
+      checksum: archive.checksum,
+      data: { stats, history, devices, settings: settings ? parseSettings(settings) : null }
+    }
+  }
+}
+
+function historyKey(entry: GameHistoryEntry): string {
+  return `${entry.startedAt}|${entry.finishedAt}|${entry.word}`
+}
+
+// Counts gained since base; records (best score, max streak) are carried as-is
+export function subtractStats(stats: GameStats, base: GameStats): GameStats {
+  const diff = (key: keyof GameStats) => Math.max(0, ((stats[key] as number) || 0) - ((base[key] as number) || 0))
+
+  return {
+    gamesPlayed: diff('gamesPlayed'),
+    gamesWon: diff('gamesWon'),
+    currentStreak: stats.currentStreak,
+    maxStreak: stats.maxStreak,
+    guessDistribution: stats.guessDistribution.map((count, i) => Math.max(0, count - (base.guessDistribution[i] || 0))),
+    hardModeGamesPlayed: diff('hardModeGamesPlayed'),
+    hardModeGamesWon: diff('hardModeGamesWon'),
+    hintsUsed: diff('hintsUsed'),
+    totalScore: diff('totalScore'),
+    bestScore: stats.bestScore
+  }
+}
+
+// What a log of games added to the counters, counted the way recordGameResult counts them
+function countHistory(history: GameHistoryEntry[]): GameStats {
+  const stats = createEmptyStats()
+  for (const entry of history) {
+    const isHard = entry.difficulty === 'hard'
+    stats.gamesPlayed++
+    if (entry.won) {
+      stats.gamesWon++
+      while (stats.guessDistribution.length < entry.guesses.length) stats.guessDistribution.push(0)
+      stats.guessDistribution[entry.guesses.length - 1]++
+    }
+    stats.hardModeGamesPlayed = (stats.hardModeGamesPlayed || 0) + (isHard ? 1 : 0)
+    stats.hardModeGamesWon = (stats.hardModeGamesWon || 0) + (isHard && entry.won ? 1 : 0)
+    stats.hintsUsed = (stats.hintsUsed || 0) + entry.hintsUsed
+    stats.totalScore = (stats.totalScore || 0) + entry.score
+  }
+  return stats
+}
+
+// Counts are summed and records keep the best of both
+export function mergeStats(local: GameStats, incoming: GameStats): GameStats {
+  const sum = (key: keyof GameStats) => ((local[key] as number) || 0) + ((incoming[key] as number) || 0)
+  const length = Math.max(local.guessDistribution.length, incoming.guessDistribution.length, MAX_GUESSES)
+
+  return {
+    gamesPlayed: sum('gamesPlayed'),
+    gamesWon: sum('gamesWon'),
+    currentStreak: Math.max(local.currentStreak, incoming.currentStreak),
+    maxStreak: Math.max(local.maxStreak, incoming.maxStreak),
+    guessDistribution: Array.from({ length }, (_, i) => (local.guessDistribution[i] || 0) + (incoming.guessDistribution[i] || 0)),
+    hardModeGamesPlayed: sum('hardModeGamesPlayed'),
+    hardModeGamesWon: sum('hardModeGamesWon'),
+    hintsUsed: sum('hintsUsed'),
+    totalScore: sum('totalScore'),
+    bestScore: Math.max(local.bestScore || 0, incoming.bestScore || 0)
+  }
+}
+
+// Counts come from the merged log, so a game both sides logged is counted once. Games the logs
+// don't hold (played before history was kept, or trimmed from it) only live in each side's
+// counters, so those are carried over. Records keep the best of both.
+function mergeArchivedStats(local: PlayerData, incoming: PlayerData, history: GameHistoryEntry[]): GameStats {
+  const unlogged = mergeStats(
+    subtractStats(local.stats, countHistory(local.history)),
+    subtractStats(incoming.stats, countHistory(incoming.history))
+  )
+  return mergeStats(unlogged, countHistory(history))
+}
+
+// Both logs, oldest first, with a game present on both sides kept once
+export function mergeHistory(local: GameHistoryEntry[], incoming: GameHistoryEntry[]): GameHistoryEntry[] {
+  const history: Record<string, GameHistoryEntry> = {}
+  for (const entry of local.concat(incoming)) {
+    history[historyKey(entry)] = entry
+  }
+
+  return Object.keys(history)
+    .map(key => history[key])
+    .sort((a, b) => a.finishedAt.localeCompare(b.finishedAt))
+}
+
+export function mergePlayerData(local: PlayerData, incoming: PlayerData): PlayerData {
+  // Per device, the most recently seen record wins
+  const devices: Record<string, DeviceInfo> = {}
+  for (const device of local.devices.concat(incoming.devices)) {
+    const existing = devices[device.id]
+    if (!existing || device.lastSeen > existing.lastSeen) devices[device.id] = device
+  }
+
+  const history = mergeHistory(local.history, incoming.history)
+
+  return {
+    stats: mergeArchivedStats(local, incoming, history),
+    history,
+    // This browser's own preferences win; a fresh install adopts the backup's
+    settings: local.settings || incoming.settings,
+    devices: Object.keys(devices).map(id => devices[id])
+  }
+}
+
+function loadImportedChecksums(): string[] {
+  try {
+    const saved = localStorage.getItem(IMPORTED_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+// Merge an archive into this browser's data; returns a player-facing error or null on success
+export function importArchive(archive: PlayerArchive): string | null {
+  const imported = loadImportedChecksums()
+  if (imported.includes(archive.checksum)) {
+    return 'This backup has already been imported here.'
+  }
+
+  const local = loadPlayerData()
+  // Importing this browser's own export would only double its counts
+  if (checksum(local) === archive.checksum) {
+    return 'This backup matches the data already here.'
+  }
+
+  const merged = mergePlayerData(local, archive.data)
+  saveGameStats(merged.stats)
+  saveGameHistory(merged.history)
+  if (merged.settings) saveSettings(merged.settings)
+  merged.devices.forEach(saveDeviceInfo)
+
+  localStorage.setItem(IMPORTED_KEY, JSON.stringify(imported.concat(archive.checksum)))
+  return null
+}
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { GameStats } from './game-types'
+import { GameHistoryEntry } from './game-history'
+import { PlayerSettings } from './settings'
+
+// Server-side storage for synced player profiles.
+// PROFILE_STORE picks the backend: 'file' (one JSON file per profile under PROFILE_STORE_DIR)
+// or 'memory' (lost on restart, for dev/CI). Profile sync is off when it is unset.
+
+export interface StoredProfile {
+  handle: string
+  // scrypt hash of the recovery code - the code itself is only ever shown to the player once
+  recoveryHash: string
+  salt: string
+  stats: GameStats
+  history: GameHistoryEntry[]
+  settings: PlayerSettings | null
+  // ISO timestamps; settingsUpdatedAt decides last-write-wins for settings
+  settingsUpdatedAt: string
+  createdAt: string
+  updatedAt: string
+  // Bumped on every update, so two syncs racing on one profile can't both write (missing = 0)
+  version?: number
+}
+
+// Writes are atomic: a handle is only created once, and an update only lands if nobody else
+// updated the profile since it was read (compare-and-set on version) - callers re-read and retry
+export interface ProfileStore {
+  name: string
+  get(handle: string): Promise<StoredProfile | null>
+  // false if the handle is already taken
+  create(profile: StoredProfile): Promise<boolean>
+  // Stores profile (its version one past expectedVersion); false if the stored version has moved on
+  update(profile: StoredProfile, expectedVersion: number): Promise<boolean>
+}
+
+export function createMemoryProfileStore(): ProfileStore {
+  const profiles = new Map<string, StoredProfile>()
+
+  return {
+    name: 'memory',
+
+    async get(handle) {
+      return profiles.get(handle) || null
+    },
+
+    // No await between the check and the write, so nothing can run in between
+    async create(profile) {
+      if (profiles.has(profile.handle)) return false
+      profiles.set(profile.handle, { ...profile, version: 0 })
+      return true
+    },
+
+    async update(profile, expectedVersion) {
+      if ((profiles.get(profile.handle)?.version || 0) !== expectedVersion) return false
+      profiles.set(profile.handle, { ...profile, version: expectedVersion + 1 })
+      return true
+    }
+  }
+}
+
+// Handles are validated to [a-z0-9_-] before they get here, so they are safe as file names.
+// Updates are read-check-write, so they run one at a time (this store is for a single server)
+export function createFileProfileStore(directory: string): ProfileStore {
+  const fileFor = (handle: string) => path.join(directory, `${handle}.json`)
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const read = async (handle: string): Promise<StoredProfile | null> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(handle), 'utf8')) as StoredProfile
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  // Written to a temp file first, so a crash mid-write never leaves a half-written profile
+  const writeTemp = async (profile: StoredProfile): Promise<string> => {
+    await fs.mkdir(directory, { recursive: true })
+    const temp = `${fileFor(profile.handle)}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(temp, JSON.stringify(profile), 'utf8')
+    return temp
+  }
+
+  const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = queue.then(change)
+    queue = result.catch(() => {})
+    return result
+  }
+
+  return {
+    name: 'file',
+
+    get: read,
+
+    // link() fails if the target exists, so only one create can win - even across processes
+    create: profile => serialized(async () => {
+      const temp = await writeTemp({ ...profile, version: 0 })
+      try {
+        await fs.link(temp, fileFor(profile.handle))
+        return true
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+        throw error
+      } finally {
+        await fs.unlink(temp)
+      }
+    }),
+
+    update: (profile, expectedVersion) => serialized(async () => {
+      const current = await read(profile.handle)
+      if ((current?.version || 0) !== expectedVersion) return false
+      const temp = await writeTemp({ ...profile, version: expectedVersion + 1 })
+      await fs.rename(temp, fileFor(profile.handle))
+      return true
+    })
+  }
+}
+
+const STORES: Record<string, () => ProfileStore> = {
+  file: () => createFileProfileStore(process.env.PROFILE_STORE_DIR || path.join(process.cwd(), '.data', 'profiles')),
+  memory: createMemoryProfileStore
+}
+
+// One store per server process (the memory store would otherwise forget everything per request)
+let store: ProfileStore | null = null
+
+// null when profile sync is disabled
+export function getProfileStore(): ProfileStore | null {
+  const name = process.env.PROFILE_STORE
+  if (!name) return null
+
+  if (!store || store.name !== name) {
+    const create = STORES[name]
+    if (!create) {
+      throw new Error(`Unknown PROFILE_STORE "${name}" (expected ${Object.keys(STORES).join(' or ')})`)
+    }
+    store = create()
+  }
+
+  return store
+}
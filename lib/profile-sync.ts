@@ -0,0 +1,54 @@
+import type { StoredProfile } from './profile-store'
+import { GameStats } from './game-types'
+import { createEmptyStats } from './game-engine'
+import { GameHistoryEntry, MAX_HISTORY_ENTRIES } from './game-history'
+import { mergeHistory, mergeStats, subtractStats } from './player-archive'
+import { PlayerSettings } from './settings'
+
+// Merge rules for /api/profile, shared by the route and the client.
+// A profile is keyed by a player-chosen handle and unlocked with a recovery code - no accounts.
+//
+// - History: union of both logs (the same game is kept once)
+// - Stats: each device uploads what changed since its last sync (a delta), which is added
+//   to the profile, so syncing twice never double-counts; records keep the best of both
+// - Settings: last write wins, by settingsUpdatedAt
+
+export interface SyncPayload {
+  stats: GameStats
+  // Stats as returned by the previous sync from this device, or null on its first sync
+  baseStats: GameStats | null
+  history: GameHistoryEntry[]
+  settings: PlayerSettings | null
+  // When settings last changed on this device (ISO), or null if they haven't since the last sync
+  settingsUpdatedAt: string | null
+}
+
+export type SyncedProfile = Pick<StoredProfile, 'stats' | 'history' | 'settings' | 'settingsUpdatedAt' | 'updatedAt'>
+
+const HANDLE_PATTERN = /^[a-z0-9_-]{3,24}$/
+
+// Handles are case-insensitive; null if the value can't be one
+export function normalizeHandle(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const handle = value.trim().toLowerCase()
+  return HANDLE_PATTERN.test(handle) ? handle : null
+}
+
+export function mergeSync(profile: SyncedProfile, payload: SyncPayload, now = new Date()): SyncedProfile {
+  const delta = subtractStats(payload.stats, payload.baseStats || createEmptyStats())
+  const stats = mergeStats(profile.stats, delta)
+  // The current streak belongs to whichever device played most recently - a lost game on this
+  // device ends it even if the profile's streak is longer, so it is replaced rather than maxed
+  stats.currentStreak = delta.gamesPlayed > 0 ? payload.stats.currentStreak : profile.stats.currentStreak
+
+  const settingsWin = payload.settings !== null &&
+    (profile.settings === null || (payload.settingsUpdatedAt !== null && payload.settingsUpdatedAt > profile.settingsUpdatedAt))
+
+  return {
+    stats,
+    history: mergeHistory(profile.history, payload.history).slice(-MAX_HISTORY_ENTRIES),
+    settings: settingsWin ? payload.settings : profile.settings,
+    settingsUpdatedAt: settingsWin && payload.settingsUpdatedAt ? payload.settingsUpdatedAt : profile.settingsUpdatedAt,
+    updatedAt: now.toISOString()
+  }
+}
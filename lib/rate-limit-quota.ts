@@ -0,0 +1,71 @@
+// The player's AI game allowance, read from the RateLimit-* headers on generate-word responses
+// and kept in localStorage so the start screen can show it before the next request.
+
+const STORAGE_KEY = 'claudle-quota'
+
+export interface Quota {
+  limit: number
+  windowMs: number
+  // When the allowance is full again (ms since epoch)
+  resetAt: number
+}
+
+export interface QuotaStatus {
+  limit: number
+  remaining: number
+  // When the next game becomes available, if none are left right now
+  nextAt: number | null
+  resetAt: number
+}
+
+// null when the response wasn't rate limited (e.g. a route without a limit, or the store was down)
+export function parseQuota(headers: Headers, now = Date.now()): Quota | null {
+  const limit = Number(headers.get('RateLimit-Limit'))
+  const reset = Number(headers.get('RateLimit-Reset'))
+  const window = Number(headers.get('RateLimit-Policy')?.match(/w=(\d+)/)?.[1])
+
+  if (!(limit > 0) || !(window > 0) || !Number.isFinite(reset)) return null
+
+  return { limit, windowMs: window * 1000, resetAt: now + reset * 1000 }
+}
+
+// The allowance refills steadily over the window, so how much is left follows from the time
+// until it is full again
+export function getQuotaStatus(quota: Quota, now = Date.now()): QuotaStatus {
+  const msPerGame = quota.windowMs / quota.limit
+  // Less a second, since the header's seconds are rounded up
+  const untilFull = Math.max(0, quota.resetAt - now - 1000)
+  const remaining = Math.max(0, Math.min(quota.limit, Math.floor(quota.limit - untilFull / msPerGame)))
+
+  return {
+    limit: quota.limit,
+    remaining,
+    nextAt: remaining === 0 ? quota.resetAt - (quota.limit - 1) * msPerGame : null,
+    resetAt: quota.resetAt
+  }
+}
+
+export function loadQuota(): Quota | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : null
+  } catch (error) {
+    console.error('Failed to load quota:', error)
+    return null
+  }
+}
+
+export function saveQuota(quota: Quota) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(quota))
+}
+
+// "4h 12m", "12m 5s", "30s"
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`
+  return `${seconds}s`
+}
@@ -0,0 +1,98 @@
+import { RedisCommand, getUpstashCommand } from './upstash-redis'
+
+// Storage for rate limiter state, shared by the middleware (Edge runtime - no Node APIs here).
+// RATE_LIMIT_STORE picks the backend: 'memory' (default; per instance, lost on cold start) or
+// 'redis' (Upstash's REST API over fetch, shared by every instance).
+
+// A token bucket: tokens left and when they were last topped up (ms since epoch)
+export interface BucketState {
+  tokens: number
+  updatedAt: number
+}
+
+export interface RateLimitStore {
+  name: string
+  get(key: string): Promise<BucketState | null>
+  // ttlMs: after this long untouched the bucket is full again, so the state can be dropped
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>
+}
+
+// Cap on tracked clients per instance, so a flood of distinct IPs can't grow memory without bound
+const MAX_MEMORY_KEYS = 10000
+
+export function createMemoryRateLimitStore(maxKeys = MAX_MEMORY_KEYS): RateLimitStore {
+  const buckets = new Map<string, BucketState & { expiresAt: number }>()
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      const bucket = buckets.get(key)
+      if (!bucket) return null
+      if (Date.now() > bucket.expiresAt) {
+        buckets.delete(key)
+        return null
+      }
+      return { tokens: bucket.tokens, updatedAt: bucket.updatedAt }
+    },
+
+    async set(key, state, ttlMs) {
+      // Re-insert so Map order stays least-recently-used first
+      buckets.delete(key)
+      buckets.set(key, { ...state, expiresAt: Date.now() + ttlMs })
+
+      if (buckets.size > maxKeys) {
+        const now = Date.now()
+        const entries = Array.from(buckets.entries())
+        for (const [staleKey, bucket] of entries) {
+          if (now > bucket.expiresAt) buckets.delete(staleKey)
+        }
+        // Still full of live buckets - evict the least recently used
+        const keys = Array.from(buckets.keys())
+        for (let i = 0; buckets.size > maxKeys; i++) {
+          buckets.delete(keys[i])
+        }
+      }
+    }
+  }
+}
+
+// Redis over Upstash's REST API (see upstash-redis.ts).
+// get/set aren't one atomic step, so concurrent requests from one client can occasionally both
+// spend the last token - fine for cost control.
+export function createRedisRateLimitStore(command: RedisCommand, prefix = 'claudle:ratelimit:'): RateLimitStore {
+  return {
+    name: 'redis',
+
+    async get(key) {
+      const value = await command(['GET', prefix + key])
+      return typeof value === 'string' ? JSON.parse(value) as BucketState : null
+    },
+
+    async set(key, state, ttlMs) {
+      await command(['SET', prefix + key, JSON.stringify(state), 'PX', Math.max(1, Math.ceil(ttlMs))])
+    }
+  }
+}
+
+const STORES: Record<string, () => RateLimitStore> = {
+  memory: () => createMemoryRateLimitStore(),
+  redis: () => createRedisRateLimitStore(getUpstashCommand('RATE_LIMIT_STORE'))
+}
+
+// One store per instance (the memory store would otherwise forget everything per request)
+let store: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  const name = process.env.RATE_LIMIT_STORE || 'memory'
+
+  if (!store || store.name !== name) {
+    const create = STORES[name]
+    if (!create) {
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}" (expected ${Object.keys(STORES).join(' or ')})`)
+    }
+    store = create()
+  }
+
+  return store
+}
@@ -0,0 +1,51 @@
+import { RateLimitStore } from './rate-limit-store'
+
+// Token bucket rate limiting: each client gets maxRequests tokens that refill continuously over
+// windowMinutes, so limits slide with time instead of resetting at fixed window boundaries.
+
+export interface RateLimitRule {
+  maxRequests: number
+  windowMinutes: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  // Whole requests left right now
+  remaining: number
+  // ms until the next request would be allowed (0 when allowed)
+  retryAfterMs: number
+  // ms until the bucket is full again
+  resetMs: number
+}
+
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowMinutes * 60 * 1000
+  const refillPerMs = rule.maxRequests / windowMs
+
+  const saved = await store.get(key)
+  const elapsed = saved ? Math.max(0, now - saved.updatedAt) : 0
+  const available = saved ? Math.min(rule.maxRequests, saved.tokens + elapsed * refillPerMs) : rule.maxRequests
+
+  const allowed = available >= 1
+  const tokens = allowed ? available - 1 : available
+  const resetMs = Math.ceil((rule.maxRequests - tokens) / refillPerMs)
+
+  // Rejected requests aren't saved - they don't cost a token, and the refill is computed from updatedAt
+  if (allowed) {
+    await store.set(key, { tokens, updatedAt: now }, resetMs)
+  }
+
+  return {
+    allowed,
+    limit: rule.maxRequests,
+    remaining: Math.floor(tokens),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    resetMs
+  }
+}
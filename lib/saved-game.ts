@@ -0,0 +1,146 @@
+import { CustomThemeInfo, Difficulty, GuessResult, MAX_GUESS_LIMIT, Personality, ThemeKey, THEMES, TileState, parseGameConfig } from './game-types'
+import { isDateKey } from './daily-puzzle'
+import { isPersonality } from './personality-registry'
+import { parseCustomTheme } from './custom-themes'
+
+// The in-progress game, saved after every change so a reload can resume it.
+// The answer is never stored: AI games keep the server's encrypted session token and
+// daily games are rebuilt from the date, so nothing in localStorage spells out the word.
+
+const STORAGE_KEY = 'claudle-saved-game'
+
+export const SAVED_GAME_VERSION = 2
+
+// Matches the server's session lifetime - older AI saves can't be played anyway
+const SAVED_GAME_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+interface SavedGameBase {
+  version: number
+  theme: ThemeKey
+  personality: Personality
+  difficulty: Difficulty
+  wordLength: number
+  maxGuesses: number
+  guesses: GuessResult[]
+  hintsUsed: number
+  // ISO timestamp, for the game's duration in the history log
+  startedAt: string
+  savedAt: number
+}
+
+// Where the answer lives: the AI game's encrypted session, or the daily puzzle's date
+type SavedGameSource =
+  | { mode: 'ai'; sessionToken: string; usedWords: string[]; customTheme?: CustomThemeInfo }
+  | { mode: 'daily'; date: string }
+
+export type SavedGame = SavedGameBase & SavedGameSource
+
+// A parsed save before it has been checked
+type RawSave = Record<string, unknown>
+
+function isRawSave(value: unknown): value is RawSave {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Upgrades a save from version N to N + 1. Add an entry whenever SavedGame changes shape,
+// so saves written by older builds are carried forward instead of discarded.
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2 added startedAt; the best guess for an older save is when it was last touched
+  1: save => ({ ...save, startedAt: typeof save.savedAt === 'number' ? new Date(save.savedAt).toISOString() : undefined })
+}
+
+function migrate(save: unknown): RawSave | null {
+  if (!isRawSave(save)) return null
+  let current = save
+  while (typeof current.version === 'number' && current.version < SAVED_GAME_VERSION) {
+    const upgrade = MIGRATIONS[current.version]
+    if (!upgrade) return null
+    current = { ...upgrade(current), version: current.version + 1 }
+  }
+  return current
+}
+
+const LETTER_STATES = ['correct', 'present', 'absent', 'empty']
+
+function isTile(value: unknown): value is TileState {
+  if (!isRawSave(value)) return false
+  return typeof value.letter === 'string' && LETTER_STATES.includes(value.state as string)
+}
+
+function isGuessResult(value: unknown): value is GuessResult {
+  if (!isRawSave(value)) return false
+  const { word, tiles } = value
+  return typeof word === 'string' && Array.isArray(tiles) && tiles.length === word.length && tiles.every(isTile)
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+  return value === 'easy' || value === 'medium' || value === 'hard'
+}
+
+// Only accept saves this build understands - anything malformed or from a newer build is dropped
+function validate(save: RawSave | null): SavedGame | null {
+  if (!save || save.version !== SAVED_GAME_VERSION) return null
+  const { theme, personality, difficulty, guesses, hintsUsed, savedAt, startedAt } = save
+  if (typeof theme !== 'string' || !(theme in THEMES) || !isPersonality(personality) || !isDifficulty(difficulty)) return null
+  const config = parseGameConfig({ wordLength: save.wordLength, maxGuesses: save.maxGuesses })
+  if (!config) return null
+  if (!Array.isArray(guesses) || guesses.length > MAX_GUESS_LIMIT || !guesses.every(isGuessResult)) return null
+  if (typeof hintsUsed !== 'number' || typeof savedAt !== 'number' || typeof startedAt !== 'string') return null
+
+  const base: SavedGameBase = {
+    version: SAVED_GAME_VERSION,
+    theme: theme as ThemeKey,
+    personality,
+    difficulty,
+    ...config,
+    guesses,
+    hintsUsed,
+    startedAt,
+    savedAt
+  }
+
+  if (save.mode === 'ai') {
+    const { sessionToken, usedWords } = save
+    if (typeof sessionToken !== 'string' || !Array.isArray(usedWords) || !usedWords.every(word => typeof word === 'string')) return null
+    if (!save.customTheme) return { ...base, mode: 'ai', sessionToken, usedWords }
+
+    const custom = parseCustomTheme(save.customTheme)
+    return 'error' in custom ? null : { ...base, mode: 'ai', sessionToken, usedWords, customTheme: custom.theme }
+  }
+
+  return save.mode === 'daily' && isDateKey(save.date) ? { ...base, mode: 'daily', date: save.date } : null
+}
+
+export function loadSavedGame(): SavedGame | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (!saved) return null
+
+    const game = validate(migrate(JSON.parse(saved)))
+    if (!game || Date.now() - game.savedAt > SAVED_GAME_MAX_AGE_MS) {
+      clearSavedGame()
+      return null
+    }
+
+    return game
+  } catch (error) {
+    console.error('Failed to load saved game:', error)
+    return null
+  }
+}
+
+export function saveGame(game: Omit<SavedGameBase, 'version' | 'savedAt'> & SavedGameSource): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...game, version: SAVED_GAME_VERSION, savedAt: Date.now() }))
+  } catch (error) {
+    console.error('Failed to save game:', error)
+  }
+}
+
+export function clearSavedGame(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    console.error('Failed to clear saved game:', error)
+  }
+}
@@ -0,0 +1,115 @@
+import { getUpstashCommand, RedisCommand } from './upstash-redis'
+
+// Server-side game session state. Every token the server issues carries a fresh nonce, and a
+// token is accepted for a guess only by claiming its nonce here first, along with the response
+// it got - so a kept or replayed token, or two requests racing on the same one, can't fork the
+// game, while a retry whose response was lost can be answered again. Per-session counters (hints
+// taken) live here too, keyed by the session id that every token of a game shares.
+// SESSION_STORE picks the backend: 'memory' (default; per instance) or 'redis' (Upstash REST,
+// shared by every instance - needed once the game runs on more than one server).
+
+export interface SessionStore {
+  name: string
+  // Stores record against the nonce and resolves to null the first time; ever after (until ttlMs
+  // has passed) it resolves to the record the first claim stored
+  claim(nonce: string, record: string, ttlMs: number): Promise<string | null>
+  // Atomically add one to a counter and return the new value
+  increment(key: string, ttlMs: number): Promise<number>
+  // A counter's value, 0 if it was never incremented
+  count(key: string): Promise<number>
+}
+
+export function createMemorySessionStore(): SessionStore {
+  const claimed = new Map<string, { record: string; expiresAt: number }>()
+  const counters = new Map<string, { value: number; expiresAt: number }>()
+
+  return {
+    name: 'memory',
+
+    async claim(nonce, record, ttlMs) {
+      const now = Date.now()
+      const existing = claimed.get(nonce)
+      if (existing && existing.expiresAt > now) return existing.record
+
+      claimed.set(nonce, { record, expiresAt: now + ttlMs })
+
+      // Drop nonces whose tokens have expired anyway, so the map doesn't grow forever
+      if (claimed.size % 1000 === 0) {
+        Array.from(claimed.entries()).forEach(([stale, claim]) => {
+          if (claim.expiresAt <= now) claimed.delete(stale)
+        })
+      }
+
+      return null
+    },
+
+    async increment(key, ttlMs) {
+      const now = Date.now()
+      const current = counters.get(key)
+      const value = current && current.expiresAt > now ? current.value + 1 : 1
+      counters.set(key, { value, expiresAt: current && current.expiresAt > now ? current.expiresAt : now + ttlMs })
+
+      if (counters.size % 1000 === 0) {
+        Array.from(counters.entries()).forEach(([stale, counter]) => {
+          if (counter.expiresAt <= now) counters.delete(stale)
+        })
+      }
+
+      return value
+    },
+
+    async count(key) {
+      const current = counters.get(key)
+      return current && current.expiresAt > Date.now() ? current.value : 0
+    }
+  }
+}
+
+// SET ... NX and INCR are atomic, so concurrent requests can't both claim a token or share a count
+export function createRedisSessionStore(command: RedisCommand, prefix = 'claudle:session:'): SessionStore {
+  return {
+    name: 'redis',
+
+    async claim(nonce, record, ttlMs) {
+      const result = await command(['SET', prefix + nonce, record, 'NX', 'PX', Math.max(1, Math.ceil(ttlMs))])
+      if (result === 'OK') return null
+
+      const existing = await command(['GET', prefix + nonce])
+      return typeof existing === 'string' ? existing : ''
+    },
+
+    async increment(key, ttlMs) {
+      const value = Number(await command(['INCR', prefix + key]))
+      // First increment starts the clock; later ones keep the original expiry
+      if (value === 1) await command(['PEXPIRE', prefix + key, Math.max(1, Math.ceil(ttlMs))])
+      return value
+    },
+
+    async count(key) {
+      const value = await command(['GET', prefix + key])
+      return typeof value === 'string' ? Number(value) || 0 : 0
+    }
+  }
+}
+
+const STORES: Record<string, () => SessionStore> = {
+  memory: createMemorySessionStore,
+  redis: () => createRedisSessionStore(getUpstashCommand('SESSION_STORE'))
+}
+
+// One store per server process (the memory store would otherwise forget everything per request)
+let store: SessionStore | null = null
+
+export function getSessionStore(): SessionStore {
+  const name = process.env.SESSION_STORE || 'memory'
+
+  if (!store || store.name !== name) {
+    const create = STORES[name]
+    if (!create) {
+      throw new Error(`Unknown SESSION_STORE "${name}" (expected ${Object.keys(STORES).join(' or ')})`)
+    }
+    store = create()
+  }
+
+  return store
+}
@@ -0,0 +1,70 @@
+import { DEFAULT_GAME_CONFIG, Personality, THEMES, ThemeKey, parseGameConfig } from './game-types'
+import { DEFAULT_PERSONALITY, isPersonality } from './personality-registry'
+import { isCustomThemeId } from './custom-themes'
+
+// Player preferences from the start screen and settings modal, kept across visits
+
+const STORAGE_KEY = 'claudle-settings'
+
+export interface PlayerSettings {
+  theme: ThemeKey
+  // A player-made theme picked instead of a built-in one (see lib/custom-themes.ts)
+  customThemeId: string | null
+  personality: Personality
+  hardMode: boolean
+  interactiveCoach: boolean
+  useAudioStart: boolean
+  highContrastShare: boolean
+  wordLength: number
+  maxGuesses: number
+}
+
+export const DEFAULT_SETTINGS: PlayerSettings = {
+  theme: 'original',
+  customThemeId: null,
+  personality: DEFAULT_PERSONALITY,
+  hardMode: false,
+  interactiveCoach: false,
+  useAudioStart: true,
+  highContrastShare: false,
+  ...DEFAULT_GAME_CONFIG
+}
+
+// Keep every valid field and fall back to the default for the rest
+export function parseSettings(value: unknown): PlayerSettings | null {
+  if (!value || typeof value !== 'object') return null
+  const settings = value as Partial<Record<keyof PlayerSettings, unknown>>
+  const config = parseGameConfig({ wordLength: settings.wordLength, maxGuesses: settings.maxGuesses }) || DEFAULT_GAME_CONFIG
+  const flag = (key: 'hardMode' | 'interactiveCoach' | 'useAudioStart' | 'highContrastShare') =>
+    typeof settings[key] === 'boolean' ? settings[key] as boolean : DEFAULT_SETTINGS[key]
+
+  return {
+    theme: typeof settings.theme === 'string' && settings.theme in THEMES ? settings.theme as ThemeKey : DEFAULT_SETTINGS.theme,
+    customThemeId: isCustomThemeId(settings.customThemeId) ? settings.customThemeId : null,
+    personality: isPersonality(settings.personality) ? settings.personality : DEFAULT_SETTINGS.personality,
+    hardMode: flag('hardMode'),
+    interactiveCoach: flag('interactiveCoach'),
+    useAudioStart: flag('useAudioStart'),
+    highContrastShare: flag('highContrastShare'),
+    ...config
+  }
+}
+
+// null on a first visit
+export function loadSettings(): PlayerSettings | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? parseSettings(JSON.parse(saved)) : null
+  } catch (error) {
+    console.error('Failed to load settings:', error)
+    return null
+  }
+}
+
+export function saveSettings(settings: PlayerSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Failed to save settings:', error)
+  }
+}
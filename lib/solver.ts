@@ -0,0 +1,140 @@
+import { GuessResult, ThemeKey } from './game-types'
+import { getAnswerWords, getDictionaryWords, THEME_WORDS } from './dictionary'
+import { checkGuess, summarizeClues } from './utils'
+
+// A local, deterministic solver: narrows the word list down to the words that are still
+// consistent with every scored guess and turns that into concrete hints.
+// Used for offline and fallback hints, and to ground the coach's prompt with real numbers.
+
+export interface SolverOptions {
+  wordLength: number
+  theme?: ThemeKey
+  // Words that must be considered even if they are not in the dictionary (e.g. the answer on the server)
+  extraWords?: string[]
+}
+
+export interface LetterFrequency {
+  letter: string
+  // Share of the remaining candidates containing the letter (0-1)
+  share: number
+}
+
+export interface SolverAnalysis {
+  candidateCount: number
+  // A handful of remaining words, for debugging and analysis - never shown to the player
+  candidates: string[]
+  // Letters not yet found, most common among the candidates first
+  topLetters: LetterFrequency[]
+  // Two unknown letters worth testing, with a non-candidate dictionary word that covers both
+  // (never a blocklisted one - it is shown to the player)
+  probe: { letters: string[]; word: string | null } | null
+}
+
+const SAMPLE_SIZE = 10
+
+function getWordPool({ wordLength, theme, extraWords = [] }: SolverOptions): string[] {
+  const themeWords = theme ? THEME_WORDS[theme] || [] : []
+  const pool = new Set(getDictionaryWords(wordLength))
+
+  for (const word of themeWords.concat(extraWords)) {
+    if (word.length === wordLength) pool.add(word.toUpperCase())
+  }
+
+  return Array.from(pool)
+}
+
+// A word is still possible if it would have produced exactly the same tiles for every guess
+export function isConsistent(word: string, results: GuessResult[]): boolean {
+  return results.every(result => {
+    const tiles = checkGuess(result.word, word).tiles
+    return tiles.every((tile, i) => tile.state === result.tiles[i].state)
+  })
+}
+
+export function getCandidates(results: GuessResult[], options: SolverOptions): string[] {
+  return getWordPool(options).filter(word => isConsistent(word, results))
+}
+
+// How often each letter appears in the candidates, skipping letters the player already found
+export function getLetterFrequencies(candidates: string[], results: GuessResult[]): LetterFrequency[] {
+  if (candidates.length === 0) return []
+
+  const clues = summarizeClues(results)
+  const known = new Set([...clues.correctLetters, ...clues.presentLetters].map(c => c.letter))
+  const counts: Record<string, number> = {}
+
+  for (const word of candidates) {
+    for (const letter of Array.from(new Set(word.split('')))) {
+      if (!known.has(letter)) counts[letter] = (counts[letter] || 0) + 1
+    }
+  }
+
+  return Object.keys(counts)
+    .map(letter => ({ letter, share: counts[letter] / candidates.length }))
+    .sort((a, b) => b.share - a.share || a.letter.localeCompare(b.letter))
+}
+
+// Letters worth testing are the ones that split the candidates most evenly
+function pickProbeLetters(frequencies: LetterFrequency[]): string[] {
+  return frequencies
+    .filter(f => f.share < 1)
+    .sort((a, b) => Math.abs(0.5 - a.share) - Math.abs(0.5 - b.share))
+    .slice(0, 2)
+    .map(f => f.letter)
+}
+
+export function analyzeGuesses(results: GuessResult[], options: SolverOptions): SolverAnalysis {
+  const candidates = getCandidates(results, options)
+  const topLetters = getLetterFrequencies(candidates, results)
+  const letters = candidates.length > 1 ? pickProbeLetters(topLetters) : []
+  // The example word is never a candidate itself, so it can't give the answer away
+  const remaining = new Set(candidates)
+  const probe = letters.length === 2
+    ? {
+        letters,
+        word: getAnswerWords(options.wordLength).find(word =>
+          !remaining.has(word) && letters.every(letter => word.includes(letter))
+        ) || null
+      }
+    : null
+
+  return {
+    candidateCount: candidates.length,
+    candidates: candidates.slice(0, SAMPLE_SIZE),
+    topLetters,
+    probe
+  }
+}
+
+function describeShare(share: number): string {
+  if (share === 1) return 'all of the'
+  if (share >= 0.75) return 'most'
+  if (share >= 0.5) return 'over half of the'
+  if (share >= 0.25) return 'about a third of the'
+  return 'a few of the'
+}
+
+// Plain-language facts about the remaining candidates, most useful first
+export function describeAnalysis({ candidateCount, topLetters, probe }: SolverAnalysis): string[] {
+  if (candidateCount === 0) return []
+  if (candidateCount === 1) return ['Only one word fits everything you have found - you can get it!']
+
+  const lines = [`There are ${candidateCount} words left that fit your clues.`]
+
+  const common = topLetters[0]
+  if (common) {
+    lines.push(`The letter ${common.letter} appears in ${describeShare(common.share)} remaining candidates.`)
+  }
+
+  if (probe) {
+    lines.push(`Try a word with ${probe.letters.join(' and ')}${probe.word ? ` (like ${probe.word})` : ''} to narrow it down.`)
+  }
+
+  return lines
+}
+
+// A concrete hint from the solver, or null when it has nothing useful to say
+export function getSolverHint(results: GuessResult[], options: SolverOptions): string | null {
+  const lines = describeAnalysis(analyzeGuesses(results, options))
+  return lines.length > 0 ? lines.join(' ') : null
+}
@@ -0,0 +1,71 @@
+import { LLMRequest, streamText } from './llm-provider'
+
+// Server-Sent Events for streamed Claude responses.
+// Routes keep their JSON contract and switch to a stream only when the caller sends
+// `Accept: text/event-stream`, so rate limits and validation stay on one path.
+//
+// Events:
+//   text  {"text": "..."}          a chunk of generated text
+//   done  {...meta, fallback?}     the response is complete
+
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Stream a route's completion as SSE; if the provider fails before producing any text,
+// the route's fallback text is sent instead so the client always gets an answer
+export function createTextEventStream(
+  request: Request,
+  llmRequest: LLMRequest,
+  { meta = {}, fallback }: { meta?: Record<string, unknown>; fallback: string }
+): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+
+  // Stop generating (and paying for tokens) when the player cancels or navigates away
+  request.signal?.addEventListener('abort', () => abort.abort())
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(formatEvent(event, data)))
+      }
+
+      let sentText = false
+
+      try {
+        await streamText(llmRequest, text => {
+          sentText = true
+          send('text', { text })
+        }, abort.signal)
+
+        send('done', meta)
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error(`Error streaming ${llmRequest.route}:`, error)
+          if (!sentText) send('text', { text: fallback })
+          send('done', { ...meta, fallback: true })
+        }
+      } finally {
+        // A cancelled stream is already closed
+        if (!abort.signal.aborted) controller.close()
+      }
+    },
+
+    cancel() {
+      abort.abort()
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
@@ -0,0 +1,167 @@
+import { Personality, ThemeKey } from './game-types'
+import { GameHistoryEntry } from './game-history'
+import { getDateKey } from './daily-puzzle'
+
+// Turns the game-history log into the breakdowns shown in the stats modal.
+// Everything here is a pure function of the log, so the modal holds no counting logic.
+
+export interface GroupStats<K extends string> {
+  key: K
+  played: number
+  won: number
+  // Whole percent
+  winRate: number
+  // Over won games only; null until one is won
+  averageGuesses: number | null
+  averageScore: number
+  hintsUsed: number
+}
+
+export interface WinRatePoint {
+  // Date key of the first day in the period
+  start: string
+  played: number
+  won: number
+  winRate: number | null
+}
+
+export interface CalendarDay {
+  date: string
+  played: number
+  won: number
+}
+
+// Custom-theme games are grouped by the theme's name rather than under 'original'
+export type HistoryThemeKey = ThemeKey | `custom:${string}`
+
+export interface HistorySummary {
+  byTheme: GroupStats<HistoryThemeKey>[]
+  byPersonality: GroupStats<Personality>[]
+  winRateOverTime: WinRatePoint[]
+  calendar: CalendarDay[]
+  // Consecutive days up to today (or yesterday) with at least one win
+  dailyStreak: number
+  averageDurationMs: number | null
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+// Calendar arithmetic rather than fixed 24h steps, so DST changes never skip or repeat a day
+function daysAgo(now: Date, days: number): Date {
+  const date = new Date(now)
+  date.setDate(date.getDate() - days)
+  return date
+}
+
+export function getHistoryThemeKey(entry: GameHistoryEntry): HistoryThemeKey {
+  return entry.customTheme ? `custom:${entry.customTheme.name}` : entry.theme
+}
+
+// Win rate, average guesses and so on per group, most played first
+function groupBy<K extends string>(history: GameHistoryEntry[], keyOf: (entry: GameHistoryEntry) => K): GroupStats<K>[] {
+  const groups: Record<string, GameHistoryEntry[]> = {}
+  for (const entry of history) {
+    const key = keyOf(entry)
+    groups[key] = groups[key] || []
+    groups[key].push(entry)
+  }
+
+  return Object.keys(groups)
+    .map(key => {
+      const games = groups[key]
+      const wins = games.filter(game => game.won)
+      return {
+        key: key as K,
+        played: games.length,
+        won: wins.length,
+        winRate: percent(wins.length, games.length),
+        averageGuesses: average(wins.map(game => game.guesses.length)),
+        averageScore: Math.round(average(games.map(game => game.score)) || 0),
+        hintsUsed: games.reduce((sum, game) => sum + game.hintsUsed, 0)
+      }
+    })
+    .sort((a, b) => b.played - a.played)
+}
+
+// The same for each built-in theme (custom themes count as 'original') or coach
+export function groupStats<K extends 'theme' | 'personality'>(
+  history: GameHistoryEntry[],
+  field: K
+): GroupStats<GameHistoryEntry[K]>[] {
+  return groupBy(history, entry => entry[field])
+}
+
+// The most played theme or coach, or null with no history
+export function getFavorite<K extends 'theme' | 'personality'>(history: GameHistoryEntry[], field: K): GameHistoryEntry[K] | null {
+  return groupStats(history, field)[0]?.key ?? null
+}
+
+// Win rate per week, oldest first, ending with the current week
+export function getWinRateOverTime(history: GameHistoryEntry[], weeks = 8, now = new Date()): WinRatePoint[] {
+  return Array.from({ length: weeks }, (_, i) => {
+    const weeksBack = weeks - 1 - i
+    const start = getDateKey(daysAgo(now, weeksBack * 7 + 6))
+    const end = getDateKey(daysAgo(now, weeksBack * 7))
+    const games = history.filter(entry => {
+      const date = getDateKey(new Date(entry.finishedAt))
+      return date >= start && date <= end
+    })
+    const won = games.filter(game => game.won).length
+
+    return {
+      start,
+      played: games.length,
+      won,
+      winRate: games.length > 0 ? percent(won, games.length) : null
+    }
+  })
+}
+
+// Games played and won on each of the last `days` days, oldest first
+export function getStreakCalendar(history: GameHistoryEntry[], { days = 28, theme, now = new Date() }: {
+  days?: number
+  theme?: ThemeKey
+  now?: Date
+} = {}): CalendarDay[] {
+  const byDate: Record<string, CalendarDay> = {}
+  for (const entry of history) {
+    if (theme && getHistoryThemeKey(entry) !== theme) continue
+    const date = getDateKey(new Date(entry.finishedAt))
+    const day = byDate[date] = byDate[date] || { date, played: 0, won: 0 }
+    day.played++
+    if (entry.won) day.won++
+  }
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = getDateKey(daysAgo(now, days - 1 - i))
+    return byDate[date] || { date, played: 0, won: 0 }
+  })
+}
+
+// Today doesn't break the streak until it's over
+export function getDailyStreak(calendar: CalendarDay[]): number {
+  let streak = 0
+  for (let i = calendar.length - 1; i >= 0; i--) {
+    if (calendar[i].won > 0) streak++
+    else if (i < calendar.length - 1) break
+  }
+  return streak
+}
+
+export function summarizeHistory(history: GameHistoryEntry[], { theme, now = new Date() }: { theme?: ThemeKey; now?: Date } = {}): HistorySummary {
+  return {
+    byTheme: groupBy(history, getHistoryThemeKey),
+    byPersonality: groupStats(history, 'personality'),
+    winRateOverTime: getWinRateOverTime(history, 8, now),
+    calendar: getStreakCalendar(history, { theme, now }),
+    // Counted over a full year so long streaks aren't cut off at the calendar's edge
+    dailyStreak: getDailyStreak(getStreakCalendar(history, { days: 366, theme, now })),
+    averageDurationMs: average(history.map(entry => entry.durationMs))
+  }
+}
@@ -0,0 +1,36 @@
+// Redis over Upstash's REST API: plain fetch, so it works on the Edge runtime as well as in Node.
+// Shared by the rate limit, session and word pool stores.
+
+// Resolves to the command's reply as JSON - callers check its shape before using it
+export type RedisCommand = (args: (string | number)[]) => Promise<unknown>
+
+export function createUpstashCommand(url: string, token: string): RedisCommand {
+  return async args => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(args)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Redis request failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    if (data.error) throw new Error(`Redis error: ${data.error}`)
+    return data.result
+  }
+}
+
+// UPSTASH_REDIS_REST_URL / _TOKEN; storeVariable names the setting that asked for redis, for the error
+export function getUpstashCommand(storeVariable: string): RedisCommand {
+  const url = process.env.UPSTASH_REDIS_REST_URL
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN
+  if (!url || !token) {
+    throw new Error(`${storeVariable}=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN`)
+  }
+  return createUpstashCommand(url, token)
+}
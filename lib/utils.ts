@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
-import { LetterState, TileState, GuessResult } from './game-types'
+import { LetterState, TileState, GuessResult, GameStats, ThemeKey, WORD_LENGTH, MAX_GUESSES } from './game-types'
+import { isAllowedWord } from './dictionary'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -58,9 +59,46 @@ export function getKeyboardState(guesses: GuessResult[]): Record<string, LetterS
   return keyboardState
 }
 
-export function isValidWord(word: string): boolean {
-  // Basic validation - you might want to add a word list check
-  return /^[A-Z]{5}$/.test(word)
+export interface ClueSummary {
+  absentLetters: string[]
+  correctLetters: Array<{ letter: string; position: number }>
+  presentLetters: Array<{ letter: string; position: number }>
+}
+
+// Collect what the player has learned from scored guesses (positions are 1-based)
+export function summarizeClues(results: GuessResult[]): ClueSummary {
+  const found = new Set<string>()
+  const absent = new Set<string>()
+  const correctLetters: ClueSummary['correctLetters'] = []
+  const presentLetters: ClueSummary['presentLetters'] = []
+
+  for (const result of results) {
+    result.tiles.forEach((tile, i) => {
+      if (tile.state === 'correct') {
+        found.add(tile.letter)
+        if (!correctLetters.some(c => c.letter === tile.letter && c.position === i + 1)) {
+          correctLetters.push({ letter: tile.letter, position: i + 1 })
+        }
+      } else if (tile.state === 'present') {
+        found.add(tile.letter)
+        presentLetters.push({ letter: tile.letter, position: i + 1 })
+      } else if (tile.state === 'absent') {
+        absent.add(tile.letter)
+      }
+    })
+  }
+
+  // A grey tile for a letter that is green/yellow elsewhere only means "no extra copies"
+  return {
+    absentLetters: Array.from(absent).filter(letter => !found.has(letter)),
+    correctLetters,
+    presentLetters
+  }
+}
+
+export function isValidWord(word: string, theme?: ThemeKey, wordLength = WORD_LENGTH): boolean {
+  // Uppercase letters of the game's length that appear in the bundled dictionary (or the theme's allow-list)
+  return word.length === wordLength && /^[A-Z]+$/.test(word) && isAllowedWord(word, theme)
 }
 
 export function formatTime(seconds: number): string {
@@ -69,24 +107,38 @@ export function formatTime(seconds: number): string {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
 }
 
-export function getShareText(guesses: GuessResult[], won: boolean, difficulty: string): string {
+export interface ShareOptions {
+  puzzleNumber?: number
+  themeIcon?: string
+  hintsUsed?: number
+  score?: number
+  maxGuesses?: number
+  wordLength?: number
+  // Orange/blue instead of green/yellow for colour-blind friendly sharing
+  highContrast?: boolean
+}
+
+const SHARE_EMOJI = {
+  standard: { correct: '🟩', present: '🟨', absent: '⬜' },
+  highContrast: { correct: '🟧', present: '🟦', absent: '⬜' }
+}
+
+export function getShareText(guesses: GuessResult[], won: boolean, difficulty: string, options: ShareOptions = {}): string {
+  const { puzzleNumber, themeIcon, hintsUsed = 0, score, maxGuesses = MAX_GUESSES, wordLength = WORD_LENGTH, highContrast = false } = options
   const guessCount = won ? guesses.length : 'X'
-  const maxGuesses = 6
+  const title = `${puzzleNumber ? `ClaudLE #${puzzleNumber}` : 'ClaudLE'}${wordLength !== WORD_LENGTH ? ` ${wordLength}-letter` : ''}`
+  const emoji = highContrast ? SHARE_EMOJI.highContrast : SHARE_EMOJI.standard
 
-  let text = `ClaudLE ${guessCount}/${maxGuesses} (${difficulty})\n\n`
+  let text = `${themeIcon ? `${themeIcon} ` : ''}${title} ${guessCount}/${maxGuesses} (${difficulty})\n`
+  if (hintsUsed > 0) text += `💡 ${hintsUsed} hint${hintsUsed === 1 ? '' : 's'} used\n`
+  if (won && score !== undefined) text += `🏅 Score: ${score}\n`
+  text += '\n'
 
+  // Spoiler-free: only tile states, never letters
   for (const guess of guesses) {
     for (const tile of guess.tiles) {
-      switch (tile.state) {
-        case 'correct':
-          text += '🟩'
-          break
-        case 'present':
-          text += '🟨'
-          break
-        case 'absent':
-          text += '⬜'
-          break
+      if (tile.state !== 'empty') {
+        text += emoji[tile.state]
       }
     }
     text += '\n'
@@ -107,7 +159,24 @@ export async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-export function saveGameStats(stats: any): void {
+// Native share sheet where available (mostly mobile), clipboard everywhere else
+export async function shareText(text: string): Promise<'shared' | 'copied' | 'cancelled' | 'failed'> {
+  if (typeof navigator !== 'undefined' && navigator.share) {
+    try {
+      await navigator.share({ text })
+      return 'shared'
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return 'cancelled'
+      }
+      console.error('Web Share failed, falling back to clipboard:', error)
+    }
+  }
+
+  return (await copyToClipboard(text)) ? 'copied' : 'failed'
+}
+
+export function saveGameStats(stats: GameStats): void {
   try {
     localStorage.setItem('claudle-stats', JSON.stringify(stats))
   } catch (error) {
@@ -115,7 +184,7 @@ export function saveGameStats(stats: any): void {
   }
 }
 
-export function loadGameStats(): any {
+export function loadGameStats(): GameStats {
   try {
     const saved = localStorage.getItem('claudle-stats')
     return saved ? JSON.parse(saved) : {
@@ -123,7 +192,7 @@ export function loadGameStats(): any {
       gamesWon: 0,
       currentStreak: 0,
       maxStreak: 0,
-      guessDistribution: [0, 0, 0, 0, 0, 0]
+      guessDistribution: Array(MAX_GUESSES).fill(0)
     }
   } catch (error) {
     console.error('Failed to load game stats:', error)
@@ -132,7 +201,7 @@ export function loadGameStats(): any {
       gamesWon: 0,
       currentStreak: 0,
       maxStreak: 0,
-      guessDistribution: [0, 0, 0, 0, 0, 0]
+      guessDistribution: Array(MAX_GUESSES).fill(0)
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { OPENING_GUESS, ThemeKey, WORD_LENGTH } from './game-types'
+import { getAnswerWords } from './dictionary'
+
+// Curated, hand-checked answers per theme - the one source for daily puzzles, the mock model,
+// generate-word's fallback and offline games (the service worker reads it from /api/word-bank).
+// Every entry passes isValidWord for its theme, so these work with no API key or network.
+// Daily puzzles walk these lists in order, so editing one changes the daily words too.
+
+// Bump whenever a list changes, so cached copies can tell they are stale
+export const WORD_BANK_VERSION = 2
+
+export const WORD_BANK: Record<ThemeKey, string[]> = {
+  original: [
+    'AUDIO', 'CRANE', 'SLATE', 'HOUSE', 'PLANT', 'BRAVE', 'CLOUD', 'DREAM', 'EARTH', 'FLAME',
+    'GRAPE', 'HEART', 'LIGHT', 'MONEY', 'NIGHT', 'OCEAN', 'PAPER', 'QUIET', 'RIVER', 'SMILE',
+    'TABLE', 'UNITY', 'VOICE', 'WATER', 'YOUTH', 'BREAD', 'CHAIR', 'SHINE', 'TRUST', 'STONE'
+  ],
+  theater: [
+    'STAGE', 'DRAMA', 'ACTOR', 'SCENE', 'PROPS', 'BRAVO', 'FARCE', 'MIMIC', 'OPERA', 'LINES',
+    'ROLES', 'DEBUT', 'WINGS', 'USHER', 'APRON', 'FOLEY', 'SCRIM', 'MASKS', 'COMIC', 'LEADS',
+    'AISLE', 'BOXES', 'SHOWS', 'FLATS', 'CAMEO', 'REVUE', 'PLOTS', 'BOOTH'
+  ],
+  'harry-potter': [
+    'MAGIC', 'WANDS', 'SPELL', 'QUILL', 'BROOM', 'ACCIO', 'LUMOS', 'SNAPE', 'DRACO', 'DOBBY',
+    'GINNY', 'ALBUS', 'SQUIB', 'TONKS', 'LUPIN', 'AUROR', 'CHARM', 'CLOAK', 'OWLET', 'GHOST',
+    'TROLL', 'ELVES', 'GIANT', 'HOUSE', 'CURSE', 'DIARY', 'STAFF', 'WITCH', 'FLEUR'
+  ],
+  disney: [
+    'MOUSE', 'SIMBA', 'ARIEL', 'MOANA', 'DUMBO', 'BAMBI', 'MULAN', 'TIMON', 'JAFAR', 'PLUTO',
+    'ALICE', 'WENDY', 'TIANA', 'GOOFY', 'BELLE', 'DAISY', 'WOODY', 'GENIE', 'PETER', 'DOPEY',
+    'MAGIC', 'DREAM', 'FAIRY', 'ROYAL', 'CROWN', 'TOWER', 'SPELL', 'QUEEN', 'TALES'
+  ],
+  'marine-biology': [
+    'WHALE', 'CORAL', 'SQUID', 'SHARK', 'OTTER', 'KRILL', 'MANTA', 'ORCAS', 'SKATE', 'GUPPY',
+    'PRAWN', 'REEFS', 'TIDES', 'SCUBA', 'ALGAE', 'SNAIL', 'CLAMS', 'CRABS', 'WAVES', 'SEALS',
+    'BRINE', 'DEPTH', 'POLYP', 'LARVA', 'SHOAL', 'SHELL', 'PEARL', 'BEACH'
+  ],
+  'billy-joel': [
+    'PIANO', 'LAURA', 'EDDIE', 'ALEXA', 'MUSIC', 'TEMPO', 'CHORD', 'SCALE', 'BLUES', 'VOCAL',
+    'SHOUT', 'RADIO', 'TUNES', 'NOTES', 'STAGE', 'ALBUM', 'LYRIC', 'SONGS', 'BANDS', 'DRUMS',
+    'GUEST', 'SHOTS', 'RIVER', 'STORM', 'GLASS', 'BRASS', 'BEATS', 'GIRLS', 'DREAM'
+  ],
+  cooking: [
+    'SPICE', 'TAPAS', 'PESTO', 'RAMEN', 'PANKO', 'UMAMI', 'PENNE', 'CREPE', 'CUMIN', 'THYME',
+    'BASIL', 'SAUCE', 'BROTH', 'ROAST', 'GRILL', 'BAKED', 'KNIFE', 'WHISK', 'FLOUR', 'SUGAR',
+    'HONEY', 'LEMON', 'TOAST', 'SUSHI', 'PASTA', 'CURRY', 'SALSA', 'DOUGH', 'STEAK'
+  ],
+  space: [
+    'ORBIT', 'COMET', 'VENUS', 'PLUTO', 'TITAN', 'CERES', 'RIGEL', 'ORION', 'LUNAR', 'ROVER',
+    'STARS', 'SOLAR', 'SPACE', 'PROBE', 'NOVAE', 'MOONS', 'ALIEN', 'DWARF', 'GIANT', 'EARTH',
+    'LIBRA', 'ARIES', 'LASER', 'DENEB', 'MIMAS', 'SAGAN', 'POLAR'
+  ],
+  sports: [
+    'FIELD', 'SCORE', 'COACH', 'RUGBY', 'GOALS', 'TEAMS', 'MATCH', 'PITCH', 'SERVE', 'SKATE',
+    'BOGEY', 'EAGLE', 'RALLY', 'SPORT', 'PUNTS', 'SWING', 'TRACK', 'RELAY', 'MEDAL', 'CATCH',
+    'CHASE', 'FINAL', 'BOXER', 'FENCE', 'DUNKS', 'CYCLE', 'ROWER', 'DERBY', 'BATON'
+  ],
+  nature: [
+    'FLORA', 'FAUNA', 'TAIGA', 'BIOME', 'RIVER', 'PLANT', 'GROVE', 'MOSSY', 'FJORD', 'OCEAN',
+    'STORM', 'CLOUD', 'BLOOM', 'MAPLE', 'CEDAR', 'LEAFY', 'TIGER', 'EAGLE', 'OTTER', 'BIRCH',
+    'CREEK', 'MARSH', 'PETAL', 'SWAMP', 'TREES', 'WOODS', 'CORAL', 'BIRDS', 'FERNS'
+  ]
+}
+
+// Possible answers for a theme and length: the curated list for classic games, the dictionary
+// (minus the blocklist) otherwise - never the opening guess
+export function getAnswerPool(theme: ThemeKey, wordLength: number = WORD_LENGTH): string[] {
+  const pool = wordLength === WORD_LENGTH ? WORD_BANK[theme] : getAnswerWords(wordLength)
+  return pool.filter(word => word !== OPENING_GUESS)
+}
+
+// A random answer the player hasn't had yet; once a pool is used up, any of it will do
+export function pickWord(theme: ThemeKey, usedWords: string[] = [], wordLength: number = WORD_LENGTH): string {
+  const pool = getAnswerPool(theme, wordLength)
+  const available = pool.filter(word => !usedWords.includes(word))
+  const candidates = available.length > 0 ? available : pool
+  return candidates[Math.floor(Math.random() * candidates.length)]
+}
@@ -0,0 +1,27 @@
+// Words the dictionary accepts as guesses but that are never shown to a player - not as an
+// answer, a solver suggestion or a bot's replayed guess. SCOWL includes slurs, profanity and
+// sexual or violent terms; each inflection is listed, since matching parts of words would also
+// catch innocent ones (COCKPIT, SPICE, GRAPE).
+
+const BLOCKED = `
+  NIGGA NIGGAS NIGGAZ NIGGER NIGGERS FAGS FAGGOT FAGGOTS CHINK CHINKS CHINKED CHINKING GOOK GOOKS
+  COON COONS DYKE DYKES DIKE DIKES SPASTIC SPASTICS RETARD RETARDS RETARDED WETBACK WETBACKS
+  REDSKIN REDSKINS SQUAW SQUAWS GYPS GYPPED GYPPING MIDGET MIDGETS CRIPPLE CRIPPLED CRIPPLES
+  QUEER QUEERS SODOMITE SODOMY BIMBO HOOKER HOOKERS HARLOT HARLOTS WHORE WHORES SLUT SLUTS SLUTTISH
+  BITCH BITCHES BITCHED BITCHING BITCHY BITCHIER
+  FUCK FUCKS FUCKED FUCKER FUCKERS FUCKING CUNT CUNTS SHIT SHITS SHITTY SHITTIER SHITTING BULLSHIT
+  PISS PISSED PISSES PISSING ASSHOLE ASSHOLES BASTARD BASTARDS DICK DICKS COCK COCKS PRICK PRICKS
+  PUSSY PUSSIES CRAP CRAPS CRAPPY CRAPPED CRAPPING CRAPPIER GODDAMN TURD TURDS FART FARTS
+  SCUMBAG SCUMBAGS JACKASS
+  PORN PORNO CLIT CLITS CLITORIS CLITORAL PENIS PENISES VAGINA VAGINAE VAGINAL SEMEN SPERM SPERMS
+  ORGASM ORGASMS ORGASMIC ORGY ORGIES FELLATIO BONER BONERS BOOB BOOBS BOOBY BOOBIES TITS CUMS
+  CUMMING SEXPOT SEXPOTS CYBERSEX SEXTING SCROTUM TESTES ANAL ANUS ANUSES ERECTION ERECTILE HORNY NUDES
+  RAPE RAPED RAPES RAPING RAPIST RAPISTS INCEST MOLEST MOLESTS MOLESTED MOLESTER LYNCH LYNCHED
+  LYNCHES LYNCHING GENOCIDE SUICIDE SUICIDES SUICIDAL
+`
+
+const BLOCKED_WORDS = new Set(BLOCKED.split(/\s+/).filter(Boolean))
+
+export function isBlockedWord(word: string): boolean {
+  return BLOCKED_WORDS.has(word.toUpperCase())
+}
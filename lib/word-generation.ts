@@ -0,0 +1,154 @@
+import { OPENING_GUESS, Theme, ThemeKey } from './game-types'
+import { LLMRoute, completeText } from './llm-provider'
+import { isValidWord } from './utils'
+import { pickWord } from './word-bank'
+import { isBlockedWord } from './word-blocklist'
+import { describeThemeForPrompt } from './custom-themes'
+
+// Picks a game's answer with the model: each call asks for several candidates as JSON, the
+// candidates are checked against the dictionary and the player's used words, and calls are
+// retried within a fixed budget before falling back to the curated word bank.
+// generateWordBatch asks once for many words, to fill the word pool (see word-pool.ts).
+
+export const MAX_GENERATION_ATTEMPTS = 3
+export const CANDIDATES_PER_CALL = 5
+// Used words sent by the client end up in the prompt, so only this many (the most recent) are kept
+export const MAX_USED_WORDS = 100
+
+export interface WordGenerationRequest {
+  // The dictionary (and word bank) to check against; 'original' for custom themes
+  theme: ThemeKey
+  // What the prompt describes - a built-in theme or a player's custom one
+  themeData: Theme & { seedWords?: string[] }
+  wordLength: number
+  usedWords: string[]
+}
+
+// Reported back with the word so callers can log how hard it was to get
+export interface WordGenerationMetrics {
+  // Model calls made, including failed ones
+  attempts: number
+  // Words the model proposed across all calls
+  candidates: number
+  // Proposed words that weren't real words of the right length, or were already used
+  rejected: number
+  // Calls that errored or didn't return the expected JSON
+  failedCalls: number
+  // True when the budget ran out and the word came from the word bank
+  fallback: boolean
+}
+
+export interface WordGenerationResult {
+  word: string
+  metrics: WordGenerationMetrics
+}
+
+// The client's used words, cleaned up before they reach a prompt: only A-Z words of the game's
+// length, each once, and at most MAX_USED_WORDS of them. Anything else is dropped, not an error
+export function parseUsedWords(value: unknown, wordLength: number): string[] {
+  if (!Array.isArray(value)) return []
+
+  const words: string[] = []
+  for (const entry of value) {
+    if (typeof entry !== 'string') continue
+    const word = entry.trim().toUpperCase()
+    if (word.length === wordLength && /^[A-Z]+$/.test(word) && !words.includes(word)) words.push(word)
+  }
+
+  return words.slice(-MAX_USED_WORDS)
+}
+
+function buildPrompt({ themeData, wordLength }: WordGenerationRequest, excludedWords: string[], count: number): string {
+  const excludeText = excludedWords.length > 0
+    ? `Do NOT use any of these words: ${excludedWords.join(', ')}.`
+    : ''
+
+  return `Suggest ${count} different ${wordLength}-letter words for a Wordle game with the theme: ${describeThemeForPrompt(themeData)}.
+
+Requirements:
+- Exactly ${wordLength} letters each
+- Uses only standard English alphabet (A-Z)
+- Must be real, common words that players would know
+- Appropriate for the theme
+${excludeText}
+
+Respond with ONLY a JSON object in this exact shape, nothing else:
+{"words": ["WORD", "WORD"]}`
+}
+
+// Read {"words": [...]} from the model's reply, tolerating a code fence or text around it
+export function parseCandidates(text: string): string[] {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new Error('No JSON object in response')
+  }
+
+  const parsed = JSON.parse(text.slice(start, end + 1))
+  if (!Array.isArray(parsed?.words) || !parsed.words.every((word: unknown) => typeof word === 'string')) {
+    throw new Error('Response does not match {"words": string[]}')
+  }
+
+  return parsed.words.map((word: string) => word.trim().toUpperCase())
+}
+
+// One model call's candidates that are real, unused words of the right length, without repeats,
+// blocklisted words or the opening guess
+async function requestWords(route: LLMRoute, request: WordGenerationRequest, excludedWords: string[], count: number) {
+  const { theme, wordLength } = request
+  const candidates = parseCandidates(await completeText({
+    route,
+    prompt: buildPrompt(request, excludedWords, count),
+    context: { theme, wordLength, excludedWords, candidates: count }
+  }))
+
+  const usable = candidates.filter((word, i) =>
+    candidates.indexOf(word) === i && isValidWord(word, theme, wordLength) && !excludedWords.includes(word) &&
+    !isBlockedWord(word) && word !== OPENING_GUESS
+  )
+  return { candidates, usable }
+}
+
+// Ask the model for candidates until one is usable or the attempt budget runs out
+export async function generateWord(request: WordGenerationRequest, maxAttempts = MAX_GENERATION_ATTEMPTS): Promise<WordGenerationResult> {
+  const { theme, wordLength, usedWords } = request
+  const metrics: WordGenerationMetrics = { attempts: 0, candidates: 0, rejected: 0, failedCalls: 0, fallback: false }
+  // Rejected words are excluded from later calls too, so retries don't get the same answers
+  const excludedWords = usedWords.slice()
+
+  while (metrics.attempts < maxAttempts) {
+    metrics.attempts++
+
+    let result: { candidates: string[]; usable: string[] }
+    try {
+      result = await requestWords('generate-word', request, excludedWords, CANDIDATES_PER_CALL)
+    } catch (error) {
+      console.error(`Word generation attempt ${metrics.attempts} failed:`, error)
+      metrics.failedCalls++
+      continue
+    }
+
+    const { candidates, usable } = result
+    metrics.candidates += candidates.length
+    metrics.rejected += candidates.length - usable.length
+
+    if (usable.length > 0) {
+      return { word: usable[Math.floor(Math.random() * usable.length)], metrics }
+    }
+
+    candidates.forEach(word => {
+      if (!excludedWords.includes(word)) excludedWords.push(word)
+    })
+  }
+
+  return {
+    word: pickWord(theme, usedWords, wordLength),
+    metrics: { ...metrics, fallback: true }
+  }
+}
+
+// A single call for up to count words, keeping only the usable ones (usedWords are left out)
+export async function generateWordBatch(request: WordGenerationRequest, count: number): Promise<string[]> {
+  const { usable } = await requestWords('word-pool', request, request.usedWords, count)
+  return usable.slice(0, count)
+}
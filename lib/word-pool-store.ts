@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { RedisCommand, getUpstashCommand } from './upstash-redis'
+
+// Storage for the pre-generated word pools (see word-pool.ts), one set of words per pool.
+// WORD_POOL_STORE picks the backend: 'memory' (default; per instance, empty after a cold start),
+// 'file' (one JSON file per pool under WORD_POOL_STORE_DIR) or 'redis' (Upstash REST, shared by
+// every instance - the one to use on serverless hosts).
+
+export interface WordPoolStore {
+  name: string
+  // An empty list for a pool that hasn't been filled yet
+  get(key: string): Promise<string[]>
+  // Adds the words not already in the pool and returns how many that was
+  add(key: string, words: string[]): Promise<number>
+  // Atomic: true only for the one caller that actually took the word out, so two games
+  // starting at once can never both be handed it
+  remove(key: string, word: string): Promise<boolean>
+}
+
+export function createMemoryWordPoolStore(): WordPoolStore {
+  const pools = new Map<string, Set<string>>()
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      return Array.from(pools.get(key) || [])
+    },
+
+    async add(key, words) {
+      const pool = pools.get(key) || new Set<string>()
+      const before = pool.size
+      words.forEach(word => pool.add(word))
+      pools.set(key, pool)
+      return pool.size - before
+    },
+
+    async remove(key, word) {
+      return pools.get(key)?.delete(word) || false
+    }
+  }
+}
+
+// Pool keys are built from theme keys and word lengths, so they only need ':' made file-safe.
+// Changes are read-modify-write, so they run one at a time (this store is for a single server)
+export function createFileWordPoolStore(directory: string): WordPoolStore {
+  const fileFor = (key: string) => path.join(directory, `${key.replace(/:/g, '-')}.json`)
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const read = async (key: string): Promise<string[]> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as string[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  const write = async (key: string, words: string[]) => {
+    await fs.mkdir(directory, { recursive: true })
+    // Write then rename, so a crash mid-write never leaves a half-written pool
+    const target = fileFor(key)
+    const temp = `${target}.${process.pid}.tmp`
+    await fs.writeFile(temp, JSON.stringify(words), 'utf8')
+    await fs.rename(temp, target)
+  }
+
+  const update = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = queue.then(change)
+    queue = result.catch(() => {})
+    return result
+  }
+
+  return {
+    name: 'file',
+
+    get: read,
+
+    add: (key, words) => update(async () => {
+      const current = await read(key)
+      const fresh = words.filter((word, i) => !current.includes(word) && words.indexOf(word) === i)
+      if (fresh.length > 0) await write(key, current.concat(fresh))
+      return fresh.length
+    }),
+
+    remove: (key, word) => update(async () => {
+      const current = await read(key)
+      if (!current.includes(word)) return false
+      await write(key, current.filter(pooled => pooled !== word))
+      return true
+    })
+  }
+}
+
+// Each pool is a Redis set: SADD and SREM are atomic, and SREM reports whether this call removed the word
+export function createRedisWordPoolStore(command: RedisCommand, prefix = 'claudle:wordpool:set:'): WordPoolStore {
+  return {
+    name: 'redis',
+
+    async get(key) {
+      const members = await command(['SMEMBERS', prefix + key])
+      return Array.isArray(members) ? members.filter((word): word is string => typeof word === 'string') : []
+    },
+
+    async add(key, words) {
+      if (words.length === 0) return 0
+      return Number(await command(['SADD', prefix + key, ...words])) || 0
+    },
+
+    async remove(key, word) {
+      return Number(await command(['SREM', prefix + key, word])) === 1
+    }
+  }
+}
+
+const STORES: Record<string, () => WordPoolStore> = {
+  memory: createMemoryWordPoolStore,
+  file: () => createFileWordPoolStore(process.env.WORD_POOL_STORE_DIR || path.join(process.cwd(), '.data', 'word-pools')),
+  redis: () => createRedisWordPoolStore(getUpstashCommand('WORD_POOL_STORE'))
+}
+
+// One store per server process (the memory store would otherwise forget everything per request)
+let store: WordPoolStore | null = null
+
+export function getWordPoolStore(): WordPoolStore {
+  const name = process.env.WORD_POOL_STORE || 'memory'
+
+  if (!store || store.name !== name) {
+    const create = STORES[name]
+    if (!create) {
+      throw new Error(`Unknown WORD_POOL_STORE "${name}" (expected ${Object.keys(STORES).join(', ')})`)
+    }
+    store = create()
+  }
+
+  return store
+}
@@ -0,0 +1,90 @@
+import { waitUntil } from '@vercel/functions'
+import { THEMES, ThemeKey } from './game-types'
+import { generateWordBatch } from './word-generation'
+import { WordPoolStore } from './word-pool-store'
+
+// Pre-generated answers per built-in theme and word length, so starting a game doesn't wait on
+// the model. generate-word draws a word instantly and, once a pool runs low, tops it up in the
+// background with batched generation calls whose words are checked against the dictionary.
+// Custom themes aren't pooled - their descriptions are per player.
+
+// A refill stops once a pool holds this many words
+export const POOL_TARGET_SIZE = 30
+// Drawing a word that leaves fewer than this starts a refill
+export const REFILL_THRESHOLD = 10
+const WORDS_PER_BATCH = 15
+// Words another request took between reading the pool and removing one are skipped, this many times at most
+const MAX_DRAW_ATTEMPTS = 5
+// Caps the calls one refill can make when the model keeps proposing unusable words
+const MAX_BATCHES_PER_REFILL = 4
+
+function poolKey(theme: ThemeKey, wordLength: number): string {
+  return `${theme}:${wordLength}`
+}
+
+// Pools with a refill in progress in this instance, so a burst of starts only triggers one
+const refilling = new Set<string>()
+
+// Generate words until the pool reaches its target (or the batch budget runs out); returns how many were added
+export async function refillPool(store: WordPoolStore, theme: ThemeKey, wordLength: number): Promise<number> {
+  const key = poolKey(theme, wordLength)
+  const existing = await store.get(key)
+  const added: string[] = []
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_REFILL && existing.length + added.length < POOL_TARGET_SIZE; batch++) {
+    const words = await generateWordBatch({
+      theme,
+      themeData: THEMES[theme],
+      wordLength,
+      usedWords: existing.concat(added)
+    }, Math.min(WORDS_PER_BATCH, POOL_TARGET_SIZE - existing.length - added.length))
+
+    if (words.length === 0) break
+    added.push(...words)
+  }
+
+  // Only new words are added, so words drawn while the batches ran aren't put back
+  return store.add(key, added)
+}
+
+function startRefill(store: WordPoolStore, theme: ThemeKey, wordLength: number) {
+  const key = poolKey(theme, wordLength)
+  if (refilling.has(key)) return
+  refilling.add(key)
+
+  // Not awaited: the game starts now and the refill finishes after the response. waitUntil keeps a
+  // serverless function alive until it does (a long-running server just lets it run)
+  waitUntil(refillPool(store, theme, wordLength)
+    .catch(error => console.error(`Word pool refill for ${key} failed:`, error))
+    .finally(() => refilling.delete(key)))
+}
+
+// Take a word the player hasn't had from the pool, or null when none is ready (the caller
+// then generates one live). Starts a refill whenever the pool is running low
+export async function drawFromPool(store: WordPoolStore, theme: ThemeKey, wordLength: number, usedWords: string[]): Promise<string | null> {
+  const key = poolKey(theme, wordLength)
+  const words = await store.get(key)
+  const available = words.filter(word => !usedWords.includes(word))
+
+  // A word is only ours once remove() says so - a concurrent draw may have taken it first
+  let word: string | null = null
+  for (let attempt = 0; attempt < MAX_DRAW_ATTEMPTS && !word && available.length > 0; attempt++) {
+    const [candidate] = available.splice(Math.floor(Math.random() * available.length), 1)
+    if (await store.remove(key, candidate)) word = candidate
+  }
+
+  if (words.length - (word ? 1 : 0) < REFILL_THRESHOLD) {
+    startRefill(store, theme, wordLength)
+  }
+
+  return word
+}
+
+// Fill every built-in theme's pool for one word length, a theme at a time; returns the words added per theme
+export async function prefillPools(store: WordPoolStore, wordLength: number, themes: ThemeKey[] = Object.keys(THEMES) as ThemeKey[]): Promise<Record<string, number>> {
+  const added: Record<string, number> = {}
+  for (const theme of themes) {
+    added[theme] = await refillPool(store, theme, wordLength)
+  }
+  return added
+}
@@ -1,64 +1,47 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-
-// In-memory rate limiting store (resets on deployment/cold starts)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
-
-// Rate limiting configuration
-const RATE_LIMITS = {
-  '/api/claude/generate-word': { maxRequests: 5, windowMinutes: 60 * 24 }, // 5 games per day
+import { getRateLimitStore } from '@/lib/rate-limit-store'
+import { RateLimitResult, RateLimitRule, consumeRateLimit } from '@/lib/rate-limit'
+
+// Rate limiting configuration - each rule is a token bucket that refills over the window
+// A game costs one generate-word call whatever its word length or guess count;
+// per-guess routes are sized for the longest (10 guess) games
+export const RATE_LIMITS: Record<string, RateLimitRule> = {
+  // Most games start from the pre-generated word pool, so a game costs a fraction of a model call
+  '/api/claude/generate-word': { maxRequests: 20, windowMinutes: 60 * 24 }, // 20 games per day
+  '/api/game/guess': { maxRequests: 300, windowMinutes: 60 }, // 300 guesses (and rejected words) per hour
   '/api/claude/get-hint': { maxRequests: 30, windowMinutes: 60 }, // 30 hints per hour
   '/api/claude/coaching': { maxRequests: 100, windowMinutes: 60 }, // 100 coaching calls per hour
-  '/api/claude/game-over': { maxRequests: 10, windowMinutes: 60 } // 10 game endings per hour
+  '/api/claude/game-over': { maxRequests: 10, windowMinutes: 60 }, // 10 game endings per hour
+  '/api/profile': { maxRequests: 30, windowMinutes: 60 } // 30 profile syncs per hour
 }
 
-function getRateLimitKey(ip: string, path: string): string {
-  const now = new Date()
-  const config = RATE_LIMITS[path as keyof typeof RATE_LIMITS]
-
-  if (!config) return `${ip}-${path}-${now.getTime()}`
-
-  // Create time window buckets
-  const windowMs = config.windowMinutes * 60 * 1000
-  const windowStart = Math.floor(now.getTime() / windowMs) * windowMs
-
-  return `${ip}-${path}-${windowStart}`
-}
-
-function checkRateLimit(ip: string, path: string): { allowed: boolean; remaining: number } {
-  const config = RATE_LIMITS[path as keyof typeof RATE_LIMITS]
-
-  if (!config) {
-    return { allowed: true, remaining: 999 }
-  }
-
-  const key = getRateLimitKey(ip, path)
-  const now = Date.now()
-  const windowMs = config.windowMinutes * 60 * 1000
-
-  const current = rateLimitStore.get(key)
+async function checkRateLimit(ip: string, path: string): Promise<RateLimitResult | null> {
+  const config = RATE_LIMITS[path]
+  if (!config) return null
 
-  if (!current || now > current.resetTime) {
-    // New window or expired
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + windowMs
-    })
-    return { allowed: true, remaining: config.maxRequests - 1 }
+  try {
+    return await consumeRateLimit(getRateLimitStore(), `${ip}:${path}`, config)
+  } catch (error) {
+    // A store outage shouldn't take the game down with it
+    console.error('Rate limit store error:', error)
+    return null
   }
+}
 
-  if (current.count >= config.maxRequests) {
-    return { allowed: false, remaining: 0 }
+// Standard RateLimit-* headers (IETF draft): Reset is seconds until the bucket is full again,
+// and the policy's window lets clients work out when each request comes back
+function rateLimitHeaders(path: string, result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': Math.ceil(result.resetMs / 1000).toString(),
+    'RateLimit-Policy': `${result.limit};w=${RATE_LIMITS[path].windowMinutes * 60}`,
+    'X-RateLimit-Remaining': result.remaining.toString()
   }
-
-  // Increment count
-  current.count++
-  rateLimitStore.set(key, current)
-
-  return { allowed: true, remaining: config.maxRequests - current.count }
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   // Get client IP
   const ip = request.ip ||
     request.headers.get('x-forwarded-for')?.split(',')[0] ||
@@ -73,43 +56,36 @@ export function middleware(request: NextRequest) {
   response.headers.set('Referrer-Policy', 'origin-when-cross-origin')
   response.headers.set('X-XSS-Protection', '1; mode=block')
 
-  // Rate limiting for Claude API routes
-  if (request.nextUrl.pathname.startsWith('/api/claude')) {
-    const { allowed, remaining } = checkRateLimit(ip, request.nextUrl.pathname)
-
-    // Add rate limit headers
-    response.headers.set('X-RateLimit-Remaining', remaining.toString())
-
-    if (!allowed) {
-      const config = RATE_LIMITS[request.nextUrl.pathname as keyof typeof RATE_LIMITS]
-      const retryAfter = config ? config.windowMinutes * 60 : 3600
-
-      return new NextResponse(
-        JSON.stringify({
-          error: 'Rate limit exceeded',
-          message: `Too many requests. Try again later.`,
-          retryAfter
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'Retry-After': retryAfter.toString(),
-            'X-RateLimit-Remaining': '0'
+  // Rate limiting for the Claude routes, guess scoring and profile sync
+  const path = request.nextUrl.pathname
+  if (RATE_LIMITS[path]) {
+    const result = await checkRateLimit(ip, path)
+
+    if (result) {
+      const headers = rateLimitHeaders(path, result)
+
+      if (!result.allowed) {
+        // Time until one request is available again, not the whole window
+        const retryAfter = Math.ceil(result.retryAfterMs / 1000)
+
+        return new NextResponse(
+          JSON.stringify({
+            error: 'Rate limit exceeded',
+            message: `Too many requests. Try again later.`,
+            retryAfter
+          }),
+          {
+            status: 429,
+            headers: {
+              ...headers,
+              'Content-Type': 'application/json',
+              'Retry-After': retryAfter.toString()
+            }
           }
-        }
-      )
-    }
-  }
-
-  // Clean up old entries periodically (basic garbage collection)
-  if (Math.random() < 0.01) { // 1% chance on each request
-    const now = Date.now()
-    const entries = Array.from(rateLimitStore.entries())
-    for (const [key, value] of entries) {
-      if (now > value.resetTime) {
-        rateLimitStore.delete(key)
+        )
       }
+
+      Object.keys(headers).forEach(name => response.headers.set(name, headers[name]))
     }
   }
 
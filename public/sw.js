@@ -1,8 +1,8 @@
 // Minimal service worker for PWA installation
-// Version 1.0 - Basic caching for offline functionality
+// Version 2.0 - Basic caching, plus the shared word bank for offline games
 
-const CACHE_NAME = 'claudle-v1'
-const OFFLINE_CACHE = 'claudle-offline-v1'
+const CACHE_NAME = 'claudle-v2'
+const OFFLINE_CACHE = 'claudle-offline-v2'
 
 // Essential files to cache for offline play
 const CACHE_FILES = [
@@ -12,25 +12,17 @@ const CACHE_FILES = [
   '/icon-512.png'
 ]
 
-// Fallback words for offline play (one per theme)
-const OFFLINE_WORDS = {
-  original: 'AUDIO',
-  theater: 'DRAMA',
-  technology: 'BYTES',
-  cooking: 'SPICE',
-  nature: 'GROVE',
-  sports: 'SCORE',
-  music: 'CHORD',
-  science: 'ATOMS',
-  travel: 'COAST',
-  literature: 'VERSE'
-}
+// The curated word bank from lib/word-bank.ts, cached for offline games
+const WORD_BANK_URL = '/api/word-bank'
 
-// Install event - cache essential files
+// Install event - cache essential files and the word bank
 self.addEventListener('install', event => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then(cache => cache.addAll(CACHE_FILES))
+    Promise.all([
+      caches.open(CACHE_NAME).then(cache => cache.addAll(CACHE_FILES)),
+      // Optional - without it offline games use the client's own dictionary, so it mustn't fail the install
+      refreshWordBank().catch(() => {})
+    ])
       .then(() => self.skipWaiting())
   )
 })
@@ -85,25 +77,58 @@ self.addEventListener('fetch', event => {
   )
 })
 
+// Re-cache the word bank so offline games pick up new words after a deploy. With the server's
+// current version (generate-word's X-Word-Bank-Version header), a cached copy of that version is kept
+async function refreshWordBank(latestVersion) {
+  const cached = await caches.match(WORD_BANK_URL)
+  if (cached && latestVersion) {
+    const { version } = await cached.json().catch(() => ({}))
+    if (String(version) === latestVersion) return
+  }
+
+  const cache = await caches.open(OFFLINE_CACHE)
+  await cache.add(WORD_BANK_URL)
+}
+
+// A random word from the cached bank that isn't in usedWords, or null if there is none to use
+async function pickOfflineWord(theme, usedWords) {
+  const cached = await caches.match(WORD_BANK_URL)
+  if (!cached) return null
+
+  const { words } = await cached.json()
+  const pool = words[theme] || words.original || []
+  const available = pool.filter(word => !usedWords.includes(word))
+  const candidates = available.length > 0 ? available : pool
+  return candidates.length > 0 ? candidates[Math.floor(Math.random() * candidates.length)] : null
+}
+
 // Handle API requests with offline fallbacks
 async function handleApiRequest(request) {
+  // Fetching uses up the request body, and the offline fallback still needs to read it
+  const fallbackRequest = request.clone()
+  const url = new URL(request.url)
+
   try {
     // Try network first
     const response = await fetch(request)
+    const bankVersion = response.headers.get('X-Word-Bank-Version')
+    if (url.pathname.includes('/generate-word') && response.ok && bankVersion) {
+      refreshWordBank(bankVersion).catch(() => {})
+    }
     return response
   } catch (error) {
     // Offline fallbacks
-    const url = new URL(request.url)
 
+    // There's no server to hold the answer, so the client plays this word as a local game.
+    // The bank only covers classic 5-letter words; for other lengths the client picks from its dictionary
     if (url.pathname.includes('/generate-word')) {
-      const body = await request.json().catch(() => ({ theme: 'original' }))
-      const theme = body.theme || 'original'
-      const word = OFFLINE_WORDS[theme] || 'AUDIO'
+      const body = await fallbackRequest.json().catch(() => ({}))
+      const theme = body.customTheme ? 'original' : body.theme || 'original'
+      const classic = !body.wordLength || body.wordLength === 5
+      const word = classic ? await pickOfflineWord(theme, body.usedWords || []).catch(() => null) : null
 
       return new Response(JSON.stringify({
-        word,
-        theme: theme.charAt(0).toUpperCase() + theme.slice(1),
-        difficulty: 'Medium',
+        ...(word && { word }),
         fallback: true,
         offline: true
       }), {
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+const fs = require('fs')
+const path = require('path')
+
+// Writes lib/personalities/index.ts from the coach files in that directory, so adding a coach
+// is adding its file and running `npm run generate:coaches`. Coaches already listed keep their
+// picker order; new files are appended in alphabetical order.
+
+const DIRECTORY = path.join(__dirname, '..', 'lib', 'personalities')
+const INDEX_FILE = path.join(DIRECTORY, 'index.ts')
+// Files in the directory that aren't coaches
+const NOT_COACHES = ['coach', 'index']
+
+function listCoachFiles(directory = DIRECTORY) {
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.ts'))
+    .map(file => file.slice(0, -3))
+    .filter(name => !NOT_COACHES.includes(name))
+    .sort()
+}
+
+// 'stats-nerd' -> 'statsNerd'
+function toIdentifier(name) {
+  return name.replace(/-([a-z0-9])/g, (_, letter) => letter.toUpperCase())
+}
+
+function renderIndex(files, previous = '') {
+  const listed = Array.from(previous.matchAll(/^import \w+ from '\.\/([\w-]+)'$/gm), match => match[1])
+    .filter(name => files.includes(name))
+  const order = listed.concat(files.filter(name => !listed.includes(name)))
+
+  return [
+    '// Generated by scripts/generate-coach-index.js from the coach files in this directory -',
+    '// run `npm run generate:coaches` after adding or removing one rather than editing this list',
+    ...order.map(name => `import ${toIdentifier(name)} from './${name}'`),
+    '',
+    '// Every coach, in picker order (to reorder, move the imports above and regenerate)',
+    `export const COACH_FILES = [${order.map(toIdentifier).join(', ')}]`,
+    ''
+  ].join('\n')
+}
+
+if (require.main === module) {
+  const previous = fs.existsSync(INDEX_FILE) ? fs.readFileSync(INDEX_FILE, 'utf8') : ''
+  fs.writeFileSync(INDEX_FILE, renderIndex(listCoachFiles(), previous))
+  console.log(`Wrote ${path.relative(process.cwd(), INDEX_FILE)}`)
+}
+
+module.exports = { INDEX_FILE, listCoachFiles, renderIndex }